@@ -4,12 +4,18 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { ProfileProvider } from "@/hooks/useProfile";
+import { StudyPreferencesProvider } from "@/hooks/useStudyPreferences";
+import { StudySessionsProvider } from "@/hooks/useStudySessions";
+import { StudySessionRunnerProvider } from "@/hooks/useStudySessionRunner";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Profile from "./pages/Profile";
 import Materias from "./pages/Materias";
 import Calendario from "./pages/Calendario";
 import Sugestoes from "./pages/Sugestoes";
+import Analises from "./pages/Analises";
+import Metas from "./pages/Metas";
 import Notificacoes from "./pages/Notificacoes";
 import NotFound from "./pages/NotFound";
 
@@ -18,23 +24,33 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/perfil" element={<Profile />} />
-            <Route path="/materias" element={<Materias />} />
-            <Route path="/calendario" element={<Calendario />} />
-            <Route path="/sugestoes" element={<Sugestoes />} />
-            <Route path="/notificacoes" element={<Notificacoes />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <ProfileProvider>
+        <StudyPreferencesProvider>
+          <StudySessionsProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <BrowserRouter>
+                <StudySessionRunnerProvider>
+                  <Routes>
+                    <Route path="/" element={<Index />} />
+                    <Route path="/auth" element={<Auth />} />
+                    <Route path="/perfil" element={<Profile />} />
+                    <Route path="/materias" element={<Materias />} />
+                    <Route path="/calendario" element={<Calendario />} />
+                    <Route path="/sugestoes" element={<Sugestoes />} />
+                    <Route path="/analises" element={<Analises />} />
+                    <Route path="/metas" element={<Metas />} />
+                    <Route path="/notificacoes" element={<Notificacoes />} />
+                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </StudySessionRunnerProvider>
+              </BrowserRouter>
+            </TooltipProvider>
+          </StudySessionsProvider>
+        </StudyPreferencesProvider>
+      </ProfileProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
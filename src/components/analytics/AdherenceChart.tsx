@@ -0,0 +1,65 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Target } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { WeeklyAdherence } from '@/lib/analytics';
+import { formatDayLabel } from './chartConfig';
+
+const config: ChartConfig = {
+  planned: { label: 'Planejado (h)', color: 'hsl(var(--chart-2))' },
+  actual: { label: 'Estudado (h)', color: 'hsl(var(--chart-1))' }
+};
+
+const toHours = (minutes: number) => Math.round(minutes / 6) / 10;
+const formatPercent = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+
+interface AdherenceChartProps {
+  weeks: WeeklyAdherence[];
+}
+
+// Planned versus actual study time, with the adherence rate of the period
+export const AdherenceChart = ({ weeks }: AdherenceChartProps) => {
+  const planned = weeks.reduce((total, week) => total + week.plannedMinutes, 0);
+  const actual = weeks.reduce((total, week) => total + week.actualMinutes, 0);
+  const passedBlocks = weeks.reduce((total, week) => total + week.passedBlocks, 0);
+  const completedBlocks = weeks.reduce((total, week) => total + week.completedBlocks, 0);
+  const data = weeks.map(week => ({
+    week: formatDayLabel(week.week),
+    planned: toHours(week.plannedMinutes),
+    actual: toHours(week.actualMinutes)
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Target className="h-4 w-4 text-accent" />
+          Planejado x realizado
+        </CardTitle>
+        <div className="flex gap-4 text-xs text-muted-foreground">
+          <span>Aderência: <strong className="text-foreground">{formatPercent(planned > 0 ? actual / planned : null)}</strong></span>
+          <span>
+            Blocos concluídos: <strong className="text-foreground">{completedBlocks}/{passedBlocks}</strong>
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {planned === 0 && actual === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Nenhum bloco planejado no período.</p>
+        ) : (
+          <ChartContainer config={config} className="h-64 w-full">
+            <BarChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={32} unit="h" />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="planned" fill="var(--color-planned)" radius={4} />
+              <Bar dataKey="actual" fill="var(--color-actual)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
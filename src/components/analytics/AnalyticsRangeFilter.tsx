@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { DateRange } from 'react-day-picker';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AnalyticsPreset, AnalyticsRange } from '@/lib/analytics';
+import { formatDayLabel } from './chartConfig';
+
+interface AnalyticsRangeFilterProps {
+  preset: AnalyticsPreset;
+  range: AnalyticsRange;
+  hasSemester: boolean;
+  onPresetChange: (preset: Exclude<AnalyticsPreset, 'custom'>) => void;
+  onCustomRange: (range: AnalyticsRange) => void;
+}
+
+export const AnalyticsRangeFilter = ({
+  preset,
+  range,
+  hasSemester,
+  onPresetChange,
+  onCustomRange
+}: AnalyticsRangeFilterProps) => {
+  const [selection, setSelection] = useState<DateRange | undefined>();
+
+  const handleSelect = (selected: DateRange | undefined) => {
+    setSelection(selected);
+    if (selected?.from && selected.to) {
+      onCustomRange({ from: format(selected.from, 'yyyy-MM-dd'), to: format(selected.to, 'yyyy-MM-dd') });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={preset === 'custom' ? '' : preset}
+        onValueChange={(value) => value && onPresetChange(value as Exclude<AnalyticsPreset, 'custom'>)}
+      >
+        <ToggleGroupItem value="4w">4 semanas</ToggleGroupItem>
+        <ToggleGroupItem value="12w">12 semanas</ToggleGroupItem>
+        <ToggleGroupItem value="semester" disabled={!hasSemester}>Semestre</ToggleGroupItem>
+      </ToggleGroup>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant={preset === 'custom' ? 'default' : 'outline'} size="sm" className="font-normal">
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {formatDayLabel(range.from)} – {formatDayLabel(range.to)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            selected={selection ?? { from: parseISO(range.from), to: parseISO(range.to) }}
+            onSelect={handleSelect}
+            numberOfMonths={2}
+            initialFocus
+            className="pointer-events-auto"
+            locale={ptBR}
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
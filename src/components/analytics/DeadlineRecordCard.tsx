@@ -0,0 +1,78 @@
+import { parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CheckCircle2, CircleSlash, Flag, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Subject } from '@/hooks/useSubjects';
+import { DeadlineOutcome, DeadlineRecord } from '@/lib/analytics';
+import { formatInTimeZone } from '@/lib/timezone';
+import { cn } from '@/lib/utils';
+
+const OUTCOMES: Record<DeadlineOutcome, { label: string; icon: typeof CheckCircle2; className: string }> = {
+  hit: { label: 'Meta cumprida', icon: CheckCircle2, className: 'text-success' },
+  miss: { label: 'Abaixo da meta', icon: XCircle, className: 'text-destructive' },
+  no_target: { label: 'Sem meta', icon: CircleSlash, className: 'text-muted-foreground' }
+};
+
+const formatHours = (minutes: number) => `${(minutes / 60).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}h`;
+
+interface DeadlineRecordCardProps {
+  records: DeadlineRecord[];
+  subjects: Subject[];
+  prepDays: number;
+  timeZone: string;
+}
+
+// Past deadlines of the period and whether the study before them met the target
+export const DeadlineRecordCard = ({ records, subjects, prepDays, timeZone }: DeadlineRecordCardProps) => {
+  const hits = records.filter(record => record.outcome === 'hit').length;
+  const misses = records.filter(record => record.outcome === 'miss').length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Flag className="h-4 w-4 text-destructive" />
+          Prazos cumpridos
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {hits} cumprido(s) · {misses} abaixo da meta · estudo nos {prepDays} dias anteriores
+        </p>
+      </CardHeader>
+      <CardContent>
+        {records.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Nenhum prazo passou no período.</p>
+        ) : (
+          <ScrollArea className="h-64">
+            <div className="space-y-1 pr-3">
+              {records.map(({ deadline, targetMinutes, studiedMinutes, outcome }) => {
+                const { label, icon: Icon, className } = OUTCOMES[outcome];
+                return (
+                  <div key={deadline.id} className="flex items-center gap-3 rounded-md p-2 hover:bg-muted">
+                    <Icon className={cn('h-4 w-4 shrink-0', className)} />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">{deadline.title}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {subjects.find(s => s.id === deadline.subject_id)?.name ?? 'Matéria removida'} ·{' '}
+                        {formatInTimeZone(parseISO(deadline.start_datetime), timeZone, 'dd/MM', { locale: ptBR })}
+                      </p>
+                    </div>
+                    <div className="shrink-0 text-right">
+                      <Badge variant="outline" className={cn('text-xs', className)}>{label}</Badge>
+                      {outcome !== 'no_target' && (
+                        <p className="mt-0.5 text-xs text-muted-foreground tabular-nums">
+                          {formatHours(studiedMinutes)} / {formatHours(targetMinutes)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,56 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { TrendingUp } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Subject } from '@/hooks/useSubjects';
+import { WeeklyPriority } from '@/lib/analytics';
+import { formatDayLabel, getSubjectChartConfig } from './chartConfig';
+
+interface PriorityTrendChartProps {
+  weeks: WeeklyPriority[];
+  subjects: Subject[];
+}
+
+// Average priority score of each subject in the blocks planned week by week
+export const PriorityTrendChart = ({ weeks, subjects }: PriorityTrendChartProps) => {
+  const ranked = subjects.filter(subject => weeks.some(week => week.scores[subject.id] !== undefined));
+  const config = getSubjectChartConfig(ranked);
+  const data = weeks.map(week => ({ week: formatDayLabel(week.week), ...week.scores }));
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <TrendingUp className="h-4 w-4 text-primary" />
+          Evolução da prioridade
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">Pontuação média das matérias nos blocos planejados</p>
+      </CardHeader>
+      <CardContent>
+        {ranked.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Nenhum bloco planejado com decisão registrada no período.</p>
+        ) : (
+          <ChartContainer config={config} className="h-64 w-full">
+            <LineChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {ranked.map(subject => (
+                <Line
+                  key={subject.id}
+                  dataKey={subject.id}
+                  stroke={`var(--color-${subject.id})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
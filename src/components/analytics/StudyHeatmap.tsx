@@ -0,0 +1,71 @@
+import { Flame } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+// Monday first, as in the weekly charts
+const WEEKDAYS = [
+  { index: 1, label: 'Seg' },
+  { index: 2, label: 'Ter' },
+  { index: 3, label: 'Qua' },
+  { index: 4, label: 'Qui' },
+  { index: 5, label: 'Sex' },
+  { index: 6, label: 'Sáb' },
+  { index: 0, label: 'Dom' }
+];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface StudyHeatmapProps {
+  // Minutes by weekday (0 = Sunday) and hour
+  grid: number[][];
+}
+
+// When in the week study actually happens
+export const StudyHeatmap = ({ grid }: StudyHeatmapProps) => {
+  const max = Math.max(...grid.flat(), 1);
+  const activeHours = HOURS.filter(hour => grid.some(row => row[hour] > 0));
+  const firstHour = Math.min(...activeHours, 8);
+  const lastHour = Math.max(...activeHours, 22);
+  const hours = HOURS.filter(hour => hour >= firstHour && hour <= lastHour);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Flame className="h-4 w-4 text-warning" />
+          Horários de estudo
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <div className="inline-grid gap-0.5" style={{ gridTemplateColumns: `2.5rem repeat(${hours.length}, minmax(1rem, 1fr))` }}>
+          <div />
+          {hours.map(hour => (
+            <div key={hour} className="text-center text-[10px] text-muted-foreground">
+              {hour % 3 === 0 ? hour : ''}
+            </div>
+          ))}
+          {WEEKDAYS.map(({ index, label }) => (
+            <div key={index} className="contents">
+              <div className="pr-1 text-xs text-muted-foreground">{label}</div>
+              {hours.map(hour => {
+                const minutes = grid[index][hour];
+                return (
+                  <Tooltip key={hour}>
+                    <TooltipTrigger asChild>
+                      <div
+                        className="h-4 rounded-sm bg-accent"
+                        style={{ opacity: minutes > 0 ? 0.15 + 0.85 * (minutes / max) : 0.05 }}
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      {label} {hour}h: {minutes} min
+                    </TooltipContent>
+                  </Tooltip>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,52 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Clock } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Subject } from '@/hooks/useSubjects';
+import { WeeklySubjectHours } from '@/lib/analytics';
+import { formatDayLabel, getSubjectChartConfig } from './chartConfig';
+
+interface SubjectHoursChartProps {
+  weeks: WeeklySubjectHours[];
+  subjects: Subject[];
+}
+
+// Logged hours per week, stacked by subject
+export const SubjectHoursChart = ({ weeks, subjects }: SubjectHoursChartProps) => {
+  const studied = subjects.filter(subject => weeks.some(week => week.hours[subject.id]));
+  const config = getSubjectChartConfig(studied);
+  const data = weeks.map(week => ({ week: formatDayLabel(week.week), ...week.hours }));
+  const totalHours = weeks.reduce((total, week) => total + week.total, 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Clock className="h-4 w-4 text-accent" />
+          Horas estudadas por semana
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {totalHours.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} h no período
+        </p>
+      </CardHeader>
+      <CardContent>
+        {studied.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Nenhum tempo de estudo registrado no período.</p>
+        ) : (
+          <ChartContainer config={config} className="h-64 w-full">
+            <BarChart data={data}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={32} unit="h" />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {studied.map(subject => (
+                <Bar key={subject.id} dataKey={subject.id} stackId="hours" fill={`var(--color-${subject.id})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
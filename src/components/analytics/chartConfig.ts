@@ -0,0 +1,14 @@
+import { ChartConfig } from '@/components/ui/chart';
+import { Subject } from '@/hooks/useSubjects';
+
+const CHART_COLORS = 5;
+
+// One series per subject, cycling through the --chart-N colours
+export const getSubjectChartConfig = (subjects: Subject[]): ChartConfig =>
+  Object.fromEntries(subjects.map((subject, index) => [
+    subject.id,
+    { label: subject.name, color: `hsl(var(--chart-${(index % CHART_COLORS) + 1}))` }
+  ]));
+
+// 'yyyy-MM-dd' → 'dd/MM'
+export const formatDayLabel = (day: string) => `${day.slice(8, 10)}/${day.slice(5, 7)}`;
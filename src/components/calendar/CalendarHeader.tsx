@@ -1,7 +1,8 @@
-import { ChevronLeft, ChevronRight, Plus } from 'lucide-react';
+import { ChevronLeft, ChevronRight, History, Loader2, Plus, RefreshCw, ScanSearch } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { format, addDays, addWeeks, addMonths, addYears, subDays, subWeeks, subMonths, subYears } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { getDeviceTimeZone, toZonedTime } from '@/lib/timezone';
 
 export type CalendarView = 'day' | 'week' | 'month' | 'year';
 
@@ -11,6 +12,11 @@ interface CalendarHeaderProps {
   onDateChange: (date: Date) => void;
   onViewChange: (view: CalendarView) => void;
   onAddEvent: () => void;
+  onRegeneratePlan?: () => void;
+  regenerating?: boolean;
+  onDetectFreeTime?: () => void;
+  onShowPlanHistory?: () => void;
+  timeZone?: string;
 }
 
 export const CalendarHeader = ({
@@ -18,7 +24,12 @@ export const CalendarHeader = ({
   view,
   onDateChange,
   onViewChange,
-  onAddEvent
+  onAddEvent,
+  onRegeneratePlan,
+  regenerating,
+  onDetectFreeTime,
+  onShowPlanHistory,
+  timeZone = getDeviceTimeZone()
 }: CalendarHeaderProps) => {
   const handlePrevious = () => {
     switch (view) {
@@ -55,7 +66,7 @@ export const CalendarHeader = ({
   };
 
   const handleToday = () => {
-    onDateChange(new Date());
+    onDateChange(toZonedTime(new Date(), timeZone));
   };
 
   const getTitle = () => {
@@ -111,6 +122,28 @@ export const CalendarHeader = ({
             </button>
           ))}
         </div>
+        {onDetectFreeTime && (
+          <Button onClick={onDetectFreeTime} size="sm" variant="outline">
+            <ScanSearch className="h-4 w-4 mr-1" />
+            Detectar horários
+          </Button>
+        )}
+        {onRegeneratePlan && (
+          <Button onClick={onRegeneratePlan} size="sm" variant="outline" disabled={regenerating}>
+            {regenerating ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-1" />
+            )}
+            Regenerar plano
+          </Button>
+        )}
+        {onShowPlanHistory && (
+          <Button onClick={onShowPlanHistory} size="sm" variant="outline">
+            <History className="h-4 w-4 mr-1" />
+            Histórico
+          </Button>
+        )}
         <Button onClick={onAddEvent} size="sm">
           <Plus className="h-4 w-4 mr-1" />
           Evento
@@ -1,4 +1,4 @@
-import { Brain, Coffee } from 'lucide-react';
+import { Brain, Coffee, GraduationCap } from 'lucide-react';
 
 const LEGEND_ITEMS = [
   { color: 'bg-primary', label: 'Aulas' },
@@ -24,6 +24,12 @@ export const CalendarLegend = () => {
         </div>
         <span className="text-sm text-muted-foreground">Sugestão de Estudo</span>
       </div>
+      <div className="flex items-center gap-2">
+        <div className="w-3 h-3 rounded bg-exam-prep/30 border border-dashed border-exam-prep flex items-center justify-center">
+          <GraduationCap className="w-2 h-2 text-exam-prep" />
+        </div>
+        <span className="text-sm text-muted-foreground">Preparação para Prova</span>
+      </div>
       <div className="flex items-center gap-2">
         <div className="w-3 h-3 rounded bg-muted/40 border border-dashed border-muted-foreground/30 flex items-center justify-center">
           <Coffee className="w-2 h-2 text-muted-foreground" />
@@ -4,9 +4,12 @@ import { CalendarEvent } from '@/hooks/useCalendarEvents';
 import { Subject, SubjectSchedule } from '@/hooks/useSubjects';
 import { StudyBlock } from '@/hooks/useStudySuggestions';
 import { cn } from '@/lib/utils';
-import { Brain, Coffee, XCircle } from 'lucide-react';
+import { Brain, Coffee, XCircle, CheckCircle, RotateCcw, GraduationCap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DecisionTraceDetails } from '@/components/study/DecisionTraceDetails';
+import { getDeviceTimeZone, toZonedTime, zonedDateTimeToUtc } from '@/lib/timezone';
+import { getEventsOnDay } from '@/lib/recurrence';
 
 interface DayViewProps {
   currentDate: Date;
@@ -14,7 +17,10 @@ interface DayViewProps {
   subjects: Subject[];
   studyBlocks?: StudyBlock[];
   onEventClick: (event: CalendarEvent) => void;
-  onDelayStudy?: (subjectId: string) => Promise<boolean>;
+  onDelayStudy?: (subjectId: string, sessionId?: string) => Promise<boolean>;
+  onCompleteStudy?: (block: StudyBlock) => void;
+  // Zone the day is shown in; currentDate holds its wall-clock date
+  timeZone?: string;
 }
 
 const HOURS = Array.from({ length: 24 }, (_, i) => i); // 00:00 to 23:00 (24h view)
@@ -34,8 +40,19 @@ const getEventColor = (eventType: string) => {
   }
 };
 
-export const DayView = ({ currentDate, events, subjects, studyBlocks = [], onEventClick, onDelayStudy }: DayViewProps) => {
+export const DayView = ({
+  currentDate,
+  events,
+  subjects,
+  studyBlocks = [],
+  onEventClick,
+  onDelayStudy,
+  onCompleteStudy,
+  timeZone = getDeviceTimeZone()
+}: DayViewProps) => {
   const dayOfWeek = currentDate.getDay();
+  const day = format(currentDate, 'yyyy-MM-dd');
+  const toZoned = (date: Date | string) => toZonedTime(typeof date === 'string' ? parseISO(date) : date, timeZone);
 
   // Get class events from subjects schedules
   const classEvents: (CalendarEvent & { schedule: SubjectSchedule })[] = subjects.flatMap(subject => 
@@ -48,8 +65,8 @@ export const DayView = ({ currentDate, events, subjects, studyBlocks = [], onEve
         title: subject.name,
         description: subject.professor || undefined,
         event_type: 'class' as const,
-        start_datetime: `${format(currentDate, 'yyyy-MM-dd')}T${schedule.start_time}`,
-        end_datetime: `${format(currentDate, 'yyyy-MM-dd')}T${schedule.end_time}`,
+        start_datetime: zonedDateTimeToUtc(day, schedule.start_time, timeZone).toISOString(),
+        end_datetime: zonedDateTimeToUtc(day, schedule.end_time, timeZone).toISOString(),
         is_recurring: true,
         created_at: subject.created_at,
         updated_at: subject.updated_at,
@@ -57,31 +74,19 @@ export const DayView = ({ currentDate, events, subjects, studyBlocks = [], onEve
       }))
   );
 
-  // Filter user events for this day
-  const dayEvents = events.filter(event => {
-    const eventDate = parseISO(event.start_datetime);
-    if (isSameDay(eventDate, currentDate)) return true;
-    
-    // Check recurring events
-    if (event.is_recurring && event.recurrence_days?.includes(dayOfWeek)) {
-      const recurrenceEnd = event.recurrence_end_date ? parseISO(event.recurrence_end_date) : null;
-      if (recurrenceEnd && currentDate > recurrenceEnd) return false;
-      return true;
-    }
-    
-    return false;
-  });
+  // User events for this day, recurring ones expanded in the profile's zone
+  const dayEvents = getEventsOnDay(events, day, timeZone);
 
   const allEvents = [...classEvents, ...dayEvents];
 
   // Filter study blocks for this day
   const dayStudyBlocks = studyBlocks.filter(block => 
-    isSameDay(block.startTime, currentDate)
+    isSameDay(toZoned(block.startTime), currentDate)
   );
 
   const getEventPosition = (event: CalendarEvent) => {
-    const startTime = parseISO(event.start_datetime);
-    const endTime = event.end_datetime ? parseISO(event.end_datetime) : startTime;
+    const startTime = toZoned(event.start_datetime);
+    const endTime = event.end_datetime ? toZoned(event.end_datetime) : startTime;
     
     const startHour = startTime.getHours() + startTime.getMinutes() / 60;
     const endHour = endTime.getHours() + endTime.getMinutes() / 60;
@@ -94,8 +99,10 @@ export const DayView = ({ currentDate, events, subjects, studyBlocks = [], onEve
   };
 
   const getBlockPosition = (block: StudyBlock) => {
-    const startHour = block.startTime.getHours() + block.startTime.getMinutes() / 60;
-    const endHour = block.endTime.getHours() + block.endTime.getMinutes() / 60;
+    const startTime = toZoned(block.startTime);
+    const endTime = toZoned(block.endTime);
+    const startHour = startTime.getHours() + startTime.getMinutes() / 60;
+    const endHour = endTime.getHours() + endTime.getMinutes() / 60;
     
     // 24h view: divide by 24 hours
     const top = (startHour / 24) * 100;
@@ -153,70 +160,106 @@ export const DayView = ({ currentDate, events, subjects, studyBlocks = [], onEve
                   <div className="text-xs opacity-75 truncate">{event.description}</div>
                 )}
                 <div className="text-xs opacity-75">
-                  {format(parseISO(event.start_datetime), 'HH:mm')}
-                  {event.end_datetime && ` - ${format(parseISO(event.end_datetime), 'HH:mm')}`}
+                  {format(toZoned(event.start_datetime), 'HH:mm')}
+                  {event.end_datetime && ` - ${format(toZoned(event.end_datetime), 'HH:mm')}`}
                 </div>
               </div>
             );
           })}
 
           {/* Study Blocks (Suggested) */}
-          <TooltipProvider>
-            {dayStudyBlocks.map(block => {
-              const position = getBlockPosition(block);
-              return (
-                <Tooltip key={block.id}>
-                  <TooltipTrigger asChild>
-                    <div
-                      className={cn(
-                        "absolute left-0 right-0 p-2 rounded border-l-4 overflow-hidden",
-                        "border-dashed border-2 animate-pulse",
-                        block.isBreak 
-                          ? "bg-muted/40 border-muted-foreground/30 text-muted-foreground"
+          {dayStudyBlocks.map(block => {
+            const position = getBlockPosition(block);
+            return (
+              <Popover key={block.id}>
+                <PopoverTrigger asChild>
+                  <div
+                    className={cn(
+                      "absolute left-0 right-0 p-2 rounded border-l-4 overflow-hidden",
+                      "border-dashed border-2 cursor-pointer",
+                      (!block.status || block.status === 'planned') && "animate-pulse",
+                      block.status === 'completed' && "opacity-60",
+                      block.status === 'skipped' && "opacity-40 line-through",
+                      block.status === 'missed' && "opacity-40",
+                      block.isBreak 
+                        ? "bg-muted/40 border-muted-foreground/30 text-muted-foreground"
+                        : block.examPrepPlanId
+                          ? "bg-exam-prep/30 border-exam-prep text-exam-prep"
                           : "bg-accent/30 border-accent text-accent-foreground"
+                    )}
+                    style={position}
+                  >
+                    <div className="flex items-center gap-1.5">
+                      {block.isBreak ? (
+                        <Coffee className="w-3 h-3 shrink-0" />
+                      ) : block.reviewItemId ? (
+                        <RotateCcw className="w-3 h-3 shrink-0" />
+                      ) : block.examPrepPlanId ? (
+                        <GraduationCap className="w-3 h-3 shrink-0" />
+                      ) : (
+                        <Brain className="w-3 h-3 shrink-0" />
                       )}
-                      style={position}
-                    >
-                      <div className="flex items-center gap-1.5">
-                        {block.isBreak ? (
-                          <Coffee className="w-3 h-3 shrink-0" />
-                        ) : (
-                          <Brain className="w-3 h-3 shrink-0" />
-                        )}
-                        <span className="font-medium text-xs truncate">
-                          {block.isBreak ? 'Pausa' : block.subject.name}
-                        </span>
-                      </div>
-                      <div className="text-xs opacity-75 mt-0.5">
-                        {format(block.startTime, 'HH:mm')} - {format(block.endTime, 'HH:mm')}
-                      </div>
-                      {!block.isBreak && onDelayStudy && (
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            onDelayStudy(block.subject.id);
-                          }}
-                          className="absolute top-1 right-1 h-5 w-5 p-0 opacity-60 hover:opacity-100"
-                        >
-                          <XCircle className="w-3 h-3" />
-                        </Button>
-                      )}
+                      <span className="font-medium text-xs truncate">
+                        {block.isBreak ? 'Pausa' : block.subject.name}
+                        {block.reviewItemId && ` · Revisão${block.reviewTopic ? `: ${block.reviewTopic}` : ''}`}
+                        {block.carriedFromSessionId && ' · Reposição'}
+                        {block.examPrepPlanId && !block.isBreak && ` · ${block.prepTopic ?? 'Revisão geral'}`}
+                      </span>
                     </div>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p className="font-medium">{block.isBreak ? 'Pausa sugerida' : 'Estudo sugerido'}</p>
-                    {!block.isBreak && (
-                      <p className="text-xs text-muted-foreground">
-                        Clique no X para marcar como "Não consegui"
-                      </p>
+                    <div className="text-xs opacity-75 mt-0.5">
+                      {format(toZoned(block.startTime), 'HH:mm')} - {format(toZoned(block.endTime), 'HH:mm')}
+                    </div>
+                    {!block.isBreak && onDelayStudy && block.status !== 'skipped' && block.status !== 'completed' && block.status !== 'missed' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDelayStudy(block.subject.id, block.sessionId);
+                        }}
+                        className="absolute top-1 right-1 h-5 w-5 p-0 opacity-60 hover:opacity-100"
+                      >
+                        <XCircle className="w-3 h-3" />
+                      </Button>
                     )}
-                  </TooltipContent>
-                </Tooltip>
-              );
-            })}
-          </TooltipProvider>
+                    {!block.isBreak && onCompleteStudy && block.sessionId && block.status !== 'skipped' && block.status !== 'completed' && block.status !== 'missed' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onCompleteStudy(block);
+                        }}
+                        className="absolute top-1 right-7 h-5 w-5 p-0 opacity-60 hover:opacity-100"
+                      >
+                        <CheckCircle className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </PopoverTrigger>
+                <PopoverContent className="w-80">
+                  {block.trace ? (
+                    <DecisionTraceDetails trace={block.trace} />
+                  ) : (
+                    <>
+                      <p className="font-medium">
+                        {block.isBreak
+                          ? 'Pausa sugerida'
+                          : block.reviewItemId
+                            ? 'Revisão sugerida'
+                            : block.examPrepPlanId ? 'Preparação para prova' : 'Estudo sugerido'}
+                      </p>
+                      {!block.isBreak && (
+                        <p className="text-xs text-muted-foreground">
+                          Clique no ✓ para concluir ou no X para marcar como "Não consegui"
+                        </p>
+                      )}
+                    </>
+                  )}
+                </PopoverContent>
+              </Popover>
+            );
+          })}
         </div>
       </div>
     </div>
@@ -10,11 +10,12 @@ import { Switch } from '@/components/ui/switch';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { CalendarIcon, Loader2, Sparkles, BookOpen, Trash2 } from 'lucide-react';
-import { CalendarEvent, CreateEventData, EventType } from '@/hooks/useCalendarEvents';
+import { CalendarIcon, Loader2, Sparkles, BookOpen, Trash2, GraduationCap } from 'lucide-react';
+import { CalendarEvent, CreateEventData, DEADLINE_KIND_LABELS, DeadlineKind, EventType } from '@/hooks/useCalendarEvents';
 import { Subject } from '@/hooks/useSubjects';
+import { getDeviceTimeZone, toZonedTime, zonedDateTimeToUtc } from '@/lib/timezone';
 
 interface EventFormDialogProps {
   open: boolean;
@@ -23,7 +24,11 @@ interface EventFormDialogProps {
   subjects: Subject[];
   onSubmit: (data: CreateEventData) => Promise<boolean>;
   onDelete?: (eventId: string) => Promise<boolean>;
+  // Opens the exam preparation of a saved prova
+  onExamPrep?: (event: CalendarEvent) => void;
   defaultDate?: Date;
+  // Zone in which the date and times are entered
+  timeZone?: string;
 }
 
 const EVENT_TYPES = [
@@ -51,7 +56,9 @@ export const EventFormDialog = ({
   subjects,
   onSubmit,
   onDelete,
-  defaultDate
+  onExamPrep,
+  defaultDate,
+  timeZone = getDeviceTimeZone()
 }: EventFormDialogProps) => {
   const [loading, setLoading] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState(false);
@@ -59,6 +66,8 @@ export const EventFormDialog = ({
   const [description, setDescription] = useState('');
   const [eventType, setEventType] = useState<EventType>('occupied');
   const [subjectId, setSubjectId] = useState<string>('');
+  const [effortHours, setEffortHours] = useState('');
+  const [deadlineKind, setDeadlineKind] = useState<DeadlineKind>('prova');
   const [startDate, setStartDate] = useState<Date | undefined>(defaultDate || new Date());
   const [startTime, setStartTime] = useState('08:00');
   const [endTime, setEndTime] = useState('09:00');
@@ -75,16 +84,18 @@ export const EventFormDialog = ({
       setDescription(event.description || '');
       setEventType(event.event_type);
       setSubjectId(event.subject_id || '');
-      const eventDate = new Date(event.start_datetime);
+      setEffortHours(event.estimated_effort_hours ? String(event.estimated_effort_hours) : '');
+      setDeadlineKind(event.deadline_kind || 'prova');
+      const eventDate = toZonedTime(parseISO(event.start_datetime), timeZone);
       setStartDate(eventDate);
       setStartTime(format(eventDate, 'HH:mm'));
       if (event.end_datetime) {
-        setEndTime(format(new Date(event.end_datetime), 'HH:mm'));
+        setEndTime(format(toZonedTime(parseISO(event.end_datetime), timeZone), 'HH:mm'));
       }
       setIsRecurring(event.is_recurring);
       setRecurrenceDays(event.recurrence_days || []);
       if (event.recurrence_end_date) {
-        setRecurrenceEndDate(new Date(event.recurrence_end_date));
+        setRecurrenceEndDate(parseISO(event.recurrence_end_date));
       }
       // Set study mode based on whether subject is assigned
       setStudyMode(event.subject_id ? 'manual' : 'ai');
@@ -93,7 +104,9 @@ export const EventFormDialog = ({
       setDescription('');
       setEventType('occupied');
       setSubjectId('');
-      setStartDate(defaultDate || new Date());
+      setEffortHours('');
+      setDeadlineKind('prova');
+      setStartDate(defaultDate || toZonedTime(new Date(), timeZone));
       setStartTime('08:00');
       setEndTime('09:00');
       setIsRecurring(false);
@@ -101,7 +114,7 @@ export const EventFormDialog = ({
       setRecurrenceEndDate(undefined);
       setStudyMode('ai');
     }
-  }, [event, defaultDate, open]);
+  }, [event, defaultDate, open, timeZone]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -109,14 +122,10 @@ export const EventFormDialog = ({
 
     setLoading(true);
     try {
-      const [startHour, startMin] = startTime.split(':').map(Number);
-      const [endHour, endMin] = endTime.split(':').map(Number);
-
-      const startDatetime = new Date(startDate);
-      startDatetime.setHours(startHour, startMin, 0, 0);
-
-      const endDatetime = new Date(startDate);
-      endDatetime.setHours(endHour, endMin, 0, 0);
+      // The picked day and times are wall-clock values in the user's zone
+      const day = format(startDate, 'yyyy-MM-dd');
+      const startDatetime = zonedDateTimeToUtc(day, startTime, timeZone);
+      const endDatetime = zonedDateTimeToUtc(day, endTime, timeZone);
 
       // For free_study events, only set subject_id if manual mode
       const effectiveSubjectId = eventType === 'free_study' 
@@ -128,6 +137,8 @@ export const EventFormDialog = ({
         description: description || undefined,
         event_type: eventType,
         subject_id: effectiveSubjectId,
+        estimated_effort_hours: eventType === 'deadline' && Number(effortHours) > 0 ? Number(effortHours) : null,
+        deadline_kind: eventType === 'deadline' ? deadlineKind : null,
         start_datetime: startDatetime.toISOString(),
         end_datetime: endDatetime.toISOString(),
         is_recurring: isRecurring,
@@ -285,6 +296,45 @@ export const EventFormDialog = ({
             </div>
           )}
 
+          {eventType === 'deadline' && (
+            <div className="space-y-2">
+              <Label htmlFor="deadlineKind">Tipo de prazo</Label>
+              <Select value={deadlineKind} onValueChange={(v) => setDeadlineKind(v as DeadlineKind)}>
+                <SelectTrigger id="deadlineKind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DEADLINE_KIND_LABELS) as DeadlineKind[]).map(kind => (
+                    <SelectItem key={kind} value={kind}>
+                      {DEADLINE_KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Provas ganham urgência uma semana antes; listas, só nos últimos dois dias.
+              </p>
+            </div>
+          )}
+
+          {eventType === 'deadline' && (
+            <div className="space-y-2">
+              <Label htmlFor="effortHours">Esforço estimado (horas)</Label>
+              <Input
+                id="effortHours"
+                type="number"
+                min="0"
+                step="0.5"
+                value={effortHours}
+                onChange={(e) => setEffortHours(e.target.value)}
+                placeholder="Ex: 6"
+              />
+              <p className="text-xs text-muted-foreground">
+                Horas de estudo que ainda faltam. O planejador reserva horários livres antes do prazo.
+              </p>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="description">Descrição</Label>
             <Textarea
@@ -414,22 +464,30 @@ export const EventFormDialog = ({
           )}
 
           <div className="flex justify-between pt-4">
-            {/* Delete button - only show when editing */}
-            {event && onDelete && (
-              <Button 
-                type="button" 
-                variant="destructive" 
-                onClick={handleDelete}
-                disabled={deleteLoading}
-              >
-                {deleteLoading ? (
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                ) : (
-                  <Trash2 className="mr-2 h-4 w-4" />
-                )}
-                Excluir
-              </Button>
-            )}
+            <div className="flex gap-2">
+              {/* Delete button - only show when editing */}
+              {event && onDelete && (
+                <Button 
+                  type="button" 
+                  variant="destructive" 
+                  onClick={handleDelete}
+                  disabled={deleteLoading}
+                >
+                  {deleteLoading ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Trash2 className="mr-2 h-4 w-4" />
+                  )}
+                  Excluir
+                </Button>
+              )}
+              {event && onExamPrep && event.event_type === 'deadline' && (event.deadline_kind ?? 'prova') === 'prova' && (
+                <Button type="button" variant="outline" onClick={() => onExamPrep(event)}>
+                  <GraduationCap className="mr-2 h-4 w-4" />
+                  Modo preparação
+                </Button>
+              )}
+            </div>
             
             <div className="flex gap-2 ml-auto">
               <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
@@ -0,0 +1,238 @@
+import { useState, useEffect, useMemo } from 'react';
+import { parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { z } from 'zod';
+import { AlertTriangle, GraduationCap, Loader2, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CalendarEvent } from '@/hooks/useCalendarEvents';
+import { Subject } from '@/hooks/useSubjects';
+import { ReviewItem } from '@/hooks/useReviewItems';
+import { useStudyPreferences } from '@/hooks/useStudyPreferences';
+import { ExamPrepIntensity, ExamPrepPlan, ExamPrepRecord } from '@/hooks/useExamPrepPlans';
+import { buildExamPrepPlan } from '@/lib/planner';
+import { examPrepSchema } from '@/lib/validations';
+import { formatInTimeZone, getDeviceTimeZone, zonedDateTimeToUtc } from '@/lib/timezone';
+import { cn } from '@/lib/utils';
+
+const INTENSITY_LABELS: Record<ExamPrepIntensity, string> = {
+  light: 'Leve',
+  moderate: 'Moderado',
+  high: 'Intenso',
+  peak: 'Reta final'
+};
+
+const INTENSITY_STYLES: Record<ExamPrepIntensity, string> = {
+  light: 'bg-muted text-muted-foreground',
+  moderate: 'bg-exam-prep/20 text-exam-prep',
+  high: 'bg-exam-prep/40 text-exam-prep',
+  peak: 'bg-exam-prep text-exam-prep-foreground'
+};
+
+// One topic per line, without blanks or repeats
+const parseTopics = (text: string) =>
+  [...new Set(text.split('\n').map(line => line.trim()).filter(Boolean))];
+
+interface ExamPrepDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deadline: CalendarEvent | null;
+  subjects: Subject[];
+  freeSlots: CalendarEvent[];
+  reviewItems: ReviewItem[];
+  // Preparation already running for the deadline
+  activePlan?: ExamPrepRecord;
+  onCreate: (plan: ExamPrepPlan, topics: string[]) => Promise<boolean>;
+  onCancel: (plan: ExamPrepRecord) => Promise<boolean>;
+  timeZone?: string;
+}
+
+// "Modo preparação": a day-by-day revision schedule until a prova
+export const ExamPrepDialog = ({
+  open,
+  onOpenChange,
+  deadline,
+  subjects,
+  freeSlots,
+  reviewItems,
+  activePlan,
+  onCreate,
+  onCancel,
+  timeZone = getDeviceTimeZone()
+}: ExamPrepDialogProps) => {
+  const { plannerConfig } = useStudyPreferences();
+  const [topicsText, setTopicsText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const subject = subjects.find(s => s.id === deadline?.subject_id);
+
+  // Start from the saved syllabus, or the topics already reviewed in the subject
+  useEffect(() => {
+    if (!open) return;
+    const initialTopics = activePlan?.topics
+      ?? reviewItems.filter(item => item.subject_id === deadline?.subject_id).map(item => item.topic);
+    setTopicsText(initialTopics.join('\n'));
+    setError(null);
+  }, [open, activePlan, deadline, reviewItems]);
+
+  const topics = useMemo(() => parseTopics(topicsText), [topicsText]);
+  const plan = useMemo(
+    () => deadline && subject
+      ? buildExamPrepPlan(deadline, subject, topics, freeSlots, { config: plannerConfig, timeZone })
+      : null,
+    [deadline, subject, topics, freeSlots, plannerConfig, timeZone]
+  );
+
+  if (!deadline) return null;
+
+  const studyBlockCount = plan?.days.reduce((total, day) => total + day.blocks.filter(b => !b.isBreak).length, 0) ?? 0;
+
+  const handleCreate = async () => {
+    if (!plan) return;
+    setError(null);
+
+    try {
+      const data = examPrepSchema.parse({ topics });
+      setSaving(true);
+      const success = await onCreate(plan, data.topics);
+      if (success) onOpenChange(false);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        setError(err.errors[0]?.message ?? 'Tópicos inválidos');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelPlan = async () => {
+    if (!activePlan) return;
+
+    setSaving(true);
+    try {
+      const success = await onCancel(activePlan);
+      if (success) onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GraduationCap className="h-5 w-5 text-exam-prep" />
+            Modo preparação
+          </DialogTitle>
+          <DialogDescription>
+            {deadline.title} · {formatInTimeZone(parseISO(deadline.start_datetime), timeZone, "EEEE, dd/MM 'às' HH:mm", { locale: ptBR })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!subject ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            Vincule esta prova a uma matéria para gerar um plano de revisão.
+          </p>
+        ) : activePlan ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              A preparação está ativa e seus blocos aparecem no calendário. Cancelar remove os blocos que ainda não aconteceram.
+            </p>
+            {activePlan.topics.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {activePlan.topics.map(topic => (
+                  <Badge key={topic} variant="outline" className="text-xs">{topic}</Badge>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Fechar
+              </Button>
+              <Button variant="destructive" onClick={handleCancelPlan} disabled={saving}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+                Cancelar preparação
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="exam-prep-topics">Conteúdo da prova</Label>
+              <Textarea
+                id="exam-prep-topics"
+                value={topicsText}
+                onChange={(e) => setTopicsText(e.target.value)}
+                placeholder={'Um tópico por linha\nEx: Limites\nDerivadas'}
+                rows={5}
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <p className="text-xs text-muted-foreground">
+                Cada tópico é estudado uma vez antes de qualquer repetição; a véspera fica para uma revisão geral leve.
+              </p>
+            </div>
+
+            {plan && plan.days.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Não há mais dias até a prova.</p>
+            ) : plan && (
+              <ScrollArea className="h-64 rounded-md border">
+                <div className="p-2 space-y-1">
+                  {plan.days.map(day => {
+                    const studyBlocks = day.blocks.filter(b => !b.isBreak).length;
+                    return (
+                      <div key={day.date} className="flex items-start gap-3 rounded-md p-2 hover:bg-muted">
+                        <div className="w-20 shrink-0 text-sm font-medium capitalize">
+                          {formatInTimeZone(zonedDateTimeToUtc(day.date, '12:00', timeZone), timeZone, 'EEE dd/MM', { locale: ptBR })}
+                        </div>
+                        <div className="flex-1 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className={cn('rounded px-1.5 py-0.5 text-xs font-medium', INTENSITY_STYLES[day.intensity])}>
+                              {INTENSITY_LABELS[day.intensity]}
+                            </span>
+                            <span className={cn('text-xs', studyBlocks < day.targetBlocks ? 'text-warning' : 'text-muted-foreground')}>
+                              {studyBlocks}/{day.targetBlocks} bloco(s)
+                            </span>
+                          </div>
+                          {day.topics.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              {day.intensity === 'light' ? 'Revisão geral' : day.topics.join(', ')}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+            )}
+
+            {plan && plan.uncoveredTopics.length > 0 && (
+              <div className="flex items-start gap-2 text-sm text-warning">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                <span>
+                  Sem horário livre para: {plan.uncoveredTopics.join(', ')}. Adicione horários livres antes da prova.
+                </span>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button onClick={handleCreate} disabled={saving || studyBlockCount === 0}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <GraduationCap className="mr-2 h-4 w-4" />}
+                Criar plano de revisão
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,277 @@
+import { useState, useEffect, useMemo } from 'react';
+import { z } from 'zod';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, Plus, Trash2, CalendarPlus } from 'lucide-react';
+import { CalendarEvent } from '@/hooks/useCalendarEvents';
+import { Subject } from '@/hooks/useSubjects';
+import { useStudyPreferences, StudyPreferencesData } from '@/hooks/useStudyPreferences';
+import { availabilitySchema } from '@/lib/validations';
+import {
+  AvailabilitySettings,
+  FreeTimeGroup,
+  TimeRange,
+  detectFreeTime,
+  groupFreeTimeCandidates
+} from '@/lib/availability';
+
+const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h${rest > 0 ? String(rest).padStart(2, '0') : ''}` : `${rest}min`;
+};
+
+const groupKey = (group: FreeTimeGroup) => `${group.start}-${group.end}`;
+
+interface FreeTimeDetectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subjects: Subject[];
+  events: CalendarEvent[];
+  onAccept: (groups: FreeTimeGroup[]) => Promise<boolean>;
+  timeZone?: string;
+}
+
+export const FreeTimeDetectionDialog = ({
+  open,
+  onOpenChange,
+  subjects,
+  events,
+  onAccept,
+  timeZone
+}: FreeTimeDetectionDialogProps) => {
+  const { availability, savePreferences } = useStudyPreferences();
+  const [settings, setSettings] = useState<AvailabilitySettings>(availability);
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSettings(availability);
+      setDeselected(new Set());
+      setErrors({});
+    }
+  }, [availability, open]);
+
+  const groups = useMemo(
+    () => groupFreeTimeCandidates(detectFreeTime(subjects, events, settings, timeZone)),
+    [subjects, events, settings, timeZone]
+  );
+  const selectedGroups = groups.filter(group => !deselected.has(groupKey(group)));
+
+  const updateSetting = <K extends keyof AvailabilitySettings>(key: K, value: AvailabilitySettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateExcludedRange = (index: number, range: TimeRange) => {
+    updateSetting('excludedRanges', settings.excludedRanges.map((r, i) => i === index ? range : r));
+  };
+
+  const toggleGroup = (group: FreeTimeGroup) => {
+    setDeselected(prev => {
+      const next = new Set(prev);
+      if (next.has(groupKey(group))) next.delete(groupKey(group));
+      else next.add(groupKey(group));
+      return next;
+    });
+  };
+
+  const handleAccept = async () => {
+    setErrors({});
+
+    try {
+      const data = availabilitySchema.parse({
+        availability_start: settings.windowStart,
+        availability_end: settings.windowEnd,
+        excluded_time_ranges: settings.excludedRanges,
+        min_free_slot_minutes: settings.minSlotMinutes,
+        free_slot_buffer_minutes: settings.bufferMinutes
+      });
+
+      setSaving(true);
+      // Remember the window for the next detection, then create the slots
+      await savePreferences(data as Partial<StudyPreferencesData>);
+      const success = await onAccept(selectedGroups);
+      if (success) {
+        onOpenChange(false);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const newErrors: { [key: string]: string } = {};
+        error.errors.forEach((err) => {
+          newErrors[err.path[0] as string] = err.message;
+        });
+        setErrors(newErrors);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Detectar horários livres</DialogTitle>
+          <DialogDescription>
+            Encontramos os intervalos entre suas aulas e compromissos fixos dentro da sua janela de disponibilidade.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="windowStart">Disponível a partir de</Label>
+              <Input
+                id="windowStart"
+                type="time"
+                value={settings.windowStart}
+                onChange={(e) => updateSetting('windowStart', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="windowEnd">Disponível até</Label>
+              <Input
+                id="windowEnd"
+                type="time"
+                value={settings.windowEnd}
+                onChange={(e) => updateSetting('windowEnd', e.target.value)}
+                className={errors.availability_end ? 'border-destructive' : ''}
+              />
+              {errors.availability_end && (
+                <p className="text-xs text-destructive">{errors.availability_end}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="minSlotMinutes">Duração mínima (min)</Label>
+              <Input
+                id="minSlotMinutes"
+                type="number"
+                step="5"
+                value={settings.minSlotMinutes}
+                onChange={(e) => updateSetting('minSlotMinutes', Number(e.target.value))}
+                className={errors.min_free_slot_minutes ? 'border-destructive' : ''}
+              />
+              {errors.min_free_slot_minutes && (
+                <p className="text-xs text-destructive">{errors.min_free_slot_minutes}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bufferMinutes">Folga entre compromissos (min)</Label>
+              <Input
+                id="bufferMinutes"
+                type="number"
+                step="5"
+                value={settings.bufferMinutes}
+                onChange={(e) => updateSetting('bufferMinutes', Number(e.target.value))}
+                className={errors.free_slot_buffer_minutes ? 'border-destructive' : ''}
+              />
+              {errors.free_slot_buffer_minutes && (
+                <p className="text-xs text-destructive">{errors.free_slot_buffer_minutes}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Intervalos excluídos (ex: almoço)</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => updateSetting('excludedRanges', [...settings.excludedRanges, { start: '12:00', end: '13:00' }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Adicionar
+              </Button>
+            </div>
+            {settings.excludedRanges.map((range, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={range.start}
+                  onChange={(e) => updateExcludedRange(index, { ...range, start: e.target.value })}
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="time"
+                  value={range.end}
+                  onChange={(e) => updateExcludedRange(index, { ...range, end: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updateSetting('excludedRanges', settings.excludedRanges.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {errors.excluded_time_ranges && (
+              <p className="text-xs text-destructive">{errors.excluded_time_ranges}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Horários encontrados ({selectedGroups.length}/{groups.length})</Label>
+            {groups.length > 0 ? (
+              <ScrollArea className="h-48 rounded-md border">
+                <div className="p-2 space-y-1">
+                  {groups.map(group => (
+                    <label
+                      key={groupKey(group)}
+                      className="flex items-center gap-3 p-2 rounded-md hover:bg-muted cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={!deselected.has(groupKey(group))}
+                        onCheckedChange={() => toggleGroup(group)}
+                      />
+                      <div className="flex-1">
+                        <p className="text-sm font-medium">
+                          {group.start} – {group.end}
+                          <span className="ml-2 text-xs text-muted-foreground">({formatMinutes(group.minutes)})</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {group.days.map(day => WEEKDAY_LABELS[day]).join(', ')}
+                        </p>
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            ) : (
+              <p className="text-sm text-muted-foreground py-4 text-center">
+                Nenhum intervalo livre com a duração mínima foi encontrado.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Compromissos avulsos não entram no cálculo, pois os horários são criados como eventos semanais.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleAccept} disabled={saving || selectedGroups.length === 0}>
+            {saving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CalendarPlus className="mr-2 h-4 w-4" />
+            )}
+            Adicionar {selectedGroups.length} horário(s)
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -14,7 +14,9 @@ import { CalendarEvent } from '@/hooks/useCalendarEvents';
 import { Subject } from '@/hooks/useSubjects';
 import { StudyBlock } from '@/hooks/useStudySuggestions';
 import { cn } from '@/lib/utils';
-import { Brain } from 'lucide-react';
+import { Brain, GraduationCap } from 'lucide-react';
+import { getDeviceTimeZone, toZonedTime } from '@/lib/timezone';
+import { getEventsOnDay } from '@/lib/recurrence';
 
 interface MonthViewProps {
   currentDate: Date;
@@ -23,6 +25,8 @@ interface MonthViewProps {
   studyBlocks?: StudyBlock[];
   onEventClick: (event: CalendarEvent) => void;
   onDayClick: (date: Date) => void;
+  // Zone the month is shown in; currentDate holds its wall-clock date
+  timeZone?: string;
 }
 
 const getEventDotColor = (eventType: string) => {
@@ -40,13 +44,22 @@ const getEventDotColor = (eventType: string) => {
   }
 };
 
-export const MonthView = ({ currentDate, events, subjects, studyBlocks = [], onEventClick, onDayClick }: MonthViewProps) => {
+export const MonthView = ({
+  currentDate,
+  events,
+  subjects,
+  studyBlocks = [],
+  onEventClick,
+  onDayClick,
+  timeZone = getDeviceTimeZone()
+}: MonthViewProps) => {
+  const toZoned = (date: Date | string) => toZonedTime(typeof date === 'string' ? parseISO(date) : date, timeZone);
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
   const calendarStart = startOfWeek(monthStart, { weekStartsOn: 0 });
   const calendarEnd = endOfWeek(monthEnd, { weekStartsOn: 0 });
   const days = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
-  const today = new Date();
+  const today = toZoned(new Date());
 
   const weekDays = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
 
@@ -64,22 +77,8 @@ export const MonthView = ({ currentDate, events, subjects, studyBlocks = [], onE
         }))
     );
 
-    // User events
-    const dayEvents = events
-      .filter(event => {
-        const eventDate = parseISO(event.start_datetime);
-        if (isSameDay(eventDate, date)) return true;
-        
-        if (event.is_recurring && event.recurrence_days?.includes(dayOfWeek)) {
-          const eventStart = parseISO(event.start_datetime);
-          const recurrenceEnd = event.recurrence_end_date ? parseISO(event.recurrence_end_date) : null;
-          if (date < eventStart) return false;
-          if (recurrenceEnd && date > recurrenceEnd) return false;
-          return true;
-        }
-        
-        return false;
-      })
+    // User events, recurring ones expanded in the profile's zone
+    const dayEvents = getEventsOnDay(events, format(date, 'yyyy-MM-dd'), timeZone)
       .map(event => ({
         id: event.id,
         event_type: event.event_type,
@@ -109,8 +108,9 @@ export const MonthView = ({ currentDate, events, subjects, studyBlocks = [], onE
           
           // Get study blocks for this day (not breaks)
           const dayBlocks = studyBlocks.filter(
-            block => isSameDay(block.startTime, day) && !block.isBreak
+            block => isSameDay(toZoned(block.startTime), day) && !block.isBreak
           );
+          const hasExamPrep = dayBlocks.some(block => block.examPrepPlanId);
           
           return (
             <div
@@ -146,8 +146,13 @@ export const MonthView = ({ currentDate, events, subjects, studyBlocks = [], onE
                 
                 {/* Study block indicator */}
                 {dayBlocks.length > 0 && dayEvents.length < 2 && (
-                  <div className="text-xs px-1.5 py-0.5 rounded truncate bg-accent/50 text-accent-foreground border border-dashed border-accent flex items-center gap-1">
-                    <Brain className="w-3 h-3" />
+                  <div className={cn(
+                    "text-xs px-1.5 py-0.5 rounded truncate border border-dashed flex items-center gap-1",
+                    hasExamPrep
+                      ? "bg-exam-prep/30 text-exam-prep border-exam-prep"
+                      : "bg-accent/50 text-accent-foreground border-accent"
+                  )}>
+                    {hasExamPrep ? <GraduationCap className="w-3 h-3" /> : <Brain className="w-3 h-3" />}
                     <span className="truncate">{dayBlocks.length} estudo{dayBlocks.length > 1 ? 's' : ''}</span>
                   </div>
                 )}
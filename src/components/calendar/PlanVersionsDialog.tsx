@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowRight, History, Loader2, Minus, Plus, Repeat, RotateCcw } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { PlanChange, PlanChangeReason, PlanVersion, PlanVersionTrigger } from '@/hooks/usePlanVersions';
+import { cn } from '@/lib/utils';
+import { formatInTimeZone, getDeviceTimeZone } from '@/lib/timezone';
+
+const TRIGGER_LABELS: Record<PlanVersionTrigger, string> = {
+  regenerate: 'Plano regenerado',
+  missed_blocks: 'Reposição de blocos perdidos',
+  restore: 'Versão restaurada'
+};
+
+const REASON_LABELS: Record<PlanChangeReason, string> = {
+  slot_added: 'Novo horário livre',
+  slot_removed: 'Horário livre saiu do plano',
+  subject_removed: 'Matéria saiu do plano',
+  deadline: 'Novo prazo',
+  priority_change: 'Prioridades mudaram',
+  rescheduled: 'Plano reorganizado'
+};
+
+const describeReason = (change: PlanChange) => {
+  const deadline = change.after?.trace?.deadline;
+  return change.reason === 'deadline' && deadline
+    ? `${REASON_LABELS.deadline}: ${deadline.title}`
+    : REASON_LABELS[change.reason];
+};
+
+const formatDateTime = (iso: string, timeZone: string) =>
+  formatInTimeZone(parseISO(iso), timeZone, "EEE dd/MM HH:mm", { locale: ptBR });
+
+const studyBlockCount = (version: PlanVersion) => version.blocks.filter(b => !b.isBreak).length;
+
+const ChangeRow = ({ change, timeZone }: { change: PlanChange; timeZone: string }) => {
+  const block = (change.after ?? change.before)!;
+
+  return (
+    <div className="flex items-start gap-3 rounded-md p-2 hover:bg-muted">
+      {change.kind === 'added' && <Plus className="mt-0.5 h-4 w-4 shrink-0 text-success" />}
+      {change.kind === 'removed' && <Minus className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />}
+      {change.kind === 'subject_changed' && <Repeat className="mt-0.5 h-4 w-4 shrink-0 text-warning" />}
+      <div className="flex-1 space-y-0.5">
+        <p className="text-sm font-medium">
+          {change.kind === 'subject_changed' ? (
+            <span className="inline-flex items-center gap-1">
+              {change.before!.subjectName}
+              <ArrowRight className="h-3 w-3" />
+              {change.after!.subjectName}
+            </span>
+          ) : (
+            <span className={cn(change.kind === 'removed' && 'line-through text-muted-foreground')}>
+              {block.reviewTopic ? `Revisão: ${block.reviewTopic}` : block.subjectName}
+            </span>
+          )}
+        </p>
+        <p className="text-xs capitalize text-muted-foreground">{formatDateTime(block.startTime, timeZone)}</p>
+      </div>
+      <Badge variant="outline" className="shrink-0 text-xs">{describeReason(change)}</Badge>
+    </div>
+  );
+};
+
+interface PlanVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: PlanVersion[];
+  getVersionChanges: (version: PlanVersion) => PlanChange[] | null;
+  onRestore: (version: PlanVersion) => Promise<boolean>;
+  timeZone?: string;
+}
+
+// History of saved plans: what each generation moved and a way back to it
+export const PlanVersionsDialog = ({
+  open,
+  onOpenChange,
+  versions,
+  getVersionChanges,
+  onRestore,
+  timeZone = getDeviceTimeZone()
+}: PlanVersionsDialogProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (open) setSelectedId(versions[0]?.id ?? null);
+  }, [open, versions]);
+
+  const selected = versions.find(v => v.id === selectedId);
+  const changes = selected ? getVersionChanges(selected) : null;
+  const isCurrent = selected?.id === versions[0]?.id;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    setRestoring(true);
+    try {
+      const success = await onRestore(selected);
+      if (success) onOpenChange(false);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Histórico do plano</DialogTitle>
+          <DialogDescription>
+            Cada geração do plano fica salva. Veja o que mudou em relação à versão anterior e restaure uma versão, se preferir.
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-center text-sm text-muted-foreground">
+            <History className="h-8 w-8" />
+            Nenhuma versão salva ainda. Regenere o plano para criar a primeira.
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[200px_1fr]">
+            <ScrollArea className="h-80 rounded-md border">
+              <div className="p-1 space-y-1">
+                {versions.map((version, index) => (
+                  <button
+                    key={version.id}
+                    onClick={() => setSelectedId(version.id)}
+                    className={cn(
+                      'w-full rounded-md p-2 text-left transition-colors',
+                      version.id === selectedId ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+                    )}
+                  >
+                    <p className="text-sm font-medium capitalize">{formatDateTime(version.created_at, timeZone)}</p>
+                    <p className={cn('text-xs', version.id === selectedId ? 'opacity-80' : 'text-muted-foreground')}>
+                      {index === 0 ? 'Atual · ' : ''}{TRIGGER_LABELS[version.trigger]}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary" className="text-xs">{studyBlockCount(selected)} bloco(s) de estudo</Badge>
+                  {changes && (
+                    <>
+                      <Badge variant="outline" className="text-xs text-success">
+                        +{changes.filter(c => c.kind === 'added').length}
+                      </Badge>
+                      <Badge variant="outline" className="text-xs text-destructive">
+                        −{changes.filter(c => c.kind === 'removed').length}
+                      </Badge>
+                      <Badge variant="outline" className="text-xs text-warning">
+                        {changes.filter(c => c.kind === 'subject_changed').length} troca(s) de matéria
+                      </Badge>
+                    </>
+                  )}
+                </div>
+
+                {changes === null ? (
+                  <p className="py-4 text-sm text-muted-foreground">
+                    Primeira versão do histórico; não há versão anterior para comparar.
+                  </p>
+                ) : changes.length === 0 ? (
+                  <p className="py-4 text-sm text-muted-foreground">
+                    Nenhum bloco futuro mudou em relação à versão anterior.
+                  </p>
+                ) : (
+                  <ScrollArea className="h-64 rounded-md border">
+                    <div className="p-1 space-y-1">
+                      {changes.map(change => (
+                        <ChangeRow
+                          key={`${change.kind}-${(change.after ?? change.before)!.startTime}`}
+                          change={change}
+                          timeZone={timeZone}
+                        />
+                      ))}
+                    </div>
+                  </ScrollArea>
+                )}
+
+                <div className="flex justify-end">
+                  <Button onClick={handleRestore} disabled={isCurrent || restoring} variant="outline">
+                    {restoring ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                    )}
+                    Restaurar esta versão
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
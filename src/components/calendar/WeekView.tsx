@@ -4,9 +4,12 @@ import { CalendarEvent } from '@/hooks/useCalendarEvents';
 import { Subject } from '@/hooks/useSubjects';
 import { StudyBlock } from '@/hooks/useStudySuggestions';
 import { cn } from '@/lib/utils';
-import { Brain, Coffee, XCircle } from 'lucide-react';
+import { Brain, Coffee, XCircle, CheckCircle, RotateCcw, GraduationCap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DecisionTraceDetails } from '@/components/study/DecisionTraceDetails';
+import { getDeviceTimeZone, toZonedTime, zonedDateTimeToUtc } from '@/lib/timezone';
+import { getEventsOnDay } from '@/lib/recurrence';
 
 interface WeekViewProps {
   currentDate: Date;
@@ -15,7 +18,10 @@ interface WeekViewProps {
   studyBlocks?: StudyBlock[];
   onEventClick: (event: CalendarEvent) => void;
   onDayClick: (date: Date) => void;
-  onDelayStudy?: (subjectId: string) => Promise<boolean>;
+  onDelayStudy?: (subjectId: string, sessionId?: string) => Promise<boolean>;
+  onCompleteStudy?: (block: StudyBlock) => void;
+  // Zone the week is shown in; currentDate holds its wall-clock date
+  timeZone?: string;
 }
 
 const HOURS = Array.from({ length: 24 }, (_, i) => i); // 00:00 to 23:00 (24h view)
@@ -35,10 +41,21 @@ const getEventColor = (eventType: string) => {
   }
 };
 
-export const WeekView = ({ currentDate, events, subjects, studyBlocks = [], onEventClick, onDayClick, onDelayStudy }: WeekViewProps) => {
+export const WeekView = ({
+  currentDate,
+  events,
+  subjects,
+  studyBlocks = [],
+  onEventClick,
+  onDayClick,
+  onDelayStudy,
+  onCompleteStudy,
+  timeZone = getDeviceTimeZone()
+}: WeekViewProps) => {
+  const toZoned = (date: Date | string) => toZonedTime(typeof date === 'string' ? parseISO(date) : date, timeZone);
   const weekStart = startOfWeek(currentDate, { weekStartsOn: 0 });
   const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
-  const today = new Date();
+  const today = toZoned(new Date());
 
   const getEventsForDay = (date: Date) => {
     const dayOfWeek = date.getDay();
@@ -54,40 +71,27 @@ export const WeekView = ({ currentDate, events, subjects, studyBlocks = [], onEv
           title: subject.name,
           description: subject.professor || undefined,
           event_type: 'class' as const,
-          start_datetime: `${format(date, 'yyyy-MM-dd')}T${schedule.start_time}`,
-          end_datetime: `${format(date, 'yyyy-MM-dd')}T${schedule.end_time}`,
+          start_datetime: zonedDateTimeToUtc(format(date, 'yyyy-MM-dd'), schedule.start_time, timeZone).toISOString(),
+          end_datetime: zonedDateTimeToUtc(format(date, 'yyyy-MM-dd'), schedule.end_time, timeZone).toISOString(),
           is_recurring: true,
           created_at: subject.created_at,
           updated_at: subject.updated_at
         }))
     );
 
-    // User events
-    const dayEvents = events.filter(event => {
-      const eventDate = parseISO(event.start_datetime);
-      if (isSameDay(eventDate, date)) return true;
-      
-      if (event.is_recurring && event.recurrence_days?.includes(dayOfWeek)) {
-        const eventStart = parseISO(event.start_datetime);
-        const recurrenceEnd = event.recurrence_end_date ? parseISO(event.recurrence_end_date) : null;
-        if (date < eventStart) return false;
-        if (recurrenceEnd && date > recurrenceEnd) return false;
-        return true;
-      }
-      
-      return false;
-    });
+    // User events, recurring ones expanded in the profile's zone
+    const dayEvents = getEventsOnDay(events, format(date, 'yyyy-MM-dd'), timeZone);
 
     return [...classEvents, ...dayEvents];
   };
 
   const getEventsAndBlocksForDay = (date: Date) => {
-    return studyBlocks.filter(block => isSameDay(block.startTime, date));
+    return studyBlocks.filter(block => isSameDay(toZoned(block.startTime), date));
   };
 
   const getEventPosition = (event: CalendarEvent) => {
-    const startTime = parseISO(event.start_datetime);
-    const endTime = event.end_datetime ? parseISO(event.end_datetime) : startTime;
+    const startTime = toZoned(event.start_datetime);
+    const endTime = event.end_datetime ? toZoned(event.end_datetime) : startTime;
     
     const startHour = startTime.getHours() + startTime.getMinutes() / 60;
     const endHour = endTime.getHours() + endTime.getMinutes() / 60;
@@ -100,8 +104,10 @@ export const WeekView = ({ currentDate, events, subjects, studyBlocks = [], onEv
   };
 
   const getBlockPosition = (block: StudyBlock) => {
-    const startHour = block.startTime.getHours() + block.startTime.getMinutes() / 60;
-    const endHour = block.endTime.getHours() + block.endTime.getMinutes() / 60;
+    const startTime = toZoned(block.startTime);
+    const endTime = toZoned(block.endTime);
+    const startHour = startTime.getHours() + startTime.getMinutes() / 60;
+    const endHour = endTime.getHours() + endTime.getMinutes() / 60;
     
     // 24h view: divide by 24 hours
     const top = (startHour / 24) * 100;
@@ -155,113 +161,148 @@ export const WeekView = ({ currentDate, events, subjects, studyBlocks = [], onEv
         </div>
 
         {/* Day columns */}
-        <TooltipProvider>
-          {weekDays.map(day => {
-            const dayEvents = getEventsForDay(day);
-            const dayBlocks = getEventsAndBlocksForDay(day);
-            
-            return (
-              <div
-                key={day.toISOString()}
-                className={cn(
-                  "relative border-r last:border-r-0",
-                  isSameDay(day, today) && "bg-primary/5"
-                )}
-              >
-                {/* Hour lines */}
-                {HOURS.map(hour => (
-                  <div
-                    key={hour}
-                    className="absolute left-0 right-0 border-t border-border/30"
-                    style={{ top: `${(hour / 24) * 100}%` }}
-                  />
-                ))}
+        {weekDays.map(day => {
+          const dayEvents = getEventsForDay(day);
+          const dayBlocks = getEventsAndBlocksForDay(day);
+          
+          return (
+            <div
+              key={day.toISOString()}
+              className={cn(
+                "relative border-r last:border-r-0",
+                isSameDay(day, today) && "bg-primary/5"
+              )}
+            >
+              {/* Hour lines */}
+              {HOURS.map(hour => (
+                <div
+                  key={hour}
+                  className="absolute left-0 right-0 border-t border-border/30"
+                  style={{ top: `${(hour / 24) * 100}%` }}
+                />
+              ))}
 
-                {/* Events */}
-                {dayEvents.map(event => {
-                  const position = getEventPosition(event);
-                  return (
-                    <div
-                      key={event.id}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        if (!event.id.startsWith('class-')) onEventClick(event);
-                      }}
-                      className={cn(
-                        "absolute left-0.5 right-0.5 p-1 rounded text-xs border-l-2 overflow-hidden",
-                        "cursor-pointer hover:opacity-80 transition-opacity",
-                        getEventColor(event.event_type),
-                        event.id.startsWith('class-') && "cursor-default hover:opacity-100"
-                      )}
-                      style={position}
-                    >
-                      <div className="font-medium truncate">{event.title}</div>
-                      <div className="opacity-75 truncate">
-                        {format(parseISO(event.start_datetime), 'HH:mm')}
-                      </div>
+              {/* Events */}
+              {dayEvents.map(event => {
+                const position = getEventPosition(event);
+                return (
+                  <div
+                    key={event.id}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (!event.id.startsWith('class-')) onEventClick(event);
+                    }}
+                    className={cn(
+                      "absolute left-0.5 right-0.5 p-1 rounded text-xs border-l-2 overflow-hidden",
+                      "cursor-pointer hover:opacity-80 transition-opacity",
+                      getEventColor(event.event_type),
+                      event.id.startsWith('class-') && "cursor-default hover:opacity-100"
+                    )}
+                    style={position}
+                  >
+                    <div className="font-medium truncate">{event.title}</div>
+                    <div className="opacity-75 truncate">
+                      {format(toZoned(event.start_datetime), 'HH:mm')}
                     </div>
-                  );
-                })}
+                  </div>
+                );
+              })}
 
-                {/* Study Blocks (Suggested) */}
-                {dayBlocks.map(block => {
-                  const position = getBlockPosition(block);
-                  return (
-                    <Tooltip key={block.id}>
-                      <TooltipTrigger asChild>
-                        <div
-                          className={cn(
-                            "absolute left-0.5 right-0.5 p-1 rounded text-xs overflow-hidden",
-                            "border-dashed border animate-pulse",
-                            block.isBreak 
-                              ? "bg-muted/40 border-muted-foreground/30 text-muted-foreground"
+              {/* Study Blocks (Suggested) */}
+              {dayBlocks.map(block => {
+                const position = getBlockPosition(block);
+                return (
+                  <Popover key={block.id}>
+                    <PopoverTrigger asChild>
+                      <div
+                        className={cn(
+                          "absolute left-0.5 right-0.5 p-1 rounded text-xs overflow-hidden",
+                          "border-dashed border cursor-pointer",
+                          (!block.status || block.status === 'planned') && "animate-pulse",
+                          block.status === 'completed' && "opacity-60",
+                          block.status === 'skipped' && "opacity-40 line-through",
+                          block.status === 'missed' && "opacity-40",
+                          block.isBreak 
+                            ? "bg-muted/40 border-muted-foreground/30 text-muted-foreground"
+                            : block.examPrepPlanId
+                              ? "bg-exam-prep/30 border-exam-prep text-exam-prep"
                               : "bg-accent/30 border-accent text-accent-foreground"
+                        )}
+                        style={position}
+                      >
+                        <div className="flex items-center gap-1">
+                          {block.isBreak ? (
+                            <Coffee className="w-2.5 h-2.5 shrink-0" />
+                          ) : block.reviewItemId ? (
+                            <RotateCcw className="w-2.5 h-2.5 shrink-0" />
+                          ) : block.examPrepPlanId ? (
+                            <GraduationCap className="w-2.5 h-2.5 shrink-0" />
+                          ) : (
+                            <Brain className="w-2.5 h-2.5 shrink-0" />
                           )}
-                          style={position}
-                        >
-                          <div className="flex items-center gap-1">
-                            {block.isBreak ? (
-                              <Coffee className="w-2.5 h-2.5 shrink-0" />
-                            ) : (
-                              <Brain className="w-2.5 h-2.5 shrink-0" />
-                            )}
-                            <span className="font-medium truncate text-[10px]">
-                              {block.isBreak ? 'Pausa' : block.subject.name}
-                            </span>
-                          </div>
-                          {!block.isBreak && onDelayStudy && (
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                onDelayStudy(block.subject.id);
-                              }}
-                              className="absolute top-0.5 right-0.5 h-4 w-4 p-0 opacity-60 hover:opacity-100"
-                            >
-                              <XCircle className="w-2.5 h-2.5" />
-                            </Button>
-                          )}
+                          <span className="font-medium truncate text-[10px]">
+                            {block.isBreak ? 'Pausa' : block.subject.name}
+                          </span>
                         </div>
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p className="font-medium">{block.isBreak ? 'Pausa sugerida' : `Estudar: ${block.subject.name}`}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {format(block.startTime, 'HH:mm')} - {format(block.endTime, 'HH:mm')}
-                        </p>
-                        {!block.isBreak && (
-                          <p className="text-xs text-muted-foreground mt-1">
-                            Clique no X para "Não consegui"
-                          </p>
+                        {!block.isBreak && onDelayStudy && block.status !== 'skipped' && block.status !== 'completed' && block.status !== 'missed' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onDelayStudy(block.subject.id, block.sessionId);
+                            }}
+                            className="absolute top-0.5 right-0.5 h-4 w-4 p-0 opacity-60 hover:opacity-100"
+                          >
+                            <XCircle className="w-2.5 h-2.5" />
+                          </Button>
+                        )}
+                        {!block.isBreak && onCompleteStudy && block.sessionId && block.status !== 'skipped' && block.status !== 'completed' && block.status !== 'missed' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onCompleteStudy(block);
+                            }}
+                            className="absolute top-0.5 right-5 h-4 w-4 p-0 opacity-60 hover:opacity-100"
+                          >
+                            <CheckCircle className="w-2.5 h-2.5" />
+                          </Button>
                         )}
-                      </TooltipContent>
-                    </Tooltip>
-                  );
-                })}
-              </div>
-            );
-          })}
-        </TooltipProvider>
+                      </div>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-80">
+                      {block.trace ? (
+                        <DecisionTraceDetails trace={block.trace} />
+                      ) : (
+                        <>
+                          <p className="font-medium">
+                            {block.isBreak
+                              ? 'Pausa sugerida'
+                              : block.reviewItemId
+                                ? `Revisar: ${block.subject.name}${block.reviewTopic ? ` · ${block.reviewTopic}` : ''}`
+                                : block.examPrepPlanId
+                                  ? `Preparação: ${block.subject.name} · ${block.prepTopic ?? 'Revisão geral'}`
+                                  : `Estudar: ${block.subject.name}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(toZoned(block.startTime), 'HH:mm')} - {format(toZoned(block.endTime), 'HH:mm')}
+                          </p>
+                          {!block.isBreak && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Clique no ✓ para concluir ou no X para "Não consegui"
+                            </p>
+                          )}
+                        </>
+                      )}
+                    </PopoverContent>
+                  </Popover>
+                );
+              })}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,56 @@
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Lock, Trophy } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { UnlockedAchievement } from '@/hooks/useStudyGoals';
+import { ACHIEVEMENTS } from '@/lib/achievements';
+import { cn } from '@/lib/utils';
+
+interface AchievementsCardProps {
+  achievements: UnlockedAchievement[];
+}
+
+// Every milestone, unlocked ones with their date
+export const AchievementsCard = ({ achievements }: AchievementsCardProps) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardTitle className="flex items-center gap-2 text-base">
+        <Trophy className="h-4 w-4 text-warning" />
+        Conquistas
+      </CardTitle>
+      <p className="text-xs text-muted-foreground">
+        {achievements.length} de {ACHIEVEMENTS.length} desbloqueadas
+      </p>
+    </CardHeader>
+    <CardContent>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {ACHIEVEMENTS.map(({ key, title, description }) => {
+          const unlocked = achievements.find(achievement => achievement.achievement_key === key);
+          return (
+            <div
+              key={key}
+              className={cn(
+                'flex items-center gap-3 rounded-lg border p-3',
+                unlocked ? 'border-warning/40 bg-warning/5' : 'opacity-60'
+              )}
+            >
+              {unlocked ? (
+                <Trophy className="h-5 w-5 shrink-0 text-warning" />
+              ) : (
+                <Lock className="h-5 w-5 shrink-0 text-muted-foreground" />
+              )}
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium">{title}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {unlocked
+                    ? `Desbloqueada em ${format(parseISO(unlocked.unlocked_at), 'dd/MM/yyyy', { locale: ptBR })}`
+                    : description}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </CardContent>
+  </Card>
+);
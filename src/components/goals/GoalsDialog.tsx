@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { z } from 'zod';
+import { Loader2, Target } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Subject } from '@/hooks/useSubjects';
+import { StudyGoalsData, StudyGoalsRecord } from '@/hooks/useStudyGoals';
+import { studyGoalsSchema } from '@/lib/validations';
+
+// Empty inputs mean "no goal"
+const toHours = (text: string) => (text.trim() === '' ? null : Number(text.replace(',', '.')));
+
+interface GoalsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  goals: StudyGoalsRecord | null;
+  subjects: Subject[];
+  onSave: (data: StudyGoalsData) => Promise<boolean>;
+}
+
+// Weekly total and per-subject minimum hours
+export const GoalsDialog = ({ open, onOpenChange, goals, subjects, onSave }: GoalsDialogProps) => {
+  const [weeklyHours, setWeeklyHours] = useState('');
+  const [subjectHours, setSubjectHours] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setWeeklyHours(goals?.weekly_hours ? String(goals.weekly_hours) : '');
+    setSubjectHours(Object.fromEntries(
+      Object.entries(goals?.subject_hours ?? {}).map(([subjectId, hours]) => [subjectId, String(hours)])
+    ));
+    setError(null);
+  }, [open, goals]);
+
+  const handleSubmit = async () => {
+    setError(null);
+
+    try {
+      const data = studyGoalsSchema.parse({
+        weekly_hours: toHours(weeklyHours),
+        subject_hours: Object.fromEntries(
+          subjects
+            .map(subject => [subject.id, toHours(subjectHours[subject.id] ?? '')] as const)
+            .filter(([, hours]) => hours !== null && hours !== 0)
+        )
+      });
+      setSaving(true);
+      const success = await onSave({
+        weekly_hours: data.weekly_hours,
+        subject_hours: data.subject_hours as Record<string, number>
+      });
+      if (success) onOpenChange(false);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        setError(err.errors[0]?.message ?? 'Metas inválidas');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-primary" />
+            Metas semanais
+          </DialogTitle>
+          <DialogDescription>
+            O plano dá prioridade às matérias que ainda não atingiram o mínimo da semana.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="goal-weekly-hours">Horas de estudo por semana</Label>
+            <Input
+              id="goal-weekly-hours"
+              type="number"
+              min={0}
+              step={0.5}
+              value={weeklyHours}
+              onChange={(e) => setWeeklyHours(e.target.value)}
+              placeholder="Sem meta"
+            />
+          </div>
+
+          {subjects.length > 0 && (
+            <div className="space-y-2">
+              <Label>Mínimo por matéria (horas)</Label>
+              <div className="max-h-64 space-y-2 overflow-y-auto pr-1">
+                {subjects.map(subject => (
+                  <div key={subject.id} className="flex items-center gap-3">
+                    <span className="min-w-0 flex-1 truncate text-sm">{subject.name}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      className="w-24"
+                      aria-label={`Mínimo semanal de ${subject.name}`}
+                      value={subjectHours[subject.id] ?? ''}
+                      onChange={(e) => setSubjectHours(prev => ({ ...prev, [subject.id]: e.target.value }))}
+                      placeholder="—"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar metas
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
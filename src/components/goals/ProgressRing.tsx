@@ -0,0 +1,47 @@
+import { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+interface ProgressRingProps {
+  // Fraction of the goal reached; values above 1 show a full ring
+  value: number;
+  size?: number;
+  strokeWidth?: number;
+  className?: string;
+  children?: ReactNode;
+}
+
+// Circular progress indicator with its label in the middle
+export const ProgressRing = ({ value, size = 96, strokeWidth = 8, className, children }: ProgressRingProps) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const fraction = Math.min(1, Math.max(0, value));
+
+  return (
+    <div className={cn('relative inline-flex items-center justify-center', className)} style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          className="stroke-muted"
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - fraction)}
+          className={cn('transition-all duration-500', fraction >= 1 ? 'stroke-success' : 'stroke-primary')}
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center text-center">
+        {children}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Flame, Loader2, Snowflake } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { StreakSummary, STREAK_FREEZES_PER_MONTH } from '@/lib/streaks';
+import { cn } from '@/lib/utils';
+
+interface StreakCardProps {
+  streak: StreakSummary;
+  freezesLeft: number;
+  // Today or yesterday, when a freeze would help now
+  freezeCandidate: string | null;
+  today: string;
+  onFreeze: (day: string) => Promise<boolean>;
+}
+
+// Consecutive study days, with the monthly freeze days that protect them
+export const StreakCard = ({ streak, freezesLeft, freezeCandidate, today, onFreeze }: StreakCardProps) => {
+  const [freezing, setFreezing] = useState(false);
+
+  const handleFreeze = async () => {
+    if (!freezeCandidate) return;
+    setFreezing(true);
+    await onFreeze(freezeCandidate);
+    setFreezing(false);
+  };
+
+  const status = streak.todayDone
+    ? 'Você já estudou hoje. Continue assim!'
+    : streak.todayFrozen
+      ? 'Hoje está congelado: sua sequência não será quebrada.'
+      : 'Conclua um bloco hoje para manter a sequência.';
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Flame className={cn('h-4 w-4', streak.current > 0 ? 'text-warning' : 'text-muted-foreground')} />
+          Sequência de estudo
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">Dias seguidos com ao menos um bloco concluído</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-6">
+          <div>
+            <p className="text-4xl font-bold tabular-nums">{streak.current}</p>
+            <p className="text-xs text-muted-foreground">{streak.current === 1 ? 'dia' : 'dias'} seguidos</p>
+          </div>
+          <div>
+            <p className="text-lg font-semibold tabular-nums text-muted-foreground">{streak.longest}</p>
+            <p className="text-xs text-muted-foreground">recorde</p>
+          </div>
+        </div>
+
+        <p className="text-sm">{status}</p>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-muted/50 p-3">
+          <div className="flex items-center gap-2 text-sm">
+            <Snowflake className="h-4 w-4 text-accent" />
+            <span>
+              {freezesLeft} de {STREAK_FREEZES_PER_MONTH} congelamentos neste mês
+            </span>
+          </div>
+          {freezeCandidate && (
+            <Button size="sm" variant="outline" onClick={handleFreeze} disabled={freezing}>
+              {freezing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {freezeCandidate === today ? 'Congelar hoje' : 'Congelar ontem'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
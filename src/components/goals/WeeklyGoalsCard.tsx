@@ -0,0 +1,77 @@
+import { Pencil, Target } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Subject } from '@/hooks/useSubjects';
+import { WeeklyGoalProgress } from '@/hooks/useStudyGoals';
+import { ProgressRing } from './ProgressRing';
+
+const formatHours = (minutes: number) => `${(minutes / 60).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}h`;
+
+interface WeeklyGoalsCardProps {
+  progress: WeeklyGoalProgress;
+  subjects: Subject[];
+  onEdit: () => void;
+}
+
+// This week's study against the total goal and each subject's minimum
+export const WeeklyGoalsCard = ({ progress, subjects, onEdit }: WeeklyGoalsCardProps) => {
+  const { targetMinutes, minutes } = progress;
+  const subjectGoals = progress.subjects.filter(goal => subjects.some(s => s.id === goal.subjectId));
+  const hasGoals = targetMinutes !== null || subjectGoals.length > 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Target className="h-4 w-4 text-primary" />
+            Metas da semana
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Matérias abaixo do mínimo ganham prioridade no plano
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onEdit}>
+          <Pencil className="mr-2 h-4 w-4" />
+          {hasGoals ? 'Editar' : 'Definir metas'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {!hasGoals ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Defina uma meta de horas semanais e mínimos por matéria.
+          </p>
+        ) : (
+          <div className="flex flex-col items-center gap-6 sm:flex-row sm:items-start">
+            <ProgressRing value={targetMinutes ? minutes / targetMinutes : 0} size={132} strokeWidth={12}>
+              <span className="text-xl font-bold tabular-nums">{formatHours(minutes)}</span>
+              <span className="text-xs text-muted-foreground">
+                {targetMinutes ? `de ${formatHours(targetMinutes)}` : 'sem meta total'}
+              </span>
+            </ProgressRing>
+
+            {subjectGoals.length > 0 && (
+              <div className="grid flex-1 grid-cols-2 gap-4 sm:grid-cols-3">
+                {subjectGoals.map(goal => (
+                  <div key={goal.subjectId} className="flex flex-col items-center gap-1">
+                    <ProgressRing value={goal.minutes / goal.targetMinutes} size={64} strokeWidth={6}>
+                      <span className="text-xs font-semibold tabular-nums">
+                        {Math.min(100, Math.round(goal.minutes / goal.targetMinutes * 100))}%
+                      </span>
+                    </ProgressRing>
+                    <p className="max-w-full truncate text-xs font-medium">
+                      {subjects.find(s => s.id === goal.subjectId)?.name}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground tabular-nums">
+                      {formatHours(goal.minutes)} / {formatHours(goal.targetMinutes)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
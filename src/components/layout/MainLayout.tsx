@@ -1,6 +1,6 @@
 import { ReactNode } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Calendar, BookOpen, User, Bell, LogOut, Sparkles } from 'lucide-react';
+import { Calendar, BookOpen, User, Bell, LogOut, Sparkles, BarChart3, Trophy } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
@@ -13,6 +13,8 @@ const navItems = [
   { path: '/calendario', icon: Calendar, label: 'Calendário' },
   { path: '/materias', icon: BookOpen, label: 'Matérias' },
   { path: '/sugestoes', icon: Sparkles, label: 'Sugestões' },
+  { path: '/analises', icon: BarChart3, label: 'Análises' },
+  { path: '/metas', icon: Trophy, label: 'Metas' },
   { path: '/perfil', icon: User, label: 'Perfil' },
   { path: '/notificacoes', icon: Bell, label: 'Notificações' },
 ];
@@ -87,14 +89,14 @@ const MainLayout = ({ children }: MainLayoutProps) => {
                 key={item.path}
                 onClick={() => navigate(item.path)}
                 className={cn(
-                  "flex flex-col items-center gap-1 px-4 py-2 rounded-xl transition-all duration-200",
+                  "flex flex-col items-center gap-1 px-1 py-2 rounded-xl transition-all duration-200",
                   isActive 
                     ? "text-accent" 
                     : "text-muted-foreground"
                 )}
               >
                 <item.icon className={cn("w-5 h-5", isActive && "scale-110")} />
-                <span className="text-xs font-medium">{item.label}</span>
+                <span className="text-[10px] font-medium">{item.label}</span>
                 {isActive && (
                   <div className="absolute bottom-1 w-1 h-1 rounded-full bg-accent" />
                 )}
@@ -2,86 +2,49 @@
  * Componente de Toast para Lembrete de Estudo (Task 5.2)
  * 
  * Inclui botões de ação:
- * - "Começar Agora": Inicia contagem regressiva de 50 minutos
+ * - "Começar Agora": Inicia contagem regressiva com a duração do bloco
  * - "Adiar 10min": Adia o lembrete
+ *
+ * O estado da sessão (contagem, pausas e registro do tempo estudado) fica no
+ * StudySessionRunnerProvider; este componente só o exibe.
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Play, Clock, X, Coffee } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { notifyReminderDelayed, notifyStudySessionStarted, notifyStudySessionCompleted, notifyBreakTime } from '@/lib/notifications';
 
 interface StudyReminderToastProps {
   subjectName: string;
-  subjectId: string;
-  startTime: Date;
-  endTime: Date;
-  onStartSession: (subjectId: string) => void;
-  onDelay: (subjectId: string, minutes: number) => void;
+  startTime?: Date;
+  endTime?: Date;
+  isSessionActive: boolean;
+  isPaused: boolean;
+  // Em segundos
+  timeRemaining: number;
+  onStartNow: () => void;
+  onDelay: () => void;
+  onPauseResume: () => void;
+  onComplete: () => void;
   onDismiss: () => void;
-  isVisible: boolean;
 }
 
 export const StudyReminderToast: React.FC<StudyReminderToastProps> = ({
   subjectName,
-  subjectId,
   startTime,
   endTime,
-  onStartSession,
+  isSessionActive,
+  isPaused,
+  timeRemaining,
+  onStartNow,
   onDelay,
+  onPauseResume,
+  onComplete,
   onDismiss,
-  isVisible,
 }) => {
-  const [isSessionActive, setIsSessionActive] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState(50 * 60); // 50 minutos em segundos
-  const [isPaused, setIsPaused] = useState(false);
-
-  const timeRange = `${format(startTime, "HH:mm")} - ${format(endTime, "HH:mm")}`;
-
-  const handleStartNow = useCallback(() => {
-    setIsSessionActive(true);
-    setTimeRemaining(50 * 60);
-    setIsPaused(false);
-    onStartSession(subjectId);
-    notifyStudySessionStarted(subjectName, 50);
-  }, [subjectId, subjectName, onStartSession]);
-
-  const handleDelay10Min = useCallback(() => {
-    onDelay(subjectId, 10);
-    notifyReminderDelayed(10);
-    onDismiss();
-  }, [subjectId, onDelay, onDismiss]);
-
-  const handleSessionComplete = useCallback(() => {
-    setIsSessionActive(false);
-    notifyStudySessionCompleted(subjectName);
-    notifyBreakTime();
-    onDismiss();
-  }, [subjectName, onDismiss]);
-
-  const handlePauseResume = useCallback(() => {
-    setIsPaused(prev => !prev);
-  }, []);
-
-  // Timer countdown
-  useEffect(() => {
-    if (!isSessionActive || isPaused) return;
-
-    const interval = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 1) {
-          handleSessionComplete();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [isSessionActive, isPaused, handleSessionComplete]);
+  const timeRange = startTime && endTime ? `${format(startTime, "HH:mm")} - ${format(endTime, "HH:mm")}` : '';
 
   // Formatar tempo restante
   const formatTime = (seconds: number) => {
@@ -90,8 +53,6 @@ export const StudyReminderToast: React.FC<StudyReminderToastProps> = ({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  if (!isVisible) return null;
-
   return (
     <Card className={cn(
       "fixed bottom-4 right-4 z-50 w-80 shadow-lg animate-in slide-in-from-right-5",
@@ -114,14 +75,16 @@ export const StudyReminderToast: React.FC<StudyReminderToastProps> = ({
               <p className="text-xs text-muted-foreground">{subjectName}</p>
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onDismiss}
-            className="h-6 w-6 p-0"
-          >
-            <X className="w-4 h-4" />
-          </Button>
+          {!isSessionActive && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDismiss}
+              className="h-6 w-6 p-0"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          )}
         </div>
 
         {isSessionActive ? (
@@ -140,7 +103,7 @@ export const StudyReminderToast: React.FC<StudyReminderToastProps> = ({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={handlePauseResume}
+                onClick={onPauseResume}
                 className="flex-1"
               >
                 {isPaused ? 'Continuar' : 'Pausar'}
@@ -148,7 +111,7 @@ export const StudyReminderToast: React.FC<StudyReminderToastProps> = ({
               <Button
                 variant="default"
                 size="sm"
-                onClick={handleSessionComplete}
+                onClick={onComplete}
                 className="flex-1"
               >
                 Concluir
@@ -166,7 +129,7 @@ export const StudyReminderToast: React.FC<StudyReminderToastProps> = ({
               <Button
                 variant="default"
                 size="sm"
-                onClick={handleStartNow}
+                onClick={onStartNow}
                 className="flex-1 gap-1"
               >
                 <Play className="w-3 h-3" />
@@ -175,7 +138,7 @@ export const StudyReminderToast: React.FC<StudyReminderToastProps> = ({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={handleDelay10Min}
+                onClick={onDelay}
                 className="flex-1"
               >
                 Adiar 10min
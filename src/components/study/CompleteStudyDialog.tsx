@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { differenceInMinutes, format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, CheckCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { StudyBlock } from '@/hooks/useStudySuggestions';
+import { ReviewItem, ReviewQuality } from '@/hooks/useReviewItems';
+
+// Anki-style shortcuts for the SM-2 quality scale
+const QUALITY_OPTIONS: { value: ReviewQuality; label: string; description: string }[] = [
+  { value: 1, label: 'Esqueci', description: 'Revisar amanhã' },
+  { value: 3, label: 'Difícil', description: 'Lembrei com esforço' },
+  { value: 4, label: 'Bom', description: 'Lembrei bem' },
+  { value: 5, label: 'Fácil', description: 'Lembrei sem esforço' }
+];
+
+interface CompleteStudyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  block: StudyBlock | null;
+  reviewItems: ReviewItem[];
+  // actualMinutes: time the user says was really studied in the block
+  onConfirm: (topic: string, quality: ReviewQuality, actualMinutes: number) => Promise<void>;
+}
+
+export const CompleteStudyDialog = ({
+  open,
+  onOpenChange,
+  block,
+  reviewItems,
+  onConfirm
+}: CompleteStudyDialogProps) => {
+  const [topic, setTopic] = useState('');
+  const [quality, setQuality] = useState<ReviewQuality>(4);
+  const [actualMinutes, setActualMinutes] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setTopic(block?.reviewTopic || block?.prepTopic || '');
+    setQuality(4);
+    setActualMinutes(block ? String(differenceInMinutes(block.endTime, block.startTime)) : '');
+  }, [block, open]);
+
+  if (!block) return null;
+
+  const isReview = !!block.reviewItemId;
+  const subjectTopics = reviewItems.filter(item => item.subject_id === block.subject.id);
+
+  const handleConfirm = async () => {
+    setLoading(true);
+    try {
+      await onConfirm(topic, quality, Math.max(0, Number(actualMinutes) || 0));
+      onOpenChange(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isReview ? 'Revisão concluída' : 'Bloco de estudo concluído'}</DialogTitle>
+          <DialogDescription>
+            {block.subject.name} · {format(block.startTime, 'HH:mm')} - {format(block.endTime, 'HH:mm')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="review-topic">Tópico estudado</Label>
+            <Input
+              id="review-topic"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              placeholder="Ex: Limites laterais"
+              maxLength={100}
+              disabled={isReview}
+            />
+            {!isReview && subjectTopics.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {subjectTopics.map(item => (
+                  <Badge
+                    key={item.id}
+                    variant={item.topic === topic ? 'default' : 'outline'}
+                    className="cursor-pointer text-xs"
+                    onClick={() => setTopic(item.topic)}
+                  >
+                    {item.topic}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Deixe em branco para apenas concluir o bloco, sem agendar revisão.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="actual-minutes">Tempo estudado (min)</Label>
+            <Input
+              id="actual-minutes"
+              type="number"
+              min={0}
+              max={600}
+              value={actualMinutes}
+              onChange={(e) => setActualMinutes(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Matérias estudadas bem menos que o planejado ganham prioridade no próximo plano.
+            </p>
+          </div>
+
+          {topic.trim() && (
+            <div className="space-y-2">
+              <Label>Como foi a fixação?</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {QUALITY_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setQuality(option.value)}
+                    className={cn(
+                      "p-2 rounded-lg border text-left transition-colors",
+                      quality === option.value ? "border-primary bg-primary/10" : "hover:bg-muted"
+                    )}
+                  >
+                    <p className="text-sm font-medium">{option.label}</p>
+                    <p className="text-xs text-muted-foreground">{option.description}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleConfirm} disabled={loading}>
+            {loading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CheckCircle className="mr-2 h-4 w-4" />
+            )}
+            Concluir
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
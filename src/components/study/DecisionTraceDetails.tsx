@@ -0,0 +1,110 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { AlertTriangle, Calendar, RotateCcw, Shuffle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { DecisionReason, DecisionTrace } from '@/lib/planner';
+import { cn } from '@/lib/utils';
+
+// How many ranked candidates to list
+const MAX_CANDIDATES = 5;
+
+const describeReason = (trace: DecisionTrace, chosenScore: number): string => {
+  const reasons: Record<DecisionReason, string> = {
+    priority: 'Horário garantido da matéria na distribuição por prioridade',
+    threshold_extra: chosenScore >= trace.repeatTripleThreshold
+      ? `Horário extra: score ≥ ${trace.repeatTripleThreshold} garante +3 horários`
+      : `Horário extra: score ≥ ${trace.repeatOnceThreshold} garante +1 horário`,
+    rotation: 'Horários sobrando distribuídos em rodízio por prioridade',
+    deadline_effort: 'Horário reservado para cumprir o esforço estimado de um prazo',
+    review: `Revisão espaçada${trace.reviewTopic ? ` do tópico "${trace.reviewTopic}"` : ''}`,
+    carry_over: 'Reagendado para repor blocos perdidos ou pulados da matéria',
+    constraint: 'A matéria prevista esbarrou em uma restrição; esta é a próxima permitida por prioridade'
+  };
+  return reasons[trace.reason];
+};
+
+interface DecisionTraceDetailsProps {
+  trace: DecisionTrace;
+}
+
+// Explains why the planner picked a subject for a study block
+export const DecisionTraceDetails = ({ trace }: DecisionTraceDetailsProps) => {
+  const chosenIndex = trace.candidates.findIndex(c => c.subjectId === trace.chosenSubjectId);
+  const chosen = trace.candidates[chosenIndex];
+  const candidates = trace.candidates.slice(0, MAX_CANDIDATES);
+
+  // Traces recorded before the coefficients existed used (D + B)
+  const difficultyCoefficient = trace.difficultyCoefficient ?? 1;
+  const dedicationCoefficient = trace.dedicationCoefficient ?? 1;
+  const weightsLabel = (difficulty: number | string, dedication: number | string) =>
+    difficultyCoefficient === 1 && dedicationCoefficient === 1
+      ? `(${difficulty} + ${dedication})`
+      : `(${difficultyCoefficient}·${difficulty} + ${dedicationCoefficient}·${dedication})`;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div>
+        <p className="font-medium">Por que {chosen?.subjectName ?? 'esta matéria'}?</p>
+        <p className="text-xs text-muted-foreground">{describeReason(trace, chosen?.score ?? 0)}</p>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {chosenIndex >= 0 && (
+          <Badge variant="outline" className="text-xs">
+            #{chosenIndex + 1} de {trace.candidates.length}
+          </Badge>
+        )}
+        {trace.interleaved && (
+          <Badge variant="secondary" className="text-xs gap-1">
+            <Shuffle className="h-3 w-3" />
+            Intercalado
+          </Badge>
+        )}
+        {trace.delayed && (
+          <Badge variant="secondary" className="text-xs gap-1 text-warning">
+            <AlertTriangle className="h-3 w-3" />
+            Bônus de atraso
+          </Badge>
+        )}
+        {chosen && chosen.reviewBonus > 0 && (
+          <Badge variant="secondary" className="text-xs gap-1">
+            <RotateCcw className="h-3 w-3" />
+            Revisões pendentes
+          </Badge>
+        )}
+      </div>
+
+      {trace.deadline && (
+        <div className="flex items-center gap-2 p-2 bg-destructive/10 rounded-md text-xs">
+          <Calendar className="h-3 w-3 text-destructive shrink-0" />
+          <span className="truncate">
+            {trace.deadline.title} · {format(new Date(trace.deadline.start_datetime), "dd/MM 'às' HH:mm", { locale: ptBR })}
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <p className="text-xs font-medium text-muted-foreground">Candidatas (P = {weightsLabel('D', 'B')} × (1 + U) + bônus)</p>
+        {candidates.map((candidate, index) => {
+          const bonus = candidate.delayBonus + candidate.reviewBonus + (candidate.studyTimeBonus ?? 0) + (candidate.goalBonus ?? 0);
+          return (
+            <div
+              key={candidate.subjectId}
+              className={cn(
+                "flex items-center justify-between gap-2 rounded px-2 py-1 text-xs",
+                candidate.subjectId === trace.chosenSubjectId ? "bg-primary/10 font-medium" : "text-muted-foreground"
+              )}
+            >
+              <span className="truncate">{index + 1}. {candidate.subjectName}</span>
+              <span className="shrink-0 tabular-nums">
+                {weightsLabel(candidate.difficultyWeight, candidate.dedicationWeight)} × (1 + {candidate.urgencyFactor})
+                {bonus > 0 && ` + ${bonus}`} = {candidate.score.toFixed(1)}
+                {candidate.extraSlots > 0 && ` · +${candidate.extraSlots}`}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import { Scissors, TimerOff, TrendingUp } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Subject } from '@/hooks/useSubjects';
+import { DELAY_HISTORY_DAYS, SubjectDelayPattern, UnreliableTime } from '@/lib/planner';
+import { cn } from '@/lib/utils';
+
+const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+interface DelayPatternsCardProps {
+  pattern: SubjectDelayPattern;
+  subject?: Subject;
+}
+
+// Delay history of one subject: weekdays it gets given up on and what to try next
+export const DelayPatternsCard = ({ pattern, subject }: DelayPatternsCardProps) => {
+  const { delayCount, byWeekday, escalatedBonus, suggestedBlockMinutes } = pattern;
+  const maxPerDay = Math.max(...byWeekday, 1);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-base font-semibold">{subject?.name ?? 'Matéria removida'}</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              Adiada {delayCount} vez(es) nos últimos {DELAY_HISTORY_DAYS} dias
+            </p>
+          </div>
+          <Badge variant="outline" className="text-xs gap-1">
+            <TrendingUp className="h-3 w-3" />
+            Próximo atraso: +{escalatedBonus.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}
+          </Badge>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-7 gap-1">
+          {byWeekday.map((count, weekday) => (
+            <div key={weekday} className="flex flex-col items-center gap-1">
+              <div className="flex h-10 w-full items-end rounded-sm bg-muted">
+                <div
+                  className={cn('w-full rounded-sm', count > 0 ? 'bg-destructive/70' : 'bg-transparent')}
+                  style={{ height: `${(count / maxPerDay) * 100}%` }}
+                />
+              </div>
+              <span className="text-xs text-muted-foreground">{WEEKDAY_LABELS[weekday]}</span>
+            </div>
+          ))}
+        </div>
+
+        {suggestedBlockMinutes && (
+          <div className="flex items-center gap-2 rounded-lg bg-warning/10 p-2 text-sm">
+            <Scissors className="h-4 w-4 text-warning" />
+            <span>
+              Experimente dividir em blocos de {suggestedBlockMinutes} min nas preferências de estudo
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+interface UnreliableTimesCardProps {
+  times: UnreliableTime[];
+}
+
+// Weekdays and hours at which study blocks keep being given up
+export const UnreliableTimesCard = ({ times }: UnreliableTimesCardProps) => (
+  <Card className="border-warning/50">
+    <CardHeader className="pb-2">
+      <CardTitle className="flex items-center gap-2 text-base font-semibold">
+        <TimerOff className="h-4 w-4 text-warning" />
+        Horários pouco confiáveis
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="flex flex-wrap gap-2">
+      {times.map(time => (
+        <Badge key={`${time.weekday}-${time.hour}`} variant="outline" className="text-xs">
+          {WEEKDAY_LABELS[time.weekday]} {time.hour}h · {time.delayCount} adiamentos
+        </Badge>
+      ))}
+    </CardContent>
+  </Card>
+);
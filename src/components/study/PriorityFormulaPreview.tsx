@@ -0,0 +1,83 @@
+import { useMemo, useState } from 'react';
+import { addDays } from 'date-fns';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Subject } from '@/hooks/useSubjects';
+import { CalendarEvent } from '@/hooks/useCalendarEvents';
+import { PlannerConfig, StudyDelay, calculateSubjectPriorities, fixedClock } from '@/lib/planner';
+import { PriorityScoreCard } from './PriorityScoreCard';
+
+// Reference "now" for the preview, so the sample deadline is a whole number of days away
+const PREVIEW_NOW = new Date(2025, 0, 6, 8, 0);
+
+const SAMPLE_SUBJECT: Subject = {
+  id: 'preview',
+  user_id: 'preview',
+  name: 'Matéria de exemplo',
+  status: 'ativa',
+  difficulty_weight: 4,
+  dedication_weight: 3,
+  created_at: PREVIEW_NOW.toISOString(),
+  updated_at: PREVIEW_NOW.toISOString()
+};
+
+interface PriorityFormulaPreviewProps {
+  config: PlannerConfig;
+}
+
+// Live score of a sample subject under a draft planner configuration
+export const PriorityFormulaPreview = ({ config }: PriorityFormulaPreviewProps) => {
+  const [daysUntilDeadline, setDaysUntilDeadline] = useState(3);
+  const [delayed, setDelayed] = useState(false);
+
+  const priority = useMemo(() => {
+    const deadline: CalendarEvent = {
+      id: 'preview-deadline',
+      user_id: 'preview',
+      subject_id: SAMPLE_SUBJECT.id,
+      title: 'Prova',
+      event_type: 'deadline',
+      start_datetime: addDays(PREVIEW_NOW, daysUntilDeadline).toISOString(),
+      is_recurring: false,
+      created_at: PREVIEW_NOW.toISOString(),
+      updated_at: PREVIEW_NOW.toISOString()
+    };
+    const delays: StudyDelay[] = delayed ? [{
+      id: 'preview-delay',
+      user_id: 'preview',
+      subject_id: SAMPLE_SUBJECT.id,
+      delayed_at: PREVIEW_NOW.toISOString(),
+      expires_at: addDays(PREVIEW_NOW, 1).toISOString(),
+      created_at: PREVIEW_NOW.toISOString()
+    }] : [];
+
+    return calculateSubjectPriorities([SAMPLE_SUBJECT], [deadline], delays, {
+      clock: fixedClock(PREVIEW_NOW),
+      config
+    })[0];
+  }, [config, daysUntilDeadline, delayed]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Prazo em {daysUntilDeadline} dia(s)</Label>
+          <Slider
+            min={0}
+            max={21}
+            step={1}
+            value={[daysUntilDeadline]}
+            onValueChange={([value]) => setDaysUntilDeadline(value)}
+          />
+        </div>
+        <div className="flex items-center gap-3">
+          <Switch id="preview_delayed" checked={delayed} onCheckedChange={setDelayed} />
+          <Label htmlFor="preview_delayed">Com atraso recente</Label>
+        </div>
+      </div>
+
+      {priority && <PriorityScoreCard priority={priority} rank={1} config={config} />}
+    </div>
+  );
+};
@@ -1,29 +1,41 @@
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { TrendingUp, Clock, Brain, Target, AlertTriangle, Calendar } from 'lucide-react';
+import { TrendingUp, Clock, Brain, Target, AlertTriangle, Calendar, RotateCcw, Hourglass, Flag } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { SubjectPriority } from '@/hooks/useStudySuggestions';
+import { DEADLINE_KIND_LABELS } from '@/hooks/useCalendarEvents';
+import { DEFAULT_PLANNER_CONFIG, GOAL_BONUS, MAX_REVIEW_BONUS, PEAK_URGENCY, PlannerConfig, UNDER_STUDY_BONUS } from '@/lib/planner';
 import { cn } from '@/lib/utils';
 
 interface PriorityScoreCardProps {
   priority: SubjectPriority;
   rank: number;
+  config?: PlannerConfig;
 }
 
-export const PriorityScoreCard = ({ priority, rank }: PriorityScoreCardProps) => {
+export const PriorityScoreCard = ({ priority, rank, config = DEFAULT_PLANNER_CONFIG }: PriorityScoreCardProps) => {
   const { 
     subject, 
     difficultyWeight, 
     dedicationWeight, 
     urgencyFactor, 
     delayBonus, 
+    reviewBonus,
+    studyTimeBonus,
+    goalBonus,
+    dueReviews,
+    recentDelays,
     score, 
-    nearestDeadline 
+    nearestDeadline,
+    urgentDeadline
   } = priority;
 
-  const maxPossibleScore = (5 + 5) * (1 + 1.5) + 2; // Max D + Max B with max urgency + delay bonus
+  const { difficultyCoefficient, dedicationCoefficient } = config;
+  const maxPossibleScore = (difficultyCoefficient * 5 + dedicationCoefficient * 5) * (1 + PEAK_URGENCY) + config.delayBonus + MAX_REVIEW_BONUS + UNDER_STUDY_BONUS + GOAL_BONUS; // Max D + Max B with max urgency + bonuses
+  const hasCoefficients = difficultyCoefficient !== 1 || dedicationCoefficient !== 1;
+  const totalBonus = delayBonus + reviewBonus + studyTimeBonus + goalBonus;
   const scorePercentage = (score / maxPossibleScore) * 100;
 
   const getUrgencyLabel = (factor: number): string => {
@@ -84,17 +96,43 @@ export const PriorityScoreCard = ({ priority, rank }: PriorityScoreCardProps) =>
             <Clock className={cn("h-4 w-4", getUrgencyColor(urgencyFactor))} />
             <span className="text-muted-foreground">Urgência:</span>
             <span className={cn("font-medium", getUrgencyColor(urgencyFactor))}>
-              {getUrgencyLabel(urgencyFactor)}
+              {getUrgencyLabel(urgencyFactor)}{urgencyFactor > 0 && ` (${urgencyFactor})`}
             </span>
           </div>
 
           {delayBonus > 0 && (
             <div className="flex items-center gap-2">
               <AlertTriangle className="h-4 w-4 text-warning" />
-              <span className="text-muted-foreground">Bônus atraso:</span>
+              <span className="text-muted-foreground">
+                Bônus atraso{recentDelays > 1 && ` (${recentDelays}x)`}:
+              </span>
               <span className="font-medium text-warning">+{delayBonus}</span>
             </div>
           )}
+
+          {reviewBonus > 0 && (
+            <div className="flex items-center gap-2">
+              <RotateCcw className="h-4 w-4 text-accent" />
+              <span className="text-muted-foreground">Revisões ({dueReviews}):</span>
+              <span className="font-medium text-accent">+{reviewBonus}</span>
+            </div>
+          )}
+
+          {studyTimeBonus > 0 && (
+            <div className="flex items-center gap-2">
+              <Hourglass className="h-4 w-4 text-warning" />
+              <span className="text-muted-foreground">Abaixo do planejado:</span>
+              <span className="font-medium text-warning">+{studyTimeBonus}</span>
+            </div>
+          )}
+
+          {goalBonus > 0 && (
+            <div className="flex items-center gap-2">
+              <Flag className="h-4 w-4 text-primary" />
+              <span className="text-muted-foreground">Meta semanal:</span>
+              <span className="font-medium text-primary">+{goalBonus}</span>
+            </div>
+          )}
         </div>
 
         {nearestDeadline && (
@@ -110,12 +148,21 @@ export const PriorityScoreCard = ({ priority, rank }: PriorityScoreCardProps) =>
           </div>
         )}
 
+        {urgentDeadline && (
+          <p className="text-xs text-muted-foreground">
+            Urgência definida por {urgentDeadline.id === nearestDeadline?.id ? 'este prazo' : `"${urgentDeadline.title}"`}
+            {' '}({DEADLINE_KIND_LABELS[urgentDeadline.deadline_kind ?? 'prova']})
+          </p>
+        )}
+
         <div className="pt-2 border-t">
           <p className="text-xs text-muted-foreground">
-            Fórmula: P = (D + B) × (1 + U) {delayBonus > 0 ? '+ Bônus' : ''}
+            Fórmula: P = {hasCoefficients ? `(${difficultyCoefficient}·D + ${dedicationCoefficient}·B)` : '(D + B)'} × (1 + U) {totalBonus > 0 ? '+ Bônus' : ''}
           </p>
           <p className="text-xs text-muted-foreground">
-            = ({difficultyWeight} + {dedicationWeight}) × (1 + {urgencyFactor}) {delayBonus > 0 ? `+ ${delayBonus}` : ''} = {score.toFixed(1)}
+            = {hasCoefficients
+              ? `(${difficultyCoefficient}·${difficultyWeight} + ${dedicationCoefficient}·${dedicationWeight})`
+              : `(${difficultyWeight} + ${dedicationWeight})`} × (1 + {urgencyFactor}) {totalBonus > 0 ? `+ ${totalBonus}` : ''} = {score.toFixed(1)}
           </p>
         </div>
       </CardContent>
@@ -0,0 +1,140 @@
+import { useState, useEffect } from 'react';
+import { z } from 'zod';
+import { Loader2, NotebookPen } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CreateReflectionData, ReflectionTarget } from '@/hooks/useStudyReflections';
+import { reflectionSchema } from '@/lib/validations';
+import { cn } from '@/lib/utils';
+
+const UNDERSTANDING_OPTIONS = [
+  { value: 1, label: 'Perdido' },
+  { value: 2, label: 'Confuso' },
+  { value: 3, label: 'Razoável' },
+  { value: 4, label: 'Bem' },
+  { value: 5, label: 'Dominado' }
+];
+
+// Comma-separated topics, without blanks or repeats
+const parseTopics = (text: string) =>
+  [...new Set(text.split(',').map(topic => topic.trim()).filter(Boolean))];
+
+interface ReflectionDialogProps {
+  target: ReflectionTarget | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: CreateReflectionData) => Promise<boolean>;
+}
+
+// Quick self-assessment after a block; its ratings recalibrate the subject's difficulty
+export const ReflectionDialog = ({ target, onOpenChange, onSubmit }: ReflectionDialogProps) => {
+  const [understanding, setUnderstanding] = useState(0);
+  const [topicsText, setTopicsText] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setUnderstanding(0);
+    setTopicsText(target?.topics?.join(', ') ?? '');
+    setNote('');
+    setError(null);
+  }, [target]);
+
+  if (!target) return null;
+
+  const handleSubmit = async () => {
+    setError(null);
+
+    try {
+      const data = reflectionSchema.parse({ understanding, topics: parseTopics(topicsText), note });
+      setSaving(true);
+      const success = await onSubmit({
+        subjectId: target.subjectId,
+        sessionId: target.sessionId,
+        understanding: data.understanding,
+        topics: data.topics,
+        note: data.note
+      });
+      if (success) onOpenChange(false);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        setError(err.errors[0]?.message ?? 'Reflexão inválida');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <NotebookPen className="h-5 w-5 text-accent" />
+            Como foi o estudo?
+          </DialogTitle>
+          <DialogDescription>{target.subjectName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Quanto você entendeu?</Label>
+            <div className="grid grid-cols-5 gap-1">
+              {UNDERSTANDING_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setUnderstanding(option.value)}
+                  className={cn(
+                    "rounded-lg border p-2 text-center transition-colors",
+                    understanding === option.value ? "border-primary bg-primary/10" : "hover:bg-muted"
+                  )}
+                >
+                  <p className="text-lg font-semibold">{option.value}</p>
+                  <p className="text-[10px] text-muted-foreground">{option.label}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reflection-topics">Tópicos estudados</Label>
+            <Input
+              id="reflection-topics"
+              value={topicsText}
+              onChange={(e) => setTopicsText(e.target.value)}
+              placeholder="Separe por vírgulas. Ex: Limites, Continuidade"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reflection-note">Anotação</Label>
+            <Textarea
+              id="reflection-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="O que ficou claro, o que ainda falta..."
+              rows={3}
+              maxLength={1000}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Pular
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || understanding === 0}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Salvar reflexão
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
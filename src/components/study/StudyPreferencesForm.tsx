@@ -0,0 +1,550 @@
+import { useState, useEffect, useMemo } from 'react';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Save, Timer, RotateCcw, Shuffle, Zap, Sigma, CalendarOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { studyPreferencesSchema } from '@/lib/validations';
+import {
+  useStudyPreferences,
+  DEFAULT_STUDY_PREFERENCES,
+  StudyPreferencesData,
+  toPlannerConfig
+} from '@/hooks/useStudyPreferences';
+import { Chronotype, MAX_ENERGY_LEVEL, MIN_ENERGY_LEVEL, UrgencyCurve, getEnergyCurve } from '@/lib/planner';
+import { PriorityFormulaPreview } from './PriorityFormulaPreview';
+
+const PRESETS = [
+  { label: 'Pomodoro', description: '25 / 5 min', study_block_minutes: 25, break_minutes: 5 },
+  { label: 'Padrão', description: '50 / 10 min', study_block_minutes: 50, break_minutes: 10 },
+  { label: 'Foco profundo', description: '90 / 15 min', study_block_minutes: 90, break_minutes: 15 }
+];
+
+// Availability settings are edited in the free-time detection dialog
+type AvailabilityField =
+  | 'availability_start'
+  | 'availability_end'
+  | 'excluded_time_ranges'
+  | 'min_free_slot_minutes'
+  | 'free_slot_buffer_minutes';
+type NonNumericField = 'interleave_subjects' | 'urgency_curve' | 'chronotype' | 'energy_curve' | 'rest_days';
+type NumericField = Exclude<keyof StudyPreferencesData, NonNumericField | AvailabilityField>;
+type FormValues = Record<NumericField, string> & {
+  interleave_subjects: boolean;
+  urgency_curve: UrgencyCurve;
+  chronotype: Chronotype;
+  // Curve shown in the editor; only stored for the custom chronotype
+  energy_curve: number[];
+  rest_days: number[];
+};
+
+const URGENCY_CURVES: { value: UrgencyCurve; label: string; description: string }[] = [
+  { value: 'step', label: 'Degraus', description: '2,0 / 1,5 / 1,2 / 1,0 / 0,5 / 0' },
+  { value: 'linear', label: 'Linear', description: 'Sobe por igual até o prazo' },
+  { value: 'exponential', label: 'Exponencial', description: 'Dispara perto do prazo' }
+];
+
+const FORMULA_FIELDS: { name: NumericField; label: string; hint: string; step: string }[] = [
+  { name: 'difficulty_coefficient', label: 'Coeficiente de dificuldade (cD)', hint: 'Peso da dificuldade D no score', step: '0.1' },
+  { name: 'dedication_coefficient', label: 'Coeficiente de dedicação (cB)', hint: 'Peso da dedicação B no score', step: '0.1' },
+  { name: 'delay_bonus', label: 'Bônus de atraso', hint: 'Somado ao score P por 24h após "Não consegui"', step: '0.5' }
+];
+
+const CHRONOTYPES: { value: Chronotype; label: string; description: string }[] = [
+  { value: 'neutral', label: 'Sem preferência', description: 'Mesma energia o dia todo' },
+  { value: 'morning', label: 'Matutino', description: 'Mais disposição pela manhã' },
+  { value: 'evening', label: 'Noturno', description: 'Mais disposição à noite' },
+  { value: 'custom', label: 'Personalizado', description: 'Defina hora a hora' }
+];
+
+const CONSTRAINT_FIELDS: { name: NumericField; label: string; hint: string; step: string }[] = [
+  { name: 'max_daily_study_hours', label: 'Máximo de horas de estudo por dia', hint: 'Em branco para não limitar', step: '0.5' },
+  { name: 'max_subject_blocks_per_day', label: 'Máximo de blocos da mesma matéria por dia', hint: 'Em branco para não limitar', step: '1' }
+];
+
+const WEEKDAYS = [
+  { value: 0, label: 'Dom' },
+  { value: 1, label: 'Seg' },
+  { value: 2, label: 'Ter' },
+  { value: 3, label: 'Qua' },
+  { value: 4, label: 'Qui' },
+  { value: 5, label: 'Sex' },
+  { value: 6, label: 'Sáb' }
+];
+
+// Optional limits are edited as text; empty means no limit
+const toOptionalNumber = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+const toFormValues = (data: StudyPreferencesData): FormValues => ({
+  study_block_minutes: String(data.study_block_minutes),
+  break_minutes: String(data.break_minutes),
+  difficulty_coefficient: String(data.difficulty_coefficient),
+  dedication_coefficient: String(data.dedication_coefficient),
+  urgency_curve: data.urgency_curve,
+  urgency_horizon_days: String(data.urgency_horizon_days),
+  delay_bonus: String(data.delay_bonus),
+  repeat_once_threshold: String(data.repeat_once_threshold),
+  repeat_triple_threshold: String(data.repeat_triple_threshold),
+  interleave_subjects: data.interleave_subjects,
+  max_consecutive_blocks: String(data.max_consecutive_blocks),
+  chronotype: data.chronotype,
+  energy_curve: [...getEnergyCurve(data.chronotype, data.energy_curve)],
+  max_daily_study_hours: data.max_daily_study_hours === null ? '' : String(data.max_daily_study_hours),
+  max_subject_blocks_per_day: data.max_subject_blocks_per_day === null ? '' : String(data.max_subject_blocks_per_day),
+  rest_days: [...data.rest_days]
+});
+
+const toPreferencesData = (values: FormValues): StudyPreferencesData => ({
+  ...DEFAULT_STUDY_PREFERENCES,
+  study_block_minutes: Number(values.study_block_minutes),
+  break_minutes: Number(values.break_minutes),
+  difficulty_coefficient: Number(values.difficulty_coefficient),
+  dedication_coefficient: Number(values.dedication_coefficient),
+  urgency_curve: values.urgency_curve,
+  urgency_horizon_days: Number(values.urgency_horizon_days),
+  delay_bonus: Number(values.delay_bonus),
+  repeat_once_threshold: Number(values.repeat_once_threshold),
+  repeat_triple_threshold: Number(values.repeat_triple_threshold),
+  interleave_subjects: values.interleave_subjects,
+  max_consecutive_blocks: Number(values.max_consecutive_blocks),
+  chronotype: values.chronotype,
+  energy_curve: values.chronotype === 'custom' ? values.energy_curve : null,
+  max_daily_study_hours: toOptionalNumber(values.max_daily_study_hours),
+  max_subject_blocks_per_day: toOptionalNumber(values.max_subject_blocks_per_day),
+  rest_days: values.rest_days
+});
+
+const FIELDS: { name: NumericField; label: string; hint: string; step: string }[] = [
+  { name: 'study_block_minutes', label: 'Duração do bloco (min)', hint: 'Tempo de cada bloco de estudo e do cronômetro', step: '5' },
+  { name: 'break_minutes', label: 'Duração da pausa (min)', hint: 'Intervalo entre blocos consecutivos', step: '1' },
+  { name: 'repeat_once_threshold', label: 'Score para 1 repetição extra', hint: 'Matérias com P acima disso ganham +1 horário', step: '0.5' },
+  { name: 'repeat_triple_threshold', label: 'Score para 3 repetições extras', hint: 'Matérias com P acima disso ganham +3 horários', step: '0.5' }
+];
+
+export const StudyPreferencesForm = () => {
+  const { preferences, loading, savePreferences } = useStudyPreferences();
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [formData, setFormData] = useState<FormValues>(toFormValues(DEFAULT_STUDY_PREFERENCES));
+
+  useEffect(() => {
+    setFormData(toFormValues(preferences || DEFAULT_STUDY_PREFERENCES));
+  }, [preferences]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const applyPreset = (preset: typeof PRESETS[number]) => {
+    setFormData(prev => ({
+      ...prev,
+      study_block_minutes: String(preset.study_block_minutes),
+      break_minutes: String(preset.break_minutes)
+    }));
+    setErrors({});
+  };
+
+  const selectChronotype = (chronotype: Chronotype) => {
+    // A custom curve starts from the curve currently shown
+    setFormData(prev => ({
+      ...prev,
+      chronotype,
+      energy_curve: chronotype === 'custom' ? prev.energy_curve : [...getEnergyCurve(chronotype)]
+    }));
+  };
+
+  const cycleEnergyLevel = (hour: number) => {
+    setFormData(prev => ({
+      ...prev,
+      energy_curve: prev.energy_curve.map((level, h) =>
+        h === hour ? (level >= MAX_ENERGY_LEVEL ? MIN_ENERGY_LEVEL : level + 1) : level
+      )
+    }));
+  };
+
+  const toggleRestDay = (day: number) => {
+    setFormData(prev => ({
+      ...prev,
+      rest_days: prev.rest_days.includes(day)
+        ? prev.rest_days.filter(d => d !== day)
+        : [...prev.rest_days, day].sort((a, b) => a - b)
+    }));
+  };
+
+  const resetFormula = () => {
+    setFormData(prev => ({
+      ...prev,
+      difficulty_coefficient: String(DEFAULT_STUDY_PREFERENCES.difficulty_coefficient),
+      dedication_coefficient: String(DEFAULT_STUDY_PREFERENCES.dedication_coefficient),
+      urgency_curve: DEFAULT_STUDY_PREFERENCES.urgency_curve,
+      urgency_horizon_days: String(DEFAULT_STUDY_PREFERENCES.urgency_horizon_days),
+      delay_bonus: String(DEFAULT_STUDY_PREFERENCES.delay_bonus)
+    }));
+    setErrors({});
+  };
+
+  // Config of the values being edited, for the live score preview
+  const draftConfig = useMemo(() => toPlannerConfig(toPreferencesData(formData)), [formData]);
+
+  const handleSave = async () => {
+    setErrors({});
+
+    try {
+      // Availability fields are not part of the schema and are stripped
+      const data = studyPreferencesSchema.parse(toPreferencesData(formData));
+
+      setIsSaving(true);
+      await savePreferences(data as Partial<StudyPreferencesData>);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const newErrors: { [key: string]: string } = {};
+        error.errors.forEach((err) => {
+          newErrors[err.path[0] as string] = err.message;
+        });
+        setErrors(newErrors);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-48">
+          <Loader2 className="w-6 h-6 animate-spin text-accent" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5 text-accent" />
+          Preferências de Estudo
+        </CardTitle>
+        <CardDescription>
+          Ajuste a duração dos blocos, das pausas e os parâmetros usados pelo planejador
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-2 sm:grid-cols-3">
+          {PRESETS.map(preset => {
+            const isActive =
+              formData.study_block_minutes === String(preset.study_block_minutes) &&
+              formData.break_minutes === String(preset.break_minutes);
+            return (
+              <button
+                key={preset.label}
+                type="button"
+                onClick={() => applyPreset(preset)}
+                className={cn(
+                  "p-3 rounded-lg border text-left transition-colors",
+                  isActive ? "border-primary bg-primary/10" : "hover:bg-muted"
+                )}
+              >
+                <p className="text-sm font-medium">{preset.label}</p>
+                <p className="text-xs text-muted-foreground">{preset.description}</p>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {FIELDS.map(field => (
+            <div key={field.name} className="space-y-2">
+              <Label htmlFor={field.name}>{field.label}</Label>
+              <Input
+                id={field.name}
+                name={field.name}
+                type="number"
+                step={field.step}
+                value={formData[field.name]}
+                onChange={handleChange}
+                className={errors[field.name] ? 'border-destructive' : ''}
+              />
+              {errors[field.name] ? (
+                <p className="text-xs text-destructive">{errors[field.name]}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">{field.hint}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Sigma className="w-5 h-5 text-accent" />
+              <div>
+                <Label>Fórmula de prioridade</Label>
+                <p className="text-xs text-muted-foreground">
+                  P = (cD × D + cB × B) × (1 + U) + bônus de atraso + bônus de revisões
+                </p>
+              </div>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={resetFormula}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Padrão
+            </Button>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            {FORMULA_FIELDS.map(field => (
+              <div key={field.name} className="space-y-2">
+                <Label htmlFor={field.name}>{field.label}</Label>
+                <Input
+                  id={field.name}
+                  name={field.name}
+                  type="number"
+                  step={field.step}
+                  value={formData[field.name]}
+                  onChange={handleChange}
+                  className={errors[field.name] ? 'border-destructive' : ''}
+                />
+                {errors[field.name] ? (
+                  <p className="text-xs text-destructive">{errors[field.name]}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">{field.hint}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Curva de urgência</Label>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {URGENCY_CURVES.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, urgency_curve: option.value }))}
+                  className={cn(
+                    "p-3 rounded-lg border text-left transition-colors",
+                    formData.urgency_curve === option.value ? "border-primary bg-primary/10" : "hover:bg-muted"
+                  )}
+                >
+                  <p className="text-sm font-medium">{option.label}</p>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {formData.urgency_curve !== 'step' && (
+            <div className="space-y-2">
+              <Label htmlFor="urgency_horizon_days">Horizonte de urgência (dias)</Label>
+              <Input
+                id="urgency_horizon_days"
+                name="urgency_horizon_days"
+                type="number"
+                step="1"
+                value={formData.urgency_horizon_days}
+                onChange={handleChange}
+                className={errors.urgency_horizon_days ? 'border-destructive' : ''}
+              />
+              {errors.urgency_horizon_days ? (
+                <p className="text-xs text-destructive">{errors.urgency_horizon_days}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">A urgência começa a subir quando faltam menos dias que isso</p>
+              )}
+            </div>
+          )}
+
+          <PriorityFormulaPreview config={draftConfig} />
+        </div>
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Shuffle className="w-5 h-5 text-accent" />
+              <div>
+                <Label htmlFor="interleave_subjects">Intercalar matérias</Label>
+                <p className="text-xs text-muted-foreground">
+                  Divide horários longos entre várias matérias em vez de uma por horário
+                </p>
+              </div>
+            </div>
+            <Switch
+              id="interleave_subjects"
+              checked={formData.interleave_subjects}
+              onCheckedChange={checked => setFormData(prev => ({ ...prev, interleave_subjects: checked }))}
+            />
+          </div>
+
+          {formData.interleave_subjects && (
+            <div className="space-y-2">
+              <Label htmlFor="max_consecutive_blocks">Blocos seguidos da mesma matéria</Label>
+              <Input
+                id="max_consecutive_blocks"
+                name="max_consecutive_blocks"
+                type="number"
+                step="1"
+                value={formData.max_consecutive_blocks}
+                onChange={handleChange}
+                className={errors.max_consecutive_blocks ? 'border-destructive' : ''}
+              />
+              {errors.max_consecutive_blocks ? (
+                <p className="text-xs text-destructive">{errors.max_consecutive_blocks}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">Máximo de blocos consecutivos antes de trocar de matéria</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="flex items-center gap-3">
+            <Zap className="w-5 h-5 text-accent" />
+            <div>
+              <Label>Energia ao longo do dia</Label>
+              <p className="text-xs text-muted-foreground">
+                Matérias mais difíceis vão para os horários de mais energia de cada dia; revisões, para os de menos
+              </p>
+            </div>
+          </div>
+
+          <div className="grid gap-2 grid-cols-2 sm:grid-cols-4">
+            {CHRONOTYPES.map(option => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => selectChronotype(option.value)}
+                className={cn(
+                  "p-3 rounded-lg border text-left transition-colors",
+                  formData.chronotype === option.value ? "border-primary bg-primary/10" : "hover:bg-muted"
+                )}
+              >
+                <p className="text-sm font-medium">{option.label}</p>
+                <p className="text-xs text-muted-foreground">{option.description}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-end gap-0.5 h-16">
+              {formData.energy_curve.map((level, hour) => (
+                <button
+                  key={hour}
+                  type="button"
+                  title={`${String(hour).padStart(2, '0')}h: energia ${level}`}
+                  disabled={formData.chronotype !== 'custom'}
+                  onClick={() => cycleEnergyLevel(hour)}
+                  className="flex-1 rounded-sm bg-accent/70 transition-colors enabled:hover:bg-accent disabled:cursor-default"
+                  style={{ height: `${(level / MAX_ENERGY_LEVEL) * 100}%` }}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>0h</span>
+              <span>6h</span>
+              <span>12h</span>
+              <span>18h</span>
+              <span>23h</span>
+            </div>
+            {formData.chronotype === 'custom' && (
+              <p className="text-xs text-muted-foreground">Clique em uma hora para alterar o nível de energia (1 a 5)</p>
+            )}
+            {errors.energy_curve && (
+              <p className="text-xs text-destructive">{errors.energy_curve}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="flex items-center gap-3">
+            <CalendarOff className="w-5 h-5 text-accent" />
+            <div>
+              <Label>Restrições</Label>
+              <p className="text-xs text-muted-foreground">
+                Limites que o plano nunca ultrapassa. O horário de cada matéria se define no cadastro dela
+              </p>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {CONSTRAINT_FIELDS.map(field => (
+              <div key={field.name} className="space-y-2">
+                <Label htmlFor={field.name}>{field.label}</Label>
+                <Input
+                  id={field.name}
+                  name={field.name}
+                  type="number"
+                  step={field.step}
+                  value={formData[field.name]}
+                  onChange={handleChange}
+                  placeholder="Sem limite"
+                  className={errors[field.name] ? 'border-destructive' : ''}
+                />
+                {errors[field.name] ? (
+                  <p className="text-xs text-destructive">{errors[field.name]}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">{field.hint}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Dias de descanso</Label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map(day => (
+                <button
+                  key={day.value}
+                  type="button"
+                  onClick={() => toggleRestDay(day.value)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
+                    formData.rest_days.includes(day.value)
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-background border hover:bg-muted"
+                  )}
+                >
+                  {day.label}
+                </button>
+              ))}
+            </div>
+            {errors.rest_days ? (
+              <p className="text-xs text-destructive">{errors.rest_days}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Nenhum estudo é sugerido nesses dias</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-between">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => {
+              setFormData(toFormValues(DEFAULT_STUDY_PREFERENCES));
+              setErrors({});
+            }}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Restaurar padrões
+          </Button>
+          <Button variant="accent" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <>
+                <Save className="w-4 h-4" />
+                Salvar Preferências
+              </>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,16 +1,18 @@
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { Clock, BookOpen, Coffee, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { Clock, BookOpen, Coffee, AlertTriangle, CheckCircle, XCircle, Shuffle, Hourglass, RotateCcw, TimerOff } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { StudyBlock, StudySuggestion } from '@/hooks/useStudySuggestions';
+import { StudyBlock, StudySuggestion, UnreliableTime } from '@/hooks/useStudySuggestions';
 import { cn } from '@/lib/utils';
 
 interface StudySuggestionCardProps {
   suggestion: StudySuggestion;
-  onMarkDelayed: (subjectId: string) => void;
+  onMarkDelayed: (subjectId: string, scheduledFor?: Date) => void;
   onMarkCompleted?: (blockId: string) => void;
+  // Set when the slot falls at a time study keeps being given up
+  unreliableTime?: UnreliableTime;
   isLoading?: boolean;
 }
 
@@ -18,6 +20,7 @@ export const StudySuggestionCard = ({
   suggestion,
   onMarkDelayed,
   onMarkCompleted,
+  unreliableTime,
   isLoading
 }: StudySuggestionCardProps) => {
   const { freeSlot, blocks } = suggestion;
@@ -32,9 +35,33 @@ export const StudySuggestionCard = ({
             <Clock className="h-4 w-4 text-accent" />
             {format(new Date(freeSlot.start_datetime), "EEEE, dd/MM", { locale: ptBR })}
           </CardTitle>
-          <Badge variant="outline" className="text-xs">
-            {format(new Date(freeSlot.start_datetime), "HH:mm")} - {format(new Date(freeSlot.end_datetime!), "HH:mm")}
-          </Badge>
+          <div className="flex items-center gap-2">
+            {unreliableTime && (
+              <Badge
+                variant="outline"
+                className="text-xs gap-1 border-warning text-warning"
+                title={`Estudos às ${unreliableTime.hour}h foram adiados ${unreliableTime.delayCount} vezes nas últimas semanas`}
+              >
+                <TimerOff className="h-3 w-3" />
+                Horário instável
+              </Badge>
+            )}
+            {suggestion.deadline && (
+              <Badge variant="destructive" className="text-xs gap-1">
+                <Hourglass className="h-3 w-3" />
+                {suggestion.deadline.title}
+              </Badge>
+            )}
+            {uniqueSubjects.length > 1 && (
+              <Badge variant="secondary" className="text-xs gap-1">
+                <Shuffle className="h-3 w-3" />
+                Intercalado
+              </Badge>
+            )}
+            <Badge variant="outline" className="text-xs">
+              {format(new Date(freeSlot.start_datetime), "HH:mm")} - {format(new Date(freeSlot.end_datetime!), "HH:mm")}
+            </Badge>
+          </div>
         </div>
       </CardHeader>
       
@@ -46,7 +73,9 @@ export const StudySuggestionCard = ({
               "flex items-center gap-3 p-3 rounded-lg transition-colors",
               block.isBreak 
                 ? "bg-muted/50 border border-dashed border-muted-foreground/20" 
-                : "bg-primary/5 border border-primary/20"
+                : block.reviewItemId
+                  ? "bg-accent/10 border border-accent/30"
+                  : "bg-primary/5 border border-primary/20"
             )}
           >
             {block.isBreak ? (
@@ -61,9 +90,18 @@ export const StudySuggestionCard = ({
               </>
             ) : (
               <>
-                <BookOpen className="h-4 w-4 text-primary" />
+                {block.reviewItemId ? (
+                  <RotateCcw className="h-4 w-4 text-accent" />
+                ) : (
+                  <BookOpen className="h-4 w-4 text-primary" />
+                )}
                 <div className="flex-1">
-                  <p className="text-sm font-medium">{block.subject.name}</p>
+                  <p className="text-sm font-medium">
+                    {block.reviewItemId ? `Revisão: ${block.reviewTopic}` : block.subject.name}
+                  </p>
+                  {block.reviewItemId && (
+                    <p className="text-xs text-muted-foreground">{block.subject.name}</p>
+                  )}
                   <p className="text-xs text-muted-foreground">
                     {format(block.startTime, "HH:mm")} - {format(block.endTime, "HH:mm")}
                     <span className="ml-2">
@@ -74,7 +112,7 @@ export const StudySuggestionCard = ({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => onMarkDelayed(block.subject.id)}
+                  onClick={() => onMarkDelayed(block.subject.id, block.startTime)}
                   disabled={isLoading}
                   className="text-xs hover:bg-destructive/10 hover:text-destructive"
                 >
@@ -1,7 +1,7 @@
 import { useEffect, useMemo } from 'react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { Sparkles, BookOpen, TrendingUp, AlertCircle, Calendar } from 'lucide-react';
+import { Sparkles, BookOpen, TrendingUp, AlertCircle, Calendar, Hourglass, CalendarRange, Ban, TimerOff } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -9,14 +9,42 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Subject } from '@/hooks/useSubjects';
 import { CalendarEvent } from '@/hooks/useCalendarEvents';
-import { useStudySuggestions, SubjectPriority, StudySuggestion } from '@/hooks/useStudySuggestions';
+import {
+  useStudySuggestions,
+  SubjectPriority,
+  StudyPlan,
+  ConstraintViolation,
+  DeadlineCommitment,
+  WeekForecast
+} from '@/hooks/useStudySuggestions';
+import { useReviewItems } from '@/hooks/useReviewItems';
+import { findUnreliableTime } from '@/lib/planner';
 import { StudySuggestionCard } from './StudySuggestionCard';
 import { PriorityScoreCard } from './PriorityScoreCard';
+import { WorkloadForecastCard } from './WorkloadForecastCard';
+import { DelayPatternsCard, UnreliableTimesCard } from './DelayPatternsCard';
+
+const formatHours = (minutes: number) =>
+  `${(minutes / 60).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}h`;
+
+const describeConstraint = (violation: ConstraintViolation): string => {
+  switch (violation.kind) {
+    case 'rest_day':
+      return 'dia de descanso';
+    case 'daily_cap':
+      return 'limite de horas de estudo por dia';
+    case 'subject_daily_cap':
+      return 'limite de blocos da mesma matéria por dia';
+    case 'subject_latest_time':
+      return `não estudar depois das ${violation.subject.latest_study_time?.slice(0, 5)}`;
+  }
+};
 
 interface StudySuggestionsPanelProps {
   subjects: Subject[];
   freeSlots: CalendarEvent[];
   deadlines: CalendarEvent[];
+  periodEnd?: string | null;
   onNavigateToCalendar?: () => void;
 }
 
@@ -24,28 +52,48 @@ export const StudySuggestionsPanel = ({
   subjects,
   freeSlots,
   deadlines,
+  periodEnd,
   onNavigateToCalendar
 }: StudySuggestionsPanelProps) => {
   const {
     delays,
+    delayPatterns,
+    unreliableTimes,
     loading,
     fetchDelays,
+    fetchStudyTime,
     calculateSubjectPriorities,
-    generateSuggestions,
-    markAsDelayed
+    generateStudyPlan,
+    getDeadlineCommitments,
+    getWorkloadForecast,
+    markAsDelayed,
+    plannerConfig
   } = useStudySuggestions();
+  const { reviewItems } = useReviewItems();
 
   useEffect(() => {
     fetchDelays();
-  }, [fetchDelays]);
+    fetchStudyTime();
+  }, [fetchDelays, fetchStudyTime]);
 
   const priorities: SubjectPriority[] = useMemo(() => {
-    return calculateSubjectPriorities(subjects, deadlines, delays);
-  }, [subjects, deadlines, delays, calculateSubjectPriorities]);
+    return calculateSubjectPriorities(subjects, deadlines, delays, reviewItems);
+  }, [subjects, deadlines, delays, reviewItems, calculateSubjectPriorities]);
+
+  const { suggestions, violations }: StudyPlan = useMemo(() => {
+    return generateStudyPlan(subjects, freeSlots, deadlines, delays, periodEnd, reviewItems);
+  }, [subjects, freeSlots, deadlines, delays, periodEnd, reviewItems, generateStudyPlan]);
 
-  const suggestions: StudySuggestion[] = useMemo(() => {
-    return generateSuggestions(subjects, freeSlots, deadlines, delays);
-  }, [subjects, freeSlots, deadlines, delays, generateSuggestions]);
+  const deadlineShortfalls: DeadlineCommitment[] = useMemo(() => {
+    return getDeadlineCommitments(subjects, freeSlots, deadlines, delays, periodEnd, reviewItems)
+      .filter(c => c.shortfallMinutes > 0);
+  }, [subjects, freeSlots, deadlines, delays, periodEnd, reviewItems, getDeadlineCommitments]);
+
+  const forecast: WeekForecast[] = useMemo(() => {
+    return getWorkloadForecast(subjects, freeSlots, deadlines, delays, reviewItems);
+  }, [subjects, freeSlots, deadlines, delays, reviewItems, getWorkloadForecast]);
+
+  const overloadedWeeks = forecast.filter(week => week.overloadMinutes > 0);
 
   const subjectsWithoutWeights = subjects.filter(
     s => !s.difficulty_weight || !s.dedication_weight
@@ -75,6 +123,61 @@ export const StudySuggestionsPanel = ({
           </Alert>
         )}
 
+        {deadlineShortfalls.length > 0 && (
+          <Alert variant="destructive" className="mx-4 mb-4">
+            <Hourglass className="h-4 w-4" />
+            <AlertTitle>Tempo livre insuficiente</AlertTitle>
+            <AlertDescription>
+              <ul className="space-y-1">
+                {deadlineShortfalls.map(c => (
+                  <li key={c.deadline.id}>
+                    {c.deadline.title} ({c.priority.subject.name}, {format(new Date(c.deadline.start_datetime), "dd/MM", { locale: ptBR })}):
+                    faltam {formatHours(c.shortfallMinutes)} de {formatHours(c.requiredMinutes)} estimadas
+                  </li>
+                ))}
+              </ul>
+              Adicione horários livres antes desses prazos ou revise o esforço estimado.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {violations.length > 0 && (
+          <Alert className="mx-4 mb-4">
+            <Ban className="h-4 w-4" />
+            <AlertTitle>Restrições bloquearam parte do plano</AlertTitle>
+            <AlertDescription>
+              <ul className="space-y-1">
+                {violations.map(v => (
+                  <li key={`${v.kind}-${v.subject.id}`}>
+                    {v.subject.name}: {formatHours(v.blockedMinutes)} em {v.dates.length} dia(s) — {describeConstraint(v)}
+                  </li>
+                ))}
+              </ul>
+              Ajuste as restrições nas preferências de estudo ou no cadastro da matéria.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {overloadedWeeks.length > 0 && (
+          <Alert variant="destructive" className="mx-4 mb-4">
+            <CalendarRange className="h-4 w-4" />
+            <AlertTitle>Semanas sobrecarregadas</AlertTitle>
+            <AlertDescription>
+              <ul className="space-y-1">
+                {overloadedWeeks.map(week => (
+                  <li key={week.weekStart.toISOString()}>
+                    Semana de {format(week.weekStart, "dd/MM", { locale: ptBR })}: faltam {formatHours(week.overloadMinutes)}
+                    {week.frontLoad.length > 0 && (
+                      <> — adiante para {week.frontLoad.map(f => format(f.weekStart, "dd/MM", { locale: ptBR })).join(', ')}</>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              Veja a aba Previsão para os detalhes de cada semana.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {noFreeSlots && (
           <Alert className="mx-4 mb-4">
             <Calendar className="h-4 w-4" />
@@ -95,7 +198,7 @@ export const StudySuggestionsPanel = ({
         )}
 
         <Tabs defaultValue="suggestions" className="w-full">
-          <TabsList className="grid w-full grid-cols-2 mx-4 mb-2" style={{ width: 'calc(100% - 2rem)' }}>
+          <TabsList className="grid w-full grid-cols-4 mx-4 mb-2" style={{ width: 'calc(100% - 2rem)' }}>
             <TabsTrigger value="suggestions" className="flex items-center gap-2">
               <BookOpen className="h-4 w-4" />
               Sugestões ({suggestions.length})
@@ -104,6 +207,14 @@ export const StudySuggestionsPanel = ({
               <TrendingUp className="h-4 w-4" />
               Prioridades ({priorities.length})
             </TabsTrigger>
+            <TabsTrigger value="forecast" className="flex items-center gap-2">
+              <CalendarRange className="h-4 w-4" />
+              Previsão
+            </TabsTrigger>
+            <TabsTrigger value="delays" className="flex items-center gap-2">
+              <TimerOff className="h-4 w-4" />
+              Adiamentos
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="suggestions" className="mt-0">
@@ -115,6 +226,7 @@ export const StudySuggestionsPanel = ({
                       key={`${suggestion.freeSlot.id}-${index}`}
                       suggestion={suggestion}
                       onMarkDelayed={markAsDelayed}
+                      unreliableTime={findUnreliableTime(suggestion.freeSlot, unreliableTimes)}
                       isLoading={loading}
                     />
                   ))}
@@ -143,6 +255,7 @@ export const StudySuggestionsPanel = ({
                       key={priority.subject.id}
                       priority={priority}
                       rank={index}
+                      config={plannerConfig}
                     />
                   ))}
                 </div>
@@ -156,6 +269,53 @@ export const StudySuggestionsPanel = ({
               )}
             </ScrollArea>
           </TabsContent>
+
+          <TabsContent value="forecast" className="mt-0">
+            <ScrollArea className="h-[400px] px-4">
+              {priorities.length > 0 ? (
+                <div className="space-y-4 pb-4">
+                  {forecast.map((week, index) => (
+                    <WorkloadForecastCard
+                      key={week.weekStart.toISOString()}
+                      week={week}
+                      isCurrentWeek={index === 0}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <CalendarRange className="h-12 w-12 text-muted-foreground/30 mb-4" />
+                  <p className="text-muted-foreground">
+                    Configure os pesos das matérias para ver a previsão de carga semanal
+                  </p>
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="delays" className="mt-0">
+            <ScrollArea className="h-[400px] px-4">
+              {delayPatterns.length > 0 ? (
+                <div className="space-y-4 pb-4">
+                  {unreliableTimes.length > 0 && <UnreliableTimesCard times={unreliableTimes} />}
+                  {delayPatterns.map(pattern => (
+                    <DelayPatternsCard
+                      key={pattern.subjectId}
+                      pattern={pattern}
+                      subject={subjects.find(s => s.id === pattern.subjectId)}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <div className="flex flex-col items-center justify-center py-12 text-center">
+                  <TimerOff className="h-12 w-12 text-muted-foreground/30 mb-4" />
+                  <p className="text-muted-foreground">
+                    Nenhum estudo adiado nas últimas semanas
+                  </p>
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, setHours, startOfHour } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { ArrowRight, CalendarIcon, FlaskConical, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Subject } from '@/hooks/useSubjects';
+import { CalendarEvent } from '@/hooks/useCalendarEvents';
+import { useStudySuggestions } from '@/hooks/useStudySuggestions';
+import { useReviewItems } from '@/hooks/useReviewItems';
+import {
+  EMPTY_SCENARIO,
+  PlanScenario,
+  SubjectPlanSummary,
+  applyScenario,
+  isEmptyScenario,
+  summarizePlan
+} from '@/lib/planner';
+import { cn } from '@/lib/utils';
+
+const formatHours = (minutes: number) =>
+  `${(minutes / 60).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}h`;
+
+const formatScore = (score?: number) => score === undefined ? '—' : score.toFixed(1);
+
+// Change between the current and the simulated value, coloured by direction
+const Delta = ({ current, simulated, format: formatValue }: {
+  current: number;
+  simulated: number;
+  format: (value: number) => string;
+}) => (
+  <span className="inline-flex items-center gap-1 whitespace-nowrap">
+    <span className="text-muted-foreground">{formatValue(current)}</span>
+    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+    <span className={cn(
+      'font-medium',
+      simulated > current && 'text-success',
+      simulated < current && 'text-destructive'
+    )}>
+      {formatValue(simulated)}
+    </span>
+  </span>
+);
+
+interface WhatIfSimulatorProps {
+  subjects: Subject[];
+  freeSlots: CalendarEvent[];
+  deadlines: CalendarEvent[];
+  periodEnd?: string | null;
+}
+
+/**
+ * Sandbox for the study plan: hypothetical deadlines, weight changes and
+ * finished subjects are applied in memory only, and the resulting plan is
+ * compared with the current one. Nothing is written to the database.
+ */
+export const WhatIfSimulator = ({ subjects, freeSlots, deadlines, periodEnd }: WhatIfSimulatorProps) => {
+  const { delays, fetchDelays, fetchStudyTime, calculateSubjectPriorities, generateSuggestions } = useStudySuggestions();
+  const { reviewItems } = useReviewItems();
+  const [scenario, setScenario] = useState<PlanScenario>(EMPTY_SCENARIO);
+  const [deadlineSubjectId, setDeadlineSubjectId] = useState('');
+  const [deadlineTitle, setDeadlineTitle] = useState('');
+  const [deadlineDate, setDeadlineDate] = useState<Date | undefined>();
+  const [deadlineEffort, setDeadlineEffort] = useState('');
+
+  useEffect(() => {
+    fetchDelays();
+    fetchStudyTime();
+  }, [fetchDelays, fetchStudyTime]);
+
+  const activeSubjects = subjects.filter(s => s.status !== 'finalizada');
+
+  const summarize = useCallback((planSubjects: Subject[], planDeadlines: CalendarEvent[]) => summarizePlan(
+    subjects,
+    calculateSubjectPriorities(planSubjects, planDeadlines, delays, reviewItems),
+    generateSuggestions(planSubjects, freeSlots, planDeadlines, delays, periodEnd, reviewItems)
+  ), [subjects, freeSlots, delays, reviewItems, periodEnd, calculateSubjectPriorities, generateSuggestions]);
+
+  const current: SubjectPlanSummary[] = useMemo(
+    () => summarize(subjects, deadlines),
+    [summarize, subjects, deadlines]
+  );
+
+  const simulated: SubjectPlanSummary[] = useMemo(() => {
+    const applied = applyScenario(subjects, deadlines, scenario);
+    return summarize(applied.subjects, applied.deadlines);
+  }, [summarize, subjects, deadlines, scenario]);
+
+  const getWeights = (subject: Subject) => scenario.weights[subject.id] ?? {
+    difficultyWeight: subject.difficulty_weight || 3,
+    dedicationWeight: subject.dedication_weight || 3
+  };
+
+  const updateWeights = (subject: Subject, change: Partial<PlanScenario['weights'][string]>) => {
+    setScenario(prev => ({
+      ...prev,
+      weights: { ...prev.weights, [subject.id]: { ...getWeights(subject), ...change } }
+    }));
+  };
+
+  const toggleFinished = (subjectId: string, finished: boolean) => {
+    setScenario(prev => ({
+      ...prev,
+      finishedSubjectIds: finished
+        ? [...prev.finishedSubjectIds, subjectId]
+        : prev.finishedSubjectIds.filter(id => id !== subjectId)
+    }));
+  };
+
+  const addDeadline = () => {
+    if (!deadlineSubjectId || !deadlineDate) return;
+
+    const subject = subjects.find(s => s.id === deadlineSubjectId);
+    const now = new Date().toISOString();
+    const deadline: CalendarEvent = {
+      id: `whatif-${scenario.extraDeadlines.length + 1}-${Date.now()}`,
+      user_id: subject?.user_id ?? '',
+      subject_id: deadlineSubjectId,
+      title: deadlineTitle.trim() || `Prazo de ${subject?.name ?? 'matéria'}`,
+      event_type: 'deadline',
+      start_datetime: startOfHour(setHours(deadlineDate, 8)).toISOString(),
+      is_recurring: false,
+      estimated_effort_hours: deadlineEffort ? Number(deadlineEffort) : undefined,
+      created_at: now,
+      updated_at: now
+    };
+
+    setScenario(prev => ({ ...prev, extraDeadlines: [...prev.extraDeadlines, deadline] }));
+    setDeadlineTitle('');
+    setDeadlineDate(undefined);
+    setDeadlineEffort('');
+  };
+
+  const removeDeadline = (id: string) => {
+    setScenario(prev => ({ ...prev, extraDeadlines: prev.extraDeadlines.filter(d => d.id !== id) }));
+  };
+
+  const subjectName = (id?: string) => subjects.find(s => s.id === id)?.name ?? '';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <FlaskConical className="h-5 w-5 text-primary" />
+              Simulação
+            </CardTitle>
+            <CardDescription>
+              Teste prazos, pesos e matérias finalizadas. Nada é salvo no calendário nem nas matérias.
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setScenario(EMPTY_SCENARIO)}
+            disabled={isEmptyScenario(scenario)}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Descartar
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Matérias</p>
+            {activeSubjects.map(subject => {
+              const weights = getWeights(subject);
+              const finished = scenario.finishedSubjectIds.includes(subject.id);
+              return (
+                <div key={subject.id} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={cn('text-sm font-medium truncate', finished && 'line-through text-muted-foreground')}>
+                      {subject.name}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor={`finished-${subject.id}`} className="text-xs text-muted-foreground">
+                        Finalizada
+                      </Label>
+                      <Switch
+                        id={`finished-${subject.id}`}
+                        checked={finished}
+                        onCheckedChange={checked => toggleFinished(subject.id, checked)}
+                      />
+                    </div>
+                  </div>
+                  {!finished && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Dificuldade: {weights.difficultyWeight}</Label>
+                        <Slider
+                          value={[weights.difficultyWeight]}
+                          onValueChange={([value]) => updateWeights(subject, { difficultyWeight: value })}
+                          min={1}
+                          max={5}
+                          step={1}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Dedicação: {weights.dedicationWeight}</Label>
+                        <Slider
+                          value={[weights.dedicationWeight]}
+                          onValueChange={([value]) => updateWeights(subject, { dedicationWeight: value })}
+                          min={1}
+                          max={5}
+                          step={1}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Prazos hipotéticos</p>
+            <div className="grid gap-2 sm:grid-cols-2">
+              <Select value={deadlineSubjectId} onValueChange={setDeadlineSubjectId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Matéria" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeSubjects.map(subject => (
+                    <SelectItem key={subject.id} value={subject.id}>
+                      {subject.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={deadlineTitle}
+                onChange={(e) => setDeadlineTitle(e.target.value)}
+                placeholder="Título (ex: Prova 2)"
+              />
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn('justify-start text-left font-normal', !deadlineDate && 'text-muted-foreground')}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {deadlineDate ? format(deadlineDate, 'dd/MM/yyyy') : 'Data'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={deadlineDate}
+                    onSelect={setDeadlineDate}
+                    initialFocus
+                    className="pointer-events-auto"
+                    locale={ptBR}
+                  />
+                </PopoverContent>
+              </Popover>
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={deadlineEffort}
+                onChange={(e) => setDeadlineEffort(e.target.value)}
+                placeholder="Esforço (horas)"
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={addDeadline}
+              disabled={!deadlineSubjectId || !deadlineDate}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Adicionar prazo
+            </Button>
+            {scenario.extraDeadlines.map(deadline => (
+              <div key={deadline.id} className="flex items-center justify-between gap-2 rounded-md bg-muted p-2 text-sm">
+                <span className="truncate">
+                  {deadline.title} · {subjectName(deadline.subject_id)} ·{' '}
+                  {format(new Date(deadline.start_datetime), 'dd/MM', { locale: ptBR })}
+                  {deadline.estimated_effort_hours ? ` · ${deadline.estimated_effort_hours}h` : ''}
+                </span>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeDeadline(deadline.id)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Plano atual → simulado</p>
+            {!isEmptyScenario(scenario) && <Badge variant="secondary">Cenário ativo</Badge>}
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Matéria</TableHead>
+                <TableHead>Score P</TableHead>
+                <TableHead>Blocos</TableHead>
+                <TableHead>Tempo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {current.map(summary => {
+                const after = simulated.find(s => s.subjectId === summary.subjectId)!;
+                return (
+                  <TableRow key={summary.subjectId}>
+                    <TableCell className="font-medium">{subjectName(summary.subjectId)}</TableCell>
+                    <TableCell>
+                      <span className="inline-flex items-center gap-1 whitespace-nowrap">
+                        <span className="text-muted-foreground">{formatScore(summary.score)}</span>
+                        <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        <span className="font-medium">{formatScore(after.score)}</span>
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <Delta
+                        current={summary.studyBlocks + summary.reviewBlocks}
+                        simulated={after.studyBlocks + after.reviewBlocks}
+                        format={String}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Delta current={summary.studyMinutes} simulated={after.studyMinutes} format={formatHours} />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            Considera os horários livres do horizonte de planejamento, incluindo revisões e reservas para prazos.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,122 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { AlertTriangle, ArrowLeft, Calendar, CheckCircle2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { WeekForecast } from '@/lib/planner';
+import { cn } from '@/lib/utils';
+
+const formatHours = (minutes: number) =>
+  `${(minutes / 60).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}h`;
+
+const formatDay = (date: Date) => format(date, 'dd/MM', { locale: ptBR });
+
+interface WorkloadForecastCardProps {
+  week: WeekForecast;
+  isCurrentWeek: boolean;
+}
+
+export const WorkloadForecastCard = ({ week, isCurrentWeek }: WorkloadForecastCardProps) => {
+  const {
+    weekStart,
+    weekEnd,
+    availableMinutes,
+    requiredMinutes,
+    subjects,
+    deadlines,
+    overloadMinutes,
+    frontLoad,
+    unresolvedMinutes
+  } = week;
+
+  const isOverloaded = overloadMinutes > 0;
+  const loadPercentage = availableMinutes > 0
+    ? Math.min(100, (requiredMinutes / availableMinutes) * 100)
+    : requiredMinutes > 0 ? 100 : 0;
+
+  return (
+    <Card className={cn(isOverloaded && 'border-destructive/50')}>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="text-base font-semibold">
+              {isCurrentWeek ? 'Esta semana' : `Semana de ${formatDay(weekStart)}`}
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {formatDay(weekStart)} – {formatDay(weekEnd)}
+            </p>
+          </div>
+          {isOverloaded ? (
+            <Badge variant="destructive" className="flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              Sobrecarregada
+            </Badge>
+          ) : (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              <CheckCircle2 className="h-3 w-3" />
+              Dentro do limite
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Necessário / livre</span>
+            <span className={cn('font-medium', isOverloaded && 'text-destructive')}>
+              {formatHours(requiredMinutes)} / {formatHours(availableMinutes)}
+            </span>
+          </div>
+          <Progress value={loadPercentage} className="h-2" />
+        </div>
+
+        {subjects.length > 0 && (
+          <ul className="space-y-1 text-xs">
+            {subjects.map(workload => (
+              <li key={workload.priority.subject.id} className="flex justify-between gap-2">
+                <span className="truncate">{workload.priority.subject.name}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {formatHours(workload.totalMinutes)}
+                  {workload.deadlineMinutes > 0 && ` · prazos ${formatHours(workload.deadlineMinutes)}`}
+                  {workload.reviewMinutes > 0 && ` · revisões ${formatHours(workload.reviewMinutes)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {deadlines.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {deadlines.map(deadline => (
+              <Badge key={deadline.id} variant="outline" className="text-xs">
+                <Calendar className="h-3 w-3 mr-1" />
+                {deadline.title} ({format(new Date(deadline.start_datetime), 'EEE dd/MM', { locale: ptBR })})
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {isOverloaded && (
+          <div className="rounded-md bg-destructive/10 p-2 text-xs space-y-1">
+            <p className="font-medium text-destructive">
+              Faltam {formatHours(overloadMinutes)} de tempo livre nesta semana
+            </p>
+            {frontLoad.map(suggestion => (
+              <p key={suggestion.weekStart.toISOString()} className="flex items-center gap-1">
+                <ArrowLeft className="h-3 w-3" />
+                Adiante {formatHours(suggestion.minutes)} para a semana de {formatDay(suggestion.weekStart)}
+              </p>
+            ))}
+            {unresolvedMinutes > 0 && (
+              <p className="text-muted-foreground">
+                {formatHours(unresolvedMinutes)} não cabem em semanas anteriores: adicione horários livres.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,8 +2,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
-import { AlertTriangle, Clock, Edit, Trash2, User } from 'lucide-react';
+import { AlertTriangle, Clock, Edit, RefreshCw, Trash2, User } from 'lucide-react';
 import { Subject } from '@/hooks/useSubjects';
+import { DifficultyCalibration } from '@/hooks/useStudyReflections';
 import { useState } from 'react';
 
 interface SubjectCardProps {
@@ -11,11 +12,13 @@ interface SubjectCardProps {
   onEdit: (subject: Subject) => void;
   onDelete: (id: string) => void;
   onUpdateWeights: (id: string, difficulty: number, dedication: number) => void;
+  // Difficulty suggested by the reflections after study blocks
+  calibration?: DifficultyCalibration | null;
 }
 
 const DAY_NAMES = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
 
-export const SubjectCard = ({ subject, onEdit, onDelete, onUpdateWeights }: SubjectCardProps) => {
+export const SubjectCard = ({ subject, onEdit, onDelete, onUpdateWeights, calibration }: SubjectCardProps) => {
   const [difficulty, setDifficulty] = useState(subject.difficulty_weight || 3);
   const [dedication, setDedication] = useState(subject.dedication_weight || 3);
   const [hasChanges, setHasChanges] = useState(false);
@@ -32,6 +35,12 @@ export const SubjectCard = ({ subject, onEdit, onDelete, onUpdateWeights }: Subj
     setHasChanges(true);
   };
 
+  const handleRecalibrate = () => {
+    if (!calibration) return;
+    setDifficulty(calibration.suggestedWeight);
+    setHasChanges(true);
+  };
+
   const handleSaveWeights = () => {
     onUpdateWeights(subject.id, difficulty, dedication);
     setHasChanges(false);
@@ -110,6 +119,19 @@ export const SubjectCard = ({ subject, onEdit, onDelete, onUpdateWeights }: Subj
               step={1}
               className="w-full"
             />
+            {calibration && difficulty !== calibration.suggestedWeight && (
+              <div className="flex items-center justify-between gap-2 rounded-md bg-accent/10 px-2 py-1 text-xs">
+                <span className="text-muted-foreground">
+                  Suas {calibration.reflectionCount} últimas reflexões (entendimento médio{' '}
+                  {calibration.averageUnderstanding.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}/5) sugerem{' '}
+                  {calibration.suggestedWeight}/5
+                </span>
+                <Button variant="ghost" size="sm" className="h-6 shrink-0 px-2 text-xs" onClick={handleRecalibrate}>
+                  <RefreshCw className="mr-1 h-3 w-3" />
+                  Recalibrar
+                </Button>
+              </div>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -34,6 +34,7 @@ export const SubjectFormDialog = ({ open, onOpenChange, subject, onSubmit }: Sub
     professor: '',
     type: 'MÓDULO',
     class_group: '',
+    latest_study_time: '',
     schedules: []
   });
 
@@ -45,6 +46,7 @@ export const SubjectFormDialog = ({ open, onOpenChange, subject, onSubmit }: Sub
         professor: subject.professor || '',
         type: subject.type || 'MÓDULO',
         class_group: subject.class_group || '',
+        latest_study_time: subject.latest_study_time?.slice(0, 5) || '',
         schedules: subject.schedules?.map(s => ({
           day_of_week: s.day_of_week,
           start_time: s.start_time,
@@ -59,6 +61,7 @@ export const SubjectFormDialog = ({ open, onOpenChange, subject, onSubmit }: Sub
         professor: '',
         type: 'MÓDULO',
         class_group: '',
+        latest_study_time: '',
         schedules: []
       });
     }
@@ -93,7 +96,7 @@ export const SubjectFormDialog = ({ open, onOpenChange, subject, onSubmit }: Sub
 
     setLoading(true);
     try {
-      await onSubmit(formData);
+      await onSubmit({ ...formData, latest_study_time: formData.latest_study_time || null });
       onOpenChange(false);
     } finally {
       setLoading(false);
@@ -158,14 +161,26 @@ export const SubjectFormDialog = ({ open, onOpenChange, subject, onSubmit }: Sub
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="class_group">Turma</Label>
-            <Input
-              id="class_group"
-              value={formData.class_group}
-              onChange={e => setFormData(prev => ({ ...prev, class_group: e.target.value }))}
-              placeholder="Ex: Turma A"
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="class_group">Turma</Label>
+              <Input
+                id="class_group"
+                value={formData.class_group}
+                onChange={e => setFormData(prev => ({ ...prev, class_group: e.target.value }))}
+                placeholder="Ex: Turma A"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="latest_study_time">Não estudar depois das</Label>
+              <Input
+                id="latest_study_time"
+                type="time"
+                value={formData.latest_study_time || ''}
+                onChange={e => setFormData(prev => ({ ...prev, latest_study_time: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">Em branco para qualquer horário</p>
+            </div>
           </div>
 
           <div className="space-y-3">
@@ -1,4 +1,5 @@
 import { Subject, CreateSubjectData } from '@/hooks/useSubjects';
+import { DifficultyCalibration } from '@/hooks/useStudyReflections';
 import { SubjectCard } from './SubjectCard';
 import { Card, CardContent } from '@/components/ui/card';
 import { BookOpen } from 'lucide-react';
@@ -9,9 +10,10 @@ interface SubjectsListProps {
   onEdit: (subject: Subject) => void;
   onDelete: (id: string) => void;
   onUpdateWeights: (id: string, difficulty: number, dedication: number) => void;
+  getCalibration?: (subject: Subject) => DifficultyCalibration | null;
 }
 
-export const SubjectsList = ({ subjects, loading, onEdit, onDelete, onUpdateWeights }: SubjectsListProps) => {
+export const SubjectsList = ({ subjects, loading, onEdit, onDelete, onUpdateWeights, getCalibration }: SubjectsListProps) => {
   if (loading) {
     return (
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
@@ -52,6 +54,7 @@ export const SubjectsList = ({ subjects, loading, onEdit, onDelete, onUpdateWeig
           onEdit={onEdit}
           onDelete={onDelete}
           onUpdateWeights={onUpdateWeights}
+          calibration={getCalibration?.(subject)}
         />
       ))}
     </div>
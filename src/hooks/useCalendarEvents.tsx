@@ -5,6 +5,16 @@ import { toast } from 'sonner';
 
 export type EventType = 'class' | 'occupied' | 'free_study' | 'deadline';
 
+export type DeadlineKind = 'prova' | 'trabalho' | 'lista' | 'seminario' | 'apresentacao';
+
+export const DEADLINE_KIND_LABELS: Record<DeadlineKind, string> = {
+  prova: 'Prova',
+  trabalho: 'Trabalho',
+  lista: 'Lista de exercícios',
+  seminario: 'Seminário',
+  apresentacao: 'Apresentação'
+};
+
 export interface CalendarEvent {
   id: string;
   user_id: string;
@@ -18,10 +28,16 @@ export interface CalendarEvent {
   recurrence_pattern?: string;
   recurrence_days?: number[];
   recurrence_end_date?: string;
+  // Deadlines only: study hours still needed before the deadline
+  estimated_effort_hours?: number;
+  // Deadlines only: sets the urgency weight and lead time
+  deadline_kind?: DeadlineKind;
   created_at: string;
   updated_at: string;
   // Joined data
   subject_name?: string;
+  // Set on occurrences expanded from a recurring event
+  recurrence_parent_id?: string;
 }
 
 export interface CreateEventData {
@@ -35,6 +51,8 @@ export interface CreateEventData {
   recurrence_pattern?: string;
   recurrence_days?: number[];
   recurrence_end_date?: string;
+  estimated_effort_hours?: number | null;
+  deadline_kind?: DeadlineKind | null;
 }
 
 export const useCalendarEvents = () => {
@@ -60,6 +78,7 @@ export const useCalendarEvents = () => {
       const eventsWithSubjectName: CalendarEvent[] = (data || []).map(event => ({
         ...event,
         event_type: event.event_type as EventType,
+        deadline_kind: event.deadline_kind as DeadlineKind | undefined,
         subject_name: (event.subjects as { name: string } | null)?.name
       }));
 
@@ -91,7 +110,11 @@ export const useCalendarEvents = () => {
 
       await fetchEvents();
       toast.success('Evento criado com sucesso');
-      return { ...newEvent, event_type: newEvent.event_type as EventType };
+      return {
+        ...newEvent,
+        event_type: newEvent.event_type as EventType,
+        deadline_kind: newEvent.deadline_kind as DeadlineKind | undefined
+      };
     } catch (error) {
       console.error('Error creating event:', error);
       toast.error('Erro ao criar evento');
@@ -99,6 +122,27 @@ export const useCalendarEvents = () => {
     }
   };
 
+  // Insert several events at once (e.g. accepted free-time suggestions) with a single toast
+  const createEvents = async (data: CreateEventData[]): Promise<boolean> => {
+    if (!user || data.length === 0) return false;
+
+    try {
+      const { error } = await supabase
+        .from('calendar_events')
+        .insert(data.map(event => ({ ...event, user_id: user.id })));
+
+      if (error) throw error;
+
+      await fetchEvents();
+      toast.success(`${data.length} evento(s) criado(s) com sucesso`);
+      return true;
+    } catch (error) {
+      console.error('Error creating events:', error);
+      toast.error('Erro ao criar eventos');
+      return false;
+    }
+  };
+
   const updateEvent = async (id: string, data: Partial<CreateEventData>): Promise<boolean> => {
     if (!user) return false;
 
@@ -165,6 +209,7 @@ export const useCalendarEvents = () => {
     events,
     loading,
     createEvent,
+    createEvents,
     updateEvent,
     deleteEvent,
     getEventsInRange,
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+
+export type { ExamPrepDay, ExamPrepIntensity, ExamPrepPlan } from '@/lib/planner';
+
+export type ExamPrepStatus = 'active' | 'cancelled';
+
+// Stored exam preparation; its blocks are study sessions pointing at it
+export interface ExamPrepRecord {
+  id: string;
+  user_id: string;
+  deadline_id: string;
+  subject_id: string;
+  topics: string[];
+  status: ExamPrepStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export const useExamPrepPlans = () => {
+  const { user } = useAuth();
+  const [examPrepPlans, setExamPrepPlans] = useState<ExamPrepRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchExamPrepPlans = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('exam_prep_plans')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('status', 'active')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setExamPrepPlans((data || []).map(plan => ({ ...plan, status: plan.status as ExamPrepStatus })));
+    } catch (error) {
+      console.error('Error fetching exam preparation plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchExamPrepPlans();
+  }, [fetchExamPrepPlans]);
+
+  // Active preparation for a deadline, if any
+  const getActivePlan = (deadlineId: string) => examPrepPlans.find(plan => plan.deadline_id === deadlineId);
+
+  // Store a new preparation; its sessions are saved separately
+  const createPlan = async (deadlineId: string, subjectId: string, topics: string[]): Promise<ExamPrepRecord | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('exam_prep_plans')
+        .insert({
+          user_id: user.id,
+          deadline_id: deadlineId,
+          subject_id: subjectId,
+          topics
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await fetchExamPrepPlans();
+      return { ...data, status: data.status as ExamPrepStatus };
+    } catch (error) {
+      console.error('Error creating exam preparation plan:', error);
+      toast.error('Erro ao criar modo preparação');
+      return null;
+    }
+  };
+
+  // Mark a preparation as cancelled; past sessions stay in the history
+  const cancelPlan = async (id: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('exam_prep_plans')
+        .update({ status: 'cancelled' })
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      await fetchExamPrepPlans();
+      return true;
+    } catch (error) {
+      console.error('Error cancelling exam preparation plan:', error);
+      toast.error('Erro ao cancelar modo preparação');
+      return false;
+    }
+  };
+
+  return {
+    examPrepPlans,
+    loading,
+    getActivePlan,
+    createPlan,
+    cancelPlan,
+    refetch: fetchExamPrepPlans
+  };
+};
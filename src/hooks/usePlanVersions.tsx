@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { parseISO } from 'date-fns';
+import {
+  PLAN_VERSION_HISTORY_LIMIT,
+  PlanChange,
+  PlanSnapshotBlock,
+  PlanVersion,
+  PlanVersionTrigger,
+  StudySuggestion,
+  diffPlanVersions,
+  extendSnapshot,
+  snapshotPlan
+} from '@/lib/planner';
+
+export type { PlanChange, PlanChangeReason, PlanSnapshotBlock, PlanVersion, PlanVersionTrigger } from '@/lib/planner';
+
+// Snapshots of every generated plan, kept next to the suggestions so users can
+// see what a regeneration moved and go back to an earlier plan
+export const usePlanVersions = () => {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<PlanVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Latest versions first
+  const fetchVersions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('study_plan_versions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(PLAN_VERSION_HISTORY_LIMIT);
+
+      if (error) throw error;
+
+      setVersions((data || []).map(version => ({
+        ...version,
+        trigger: version.trigger as PlanVersionTrigger,
+        blocks: version.blocks as unknown as PlanSnapshotBlock[]
+      })));
+    } catch (error) {
+      console.error('Error fetching plan versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  const insertVersion = useCallback(async (
+    blocks: PlanSnapshotBlock[],
+    trigger: PlanVersionTrigger,
+    restoredFromVersionId?: string
+  ): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('study_plan_versions')
+        .insert({
+          user_id: user.id,
+          trigger,
+          restored_from_version_id: restoredFromVersionId ?? null,
+          blocks: blocks as unknown as Json
+        });
+
+      if (error) throw error;
+
+      await fetchVersions();
+      return true;
+    } catch (error) {
+      console.error('Error saving plan version:', error);
+      toast.error('Erro ao salvar versão do plano');
+      return false;
+    }
+  }, [user, fetchVersions]);
+
+  // Save the future part of a plan as persisted: the suggestions regeneratePlan returns
+  const saveVersion = useCallback((
+    suggestions: StudySuggestion[],
+    trigger: PlanVersionTrigger,
+    restoredFromVersionId?: string
+  ) => insertVersion(snapshotPlan(suggestions, new Date()), trigger, restoredFromVersionId), [insertVersion]);
+
+  // Save the latest version with blocks added to the plan next to it, as when
+  // missed blocks are carried into open slots
+  const saveExtendedVersion = useCallback((
+    suggestions: StudySuggestion[],
+    trigger: PlanVersionTrigger
+  ) => insertVersion(extendSnapshot(versions[0]?.blocks ?? [], suggestions, new Date()), trigger), [insertVersion, versions]);
+
+  // What a version changed from the one saved before it; null for the oldest listed
+  const getVersionChanges = (version: PlanVersion): PlanChange[] | null => {
+    const index = versions.findIndex(v => v.id === version.id);
+    const previous = index >= 0 ? versions[index + 1] : undefined;
+    if (!previous) return null;
+    return diffPlanVersions(previous.blocks, version.blocks, parseISO(version.created_at));
+  };
+
+  return {
+    versions,
+    loading,
+    saveVersion,
+    saveExtendedVersion,
+    getVersionChanges,
+    refetch: fetchVersions
+  };
+};
@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { toast } from 'sonner';
+import { resolveTimeZone } from '@/lib/timezone';
 
 export interface Profile {
   id: string;
@@ -17,11 +18,25 @@ export interface Profile {
   avatar_url: string | null;
   period_start: string | null;
   period_end: string | null;
+  // IANA zone for the calendar; null follows the device
+  timezone: string | null;
   created_at: string;
   updated_at: string;
 }
 
-export function useProfile() {
+interface ProfileContextType {
+  profile: Profile | null;
+  loading: boolean;
+  timeZone: string;
+  updateProfile: (updates: Partial<Profile>) => Promise<{ error: Error | null }>;
+  refetch: () => Promise<void>;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+// One copy of the profile for the whole app, so every page and the session
+// runner follow the same time zone and academic period
+export function ProfileProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
@@ -76,5 +91,20 @@ export function useProfile() {
     fetchProfile();
   }, [user]);
 
-  return { profile, loading, updateProfile, refetch: fetchProfile };
+  // Zone in which events are created, expanded and shown
+  const timeZone = resolveTimeZone(profile?.timezone);
+
+  return (
+    <ProfileContext.Provider value={{ profile, loading, timeZone, updateProfile, refetch: fetchProfile }}>
+      {children}
+    </ProfileContext.Provider>
+  );
+}
+
+export function useProfile() {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error('useProfile must be used within a ProfileProvider');
+  }
+  return context;
 }
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { DEFAULT_EASE_FACTOR, ReviewItem, ReviewQuality, scheduleReview } from '@/lib/planner';
+
+export type { ReviewItem, ReviewQuality } from '@/lib/planner';
+
+export const useReviewItems = () => {
+  const { user } = useAuth();
+  const [reviewItems, setReviewItems] = useState<ReviewItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchReviewItems = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('review_items')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('next_due_at');
+
+      if (error) throw error;
+      setReviewItems(data || []);
+    } catch (error) {
+      console.error('Error fetching review items:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchReviewItems();
+  }, [fetchReviewItems]);
+
+  /**
+   * Record how well a topic was recalled after a study or review block and
+   * schedule its next review with SM-2. Unknown topics are created on the fly.
+   */
+  const recordReview = async (subjectId: string, topic: string, quality: ReviewQuality): Promise<boolean> => {
+    if (!user) return false;
+
+    const trimmedTopic = topic.trim();
+    if (!trimmedTopic) return false;
+
+    try {
+      const existing = reviewItems.find(
+        item => item.subject_id === subjectId && item.topic.toLowerCase() === trimmedTopic.toLowerCase()
+      );
+      const schedule = scheduleReview(
+        existing ?? { ease_factor: DEFAULT_EASE_FACTOR, interval_days: 0, repetitions: 0 },
+        quality,
+        new Date()
+      );
+
+      const { error } = existing
+        ? await supabase.from('review_items').update(schedule).eq('id', existing.id)
+        : await supabase.from('review_items').insert({
+            ...schedule,
+            user_id: user.id,
+            subject_id: subjectId,
+            topic: trimmedTopic
+          });
+
+      if (error) throw error;
+
+      await fetchReviewItems();
+      toast.success(
+        `Próxima revisão de "${trimmedTopic}" em ${format(new Date(schedule.next_due_at), "dd/MM", { locale: ptBR })}`
+      );
+      return true;
+    } catch (error) {
+      console.error('Error recording review:', error);
+      toast.error('Erro ao agendar revisão');
+      return false;
+    }
+  };
+
+  const deleteReviewItem = async (id: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('review_items')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      await fetchReviewItems();
+      toast.success('Tópico removido das revisões');
+      return true;
+    } catch (error) {
+      console.error('Error deleting review item:', error);
+      toast.error('Erro ao remover tópico');
+      return false;
+    }
+  };
+
+  return {
+    reviewItems,
+    loading,
+    recordReview,
+    deleteReviewItem,
+    refetch: fetchReviewItems
+  };
+};
@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { StudySession, StudySessionStatus } from '@/hooks/useStudySessions';
+import { DecisionTrace, StudyLogStatus, StudySessionLog } from '@/lib/planner';
+import { AnalyticsRange } from '@/lib/analytics';
+import { addCalendarDays, zonedDateTimeToUtc } from '@/lib/timezone';
+import { toast } from 'sonner';
+
+export type { AnalyticsRange } from '@/lib/analytics';
+
+// Session history and time logs of a date range, plus `leadDays` before it
+// for the deadlines at the start of the range
+export const useStudyAnalytics = (range: AnalyticsRange, leadDays: number) => {
+  const { user } = useAuth();
+  const { timeZone } = useProfile();
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [logs, setLogs] = useState<StudySessionLog[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchHistory = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const since = zonedDateTimeToUtc(addCalendarDays(range.from, -leadDays), '00:00', timeZone).toISOString();
+      const until = zonedDateTimeToUtc(addCalendarDays(range.to, 1), '00:00', timeZone).toISOString();
+
+      const [sessionsResult, logsResult] = await Promise.all([
+        supabase
+          .from('study_sessions')
+          .select('*')
+          .eq('user_id', user.id)
+          .gte('start_datetime', since)
+          .lt('start_datetime', until)
+          .order('start_datetime'),
+        supabase
+          .from('study_session_logs')
+          .select('*')
+          .eq('user_id', user.id)
+          .gte('started_at', since)
+          .lt('started_at', until)
+          .order('started_at')
+      ]);
+
+      if (sessionsResult.error) throw sessionsResult.error;
+      if (logsResult.error) throw logsResult.error;
+
+      setSessions((sessionsResult.data || []).map(session => ({
+        ...session,
+        status: session.status as StudySessionStatus,
+        decision_trace: session.decision_trace as unknown as DecisionTrace | undefined
+      })));
+      setLogs((logsResult.data || []).map(log => ({
+        ...log,
+        status: log.status as StudyLogStatus,
+        actual_minutes: Number(log.actual_minutes)
+      })));
+    } catch (error) {
+      console.error('Error fetching study analytics:', error);
+      toast.error('Erro ao carregar análises');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, range.from, range.to, leadDays, timeZone]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return { sessions, logs, loading, timeZone, refetch: fetchHistory };
+};
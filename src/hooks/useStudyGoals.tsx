@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { toast } from 'sonner';
+import { Json } from '@/integrations/supabase/types';
+import { StudyGoals, StudyLogStatus, StudySessionLog, analyzeWeeklyGoals, getLoggedMinutes } from '@/lib/planner';
+import { ACHIEVEMENTS, AchievementKey, getEarnedAchievements } from '@/lib/achievements';
+import { getFreezeCandidate, getFreezesLeft, getStreakSummary, getStudyDays } from '@/lib/streaks';
+import { getZonedDay } from '@/lib/timezone';
+
+export type { StudyGoals, WeeklyGoalProgress, SubjectGoalProgress } from '@/lib/planner';
+
+export interface StudyGoalsRecord {
+  id: string;
+  user_id: string;
+  weekly_hours: number | null;
+  // Minimum weekly hours per subject id
+  subject_hours: Record<string, number>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StudyGoalsData = Pick<StudyGoalsRecord, 'weekly_hours' | 'subject_hours'>;
+
+export interface UnlockedAchievement {
+  id: string;
+  user_id: string;
+  achievement_key: AchievementKey;
+  unlocked_at: string;
+}
+
+// Map stored goals (hours) to the planner's (minutes); no record means no goals
+export const toStudyGoals = (record: StudyGoalsData | null): StudyGoals => ({
+  weeklyMinutes: record?.weekly_hours ? Number(record.weekly_hours) * 60 : null,
+  subjectMinutes: Object.fromEntries(
+    Object.entries(record?.subject_hours ?? {}).map(([subjectId, hours]) => [subjectId, Number(hours) * 60])
+  )
+});
+
+// Weekly goals with this week's progress, the study streak with its freeze
+// days, and the achievements unlocked along the way
+export const useStudyGoals = () => {
+  const { user } = useAuth();
+  const { timeZone } = useProfile();
+  const [goals, setGoals] = useState<StudyGoalsRecord | null>(null);
+  const [logs, setLogs] = useState<StudySessionLog[]>([]);
+  const [freezeDays, setFreezeDays] = useState<string[]>([]);
+  const [achievements, setAchievements] = useState<UnlockedAchievement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchGoals = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [goalsResult, logsResult, freezesResult, achievementsResult] = await Promise.all([
+        supabase.from('study_goals').select('*').eq('user_id', user.id).maybeSingle(),
+        supabase.from('study_session_logs').select('*').eq('user_id', user.id).order('started_at'),
+        supabase.from('streak_freezes').select('*').eq('user_id', user.id).order('day'),
+        supabase.from('achievements').select('*').eq('user_id', user.id).order('unlocked_at')
+      ]);
+
+      if (goalsResult.error) throw goalsResult.error;
+      if (logsResult.error) throw logsResult.error;
+      if (freezesResult.error) throw freezesResult.error;
+      if (achievementsResult.error) throw achievementsResult.error;
+
+      setGoals(goalsResult.data && {
+        ...goalsResult.data,
+        subject_hours: goalsResult.data.subject_hours as Record<string, number>
+      });
+      setLogs((logsResult.data || []).map(log => ({
+        ...log,
+        status: log.status as StudyLogStatus,
+        actual_minutes: Number(log.actual_minutes)
+      })));
+      setFreezeDays((freezesResult.data || []).map(freeze => freeze.day));
+      setAchievements((achievementsResult.data || []).map(achievement => ({
+        ...achievement,
+        achievement_key: achievement.achievement_key as AchievementKey
+      })));
+    } catch (error) {
+      console.error('Error fetching study goals:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  const saveGoals = async (data: StudyGoalsData): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('study_goals')
+        .upsert({
+          weekly_hours: data.weekly_hours,
+          subject_hours: data.subject_hours as unknown as Json,
+          user_id: user.id
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+
+      await fetchGoals();
+      toast.success('Metas semanais salvas');
+      return true;
+    } catch (error) {
+      console.error('Error saving study goals:', error);
+      toast.error('Erro ao salvar metas');
+      return false;
+    }
+  };
+
+  const today = getZonedDay(new Date(), timeZone);
+  const studyDays = useMemo(() => getStudyDays(logs, timeZone), [logs, timeZone]);
+  const streak = useMemo(() => getStreakSummary(studyDays, freezeDays, today), [studyDays, freezeDays, today]);
+  const freezeCandidate = getFreezeCandidate(studyDays, freezeDays, today);
+  const freezesLeft = getFreezesLeft(freezeDays, today);
+
+  const weeklyProgress = useMemo(
+    () => analyzeWeeklyGoals(toStudyGoals(goals), logs, { timeZone }),
+    [goals, logs, timeZone]
+  );
+
+  // Keep a streak alive over a day without study
+  const freezeDay = async (day: string): Promise<boolean> => {
+    if (!user) return false;
+
+    if (getFreezesLeft(freezeDays, day) === 0) {
+      toast.error('Você já usou todos os congelamentos deste mês');
+      return false;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('streak_freezes')
+        .insert({ user_id: user.id, day });
+
+      if (error) throw error;
+
+      await fetchGoals();
+      toast.success('Dia congelado. Sua sequência está protegida.');
+      return true;
+    } catch (error) {
+      console.error('Error freezing streak day:', error);
+      toast.error('Erro ao congelar o dia');
+      return false;
+    }
+  };
+
+  // Unlock the milestones reached since the last visit, once each
+  const completed = logs.filter(log => log.status === 'completed');
+  const earned = getEarnedAchievements({
+    completedBlocks: completed.length,
+    totalMinutes: completed.reduce((total, log) => total + getLoggedMinutes(log, new Date()), 0),
+    longestStreak: streak.longest,
+    weeklyGoalMet: weeklyProgress.targetMinutes !== null && weeklyProgress.minutes >= weeklyProgress.targetMinutes
+  });
+  const newAchievements = loading
+    ? []
+    : earned.filter(key => !achievements.some(achievement => achievement.achievement_key === key));
+  const newAchievementsKey = newAchievements.join(',');
+  const unlocking = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !newAchievementsKey || unlocking.current === newAchievementsKey) return;
+    unlocking.current = newAchievementsKey;
+    const keys = newAchievementsKey.split(',') as AchievementKey[];
+
+    (async () => {
+      try {
+        const { error } = await supabase
+          .from('achievements')
+          .upsert(
+            keys.map(key => ({ user_id: user.id, achievement_key: key })),
+            { onConflict: 'user_id,achievement_key', ignoreDuplicates: true }
+          );
+
+        if (error) throw error;
+
+        keys.forEach(key => {
+          const achievement = ACHIEVEMENTS.find(a => a.key === key);
+          if (achievement) toast.success(`Conquista desbloqueada: ${achievement.title}`);
+        });
+        await fetchGoals();
+      } catch (error) {
+        console.error('Error unlocking achievements:', error);
+      }
+    })();
+  }, [user, newAchievementsKey, fetchGoals]);
+
+  return {
+    goals,
+    weeklyProgress,
+    streak,
+    freezeDays,
+    freezesLeft,
+    freezeCandidate,
+    achievements,
+    loading,
+    saveGoals,
+    freezeDay,
+    refetch: fetchGoals
+  };
+};
@@ -0,0 +1,186 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { Chronotype, DEFAULT_PLANNER_CONFIG, PlannerConfig, UrgencyCurve, getEnergyCurve } from '@/lib/planner';
+import { AvailabilitySettings, TimeRange } from '@/lib/availability';
+import { Json } from '@/integrations/supabase/types';
+
+export interface StudyPreferences {
+  id: string;
+  user_id: string;
+  study_block_minutes: number;
+  break_minutes: number;
+  difficulty_coefficient: number;
+  dedication_coefficient: number;
+  urgency_curve: UrgencyCurve;
+  urgency_horizon_days: number;
+  delay_bonus: number;
+  repeat_once_threshold: number;
+  repeat_triple_threshold: number;
+  interleave_subjects: boolean;
+  max_consecutive_blocks: number;
+  chronotype: Chronotype;
+  energy_curve: number[] | null;
+  max_daily_study_hours: number | null;
+  max_subject_blocks_per_day: number | null;
+  rest_days: number[];
+  availability_start: string;
+  availability_end: string;
+  excluded_time_ranges: TimeRange[];
+  min_free_slot_minutes: number;
+  free_slot_buffer_minutes: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StudyPreferencesData = Omit<StudyPreferences, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+export const DEFAULT_STUDY_PREFERENCES: StudyPreferencesData = {
+  study_block_minutes: DEFAULT_PLANNER_CONFIG.studyBlockMinutes,
+  break_minutes: DEFAULT_PLANNER_CONFIG.breakMinutes,
+  difficulty_coefficient: DEFAULT_PLANNER_CONFIG.difficultyCoefficient,
+  dedication_coefficient: DEFAULT_PLANNER_CONFIG.dedicationCoefficient,
+  urgency_curve: DEFAULT_PLANNER_CONFIG.urgencyCurve,
+  urgency_horizon_days: DEFAULT_PLANNER_CONFIG.urgencyHorizonDays,
+  delay_bonus: DEFAULT_PLANNER_CONFIG.delayBonus,
+  repeat_once_threshold: DEFAULT_PLANNER_CONFIG.repeatOnceThreshold,
+  repeat_triple_threshold: DEFAULT_PLANNER_CONFIG.repeatTripleThreshold,
+  interleave_subjects: DEFAULT_PLANNER_CONFIG.interleaveSubjects,
+  max_consecutive_blocks: DEFAULT_PLANNER_CONFIG.maxConsecutiveBlocks,
+  chronotype: 'neutral',
+  energy_curve: null,
+  max_daily_study_hours: null,
+  max_subject_blocks_per_day: null,
+  rest_days: [],
+  availability_start: '08:00',
+  availability_end: '22:30',
+  excluded_time_ranges: [{ start: '12:00', end: '13:00' }],
+  min_free_slot_minutes: 60,
+  free_slot_buffer_minutes: 15
+};
+
+// Map a stored preferences record (or the defaults) to the planner's config
+export const toPlannerConfig = (preferences: StudyPreferencesData | null): PlannerConfig => {
+  if (!preferences) return DEFAULT_PLANNER_CONFIG;
+
+  return {
+    studyBlockMinutes: preferences.study_block_minutes,
+    breakMinutes: preferences.break_minutes,
+    difficultyCoefficient: Number(preferences.difficulty_coefficient),
+    dedicationCoefficient: Number(preferences.dedication_coefficient),
+    urgencyCurve: preferences.urgency_curve,
+    urgencyHorizonDays: preferences.urgency_horizon_days,
+    delayBonus: Number(preferences.delay_bonus),
+    repeatOnceThreshold: Number(preferences.repeat_once_threshold),
+    repeatTripleThreshold: Number(preferences.repeat_triple_threshold),
+    interleaveSubjects: preferences.interleave_subjects,
+    maxConsecutiveBlocks: preferences.max_consecutive_blocks,
+    energyCurve: getEnergyCurve(preferences.chronotype, preferences.energy_curve),
+    maxDailyStudyMinutes: preferences.max_daily_study_hours === null ? null : Number(preferences.max_daily_study_hours) * 60,
+    maxSubjectBlocksPerDay: preferences.max_subject_blocks_per_day,
+    restDays: preferences.rest_days
+  };
+};
+
+// Map stored preferences (or the defaults) to the free-time detection settings
+export const toAvailabilitySettings = (preferences: StudyPreferencesData | null): AvailabilitySettings => {
+  const source = preferences || DEFAULT_STUDY_PREFERENCES;
+
+  return {
+    windowStart: source.availability_start.slice(0, 5),
+    windowEnd: source.availability_end.slice(0, 5),
+    excludedRanges: source.excluded_time_ranges,
+    minSlotMinutes: source.min_free_slot_minutes,
+    bufferMinutes: source.free_slot_buffer_minutes
+  };
+};
+
+const useStudyPreferencesState = () => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<StudyPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPreferences = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('study_preferences')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setPreferences(data && {
+        ...data,
+        urgency_curve: data.urgency_curve as UrgencyCurve,
+        chronotype: data.chronotype as Chronotype,
+        energy_curve: data.energy_curve as number[] | null,
+        excluded_time_ranges: data.excluded_time_ranges as unknown as TimeRange[]
+      });
+    } catch (error) {
+      console.error('Error fetching study preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [fetchPreferences]);
+
+  const savePreferences = async (data: Partial<StudyPreferencesData>): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { excluded_time_ranges, energy_curve, ...rest } = data;
+      const { error } = await supabase
+        .from('study_preferences')
+        .upsert({
+          ...rest,
+          ...(excluded_time_ranges && { excluded_time_ranges: excluded_time_ranges as unknown as Json }),
+          ...(energy_curve !== undefined && { energy_curve: energy_curve as Json }),
+          user_id: user.id
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+
+      await fetchPreferences();
+      toast.success('Preferências de estudo salvas');
+      return true;
+    } catch (error) {
+      console.error('Error saving study preferences:', error);
+      toast.error('Erro ao salvar preferências de estudo');
+      return false;
+    }
+  };
+
+  const plannerConfig = useMemo(() => toPlannerConfig(preferences), [preferences]);
+  const availability = useMemo(() => toAvailabilitySettings(preferences), [preferences]);
+
+  return {
+    preferences,
+    plannerConfig,
+    availability,
+    loading,
+    savePreferences,
+    refetch: fetchPreferences
+  };
+};
+
+const StudyPreferencesContext = createContext<ReturnType<typeof useStudyPreferencesState> | undefined>(undefined);
+
+// One copy of the preferences for the whole app, so the planner never runs on stale settings
+export function StudyPreferencesProvider({ children }: { children: ReactNode }) {
+  const value = useStudyPreferencesState();
+  return <StudyPreferencesContext.Provider value={value}>{children}</StudyPreferencesContext.Provider>;
+}
+
+export function useStudyPreferences() {
+  const context = useContext(StudyPreferencesContext);
+  if (context === undefined) {
+    throw new Error('useStudyPreferences must be used within a StudyPreferencesProvider');
+  }
+  return context;
+}
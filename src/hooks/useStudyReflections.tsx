@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Subject } from '@/hooks/useSubjects';
+import { toast } from 'sonner';
+import { addDays } from 'date-fns';
+import { CALIBRATION_HISTORY_DAYS, StudyReflection, suggestDifficultyWeight } from '@/lib/planner';
+
+export type { DifficultyCalibration, StudyReflection } from '@/lib/planner';
+
+// Block a reflection is asked for
+export interface ReflectionTarget {
+  subjectId: string;
+  subjectName: string;
+  sessionId?: string;
+  // Topics already named when completing the block
+  topics?: string[];
+}
+
+export interface CreateReflectionData {
+  subjectId: string;
+  sessionId?: string;
+  understanding: number;
+  topics: string[];
+  note?: string;
+}
+
+// Reflections after study blocks, and the difficulty weights they suggest
+export const useStudyReflections = () => {
+  const { user } = useAuth();
+  const [reflections, setReflections] = useState<StudyReflection[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Reflections of the last CALIBRATION_HISTORY_DAYS
+  const fetchReflections = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('study_reflections')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('created_at', addDays(new Date(), -CALIBRATION_HISTORY_DAYS).toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setReflections(data || []);
+    } catch (error) {
+      console.error('Error fetching study reflections:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchReflections();
+  }, [fetchReflections]);
+
+  const createReflection = async (data: CreateReflectionData): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('study_reflections')
+        .insert({
+          user_id: user.id,
+          subject_id: data.subjectId,
+          study_session_id: data.sessionId ?? null,
+          understanding: data.understanding,
+          topics: data.topics,
+          note: data.note || null
+        });
+
+      if (error) throw error;
+
+      await fetchReflections();
+      toast.success('Reflexão registrada!');
+      return true;
+    } catch (error) {
+      console.error('Error creating study reflection:', error);
+      toast.error('Erro ao registrar reflexão');
+      return false;
+    }
+  };
+
+  const getCalibration = (subject: Subject) => suggestDifficultyWeight(subject, reflections);
+
+  return {
+    reflections,
+    loading,
+    createReflection,
+    getCalibration,
+    refetch: fetchReflections
+  };
+};
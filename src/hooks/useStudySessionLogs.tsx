@@ -0,0 +1,173 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { addDays } from 'date-fns';
+import { getLoggedMinutes, STUDY_TIME_HISTORY_DAYS, StudyLogStatus, StudySessionLog } from '@/lib/planner';
+
+export type { StudyLogStatus, StudySessionLog, SubjectStudyTime } from '@/lib/planner';
+
+const toLog = (row: Omit<StudySessionLog, 'status'> & { status: string }): StudySessionLog => ({
+  ...row,
+  status: row.status as StudyLogStatus,
+  actual_minutes: Number(row.actual_minutes)
+});
+
+// Time actually studied, timed by the reminder or entered when completing a block
+export const useStudySessionLogs = () => {
+  const { user } = useAuth();
+  const [logs, setLogs] = useState<StudySessionLog[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Logs of the last STUDY_TIME_HISTORY_DAYS
+  const fetchLogs = useCallback(async (): Promise<StudySessionLog[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('study_session_logs')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('started_at', addDays(new Date(), -STUDY_TIME_HISTORY_DAYS).toISOString())
+        .order('started_at');
+
+      if (error) throw error;
+
+      const mapped = (data || []).map(toLog);
+      setLogs(mapped);
+      return mapped;
+    } catch (error) {
+      console.error('Error fetching study session logs:', error);
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  const updateLog = useCallback(async (id: string, changes: Partial<StudySessionLog>): Promise<StudySessionLog | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('study_session_logs')
+        .update(changes)
+        .eq('id', id)
+        .eq('user_id', user.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await fetchLogs();
+      return toLog(data);
+    } catch (error) {
+      console.error('Error updating study session log:', error);
+      toast.error('Erro ao registrar tempo de estudo');
+      return null;
+    }
+  }, [user, fetchLogs]);
+
+  // Start timing a study session, optionally for a planned block
+  const startLog = useCallback(async (subjectId: string, plannedMinutes: number, sessionId?: string): Promise<StudySessionLog | null> => {
+    if (!user) return null;
+
+    try {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('study_session_logs')
+        .insert({
+          user_id: user.id,
+          subject_id: subjectId,
+          study_session_id: sessionId ?? null,
+          planned_minutes: plannedMinutes,
+          started_at: now,
+          resumed_at: now
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await fetchLogs();
+      return toLog(data);
+    } catch (error) {
+      console.error('Error starting study session log:', error);
+      toast.error('Erro ao registrar início do estudo');
+      return null;
+    }
+  }, [user, fetchLogs]);
+
+  // Close the running stretch; its minutes move into actual_minutes
+  const pauseLog = useCallback((log: StudySessionLog) => updateLog(log.id, {
+    status: 'paused',
+    resumed_at: null,
+    actual_minutes: getLoggedMinutes(log, new Date())
+  }), [updateLog]);
+
+  const resumeLog = useCallback((log: StudySessionLog) => updateLog(log.id, {
+    status: 'started',
+    resumed_at: new Date().toISOString()
+  }), [updateLog]);
+
+  const completeLog = useCallback((log: StudySessionLog, endedAt: Date = new Date()) => updateLog(log.id, {
+    status: 'completed',
+    resumed_at: null,
+    ended_at: endedAt.toISOString(),
+    actual_minutes: getLoggedMinutes(log, endedAt)
+  }), [updateLog]);
+
+  // Record a block completed without the timer, with the minutes the user entered
+  const logCompletedSession = async (
+    subjectId: string,
+    plannedMinutes: number,
+    actualMinutes: number,
+    sessionId?: string
+  ): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const now = new Date();
+      const { error } = await supabase
+        .from('study_session_logs')
+        .insert({
+          user_id: user.id,
+          subject_id: subjectId,
+          study_session_id: sessionId ?? null,
+          status: 'completed',
+          planned_minutes: plannedMinutes,
+          actual_minutes: actualMinutes,
+          started_at: new Date(now.getTime() - actualMinutes * 60000).toISOString(),
+          ended_at: now.toISOString()
+        });
+
+      if (error) throw error;
+
+      await fetchLogs();
+      return true;
+    } catch (error) {
+      console.error('Error logging completed study session:', error);
+      toast.error('Erro ao registrar tempo de estudo');
+      return false;
+    }
+  };
+
+  // A planned block already has its time logged
+  const hasCompletedLog = (sessionId: string) =>
+    logs.some(log => log.study_session_id === sessionId && log.status === 'completed');
+
+  return {
+    logs,
+    loading,
+    startLog,
+    pauseLog,
+    resumeLog,
+    completeLog,
+    logCompletedSession,
+    hasCompletedLog,
+    refetch: fetchLogs
+  };
+};
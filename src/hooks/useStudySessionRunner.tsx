@@ -0,0 +1,267 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { useLocation } from 'react-router-dom';
+import { addMinutes } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useSubjects } from '@/hooks/useSubjects';
+import { useStudySessions } from '@/hooks/useStudySessions';
+import { useStudySessionLogs } from '@/hooks/useStudySessionLogs';
+import { ReflectionTarget, useStudyReflections } from '@/hooks/useStudyReflections';
+import { StudyBlock } from '@/hooks/useStudySuggestions';
+import { StudyReminderToast } from '@/components/notifications/StudyReminderToast';
+import { ReflectionDialog } from '@/components/study/ReflectionDialog';
+import {
+  notifyBreakTime,
+  notifyReminderDelayed,
+  notifyStudyReminder,
+  notifyStudySessionCompleted,
+  notifyStudySessionStarted
+} from '@/lib/notifications';
+import {
+  ActiveStudySession,
+  EMPTY_RUNNER_STATE,
+  StudyRunnerState,
+  endedRecently,
+  getBlockMinutes,
+  getDueBreak,
+  getDueStudyBlock,
+  getRemainingSeconds,
+  getTimerEnd,
+  pauseActiveSession,
+  pruneHandledBlocks,
+  resumeActiveSession
+} from '@/lib/studyRunner';
+import { getZonedDay } from '@/lib/timezone';
+
+// How often today's blocks are checked for a reminder or a break
+const WATCH_INTERVAL_MS = 15 * 1000;
+const SNOOZE_MINUTES = 10;
+
+const storageKey = (userId: string) => `studyflow:study-runner:${userId}`;
+
+const loadRunnerState = (userId: string): StudyRunnerState => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    return stored ? { ...EMPTY_RUNNER_STATE, ...JSON.parse(stored) } : EMPTY_RUNNER_STATE;
+  } catch (error) {
+    console.error('Error loading study session runner state:', error);
+    return EMPTY_RUNNER_STATE;
+  }
+};
+
+interface StudySessionRunnerContextType {
+  active: ActiveStudySession | null;
+  remainingSeconds: number;
+  // Block whose reminder is waiting for an answer
+  dueBlock: StudyBlock | null;
+  start: (block: StudyBlock) => Promise<void>;
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+  complete: () => Promise<void>;
+  // Ask for a reflection on a block completed outside the timer
+  reflect: (target: ReflectionTarget) => void;
+}
+
+const StudySessionRunnerContext = createContext<StudySessionRunnerContextType | undefined>(undefined);
+
+/**
+ * App-wide study session controller. It watches today's planned blocks, pops
+ * the reminder when one starts, times the session with its pauses, announces
+ * breaks and asks for a reflection on each completed block. Timer state lives
+ * in localStorage, so it survives route changes and reloads.
+ */
+export function StudySessionRunnerProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { timeZone } = useProfile();
+  const { subjects } = useSubjects();
+  const { getStudyBlocks, updateSessionStatus, refetch: refetchSessions } = useStudySessions();
+  const { startLog, pauseLog, resumeLog, completeLog } = useStudySessionLogs();
+  const { createReflection } = useStudyReflections();
+  const location = useLocation();
+
+  const [state, setState] = useState<StudyRunnerState>(EMPTY_RUNNER_STATE);
+  const [now, setNow] = useState(() => new Date());
+  const [reflectionTarget, setReflectionTarget] = useState<ReflectionTarget | null>(null);
+  const loadedFor = useRef<string | null>(null);
+
+  // Restore the runner of the signed-in user, and store every change
+  useEffect(() => {
+    loadedFor.current = user?.id ?? null;
+    setState(user ? loadRunnerState(user.id) : EMPTY_RUNNER_STATE);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || loadedFor.current !== user.id) return;
+    localStorage.setItem(storageKey(user.id), JSON.stringify(state));
+  }, [user, state]);
+
+  // The plan is shared with the pages; reload it on navigation to pick up
+  // changes made in another tab or device
+  useEffect(() => {
+    if (user) refetchSessions();
+  }, [user, location.pathname, refetchSessions]);
+
+  // Tick every second while timing, otherwise just often enough to catch block starts
+  useEffect(() => {
+    const interval = setInterval(
+      () => setNow(new Date()),
+      state.active?.status === 'running' ? 1000 : WATCH_INTERVAL_MS
+    );
+    return () => clearInterval(interval);
+  }, [state.active?.status]);
+
+  const today = getZonedDay(now, timeZone);
+  const todayBlocks = useMemo(
+    () => getStudyBlocks(subjects).filter(block => getZonedDay(block.startTime, timeZone) === today),
+    [getStudyBlocks, subjects, today, timeZone]
+  );
+
+  const dueBlock = state.active ? null : getDueStudyBlock(todayBlocks, state.handledBlocks, now) ?? null;
+  const dueBreak = state.active ? null : getDueBreak(todayBlocks, state.handledBlocks, now) ?? null;
+
+  const markHandled = (blockId: string, until: string | null = null) =>
+    setState(prev => ({
+      ...prev,
+      handledBlocks: { ...pruneHandledBlocks(prev.handledBlocks, todayBlocks), [blockId]: until }
+    }));
+
+  // Announce a reminder once per block, and breaks as they start
+  const announcedBlockId = useRef<string | null>(null);
+  useEffect(() => {
+    if (dueBlock && announcedBlockId.current !== dueBlock.id) {
+      announcedBlockId.current = dueBlock.id;
+      notifyStudyReminder({ subjectName: dueBlock.subject.name, startTime: dueBlock.startTime, endTime: dueBlock.endTime });
+    }
+  }, [dueBlock]);
+
+  useEffect(() => {
+    if (!dueBreak) return;
+    notifyBreakTime(getBlockMinutes(dueBreak));
+    setState(prev => ({ ...prev, handledBlocks: { ...prev.handledBlocks, [dueBreak.id]: null } }));
+  }, [dueBreak]);
+
+  const start = useCallback(async (block: StudyBlock) => {
+    const durationMinutes = getBlockMinutes(block);
+    const startedAt = new Date();
+
+    setState(prev => ({
+      active: {
+        blockId: block.id,
+        sessionId: block.sessionId,
+        subjectId: block.subject.id,
+        subjectName: block.subject.name,
+        durationMinutes,
+        status: 'running',
+        elapsedSeconds: 0,
+        resumedAt: startedAt.toISOString(),
+        log: null
+      },
+      handledBlocks: { ...prev.handledBlocks, [block.id]: null }
+    }));
+    notifyStudySessionStarted(block.subject.name, durationMinutes);
+
+    if (block.sessionId) await updateSessionStatus(block.sessionId, 'started');
+    const log = await startLog(block.subject.id, durationMinutes, block.sessionId);
+    setState(prev => prev.active?.blockId === block.id
+      ? { ...prev, active: { ...prev.active, log } }
+      : prev);
+  }, [startLog, updateSessionStatus]);
+
+  const pause = useCallback(async () => {
+    const active = state.active;
+    if (!active || active.status !== 'running') return;
+
+    setState(prev => prev.active ? { ...prev, active: pauseActiveSession(prev.active, new Date()) } : prev);
+    if (active.log) {
+      const log = await pauseLog(active.log);
+      if (log) setState(prev => prev.active ? { ...prev, active: { ...prev.active, log } } : prev);
+    }
+  }, [state.active, pauseLog]);
+
+  const resume = useCallback(async () => {
+    const active = state.active;
+    if (!active || active.status !== 'paused') return;
+
+    setState(prev => prev.active ? { ...prev, active: resumeActiveSession(prev.active, new Date()) } : prev);
+    if (active.log) {
+      const log = await resumeLog(active.log);
+      if (log) setState(prev => prev.active ? { ...prev, active: { ...prev.active, log } } : prev);
+    }
+  }, [state.active, resumeLog]);
+
+  // End the session, then announce the break that follows it if it just ended
+  const complete = useCallback(async () => {
+    const active = state.active;
+    if (!active) return;
+
+    const completedAt = new Date();
+    const endedAt = getTimerEnd(active, completedAt);
+    const currentBreak = getDueBreak(todayBlocks, state.handledBlocks, endedAt);
+    setState(prev => ({
+      active: null,
+      handledBlocks: currentBreak ? { ...prev.handledBlocks, [currentBreak.id]: null } : prev.handledBlocks
+    }));
+    notifyStudySessionCompleted(active.subjectName);
+    if (currentBreak && endedRecently(endedAt, completedAt)) notifyBreakTime(getBlockMinutes(currentBreak));
+    setReflectionTarget({ subjectId: active.subjectId, subjectName: active.subjectName, sessionId: active.sessionId });
+
+    if (active.log) await completeLog(active.log, endedAt);
+    if (active.sessionId) await updateSessionStatus(active.sessionId, 'completed');
+  }, [state.active, state.handledBlocks, todayBlocks, completeLog, updateSessionStatus]);
+
+  const remainingSeconds = state.active ? getRemainingSeconds(state.active, now) : 0;
+
+  // The timer ran out
+  useEffect(() => {
+    if (state.active?.status === 'running' && remainingSeconds === 0) complete();
+  }, [state.active?.status, remainingSeconds, complete]);
+
+  const handleSnooze = () => {
+    if (!dueBlock) return;
+    markHandled(dueBlock.id, addMinutes(new Date(), SNOOZE_MINUTES).toISOString());
+    notifyReminderDelayed(SNOOZE_MINUTES);
+  };
+
+  const handleDismiss = () => {
+    if (dueBlock) markHandled(dueBlock.id);
+  };
+
+  const reflect = useCallback((target: ReflectionTarget) => setReflectionTarget(target), []);
+
+  const value = { active: state.active, remainingSeconds, dueBlock, start, pause, resume, complete, reflect };
+  const reminderBlock = state.active ? null : dueBlock;
+
+  return (
+    <StudySessionRunnerContext.Provider value={value}>
+      {children}
+      {user && (state.active || reminderBlock) && (
+        <StudyReminderToast
+          subjectName={state.active?.subjectName ?? reminderBlock?.subject.name ?? ''}
+          startTime={reminderBlock?.startTime}
+          endTime={reminderBlock?.endTime}
+          isSessionActive={!!state.active}
+          isPaused={state.active?.status === 'paused'}
+          timeRemaining={remainingSeconds}
+          onStartNow={() => reminderBlock && start(reminderBlock)}
+          onDelay={handleSnooze}
+          onPauseResume={() => (state.active?.status === 'paused' ? resume() : pause())}
+          onComplete={complete}
+          onDismiss={handleDismiss}
+        />
+      )}
+      <ReflectionDialog
+        target={reflectionTarget}
+        onOpenChange={(open) => !open && setReflectionTarget(null)}
+        onSubmit={createReflection}
+      />
+    </StudySessionRunnerContext.Provider>
+  );
+}
+
+export function useStudySessionRunner() {
+  const context = useContext(StudySessionRunnerContext);
+  if (context === undefined) {
+    throw new Error('useStudySessionRunner must be used within a StudySessionRunnerProvider');
+  }
+  return context;
+}
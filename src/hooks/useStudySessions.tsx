@@ -0,0 +1,425 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Subject } from '@/hooks/useSubjects';
+import { StudyBlock, StudySuggestion } from '@/hooks/useStudySuggestions';
+import { DecisionTrace, MISSED_LOOKBACK_DAYS, MissedBlock } from '@/lib/planner';
+import { Json } from '@/integrations/supabase/types';
+import { ReviewItem } from '@/hooks/useReviewItems';
+import { toast } from 'sonner';
+import { addDays, areIntervalsOverlapping, isAfter, parseISO } from 'date-fns';
+
+export type StudySessionStatus = 'planned' | 'started' | 'completed' | 'skipped' | 'missed';
+
+export interface StudySession {
+  id: string;
+  user_id: string;
+  subject_id: string;
+  free_slot_id?: string;
+  start_datetime: string;
+  end_datetime: string;
+  is_break: boolean;
+  status: StudySessionStatus;
+  review_item_id?: string;
+  decision_trace?: DecisionTrace;
+  carried_from_session_id?: string;
+  // Set on sessions of an exam preparation (see exam_prep_plans)
+  exam_prep_plan_id?: string;
+  prep_topic?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Recently missed or skipped study blocks that still need making up. A block is
+ * made up once a session carried from it is no longer a future planned one;
+ * future planned carry-overs are replaced on every regeneration.
+ */
+export const getMissedBlocks = (sessions: StudySession[], now: Date = new Date()): MissedBlock[] => {
+  const lookbackStart = addDays(now, -MISSED_LOOKBACK_DAYS);
+  const isMadeUp = (session: StudySession) => sessions.some(s =>
+    s.carried_from_session_id === session.id &&
+    !(s.status === 'planned' && isAfter(parseISO(s.start_datetime), now))
+  );
+
+  return sessions
+    .filter(s => !s.is_break && (s.status === 'missed' || s.status === 'skipped'))
+    .filter(s => isAfter(parseISO(s.start_datetime), lookbackStart))
+    .filter(s => !isMadeUp(s))
+    .map(s => ({
+      sessionId: s.id,
+      subjectId: s.subject_id,
+      startTime: s.start_datetime,
+      minutes: (parseISO(s.end_datetime).getTime() - parseISO(s.start_datetime).getTime()) / 60000
+    }));
+};
+
+// Planned sessions that have not started yet; regeneration may replace them
+const isReplaceable = (session: StudySession, now: Date) =>
+  session.status === 'planned' && isAfter(parseISO(session.start_datetime), now);
+
+const overlaps = (block: StudyBlock, session: StudySession) =>
+  areIntervalsOverlapping(
+    { start: block.startTime, end: block.endTime },
+    { start: parseISO(session.start_datetime), end: parseISO(session.end_datetime) }
+  );
+
+// Rows of the study_sessions table for the blocks of generated suggestions
+const toSessionRows = (userId: string, suggestions: StudySuggestion[]) =>
+  suggestions.flatMap(suggestion => {
+    // Occurrences of recurring slots point back at the stored event
+    const freeSlotId = suggestion.freeSlot.recurrence_parent_id ?? suggestion.freeSlot.id;
+
+    return suggestion.blocks.map(block => ({
+      user_id: userId,
+      subject_id: block.subject.id,
+      free_slot_id: freeSlotId,
+      start_datetime: block.startTime.toISOString(),
+      end_datetime: block.endTime.toISOString(),
+      is_break: block.isBreak,
+      review_item_id: block.reviewItemId ?? null,
+      carried_from_session_id: block.carriedFromSessionId ?? null,
+      decision_trace: (block.trace ?? null) as unknown as Json
+    }));
+  });
+
+const useStudySessionsState = () => {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [regenerating, setRegenerating] = useState(false);
+
+  const fetchSessions = useCallback(async (): Promise<StudySession[]> => {
+    if (!user) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('study_sessions')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('start_datetime');
+
+      if (error) throw error;
+
+      const mapped = (data || []).map(session => ({
+        ...session,
+        status: session.status as StudySessionStatus,
+        decision_trace: session.decision_trace as unknown as DecisionTrace | undefined
+      }));
+      setSessions(mapped);
+      return mapped;
+    } catch (error) {
+      console.error('Error fetching study sessions:', error);
+      toast.error('Erro ao carregar plano de estudos');
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  /**
+   * Replace the future, unstarted part of the plan with freshly generated suggestions.
+   * Sessions that were already started, completed or skipped, and exam preparation
+   * sessions, are never touched, and new blocks overlapping them are dropped.
+   * The new blocks are inserted before the old ones are deleted, so a failure
+   * midway leaves the previous plan (at worst alongside the new one), never none.
+   * Returns the suggestions narrowed to the blocks actually saved, or null.
+   */
+  const regeneratePlan = async (
+    suggestions: StudySuggestion[],
+    { notify = true }: { notify?: boolean } = {}
+  ): Promise<StudySuggestion[] | null> => {
+    if (!user) return null;
+
+    try {
+      setRegenerating(true);
+      const now = new Date();
+
+      const { data: replacedRows, error: selectError } = await supabase
+        .from('study_sessions')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('status', 'planned')
+        .is('exam_prep_plan_id', null)
+        .gt('start_datetime', now.toISOString());
+
+      if (selectError) throw selectError;
+
+      const keptSessions = sessions.filter(
+        s => s.exam_prep_plan_id || !isReplaceable(s, now)
+      );
+      const isSaved = (block: StudyBlock) =>
+        isAfter(block.startTime, now) && !keptSessions.some(s => overlaps(block, s));
+      const savedSuggestions = suggestions
+        .map(suggestion => ({ ...suggestion, blocks: suggestion.blocks.filter(isSaved) }))
+        .filter(suggestion => suggestion.blocks.length > 0);
+
+      const sessionsToInsert = toSessionRows(user.id, savedSuggestions);
+
+      if (sessionsToInsert.length > 0) {
+        const { error: insertError } = await supabase
+          .from('study_sessions')
+          .insert(sessionsToInsert);
+
+        if (insertError) throw insertError;
+      }
+
+      const replacedIds = (replacedRows || []).map(row => row.id);
+      if (replacedIds.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('study_sessions')
+          .delete()
+          .in('id', replacedIds);
+
+        if (deleteError) throw deleteError;
+      }
+
+      await fetchSessions();
+      if (notify) {
+        const studyCount = sessionsToInsert.filter(s => !s.is_break).length;
+        const carriedCount = sessionsToInsert.filter(s => s.carried_from_session_id).length;
+        toast.success(
+          `Plano regenerado: ${studyCount} bloco(s) de estudo${carriedCount > 0 ? `, ${carriedCount} reagendado(s)` : ''}`
+        );
+      }
+      return savedSuggestions;
+    } catch (error) {
+      console.error('Error regenerating study plan:', error);
+      toast.error('Erro ao regenerar plano de estudos');
+      return null;
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  /**
+   * Add carried-over blocks to the plan without touching any other session.
+   * Blocks that start in the past or overlap an existing session are dropped.
+   * Returns the suggestions narrowed to the blocks actually saved, or null.
+   */
+  const addCarriedBlocks = async (suggestions: StudySuggestion[]): Promise<StudySuggestion[] | null> => {
+    if (!user) return null;
+
+    try {
+      const now = new Date();
+      const isSaved = (block: StudyBlock) =>
+        isAfter(block.startTime, now) && !sessions.some(s => overlaps(block, s));
+      const savedSuggestions = suggestions
+        .map(suggestion => ({ ...suggestion, blocks: suggestion.blocks.filter(isSaved) }))
+        .filter(suggestion => suggestion.blocks.length > 0);
+
+      const sessionsToInsert = toSessionRows(user.id, savedSuggestions);
+      if (sessionsToInsert.length > 0) {
+        const { error } = await supabase
+          .from('study_sessions')
+          .insert(sessionsToInsert);
+
+        if (error) throw error;
+      }
+
+      await fetchSessions();
+      return savedSuggestions;
+    } catch (error) {
+      console.error('Error adding carried-over study blocks:', error);
+      toast.error('Erro ao reagendar blocos perdidos');
+      return null;
+    }
+  };
+
+  /**
+   * Save the blocks of an exam preparation as sessions of the plan. Future planned
+   * sessions of the regular plan in the same time are replaced; blocks overlapping
+   * any other session are dropped. As in regeneratePlan, the new sessions are
+   * inserted before the replaced ones are deleted.
+   */
+  const saveExamPrepSessions = async (planId: string, suggestions: StudySuggestion[]): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const now = new Date();
+      const blocks = suggestions.flatMap(suggestion => suggestion.blocks.map(block => ({
+        block,
+        freeSlotId: suggestion.freeSlot.recurrence_parent_id ?? suggestion.freeSlot.id
+      })));
+
+      const replaced = sessions.filter(s =>
+        !s.exam_prep_plan_id && isReplaceable(s, now) && blocks.some(({ block }) => overlaps(block, s))
+      );
+      const keptSessions = sessions.filter(s => !replaced.includes(s));
+
+      const sessionsToInsert = blocks
+        .filter(({ block }) => isAfter(block.startTime, now))
+        .filter(({ block }) => !keptSessions.some(s => overlaps(block, s)))
+        .map(({ block, freeSlotId }) => ({
+          user_id: user.id,
+          subject_id: block.subject.id,
+          free_slot_id: freeSlotId,
+          start_datetime: block.startTime.toISOString(),
+          end_datetime: block.endTime.toISOString(),
+          is_break: block.isBreak,
+          exam_prep_plan_id: planId,
+          prep_topic: block.prepTopic ?? null
+        }));
+
+      if (sessionsToInsert.length > 0) {
+        const { error: insertError } = await supabase
+          .from('study_sessions')
+          .insert(sessionsToInsert);
+
+        if (insertError) throw insertError;
+      }
+
+      if (replaced.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('study_sessions')
+          .delete()
+          .in('id', replaced.map(s => s.id));
+
+        if (deleteError) throw deleteError;
+      }
+
+      await fetchSessions();
+      return true;
+    } catch (error) {
+      console.error('Error saving exam preparation sessions:', error);
+      toast.error('Erro ao salvar sessões da preparação');
+      return false;
+    }
+  };
+
+  // Remove the sessions of an exam preparation that have not happened yet
+  const removeExamPrepSessions = async (planId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('study_sessions')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('exam_prep_plan_id', planId)
+        .eq('status', 'planned')
+        .gt('start_datetime', new Date().toISOString());
+
+      if (error) throw error;
+
+      await fetchSessions();
+      return true;
+    } catch (error) {
+      console.error('Error removing exam preparation sessions:', error);
+      toast.error('Erro ao cancelar sessões da preparação');
+      return false;
+    }
+  };
+
+  const updateSessionStatus = async (id: string, status: StudySessionStatus): Promise<boolean> => {
+    if (!user) return false;
+
+    try {
+      const { error } = await supabase
+        .from('study_sessions')
+        .update({ status })
+        .eq('id', id)
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+
+      await fetchSessions();
+      return true;
+    } catch (error) {
+      console.error('Error updating study session:', error);
+      toast.error('Erro ao atualizar sessão de estudo');
+      return false;
+    }
+  };
+
+  /**
+   * Mark planned study blocks that ended without being started as missed.
+   * Returns the refreshed sessions when any block was marked, or null.
+   */
+  const markMissedSessions = async (): Promise<StudySession[] | null> => {
+    if (!user) return null;
+
+    try {
+      const { data, error } = await supabase
+        .from('study_sessions')
+        .update({ status: 'missed' })
+        .eq('user_id', user.id)
+        .eq('status', 'planned')
+        .eq('is_break', false)
+        .lt('end_datetime', new Date().toISOString())
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) return null;
+
+      return await fetchSessions();
+    } catch (error) {
+      console.error('Error marking missed study sessions:', error);
+      return null;
+    }
+  };
+
+  // Map persisted sessions to blocks the calendar views can render
+  const getStudyBlocks = useCallback((subjects: Subject[], reviewItems: ReviewItem[] = []): StudyBlock[] => {
+    return sessions.flatMap(session => {
+      const subject = subjects.find(s => s.id === session.subject_id);
+      if (!subject) return [];
+
+      const reviewItem = session.review_item_id
+        ? reviewItems.find(item => item.id === session.review_item_id)
+        : undefined;
+
+      return [{
+        id: session.id,
+        subject,
+        startTime: parseISO(session.start_datetime),
+        endTime: parseISO(session.end_datetime),
+        isBreak: session.is_break,
+        freeSlotId: session.free_slot_id,
+        sessionId: session.id,
+        status: session.status,
+        reviewItemId: session.review_item_id,
+        reviewTopic: reviewItem?.topic,
+        carriedFromSessionId: session.carried_from_session_id,
+        trace: session.decision_trace,
+        examPrepPlanId: session.exam_prep_plan_id,
+        prepTopic: session.prep_topic
+      }];
+    });
+  }, [sessions]);
+
+  return {
+    sessions,
+    loading,
+    regenerating,
+    regeneratePlan,
+    addCarriedBlocks,
+    updateSessionStatus,
+    markMissedSessions,
+    getMissedBlocks: (sessionList: StudySession[] = sessions) => getMissedBlocks(sessionList),
+    getStudyBlocks,
+    saveExamPrepSessions,
+    removeExamPrepSessions,
+    refetch: fetchSessions
+  };
+};
+
+const StudySessionsContext = createContext<ReturnType<typeof useStudySessionsState> | undefined>(undefined);
+
+// One copy of the plan for the whole app, shared by the pages and the session runner
+export function StudySessionsProvider({ children }: { children: ReactNode }) {
+  const value = useStudySessionsState();
+  return <StudySessionsContext.Provider value={value}>{children}</StudySessionsContext.Provider>;
+}
+
+export function useStudySessions() {
+  const context = useContext(StudySessionsContext);
+  if (context === undefined) {
+    throw new Error('useStudySessions must be used within a StudySessionsProvider');
+  }
+  return context;
+}
@@ -1,328 +1,280 @@
 import { useState, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { addDays, addMinutes } from 'date-fns';
+import { useStudyPreferences } from '@/hooks/useStudyPreferences';
+import { useProfile } from '@/hooks/useProfile';
 import { Subject } from '@/hooks/useSubjects';
 import { CalendarEvent } from '@/hooks/useCalendarEvents';
-import { toast } from 'sonner';
-import { differenceInDays, addMinutes, format, parseISO, isAfter, isBefore } from 'date-fns';
-
-const STUDY_BLOCK_MINUTES = 50;
-const BREAK_MINUTES = 10;
-const DELAY_BONUS = 2.0;
-
-// Thresholds for subject repetition in study slots
-const REPEAT_ONCE_THRESHOLD = 12;
-const REPEAT_TRIPLE_THRESHOLD = 15;
-
-export interface StudyDelay {
-  id: string;
-  user_id: string;
-  subject_id: string;
-  delayed_at: string;
-  expires_at: string;
-  created_at: string;
-}
-
-export interface SubjectPriority {
-  subject: Subject;
-  difficultyWeight: number;
-  dedicationWeight: number;
-  urgencyFactor: number;
-  delayBonus: number;
-  score: number;
-  nearestDeadline?: CalendarEvent;
-}
-
-export interface StudyBlock {
-  id: string;
-  subject: Subject;
-  startTime: Date;
-  endTime: Date;
-  isBreak: boolean;
-  freeSlotId?: string;
-}
-
-export interface StudySuggestion {
-  freeSlot: CalendarEvent;
-  blocks: StudyBlock[];
-  assignedSubject?: Subject; // Subject assigned to this slot
+import { toStudyGoals } from '@/hooks/useStudyGoals';
+import * as planner from '@/lib/planner';
+import {
+  StudyDelay,
+  SubjectPriority,
+  StudySuggestion,
+  ReviewItem,
+  MissedBlock,
+  StudySessionLog,
+  SubjectStudyTime,
+  SubjectGoalProgress,
+  DELAY_HISTORY_DAYS,
+  PLANNING_HORIZON_DAYS,
+  STUDY_TIME_HISTORY_DAYS
+} from '@/lib/planner';
+import { StudySession, StudySessionStatus } from '@/hooks/useStudySessions';
+
+export type {
+  StudyDelay,
+  SubjectPriority,
+  StudyBlock,
+  StudySuggestion,
+  StudyPlan,
+  ConstraintViolation,
+  DeadlineCommitment,
+  WeekForecast,
+  SubjectDelayPattern,
+  UnreliableTime,
+  SubjectStudyTime,
+  SubjectGoalProgress
+} from '@/lib/planner';
+
+interface StudyHistory {
+  studyTime: SubjectStudyTime[];
+  goalProgress: SubjectGoalProgress[];
 }
 
+// Scheduling itself lives in '@/lib/planner'; this hook binds it to the user's
+// study preferences and time zone and adds the delay log, the actual study
+// time and the weekly goals stored in Supabase
 export const useStudySuggestions = () => {
   const { user } = useAuth();
+  const { plannerConfig, loading: preferencesLoading } = useStudyPreferences();
+  const { timeZone, loading: profileLoading } = useProfile();
   const [delays, setDelays] = useState<StudyDelay[]>([]);
+  const [studyTime, setStudyTime] = useState<SubjectStudyTime[]>([]);
+  const [goalProgress, setGoalProgress] = useState<SubjectGoalProgress[]>([]);
   const [loading, setLoading] = useState(false);
 
-  // Fetch active delays (not expired)
-  const fetchDelays = useCallback(async () => {
-    if (!user) return;
+  const calculateSubjectPriorities = useCallback((
+    subjects: Subject[],
+    deadlines: CalendarEvent[],
+    activeDelays: StudyDelay[],
+    reviewItems: ReviewItem[] = []
+  ) => planner.calculateSubjectPriorities(subjects, deadlines, activeDelays, { config: plannerConfig, reviewItems, studyTime, goalProgress }), [plannerConfig, studyTime, goalProgress]);
+
+  const distributeSubjectsToSlots = useCallback((
+    priorities: SubjectPriority[],
+    numSlots: number
+  ) => planner.distributeSubjectsToSlots(priorities, numSlots, plannerConfig), [plannerConfig]);
+
+  const generateSuggestions = useCallback((
+    subjects: Subject[],
+    freeSlots: CalendarEvent[],
+    deadlines: CalendarEvent[],
+    activeDelays: StudyDelay[],
+    periodEnd?: string | null,
+    reviewItems: ReviewItem[] = [],
+    missedBlocks: MissedBlock[] = [],
+    carriedTimes: { start: Date; end: Date }[] = []
+  ) => planner.generateSuggestions(subjects, freeSlots, deadlines, activeDelays, {
+    config: plannerConfig,
+    periodEnd,
+    reviewItems,
+    missedBlocks,
+    carriedTimes,
+    studyTime,
+    goalProgress,
+    timeZone
+  }), [plannerConfig, studyTime, goalProgress, timeZone]);
+
+  // Suggestions plus the study the hard constraints kept off the plan
+  const generateStudyPlan = useCallback((
+    subjects: Subject[],
+    freeSlots: CalendarEvent[],
+    deadlines: CalendarEvent[],
+    activeDelays: StudyDelay[],
+    periodEnd?: string | null,
+    reviewItems: ReviewItem[] = []
+  ) => planner.generateStudyPlan(subjects, freeSlots, deadlines, activeDelays, {
+    config: plannerConfig,
+    periodEnd,
+    reviewItems,
+    studyTime,
+    goalProgress,
+    timeZone
+  }), [plannerConfig, studyTime, goalProgress, timeZone]);
+
+  // Study time reserved for deadlines with an estimated effort, including shortfalls
+  const getDeadlineCommitments = useCallback((
+    subjects: Subject[],
+    freeSlots: CalendarEvent[],
+    deadlines: CalendarEvent[],
+    activeDelays: StudyDelay[],
+    periodEnd?: string | null,
+    reviewItems: ReviewItem[] = []
+  ) => {
+    const priorities = planner.calculateSubjectPriorities(subjects, deadlines, activeDelays, { config: plannerConfig, reviewItems, studyTime, goalProgress });
+    return planner.planDeadlineCommitments(priorities, freeSlots, deadlines, {
+      config: plannerConfig,
+      periodEnd,
+      reviewItems,
+      timeZone
+    }).commitments;
+  }, [plannerConfig, studyTime, goalProgress, timeZone]);
+
+  // Weekly study time needed versus free study time, with front-loading hints
+  const getWorkloadForecast = useCallback((
+    subjects: Subject[],
+    freeSlots: CalendarEvent[],
+    deadlines: CalendarEvent[],
+    activeDelays: StudyDelay[],
+    reviewItems: ReviewItem[] = []
+  ) => {
+    const priorities = planner.calculateSubjectPriorities(subjects, deadlines, activeDelays, { config: plannerConfig, reviewItems, studyTime, goalProgress });
+    return planner.forecastWeeklyWorkload(priorities, freeSlots, deadlines, { config: plannerConfig, reviewItems, timeZone });
+  }, [plannerConfig, studyTime, goalProgress, timeZone]);
+
+  // Delay patterns per subject and the times study keeps being given up
+  const delayPatterns = useMemo(
+    () => planner.analyzeDelayHistory(delays, { config: plannerConfig }),
+    [delays, plannerConfig]
+  );
+  const unreliableTimes = useMemo(() => planner.findUnreliableTimes(delays), [delays]);
+
+  // Fetch the delay log of the last DELAY_HISTORY_DAYS, active delays included.
+  // Returns the log, or null when it could not be loaded
+  const fetchDelays = useCallback(async (): Promise<StudyDelay[] | null> => {
+    if (!user) return null;
 
     try {
       const { data, error } = await supabase
         .from('study_delays')
         .select('*')
         .eq('user_id', user.id)
-        .gte('expires_at', new Date().toISOString());
+        .gte('delayed_at', addDays(new Date(), -DELAY_HISTORY_DAYS).toISOString())
+        .order('delayed_at');
 
       if (error) throw error;
       setDelays(data || []);
+      return data || [];
     } catch (error) {
       console.error('Error fetching delays:', error);
+      return null;
     }
   }, [user]);
 
-  // Calculate urgency factor based on deadline proximity
-  // Enhanced: Higher urgency for last days before deadline
-  const calculateUrgencyFactor = (daysUntilDeadline: number): number => {
-    if (daysUntilDeadline < 0) return 2.0; // Past deadline - highest urgency
-    if (daysUntilDeadline <= 1) return 1.5; // Last day - very high
-    if (daysUntilDeadline <= 2) return 1.2; // Penultimate day - high
-    if (daysUntilDeadline < 4) return 1.0;
-    if (daysUntilDeadline <= 7) return 0.5;
-    return 0.0;
-  };
-
-  // Calculate priority score for each subject
-  const calculateSubjectPriorities = useCallback((
-    subjects: Subject[],
-    deadlines: CalendarEvent[],
-    activeDelays: StudyDelay[]
-  ): SubjectPriority[] => {
-    const now = new Date();
-
-    // Filter only active (non-finished) subjects with weights
-    return subjects
-      .filter(subject => 
-        subject.difficulty_weight && 
-        subject.dedication_weight &&
-        subject.status !== 'finalizada'
-      )
-      .map(subject => {
-        const D = subject.difficulty_weight || 3;
-        const B = subject.dedication_weight || 3;
-
-        // Find nearest deadline for this subject
-        const subjectDeadlines = deadlines
-          .filter(d => d.subject_id === subject.id)
-          .filter(d => isAfter(parseISO(d.start_datetime), now))
-          .sort((a, b) => 
-            new Date(a.start_datetime).getTime() - new Date(b.start_datetime).getTime()
-          );
-
-        const nearestDeadline = subjectDeadlines[0];
-        let urgencyFactor = 0;
+  // Compare the planned blocks of the last STUDY_TIME_HISTORY_DAYS with the time
+  // logged, and this week's logged time with the weekly goals. Returns both, or
+  // null when they could not be loaded
+  const fetchStudyTime = useCallback(async (): Promise<StudyHistory | null> => {
+    if (!user) return null;
 
-        if (nearestDeadline) {
-          const daysUntil = differenceInDays(parseISO(nearestDeadline.start_datetime), now);
-          urgencyFactor = calculateUrgencyFactor(daysUntil);
-        }
-
-        // Check for delay bonus
-        const hasDelay = activeDelays.some(
-          delay => delay.subject_id === subject.id && 
-                   isAfter(parseISO(delay.expires_at), now)
-        );
-        const delayBonus = hasDelay ? DELAY_BONUS : 0;
-
-        // P = (D + B) × (1 + U) + DelayBonus
-        const baseScore = (D + B) * (1 + urgencyFactor);
-        const score = baseScore + delayBonus;
-
-        return {
-          subject,
-          difficultyWeight: D,
-          dedicationWeight: B,
-          urgencyFactor,
-          delayBonus,
-          score,
-          nearestDeadline
-        };
-      })
-      .sort((a, b) => b.score - a.score);
-  }, []);
-
-  /**
-   * Distribute subjects across free study slots following these rules:
-   * 1. All subjects should appear at least once if there are enough slots
-   * 2. If slots < subjects: show top priority subjects
-   * 3. If slots > subjects: distribute all, then give extra to highest priority
-   * 4. Subject with score > 12: repeats once extra
-   * 5. Subject with score > 15: repeats 3 times extra
-   */
-  const distributeSubjectsToSlots = useCallback((
-    priorities: SubjectPriority[],
-    numSlots: number
-  ): SubjectPriority[] => {
-    if (priorities.length === 0 || numSlots === 0) return [];
-
-    const distribution: SubjectPriority[] = [];
-    
-    // Calculate how many slots each subject should get based on score
-    const getExtraSlots = (score: number): number => {
-      if (score >= REPEAT_TRIPLE_THRESHOLD) return 3;
-      if (score >= REPEAT_ONCE_THRESHOLD) return 1;
-      return 0;
-    };
-
-    // Build initial allocation with extras for high-score subjects
-    let allocation: SubjectPriority[] = [];
-    
-    for (const priority of priorities) {
-      // Base slot (everyone gets at least 1)
-      allocation.push(priority);
-      
-      // Extra slots based on score thresholds
-      const extras = getExtraSlots(priority.score);
-      for (let i = 0; i < extras; i++) {
-        allocation.push(priority);
-      }
-    }
-
-    // If we have more slots than allocated, cycle through priorities
-    if (numSlots > allocation.length) {
-      let idx = 0;
-      while (allocation.length < numSlots) {
-        allocation.push(priorities[idx % priorities.length]);
-        idx++;
-      }
-    }
-
-    // If we have fewer slots than allocated, take top priorities
-    if (numSlots < allocation.length) {
-      // Sort by score to prioritize high-scoring subjects
-      allocation.sort((a, b) => b.score - a.score);
-      allocation = allocation.slice(0, numSlots);
-    }
-
-    return allocation;
-  }, []);
-
-  // Generate study blocks for a single free slot with a specific subject
-  const generateStudyBlocksForSubject = useCallback((
-    freeSlot: CalendarEvent,
-    priority: SubjectPriority
-  ): StudyBlock[] => {
-    if (!freeSlot.end_datetime) return [];
-
-    const slotStart = parseISO(freeSlot.start_datetime);
-    const slotEnd = parseISO(freeSlot.end_datetime);
-    
-    const blocks: StudyBlock[] = [];
-    let currentTime = slotStart;
-
-    while (true) {
-      const remainingMinutes = Math.floor((slotEnd.getTime() - currentTime.getTime()) / 60000);
-      
-      if (remainingMinutes < 20) break;
-
-      const studyMinutes = Math.min(STUDY_BLOCK_MINUTES, remainingMinutes);
-      const studyEnd = addMinutes(currentTime, studyMinutes);
-
-      blocks.push({
-        id: `${freeSlot.id}-block-${blocks.length}`,
-        subject: priority.subject,
-        startTime: new Date(currentTime),
-        endTime: new Date(studyEnd),
-        isBreak: false,
-        freeSlotId: freeSlot.id
-      });
-
-      currentTime = studyEnd;
-
-      // Check if we can add a break
-      const afterBreakRemaining = Math.floor((slotEnd.getTime() - addMinutes(currentTime, BREAK_MINUTES).getTime()) / 60000);
-      
-      if (afterBreakRemaining >= 20) {
-        const breakEnd = addMinutes(currentTime, BREAK_MINUTES);
-        blocks.push({
-          id: `${freeSlot.id}-break-${blocks.length}`,
-          subject: priority.subject,
-          startTime: new Date(currentTime),
-          endTime: new Date(breakEnd),
-          isBreak: true,
-          freeSlotId: freeSlot.id
-        });
-        currentTime = breakEnd;
-      } else {
-        break;
-      }
+    try {
+      const since = addDays(new Date(), -STUDY_TIME_HISTORY_DAYS).toISOString();
+      const [logsResult, sessionsResult, goalsResult] = await Promise.all([
+        supabase
+          .from('study_session_logs')
+          .select('*')
+          .eq('user_id', user.id)
+          .gte('started_at', since),
+        supabase
+          .from('study_sessions')
+          .select('*')
+          .eq('user_id', user.id)
+          .gte('start_datetime', since),
+        supabase
+          .from('study_goals')
+          .select('*')
+          .eq('user_id', user.id)
+          .maybeSingle()
+      ]);
+
+      if (logsResult.error) throw logsResult.error;
+      if (sessionsResult.error) throw sessionsResult.error;
+      if (goalsResult.error) throw goalsResult.error;
+
+      const logs = (logsResult.data || []).map(log => ({
+        ...log,
+        status: log.status as StudySessionLog['status']
+      }));
+      const sessions: StudySession[] = (sessionsResult.data || []).map(session => ({
+        ...session,
+        status: session.status as StudySessionStatus,
+        decision_trace: undefined
+      }));
+      const goals = goalsResult.data && {
+        ...goalsResult.data,
+        subject_hours: goalsResult.data.subject_hours as Record<string, number>
+      };
+      const history = {
+        studyTime: planner.analyzeStudyTime(logs, sessions),
+        goalProgress: planner.analyzeWeeklyGoals(toStudyGoals(goals), logs, { timeZone }).subjects
+      };
+      setStudyTime(history.studyTime);
+      setGoalProgress(history.goalProgress);
+      return history;
+    } catch (error) {
+      console.error('Error fetching study time:', error);
+      return null;
     }
+  }, [user, timeZone]);
 
-    return blocks;
-  }, []);
-
-  // Generate all study suggestions with smart distribution
-  const generateSuggestions = useCallback((
+  // Carry missed blocks into the free slots the persisted plan leaves empty.
+  // Delays and study time are fetched first, so the placement never uses a
+  // stale history; null when they could not be loaded
+  const generateCarryOverSuggestions = useCallback(async (
     subjects: Subject[],
     freeSlots: CalendarEvent[],
     deadlines: CalendarEvent[],
-    activeDelays: StudyDelay[]
-  ): StudySuggestion[] => {
-    const now = new Date();
-    
-    // Filter future free slots only (excluding slots with manual subject assignment)
-    const futureFreeSlots = freeSlots
-      .filter(slot => isAfter(parseISO(slot.start_datetime), now))
-      .filter(slot => !slot.subject_id) // Only AI-assigned slots
-      .sort((a, b) => new Date(a.start_datetime).getTime() - new Date(b.start_datetime).getTime());
-
-    if (futureFreeSlots.length === 0 || subjects.length === 0) return [];
-
-    const priorities = calculateSubjectPriorities(subjects, deadlines, activeDelays);
-    
-    if (priorities.length === 0) return [];
-
-    // Distribute subjects across slots
-    const distribution = distributeSubjectsToSlots(priorities, futureFreeSlots.length);
-
-    // Generate suggestions for each slot
-    return futureFreeSlots.map((slot, index) => {
-      const assignedPriority = distribution[index];
-      return {
-        freeSlot: slot,
-        blocks: assignedPriority ? generateStudyBlocksForSubject(slot, assignedPriority) : [],
-        assignedSubject: assignedPriority?.subject
-      };
-    }).filter(s => s.blocks.length > 0);
-  }, [calculateSubjectPriorities, distributeSubjectsToSlots, generateStudyBlocksForSubject]);
-
-  // Mark a study as delayed
-  const markAsDelayed = async (subjectId: string): Promise<boolean> => {
+    planned: { start: Date; end: Date }[],
+    periodEnd: string | null | undefined,
+    reviewItems: ReviewItem[],
+    missedBlocks: MissedBlock[],
+    carriedTimes: { start: Date; end: Date }[]
+  ): Promise<StudySuggestion[] | null> => {
+    const [delayLog, history] = await Promise.all([fetchDelays(), fetchStudyTime()]);
+    if (!delayLog || !history) return null;
+
+    return planner.generateCarryOverSuggestions(subjects, freeSlots, deadlines, delayLog, planned, {
+      config: plannerConfig,
+      periodEnd,
+      reviewItems,
+      missedBlocks,
+      carriedTimes,
+      studyTime: history.studyTime,
+      goalProgress: history.goalProgress,
+      timeZone
+    });
+  }, [fetchDelays, fetchStudyTime, plannerConfig, timeZone]);
+
+  // Log a delay of a study block; repeated delays raise the bonus
+  const markAsDelayed = async (subjectId: string, scheduledFor?: Date, sessionId?: string): Promise<boolean> => {
     if (!user) return false;
 
     try {
       setLoading(true);
 
-      // Check if there's already an active delay for this subject
-      const existingDelay = delays.find(d => d.subject_id === subjectId);
-      
-      if (existingDelay) {
-        // Extend the delay
-        const { error } = await supabase
-          .from('study_delays')
-          .update({ 
-            delayed_at: new Date().toISOString(),
-            expires_at: addMinutes(new Date(), 24 * 60).toISOString()
-          })
-          .eq('id', existingDelay.id);
-
-        if (error) throw error;
-      } else {
-        // Create new delay
-        const { error } = await supabase
-          .from('study_delays')
-          .insert({
-            user_id: user.id,
-            subject_id: subjectId,
-            delayed_at: new Date().toISOString(),
-            expires_at: addMinutes(new Date(), 24 * 60).toISOString()
-          });
+      const { error } = await supabase
+        .from('study_delays')
+        .insert({
+          user_id: user.id,
+          subject_id: subjectId,
+          delayed_at: new Date().toISOString(),
+          expires_at: addMinutes(new Date(), 24 * 60).toISOString(),
+          scheduled_for: scheduledFor?.toISOString() ?? null,
+          study_session_id: sessionId ?? null
+        });
 
-        if (error) throw error;
-      }
+      if (error) throw error;
 
       await fetchDelays();
-      toast.success('Atraso registrado. A matéria terá prioridade extra nas próximas 24h.');
+      const previousDelays = delayPatterns.find(p => p.subjectId === subjectId)?.delayCount ?? 0;
+      toast.success(
+        previousDelays > 0
+          ? `Atraso registrado (${previousDelays + 1}º em ${DELAY_HISTORY_DAYS} dias). O bônus de prioridade aumentou.`
+          : 'Atraso registrado. A matéria terá prioridade extra nas próximas 24h.'
+      );
       return true;
     } catch (error) {
       console.error('Error marking delay:', error);
@@ -333,16 +285,18 @@ export const useStudySuggestions = () => {
     }
   };
 
-  // Clear delay for a subject
+  // End a subject's active delays early; the log keeps them
   const clearDelay = async (subjectId: string): Promise<boolean> => {
     if (!user) return false;
 
     try {
+      const now = new Date().toISOString();
       const { error } = await supabase
         .from('study_delays')
-        .delete()
+        .update({ expires_at: now })
         .eq('user_id', user.id)
-        .eq('subject_id', subjectId);
+        .eq('subject_id', subjectId)
+        .gt('expires_at', now);
 
       if (error) throw error;
 
@@ -356,16 +310,30 @@ export const useStudySuggestions = () => {
 
   return {
     delays,
+    delayPatterns,
+    unreliableTimes,
+    studyTime,
+    goalProgress,
     loading,
+    // Preferences and time zone the planner runs with are still loading
+    settingsLoading: preferencesLoading || profileLoading,
     fetchDelays,
+    fetchStudyTime,
     calculateSubjectPriorities,
     generateSuggestions,
+    generateStudyPlan,
+    generateCarryOverSuggestions,
+    getDeadlineCommitments,
+    getWorkloadForecast,
     distributeSubjectsToSlots,
     markAsDelayed,
     clearDelay,
-    STUDY_BLOCK_MINUTES,
-    BREAK_MINUTES,
-    REPEAT_ONCE_THRESHOLD,
-    REPEAT_TRIPLE_THRESHOLD
+    plannerConfig,
+    timeZone,
+    STUDY_BLOCK_MINUTES: plannerConfig.studyBlockMinutes,
+    BREAK_MINUTES: plannerConfig.breakMinutes,
+    REPEAT_ONCE_THRESHOLD: plannerConfig.repeatOnceThreshold,
+    REPEAT_TRIPLE_THRESHOLD: plannerConfig.repeatTripleThreshold,
+    PLANNING_HORIZON_DAYS
   };
 };
@@ -23,6 +23,8 @@ export interface Subject {
   class_group?: string;
   difficulty_weight?: number;
   dedication_weight?: number;
+  // Latest time of day (HH:mm) a study block of the subject may end
+  latest_study_time?: string;
   created_at: string;
   updated_at: string;
   schedules?: SubjectSchedule[];
@@ -37,6 +39,7 @@ export interface CreateSubjectData {
   class_group?: string;
   difficulty_weight?: number;
   dedication_weight?: number;
+  latest_study_time?: string | null;
   schedules?: Omit<SubjectSchedule, 'id' | 'subject_id'>[];
 }
 
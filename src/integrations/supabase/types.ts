@@ -14,11 +14,34 @@ export type Database = {
   }
   public: {
     Tables: {
+      achievements: {
+        Row: {
+          achievement_key: string
+          id: string
+          unlocked_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_key: string
+          id?: string
+          unlocked_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_key?: string
+          id?: string
+          unlocked_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       calendar_events: {
         Row: {
           created_at: string
+          deadline_kind: string | null
           description: string | null
           end_datetime: string | null
+          estimated_effort_hours: number | null
           event_type: string
           id: string
           is_recurring: boolean | null
@@ -33,8 +56,10 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          deadline_kind?: string | null
           description?: string | null
           end_datetime?: string | null
+          estimated_effort_hours?: number | null
           event_type: string
           id?: string
           is_recurring?: boolean | null
@@ -49,8 +74,10 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          deadline_kind?: string | null
           description?: string | null
           end_datetime?: string | null
+          estimated_effort_hours?: number | null
           event_type?: string
           id?: string
           is_recurring?: boolean | null
@@ -73,6 +100,54 @@ export type Database = {
           },
         ]
       }
+      exam_prep_plans: {
+        Row: {
+          created_at: string
+          deadline_id: string
+          id: string
+          status: string
+          subject_id: string
+          topics: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deadline_id: string
+          id?: string
+          status?: string
+          subject_id: string
+          topics?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deadline_id?: string
+          id?: string
+          status?: string
+          subject_id?: string
+          topics?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_prep_plans_deadline_id_fkey"
+            columns: ["deadline_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_prep_plans_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       login_attempts: {
         Row: {
           attempted_at: string
@@ -109,6 +184,7 @@ export type Database = {
           period_start: string | null
           phone: string | null
           semester: number | null
+          timezone: string | null
           updated_at: string
           user_id: string
         }
@@ -126,6 +202,7 @@ export type Database = {
           period_start?: string | null
           phone?: string | null
           semester?: number | null
+          timezone?: string | null
           updated_at?: string
           user_id: string
         }
@@ -143,9 +220,81 @@ export type Database = {
           period_start?: string | null
           phone?: string | null
           semester?: number | null
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      review_items: {
+        Row: {
+          created_at: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          last_reviewed_at: string | null
+          next_due_at: string
+          repetitions: number
+          subject_id: string
+          topic: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          next_due_at?: string
+          repetitions?: number
+          subject_id: string
+          topic: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          last_reviewed_at?: string | null
+          next_due_at?: string
+          repetitions?: number
+          subject_id?: string
+          topic?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "review_items_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      streak_freezes: {
+        Row: {
+          created_at: string
+          day: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          day: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          day?: string
+          id?: string
+          user_id?: string
+        }
         Relationships: []
       }
       study_delays: {
@@ -154,6 +303,8 @@ export type Database = {
           delayed_at: string
           expires_at: string
           id: string
+          scheduled_for: string | null
+          study_session_id: string | null
           subject_id: string
           user_id: string
         }
@@ -162,6 +313,8 @@ export type Database = {
           delayed_at?: string
           expires_at?: string
           id?: string
+          scheduled_for?: string | null
+          study_session_id?: string | null
           subject_id: string
           user_id: string
         }
@@ -170,10 +323,19 @@ export type Database = {
           delayed_at?: string
           expires_at?: string
           id?: string
+          scheduled_for?: string | null
+          study_session_id?: string | null
           subject_id?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "study_delays_study_session_id_fkey"
+            columns: ["study_session_id"]
+            isOneToOne: false
+            referencedRelation: "study_sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "study_delays_subject_id_fkey"
             columns: ["subject_id"]
@@ -183,6 +345,350 @@ export type Database = {
           },
         ]
       }
+      study_goals: {
+        Row: {
+          created_at: string
+          id: string
+          subject_hours: Json
+          updated_at: string
+          user_id: string
+          weekly_hours: number | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          subject_hours?: Json
+          updated_at?: string
+          user_id: string
+          weekly_hours?: number | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          subject_hours?: Json
+          updated_at?: string
+          user_id?: string
+          weekly_hours?: number | null
+        }
+        Relationships: []
+      }
+      study_plan_versions: {
+        Row: {
+          blocks: Json
+          created_at: string
+          id: string
+          restored_from_version_id: string | null
+          trigger: string
+          user_id: string
+        }
+        Insert: {
+          blocks?: Json
+          created_at?: string
+          id?: string
+          restored_from_version_id?: string | null
+          trigger: string
+          user_id: string
+        }
+        Update: {
+          blocks?: Json
+          created_at?: string
+          id?: string
+          restored_from_version_id?: string | null
+          trigger?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_plan_versions_restored_from_version_id_fkey"
+            columns: ["restored_from_version_id"]
+            isOneToOne: false
+            referencedRelation: "study_plan_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      study_preferences: {
+        Row: {
+          availability_end: string
+          availability_start: string
+          break_minutes: number
+          chronotype: string
+          created_at: string
+          dedication_coefficient: number
+          delay_bonus: number
+          difficulty_coefficient: number
+          energy_curve: Json | null
+          excluded_time_ranges: Json
+          free_slot_buffer_minutes: number
+          id: string
+          interleave_subjects: boolean
+          max_consecutive_blocks: number
+          max_daily_study_hours: number | null
+          max_subject_blocks_per_day: number | null
+          min_free_slot_minutes: number
+          repeat_once_threshold: number
+          repeat_triple_threshold: number
+          rest_days: number[]
+          study_block_minutes: number
+          updated_at: string
+          urgency_curve: string
+          urgency_horizon_days: number
+          user_id: string
+        }
+        Insert: {
+          availability_end?: string
+          availability_start?: string
+          break_minutes?: number
+          chronotype?: string
+          created_at?: string
+          dedication_coefficient?: number
+          delay_bonus?: number
+          difficulty_coefficient?: number
+          energy_curve?: Json | null
+          excluded_time_ranges?: Json
+          free_slot_buffer_minutes?: number
+          id?: string
+          interleave_subjects?: boolean
+          max_consecutive_blocks?: number
+          max_daily_study_hours?: number | null
+          max_subject_blocks_per_day?: number | null
+          min_free_slot_minutes?: number
+          repeat_once_threshold?: number
+          repeat_triple_threshold?: number
+          rest_days?: number[]
+          study_block_minutes?: number
+          updated_at?: string
+          urgency_curve?: string
+          urgency_horizon_days?: number
+          user_id: string
+        }
+        Update: {
+          availability_end?: string
+          availability_start?: string
+          break_minutes?: number
+          chronotype?: string
+          created_at?: string
+          dedication_coefficient?: number
+          delay_bonus?: number
+          difficulty_coefficient?: number
+          energy_curve?: Json | null
+          excluded_time_ranges?: Json
+          free_slot_buffer_minutes?: number
+          id?: string
+          interleave_subjects?: boolean
+          max_consecutive_blocks?: number
+          max_daily_study_hours?: number | null
+          max_subject_blocks_per_day?: number | null
+          min_free_slot_minutes?: number
+          repeat_once_threshold?: number
+          repeat_triple_threshold?: number
+          rest_days?: number[]
+          study_block_minutes?: number
+          updated_at?: string
+          urgency_curve?: string
+          urgency_horizon_days?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      study_reflections: {
+        Row: {
+          created_at: string
+          id: string
+          note: string | null
+          study_session_id: string | null
+          subject_id: string
+          topics: string[]
+          understanding: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          study_session_id?: string | null
+          subject_id: string
+          topics?: string[]
+          understanding: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          study_session_id?: string | null
+          subject_id?: string
+          topics?: string[]
+          understanding?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_reflections_study_session_id_fkey"
+            columns: ["study_session_id"]
+            isOneToOne: false
+            referencedRelation: "study_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_reflections_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      study_session_logs: {
+        Row: {
+          actual_minutes: number
+          created_at: string
+          ended_at: string | null
+          id: string
+          planned_minutes: number
+          resumed_at: string | null
+          started_at: string
+          status: string
+          study_session_id: string | null
+          subject_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          actual_minutes?: number
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          planned_minutes: number
+          resumed_at?: string | null
+          started_at?: string
+          status?: string
+          study_session_id?: string | null
+          subject_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          actual_minutes?: number
+          created_at?: string
+          ended_at?: string | null
+          id?: string
+          planned_minutes?: number
+          resumed_at?: string | null
+          started_at?: string
+          status?: string
+          study_session_id?: string | null
+          subject_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_session_logs_study_session_id_fkey"
+            columns: ["study_session_id"]
+            isOneToOne: false
+            referencedRelation: "study_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_session_logs_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      study_sessions: {
+        Row: {
+          carried_from_session_id: string | null
+          created_at: string
+          decision_trace: Json | null
+          end_datetime: string
+          exam_prep_plan_id: string | null
+          free_slot_id: string | null
+          id: string
+          is_break: boolean
+          prep_topic: string | null
+          review_item_id: string | null
+          start_datetime: string
+          status: string
+          subject_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          carried_from_session_id?: string | null
+          created_at?: string
+          decision_trace?: Json | null
+          end_datetime: string
+          exam_prep_plan_id?: string | null
+          free_slot_id?: string | null
+          id?: string
+          is_break?: boolean
+          prep_topic?: string | null
+          review_item_id?: string | null
+          start_datetime: string
+          status?: string
+          subject_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          carried_from_session_id?: string | null
+          created_at?: string
+          decision_trace?: Json | null
+          end_datetime?: string
+          exam_prep_plan_id?: string | null
+          free_slot_id?: string | null
+          id?: string
+          is_break?: boolean
+          prep_topic?: string | null
+          review_item_id?: string | null
+          start_datetime?: string
+          status?: string
+          subject_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "study_sessions_carried_from_session_id_fkey"
+            columns: ["carried_from_session_id"]
+            isOneToOne: false
+            referencedRelation: "study_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_sessions_exam_prep_plan_id_fkey"
+            columns: ["exam_prep_plan_id"]
+            isOneToOne: false
+            referencedRelation: "exam_prep_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_sessions_free_slot_id_fkey"
+            columns: ["free_slot_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_sessions_review_item_id_fkey"
+            columns: ["review_item_id"]
+            isOneToOne: false
+            referencedRelation: "review_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "study_sessions_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subject_schedules: {
         Row: {
           created_at: string
@@ -229,6 +735,7 @@ export type Database = {
           dedication_weight: number | null
           difficulty_weight: number | null
           id: string
+          latest_study_time: string | null
           name: string
           professor: string | null
           status: string | null
@@ -243,6 +750,7 @@ export type Database = {
           dedication_weight?: number | null
           difficulty_weight?: number | null
           id?: string
+          latest_study_time?: string | null
           name: string
           professor?: string | null
           status?: string | null
@@ -257,6 +765,7 @@ export type Database = {
           dedication_weight?: number | null
           difficulty_weight?: number | null
           id?: string
+          latest_study_time?: string | null
           name?: string
           professor?: string | null
           status?: string | null
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { getEarnedAchievements } from './achievements';
+
+describe('getEarnedAchievements', () => {
+  it('unlocks the milestones the stats reach', () => {
+    expect(getEarnedAchievements({
+      completedBlocks: 12,
+      totalMinutes: 11 * 60,
+      longestStreak: 7,
+      weeklyGoalMet: false
+    })).toEqual(['first_block', 'streak_3', 'streak_7', 'hours_10']);
+  });
+
+  it('earns nothing before the first block', () => {
+    expect(getEarnedAchievements({
+      completedBlocks: 0,
+      totalMinutes: 0,
+      longestStreak: 0,
+      weeklyGoalMet: false
+    })).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+export type AchievementKey =
+  | 'first_block'
+  | 'streak_3'
+  | 'streak_7'
+  | 'streak_30'
+  | 'hours_10'
+  | 'hours_50'
+  | 'hours_100'
+  | 'weekly_goal';
+
+export interface AchievementDefinition {
+  key: AchievementKey;
+  title: string;
+  description: string;
+}
+
+// Milestones in the order they are shown
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { key: 'first_block', title: 'Primeiro passo', description: 'Conclua seu primeiro bloco de estudo' },
+  { key: 'streak_3', title: 'Embalado', description: 'Estude 3 dias seguidos' },
+  { key: 'streak_7', title: 'Semana perfeita', description: 'Estude 7 dias seguidos' },
+  { key: 'streak_30', title: 'Imparável', description: 'Estude 30 dias seguidos' },
+  { key: 'hours_10', title: '10 horas', description: 'Acumule 10 horas de estudo' },
+  { key: 'hours_50', title: '50 horas', description: 'Acumule 50 horas de estudo' },
+  { key: 'hours_100', title: '100 horas', description: 'Acumule 100 horas de estudo' },
+  { key: 'weekly_goal', title: 'Meta batida', description: 'Cumpra sua meta semanal de horas' }
+];
+
+export interface AchievementStats {
+  completedBlocks: number;
+  totalMinutes: number;
+  longestStreak: number;
+  weeklyGoalMet: boolean;
+}
+
+// Achievements the stats qualify for, unlocked before or not
+export const getEarnedAchievements = ({
+  completedBlocks,
+  totalMinutes,
+  longestStreak,
+  weeklyGoalMet
+}: AchievementStats): AchievementKey[] => {
+  const earned: Record<AchievementKey, boolean> = {
+    first_block: completedBlocks > 0,
+    streak_3: longestStreak >= 3,
+    streak_7: longestStreak >= 7,
+    streak_30: longestStreak >= 30,
+    hours_10: totalMinutes >= 10 * 60,
+    hours_50: totalMinutes >= 50 * 60,
+    hours_100: totalMinutes >= 100 * 60,
+    weekly_goal: weeklyGoalMet
+  };
+  return ACHIEVEMENTS.map(({ key }) => key).filter(key => earned[key]);
+};
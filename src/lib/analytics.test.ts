@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { addMinutes, parseISO } from 'date-fns';
+import {
+  getDeadlineRecord,
+  getPresetRange,
+  getPriorityTrend,
+  getRangeWeeks,
+  getTimeOfDayHeatmap,
+  getWeeklyAdherence,
+  getWeeklySubjectHours
+} from './analytics';
+import { makeEvent } from './planner/testUtils';
+import type { DecisionTrace, StudySessionLog } from './planner';
+import type { StudySession } from '@/hooks/useStudySessions';
+
+const timeZone = 'America/Sao_Paulo';
+const options = { timeZone, now: parseISO('2025-03-14T12:00:00-03:00') };
+// Monday 3 to Sunday 16 March 2025
+const range = { from: '2025-03-03', to: '2025-03-16' };
+
+const makeTrace = (scores: Record<string, number>): DecisionTrace => ({
+  reason: 'priority',
+  chosenSubjectId: Object.keys(scores)[0],
+  candidates: Object.entries(scores).map(([subjectId, score]) => ({
+    subjectId,
+    subjectName: subjectId,
+    score,
+    difficultyWeight: 3,
+    dedicationWeight: 3,
+    urgencyFactor: 0,
+    delayBonus: 0,
+    reviewBonus: 0,
+    extraSlots: 0
+  })),
+  interleaved: false,
+  repeatOnceThreshold: 10,
+  repeatTripleThreshold: 15,
+  delayed: false
+});
+
+let nextId = 0;
+const makeSession = (subjectId: string, start: string, overrides: Partial<StudySession> = {}): StudySession => ({
+  id: `session-${++nextId}`,
+  user_id: 'user-1',
+  subject_id: subjectId,
+  start_datetime: parseISO(start).toISOString(),
+  end_datetime: addMinutes(parseISO(start), 50).toISOString(),
+  is_break: false,
+  status: 'completed',
+  created_at: start,
+  updated_at: start,
+  ...overrides
+});
+
+const makeLog = (subjectId: string, start: string, minutes: number): StudySessionLog => ({
+  id: `log-${++nextId}`,
+  user_id: 'user-1',
+  subject_id: subjectId,
+  status: 'completed',
+  started_at: parseISO(start).toISOString(),
+  ended_at: addMinutes(parseISO(start), minutes).toISOString(),
+  actual_minutes: minutes,
+  planned_minutes: 50,
+  created_at: start,
+  updated_at: start
+});
+
+const sessions = [
+  makeSession('calc', '2025-03-04T09:30:00-03:00', { decision_trace: makeTrace({ calc: 8, hist: 6 }) }),
+  makeSession('calc', '2025-03-05T14:00:00-03:00', { status: 'missed', decision_trace: makeTrace({ calc: 9, hist: 6 }) }),
+  makeSession('calc', '2025-03-05T14:50:00-03:00', { is_break: true }),
+  makeSession('hist', '2025-03-11T20:00:00-03:00', { decision_trace: makeTrace({ hist: 7, calc: 5 }) }),
+  makeSession('calc', '2025-03-15T10:00:00-03:00', { status: 'planned' })
+];
+
+const logs = [
+  makeLog('calc', '2025-03-02T10:00:00-03:00', 30),
+  makeLog('calc', '2025-03-04T09:30:00-03:00', 60),
+  makeLog('hist', '2025-03-11T20:00:00-03:00', 50)
+];
+
+describe('getPresetRange', () => {
+  it('ends presets today and starts the semester at the period start', () => {
+    expect(getPresetRange('4w', '2025-03-14')).toEqual({ from: '2025-02-15', to: '2025-03-14' });
+    expect(getPresetRange('semester', '2025-03-14', '2025-02-10')).toEqual({ from: '2025-02-10', to: '2025-03-14' });
+    expect(getPresetRange('semester', '2025-03-14', null)).toEqual({ from: '2025-02-15', to: '2025-03-14' });
+  });
+});
+
+describe('getRangeWeeks', () => {
+  it('lists the Monday of every week the range touches', () => {
+    expect(getRangeWeeks({ from: '2025-03-05', to: '2025-03-17' })).toEqual(['2025-03-03', '2025-03-10', '2025-03-17']);
+  });
+});
+
+describe('getWeeklySubjectHours', () => {
+  it('adds up logged hours per subject and week inside the range', () => {
+    expect(getWeeklySubjectHours(logs, range, options)).toEqual([
+      { week: '2025-03-03', hours: { calc: 1 }, total: 1 },
+      { week: '2025-03-10', hours: { hist: 0.8 }, total: 0.8 }
+    ]);
+  });
+});
+
+describe('getWeeklyAdherence', () => {
+  it('compares passed study blocks with the time logged', () => {
+    expect(getWeeklyAdherence(sessions, logs, range, options)).toEqual([
+      { week: '2025-03-03', plannedMinutes: 100, actualMinutes: 60, rate: 0.6, passedBlocks: 2, completedBlocks: 1 },
+      { week: '2025-03-10', plannedMinutes: 50, actualMinutes: 50, rate: 1, passedBlocks: 1, completedBlocks: 1 }
+    ]);
+  });
+});
+
+describe('getTimeOfDayHeatmap', () => {
+  it('spreads each session over the local hours it covered', () => {
+    const grid = getTimeOfDayHeatmap(logs, range, options);
+
+    expect(grid[2][9]).toBe(30);
+    expect(grid[2][10]).toBe(30);
+    expect(grid[2][20]).toBe(50);
+    expect(grid[0][10]).toBe(0);
+  });
+});
+
+describe('getDeadlineRecord', () => {
+  it('checks the study before each past deadline against its target', () => {
+    const deadlines = [
+      makeEvent({ id: 'p1', event_type: 'deadline', subject_id: 'calc', start_datetime: '2025-03-07T13:00:00.000Z', estimated_effort_hours: 2 }),
+      makeEvent({ id: 'p2', event_type: 'deadline', subject_id: 'hist', start_datetime: '2025-03-12T11:00:00.000Z' }),
+      makeEvent({ id: 'p3', event_type: 'deadline', subject_id: 'fis', start_datetime: '2025-03-13T11:00:00.000Z' }),
+      makeEvent({ id: 'future', event_type: 'deadline', subject_id: 'calc', start_datetime: '2025-03-15T11:00:00.000Z' })
+    ];
+
+    const record = getDeadlineRecord(deadlines, sessions, logs, range, 7, options);
+
+    expect(record.map(r => [r.deadline.id, r.targetMinutes, r.studiedMinutes, r.outcome])).toEqual([
+      ['p1', 120, 90, 'miss'],
+      ['p2', 50, 50, 'hit'],
+      ['p3', 0, 0, 'no_target']
+    ]);
+  });
+});
+
+describe('getPriorityTrend', () => {
+  it('averages the traced scores of each subject per week', () => {
+    expect(getPriorityTrend(sessions, range, options)).toEqual([
+      { week: '2025-03-03', scores: { calc: 8.5, hist: 6 } },
+      { week: '2025-03-10', scores: { hist: 7, calc: 5 } }
+    ]);
+  });
+});
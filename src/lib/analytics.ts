@@ -0,0 +1,253 @@
+import { addDays, addMinutes, isAfter, isBefore, parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { StudySession } from '@/hooks/useStudySessions';
+import { getLoggedMinutes, StudySessionLog } from '@/lib/planner';
+import { addCalendarDays, getCalendarWeekday, getWallTime, getWeekStart, getZonedDay } from '@/lib/timezone';
+
+// Inclusive range of 'yyyy-MM-dd' days in the user's time zone
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+export type AnalyticsPreset = '4w' | '12w' | 'semester' | 'custom';
+
+export interface AnalyticsOptions {
+  timeZone: string;
+  now?: Date;
+}
+
+export interface WeeklySubjectHours {
+  // Monday of the week
+  week: string;
+  hours: Record<string, number>;
+  total: number;
+}
+
+export interface WeeklyAdherence {
+  week: string;
+  plannedMinutes: number;
+  actualMinutes: number;
+  // Actual over planned minutes; null when nothing was planned
+  rate: number | null;
+  passedBlocks: number;
+  completedBlocks: number;
+}
+
+export type DeadlineOutcome = 'hit' | 'miss' | 'no_target';
+
+export interface DeadlineRecord {
+  deadline: CalendarEvent;
+  // Estimated effort, or the study planned for the subject before the deadline
+  targetMinutes: number;
+  studiedMinutes: number;
+  outcome: DeadlineOutcome;
+}
+
+export interface WeeklyPriority {
+  week: string;
+  scores: Record<string, number>;
+}
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const minutesBetween = (start: string, end: string) =>
+  (parseISO(end).getTime() - parseISO(start).getTime()) / 60000;
+
+const isInRange = (day: string, range: AnalyticsRange) => day >= range.from && day <= range.to;
+
+// Range of a preset ending today; the semester runs from the profile's period start
+export const getPresetRange = (
+  preset: Exclude<AnalyticsPreset, 'custom'>,
+  today: string,
+  periodStart?: string | null
+): AnalyticsRange => {
+  if (preset === 'semester' && periodStart && periodStart <= today) return { from: periodStart, to: today };
+  return { from: addCalendarDays(today, preset === '12w' ? -83 : -27), to: today };
+};
+
+// Mondays of every week the range touches, in order
+export const getRangeWeeks = (range: AnalyticsRange): string[] => {
+  const weeks: string[] = [];
+  for (let week = getWeekStart(range.from); week <= range.to; week = addCalendarDays(week, 7)) {
+    weeks.push(week);
+  }
+  return weeks;
+};
+
+const weekOf = (iso: string, timeZone: string) => getWeekStart(getZonedDay(parseISO(iso), timeZone));
+
+const logsInRange = (logs: StudySessionLog[], range: AnalyticsRange, timeZone: string) =>
+  logs.filter(log => isInRange(getZonedDay(parseISO(log.started_at), timeZone), range));
+
+// Study blocks of the range that already ended, whatever happened to them
+const passedBlocksInRange = (sessions: StudySession[], range: AnalyticsRange, timeZone: string, now: Date) =>
+  sessions.filter(session =>
+    !session.is_break &&
+    !isAfter(parseISO(session.end_datetime), now) &&
+    isInRange(getZonedDay(parseISO(session.start_datetime), timeZone), range)
+  );
+
+// Logged hours per subject, week by week
+export const getWeeklySubjectHours = (
+  logs: StudySessionLog[],
+  range: AnalyticsRange,
+  { timeZone, now = new Date() }: AnalyticsOptions
+): WeeklySubjectHours[] => {
+  const weeks = new Map(getRangeWeeks(range).map(week => [week, {} as Record<string, number>]));
+
+  logsInRange(logs, range, timeZone).forEach(log => {
+    const hours = weeks.get(weekOf(log.started_at, timeZone));
+    if (!hours) return;
+    hours[log.subject_id] = (hours[log.subject_id] ?? 0) + getLoggedMinutes(log, now) / 60;
+  });
+
+  return [...weeks.entries()].map(([week, hours]) => {
+    const rounded = Object.fromEntries(Object.entries(hours).map(([id, value]) => [id, roundTo(value, 1)]));
+    return {
+      week,
+      hours: rounded,
+      total: roundTo(Object.values(hours).reduce((sum, value) => sum + value, 0), 1)
+    };
+  });
+};
+
+// Planned versus logged minutes and completed blocks, week by week
+export const getWeeklyAdherence = (
+  sessions: StudySession[],
+  logs: StudySessionLog[],
+  range: AnalyticsRange,
+  { timeZone, now = new Date() }: AnalyticsOptions
+): WeeklyAdherence[] => {
+  const weeks = new Map(getRangeWeeks(range).map(week => [
+    week,
+    { plannedMinutes: 0, actualMinutes: 0, passedBlocks: 0, completedBlocks: 0 }
+  ]));
+
+  passedBlocksInRange(sessions, range, timeZone, now).forEach(session => {
+    const entry = weeks.get(weekOf(session.start_datetime, timeZone));
+    if (!entry) return;
+    entry.plannedMinutes += minutesBetween(session.start_datetime, session.end_datetime);
+    entry.passedBlocks++;
+    if (session.status === 'completed') entry.completedBlocks++;
+  });
+
+  logsInRange(logs, range, timeZone).forEach(log => {
+    const entry = weeks.get(weekOf(log.started_at, timeZone));
+    if (entry) entry.actualMinutes += getLoggedMinutes(log, now);
+  });
+
+  return [...weeks.entries()].map(([week, entry]) => ({
+    week,
+    ...entry,
+    plannedMinutes: Math.round(entry.plannedMinutes),
+    actualMinutes: Math.round(entry.actualMinutes),
+    rate: entry.plannedMinutes > 0 ? roundTo(entry.actualMinutes / entry.plannedMinutes, 2) : null
+  }));
+};
+
+/**
+ * Logged minutes by weekday (0 = Sunday) and hour of the day. A session's
+ * minutes are laid out from its start, so pauses push them later rather than
+ * being counted as study.
+ */
+export const getTimeOfDayHeatmap = (
+  logs: StudySessionLog[],
+  range: AnalyticsRange,
+  { timeZone, now = new Date() }: AnalyticsOptions
+): number[][] => {
+  const grid = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+
+  logsInRange(logs, range, timeZone).forEach(log => {
+    let cursor = parseISO(log.started_at);
+    let remaining = getLoggedMinutes(log, now);
+
+    while (remaining > 0) {
+      const { hour, minute } = getWallTime(cursor, timeZone);
+      const taken = Math.min(remaining, 60 - minute);
+      grid[getCalendarWeekday(getZonedDay(cursor, timeZone))][hour] += taken;
+      cursor = addMinutes(cursor, taken);
+      remaining -= taken;
+    }
+  });
+
+  return grid.map(row => row.map(minutes => Math.round(minutes)));
+};
+
+/**
+ * Whether the study before each past deadline of the range met its target. The
+ * target is the estimated effort, or else the study planned for the subject in
+ * the `prepDays` before the deadline; without either there is nothing to hit.
+ */
+export const getDeadlineRecord = (
+  deadlines: CalendarEvent[],
+  sessions: StudySession[],
+  logs: StudySessionLog[],
+  range: AnalyticsRange,
+  prepDays: number,
+  { timeZone, now = new Date() }: AnalyticsOptions
+): DeadlineRecord[] => deadlines
+  .filter(deadline => deadline.subject_id && !isAfter(parseISO(deadline.start_datetime), now))
+  .filter(deadline => isInRange(getZonedDay(parseISO(deadline.start_datetime), timeZone), range))
+  .sort((a, b) => a.start_datetime.localeCompare(b.start_datetime))
+  .map(deadline => {
+    const end = parseISO(deadline.start_datetime);
+    const start = addDays(end, -prepDays);
+    const isBeforeDeadline = (iso: string) => {
+      const date = parseISO(iso);
+      return !isBefore(date, start) && isBefore(date, end);
+    };
+
+    const plannedMinutes = sessions
+      .filter(s => !s.is_break && s.subject_id === deadline.subject_id && isBeforeDeadline(s.start_datetime))
+      .reduce((total, s) => total + minutesBetween(s.start_datetime, s.end_datetime), 0);
+    const studiedMinutes = logs
+      .filter(log => log.subject_id === deadline.subject_id && isBeforeDeadline(log.started_at))
+      .reduce((total, log) => total + getLoggedMinutes(log, end), 0);
+    const targetMinutes = deadline.estimated_effort_hours
+      ? Number(deadline.estimated_effort_hours) * 60
+      : plannedMinutes;
+
+    return {
+      deadline,
+      targetMinutes: Math.round(targetMinutes),
+      studiedMinutes: Math.round(studiedMinutes),
+      outcome: targetMinutes === 0 ? 'no_target' : studiedMinutes >= targetMinutes ? 'hit' : 'miss'
+    };
+  });
+
+// Average priority score of each subject week by week, from the decision
+// traces of the blocks planned in the range
+export const getPriorityTrend = (
+  sessions: StudySession[],
+  range: AnalyticsRange,
+  { timeZone }: AnalyticsOptions
+): WeeklyPriority[] => {
+  const weeks = new Map(getRangeWeeks(range).map(week => [
+    week,
+    new Map<string, { sum: number; count: number }>()
+  ]));
+
+  sessions
+    .filter(session => session.decision_trace)
+    .filter(session => isInRange(getZonedDay(parseISO(session.start_datetime), timeZone), range))
+    .forEach(session => {
+      const scores = weeks.get(weekOf(session.start_datetime, timeZone));
+      session.decision_trace?.candidates.forEach(candidate => {
+        const entry = scores?.get(candidate.subjectId) ?? { sum: 0, count: 0 };
+        entry.sum += candidate.score;
+        entry.count++;
+        scores?.set(candidate.subjectId, entry);
+      });
+    });
+
+  return [...weeks.entries()].map(([week, scores]) => ({
+    week,
+    scores: Object.fromEntries(
+      [...scores.entries()].map(([subjectId, { sum, count }]) => [subjectId, roundTo(sum / count, 1)])
+    )
+  }));
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { detectFreeTime, groupFreeTimeCandidates, toFreeStudyEvent, AvailabilitySettings } from './availability';
+import { makeEvent, makeSubject } from './planner/testUtils';
+
+const settings: AvailabilitySettings = {
+  windowStart: '08:00',
+  windowEnd: '22:30',
+  excludedRanges: [{ start: '12:00', end: '13:00' }],
+  minSlotMinutes: 60,
+  bufferMinutes: 15
+};
+
+const describeDay = (candidates: ReturnType<typeof detectFreeTime>, dayOfWeek: number) =>
+  candidates.filter(c => c.dayOfWeek === dayOfWeek).map(c => `${c.start}-${c.end}`);
+
+describe('detectFreeTime', () => {
+  it('splits the availability window around classes, lunch and buffers', () => {
+    const subject = makeSubject({
+      schedules: [{ day_of_week: 1, start_time: '08:00:00', end_time: '10:00:00' }]
+    });
+
+    const candidates = detectFreeTime([subject], [], settings);
+
+    expect(describeDay(candidates, 1)).toEqual(['10:15-12:00', '13:00-22:30']);
+    expect(describeDay(candidates, 2)).toEqual(['08:00-12:00', '13:00-22:30']);
+  });
+
+  it('respects recurring commitments, existing free slots and the minimum length', () => {
+    const work = makeEvent({
+      event_type: 'occupied',
+      start_datetime: new Date(2025, 2, 10, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 10, 18, 0).toISOString(),
+      is_recurring: true,
+      recurrence_days: [1, 3]
+    });
+    const existing = makeEvent({
+      event_type: 'free_study',
+      start_datetime: new Date(2025, 2, 10, 19, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 10, 21, 0).toISOString(),
+      is_recurring: true,
+      recurrence_days: [1]
+    });
+    const oneOff = makeEvent({ event_type: 'occupied' });
+
+    const candidates = detectFreeTime([], [work, existing, oneOff], settings);
+
+    // 13:00-13:45 and 18:15-19:00 are shorter than an hour
+    expect(describeDay(candidates, 1)).toEqual(['08:00-12:00', '21:00-22:30']);
+    expect(describeDay(candidates, 3)).toEqual(['08:00-12:00', '18:15-22:30']);
+  });
+});
+
+describe('groupFreeTimeCandidates', () => {
+  it('merges equal time ranges into one weekly slot', () => {
+    const groups = groupFreeTimeCandidates(detectFreeTime([], [], settings));
+
+    expect(groups.map(g => [g.start, g.end, g.days.length])).toEqual([
+      ['08:00', '12:00', 7],
+      ['13:00', '22:30', 7]
+    ]);
+  });
+
+  it('anchors the recurring event on the next matching weekday', () => {
+    // Monday, 10 March 2025
+    const event = toFreeStudyEvent({ start: '19:00', end: '21:00', minutes: 120, days: [3, 5] }, new Date(2025, 2, 10, 9, 0));
+
+    expect(format(new Date(event.start_datetime), 'EEE dd/MM HH:mm')).toBe('Wed 12/03 19:00');
+    expect(format(new Date(event.end_datetime!), 'HH:mm')).toBe('21:00');
+    expect(event.recurrence_days).toEqual([3, 5]);
+  });
+});
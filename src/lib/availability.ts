@@ -0,0 +1,196 @@
+import { parseISO } from 'date-fns';
+import type { CalendarEvent, CreateEventData } from '@/hooks/useCalendarEvents';
+import type { Subject } from '@/hooks/useSubjects';
+import {
+  addCalendarDays,
+  getCalendarWeekday,
+  getDeviceTimeZone,
+  getWallTime,
+  getZonedDay,
+  zonedDateTimeToUtc
+} from '@/lib/timezone';
+
+// Daily time range in 'HH:mm' (database TIME values like 'HH:mm:ss' are accepted too)
+export type TimeRange = {
+  start: string;
+  end: string;
+};
+
+export interface AvailabilitySettings {
+  // Daily window in which studying is possible, e.g. 08:00–22:30
+  windowStart: string;
+  windowEnd: string;
+  // Daily ranges never offered, e.g. lunch
+  excludedRanges: TimeRange[];
+  minSlotMinutes: number;
+  // Gap kept free before and after classes and commitments
+  bufferMinutes: number;
+}
+
+export interface FreeTimeCandidate {
+  dayOfWeek: number;
+  start: string;
+  end: string;
+  minutes: number;
+}
+
+// Candidates sharing a time range, to be stored as a single weekly event
+export interface FreeTimeGroup {
+  start: string;
+  end: string;
+  minutes: number;
+  days: number[];
+}
+
+type MinuteRange = [number, number];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const fromMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const minutesOfDay = (date: Date, timeZone: string) => {
+  const { hour, minute } = getWallTime(date, timeZone);
+  return hour * 60 + minute;
+};
+
+// Weekdays on which a recurring event happens (daily events happen every day)
+const getEventWeekdays = (event: CalendarEvent, timeZone: string): number[] => {
+  if (event.recurrence_pattern === 'daily') return [0, 1, 2, 3, 4, 5, 6];
+  return event.recurrence_days && event.recurrence_days.length > 0
+    ? event.recurrence_days
+    : [getCalendarWeekday(getZonedDay(parseISO(event.start_datetime), timeZone))];
+};
+
+/**
+ * Weekly busy time for a weekday: class schedules, recurring commitments
+ * (padded by the buffer) and recurring free slots that already exist.
+ * One-off events only affect a single date and are not part of the weekly pattern.
+ */
+const getWeeklyBusyRanges = (
+  dayOfWeek: number,
+  subjects: Subject[],
+  events: CalendarEvent[],
+  bufferMinutes: number,
+  timeZone: string
+): MinuteRange[] => {
+  const pad = ([start, end]: MinuteRange): MinuteRange => [start - bufferMinutes, end + bufferMinutes];
+
+  const classes = subjects
+    .filter(subject => subject.status !== 'finalizada')
+    .flatMap(subject => subject.schedules || [])
+    .filter(schedule => schedule.day_of_week === dayOfWeek)
+    .map(schedule => pad([toMinutes(schedule.start_time), toMinutes(schedule.end_time)]));
+
+  const recurringEvents = events
+    .filter(event => event.is_recurring && event.end_datetime)
+    .filter(event => event.event_type !== 'deadline')
+    .filter(event => getEventWeekdays(event, timeZone).includes(dayOfWeek))
+    .map(event => {
+      const startDate = parseISO(event.start_datetime);
+      const endDate = parseISO(event.end_datetime!);
+      const start = minutesOfDay(startDate, timeZone);
+      // Events running past midnight block the rest of the day
+      const end = getZonedDay(endDate, timeZone) > getZonedDay(startDate, timeZone)
+        ? MINUTES_PER_DAY
+        : minutesOfDay(endDate, timeZone);
+      const range: MinuteRange = [start, end];
+      return event.event_type === 'free_study' ? range : pad(range);
+    });
+
+  return [...classes, ...recurringEvents];
+};
+
+// Subtract busy ranges from a window, keeping the gaps of at least `minMinutes`
+const findGaps = (window: MinuteRange, busy: MinuteRange[], minMinutes: number): MinuteRange[] => {
+  const sorted = [...busy].sort((a, b) => a[0] - b[0]);
+  const gaps: MinuteRange[] = [];
+  let cursor = window[0];
+
+  for (const [start, end] of sorted) {
+    if (end <= cursor) continue;
+    if (start >= window[1]) break;
+    if (start > cursor) gaps.push([cursor, Math.min(start, window[1])]);
+    cursor = Math.max(cursor, end);
+  }
+  if (cursor < window[1]) gaps.push([cursor, window[1]]);
+
+  return gaps.filter(([start, end]) => end - start >= minMinutes);
+};
+
+/**
+ * Free time per weekday inside the availability window that is not taken by
+ * classes, recurring commitments, excluded ranges or existing recurring free slots.
+ * Event times are read as wall-clock times in `timeZone`, like class schedules.
+ */
+export const detectFreeTime = (
+  subjects: Subject[],
+  events: CalendarEvent[],
+  settings: AvailabilitySettings,
+  timeZone: string = getDeviceTimeZone()
+): FreeTimeCandidate[] => {
+  const window: MinuteRange = [toMinutes(settings.windowStart), toMinutes(settings.windowEnd)];
+  if (window[1] <= window[0]) return [];
+
+  const excluded = settings.excludedRanges.map(range => [toMinutes(range.start), toMinutes(range.end)] as MinuteRange);
+
+  return [0, 1, 2, 3, 4, 5, 6].flatMap(dayOfWeek => {
+    const busy = [...getWeeklyBusyRanges(dayOfWeek, subjects, events, settings.bufferMinutes, timeZone), ...excluded];
+
+    return findGaps(window, busy, settings.minSlotMinutes).map(([start, end]) => ({
+      dayOfWeek,
+      start: fromMinutes(start),
+      end: fromMinutes(end),
+      minutes: end - start
+    }));
+  });
+};
+
+// Merge candidates with the same time range across weekdays
+export const groupFreeTimeCandidates = (candidates: FreeTimeCandidate[]): FreeTimeGroup[] => {
+  const groups = new Map<string, FreeTimeGroup>();
+
+  for (const candidate of candidates) {
+    const key = `${candidate.start}-${candidate.end}`;
+    const group = groups.get(key);
+    if (group) {
+      group.days.push(candidate.dayOfWeek);
+    } else {
+      groups.set(key, { start: candidate.start, end: candidate.end, minutes: candidate.minutes, days: [candidate.dayOfWeek] });
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => toMinutes(a.start) - toMinutes(b.start) || a.days[0] - b.days[0]);
+};
+
+// Weekly recurring free_study event for an accepted group, anchored on its next
+// weekday from `from`; the group's times are wall-clock times in `timeZone`
+export const toFreeStudyEvent = (
+  group: FreeTimeGroup,
+  from: Date,
+  timeZone: string = getDeviceTimeZone(),
+  title = 'Horário livre'
+): CreateEventData => {
+  let anchor = getZonedDay(from, timeZone);
+  while (!group.days.includes(getCalendarWeekday(anchor))) {
+    anchor = addCalendarDays(anchor, 1);
+  }
+
+  const start = zonedDateTimeToUtc(anchor, group.start, timeZone);
+  const end = zonedDateTimeToUtc(anchor, group.end, timeZone);
+
+  return {
+    title,
+    event_type: 'free_study',
+    start_datetime: start.toISOString(),
+    end_datetime: end.toISOString(),
+    is_recurring: true,
+    recurrence_pattern: 'weekly',
+    recurrence_days: [...group.days].sort()
+  };
+};
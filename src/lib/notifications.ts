@@ -117,10 +117,10 @@ export function notifyStudySessionCompleted(subjectName: string) {
 /**
  * Notificação de pausa sugerida
  */
-export function notifyBreakTime() {
+export function notifyBreakTime(breakMinutes: number = 10) {
   return toast({
     title: `☕ Hora da Pausa`,
-    description: `Descanse por 10 minutos antes de continuar`,
+    description: `Descanse por ${breakMinutes} minutos antes de continuar`,
     duration: 10000,
   });
 }
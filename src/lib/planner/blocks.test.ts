@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { addMinutes, format } from 'date-fns';
+import { generateStudyBlocksForSubject } from './blocks';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { makeEvent, makePriority } from './testUtils';
+import type { PlannerConfig } from './types';
+
+const SLOT_START = new Date(2025, 2, 10, 14, 0);
+
+const slotOfMinutes = (minutes: number) => makeEvent({
+  id: 'slot',
+  start_datetime: SLOT_START.toISOString(),
+  end_datetime: addMinutes(SLOT_START, minutes).toISOString()
+});
+
+const describeBlocks = (minutes: number, config: PlannerConfig = DEFAULT_PLANNER_CONFIG) =>
+  generateStudyBlocksForSubject(slotOfMinutes(minutes), makePriority(10), config).map(block =>
+    `${block.isBreak ? 'break' : 'study'} ${format(block.startTime, 'HH:mm')}-${format(block.endTime, 'HH:mm')}`
+  );
+
+describe('generateStudyBlocksForSubject', () => {
+  it('alternates 50-minute blocks with 10-minute breaks', () => {
+    expect(describeBlocks(4 * 60)).toEqual([
+      'study 14:00-14:50',
+      'break 14:50-15:00',
+      'study 15:00-15:50',
+      'break 15:50-16:00',
+      'study 16:00-16:50',
+      'break 16:50-17:00',
+      'study 17:00-17:50'
+    ]);
+  });
+
+  it('uses a remainder of exactly 20 minutes as a short block', () => {
+    expect(describeBlocks(80)).toEqual([
+      'study 14:00-14:50',
+      'break 14:50-15:00',
+      'study 15:00-15:20'
+    ]);
+  });
+
+  it('drops a remainder shorter than 20 minutes and the break before it', () => {
+    expect(describeBlocks(79)).toEqual(['study 14:00-14:50']);
+  });
+
+  it('creates a single block for slots between 20 and 50 minutes', () => {
+    expect(describeBlocks(20)).toEqual(['study 14:00-14:20']);
+    expect(describeBlocks(19)).toEqual([]);
+  });
+
+  it('follows the configured block and break lengths', () => {
+    const pomodoro = { ...DEFAULT_PLANNER_CONFIG, studyBlockMinutes: 25, breakMinutes: 5 };
+
+    expect(describeBlocks(60, pomodoro)).toEqual([
+      'study 14:00-14:25',
+      'break 14:25-14:30',
+      'study 14:30-14:55'
+    ]);
+  });
+
+  it('ignores slots without an end time', () => {
+    const slot = makeEvent({ end_datetime: undefined });
+    expect(generateStudyBlocksForSubject(slot, makePriority(10))).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { addMinutes, parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { BlockFrame, PlannerConfig, StudyBlock, SubjectPriority } from './types';
+import { DEFAULT_PLANNER_CONFIG, MIN_BLOCK_MINUTES } from './constants';
+
+// Split a free slot into alternating study/break time frames, independent of subject
+export const generateBlockLayout = (
+  freeSlot: CalendarEvent,
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG
+): BlockFrame[] => {
+  if (!freeSlot.end_datetime) return [];
+
+  const { studyBlockMinutes, breakMinutes } = config;
+  // Short blocks (e.g. 15-minute sprints) must still fit a full block at the end of a slot
+  const minBlockMinutes = Math.min(MIN_BLOCK_MINUTES, studyBlockMinutes);
+
+  const slotStart = parseISO(freeSlot.start_datetime);
+  const slotEnd = parseISO(freeSlot.end_datetime);
+
+  const frames: BlockFrame[] = [];
+  let currentTime = slotStart;
+
+  while (true) {
+    const remainingMinutes = Math.floor((slotEnd.getTime() - currentTime.getTime()) / 60000);
+
+    if (remainingMinutes < minBlockMinutes) break;
+
+    const studyMinutes = Math.min(studyBlockMinutes, remainingMinutes);
+    const studyEnd = addMinutes(currentTime, studyMinutes);
+
+    frames.push({
+      startTime: new Date(currentTime),
+      endTime: new Date(studyEnd),
+      isBreak: false
+    });
+
+    currentTime = studyEnd;
+
+    // Check if we can add a break
+    const afterBreakRemaining = Math.floor((slotEnd.getTime() - addMinutes(currentTime, breakMinutes).getTime()) / 60000);
+
+    if (afterBreakRemaining >= minBlockMinutes) {
+      const breakEnd = addMinutes(currentTime, breakMinutes);
+      frames.push({
+        startTime: new Date(currentTime),
+        endTime: new Date(breakEnd),
+        isBreak: true
+      });
+      currentTime = breakEnd;
+    } else {
+      break;
+    }
+  }
+
+  return frames;
+};
+
+// Study minutes a slot offers once laid out in blocks and breaks
+export const getSlotStudyMinutes = (
+  freeSlot: CalendarEvent,
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG
+): number =>
+  generateBlockLayout(freeSlot, config)
+    .filter(frame => !frame.isBreak)
+    .reduce((total, frame) => total + (frame.endTime.getTime() - frame.startTime.getTime()) / 60000, 0);
+
+// Turn a time frame into a block of the given slot and subject
+export const toStudyBlock = (
+  freeSlot: CalendarEvent,
+  frame: BlockFrame,
+  index: number,
+  priority: SubjectPriority
+): StudyBlock => ({
+  id: `${freeSlot.id}-${frame.isBreak ? 'break' : 'block'}-${index}`,
+  subject: priority.subject,
+  startTime: frame.startTime,
+  endTime: frame.endTime,
+  isBreak: frame.isBreak,
+  freeSlotId: freeSlot.id
+});
+
+// Generate study blocks for a single free slot with a specific subject
+export const generateStudyBlocksForSubject = (
+  freeSlot: CalendarEvent,
+  priority: SubjectPriority,
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG
+): StudyBlock[] => {
+  return generateBlockLayout(freeSlot, config).map((frame, index) =>
+    toStudyBlock(freeSlot, frame, index, priority)
+  );
+};
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { addDays } from 'date-fns';
+import { suggestDifficultyWeight } from './calibration';
+import { fixedClock } from './clock';
+import { makeSubject, TEST_NOW } from './testUtils';
+import type { StudyReflection } from './types';
+
+const clock = fixedClock(TEST_NOW);
+
+let nextId = 0;
+const makeReflection = (understanding: number, daysAgo = 1, subjectId = 'calc'): StudyReflection => ({
+  id: `reflection-${++nextId}`,
+  user_id: 'user-1',
+  subject_id: subjectId,
+  understanding,
+  topics: [],
+  created_at: addDays(TEST_NOW, -daysAgo).toISOString()
+});
+
+describe('suggestDifficultyWeight', () => {
+  const calc = makeSubject({ id: 'calc', difficulty_weight: 2 });
+
+  it('mirrors the average understanding onto the difficulty scale', () => {
+    const reflections = [makeReflection(2), makeReflection(1, 2), makeReflection(2, 3)];
+
+    expect(suggestDifficultyWeight(calc, reflections, { clock })).toEqual({
+      subjectId: 'calc',
+      currentWeight: 2,
+      suggestedWeight: 4,
+      averageUnderstanding: 1.67,
+      reflectionCount: 3
+    });
+  });
+
+  it('waits for enough recent reflections of the subject', () => {
+    const reflections = [makeReflection(1), makeReflection(1, 2), makeReflection(1, 40), makeReflection(1, 1, 'hist')];
+
+    expect(suggestDifficultyWeight(calc, reflections, { clock })).toBeNull();
+  });
+
+  it('stays quiet when the reflections agree with the current weight', () => {
+    const reflections = [makeReflection(4), makeReflection(4, 2), makeReflection(4, 3)];
+
+    expect(suggestDifficultyWeight(calc, reflections, { clock })).toBeNull();
+  });
+
+  it('only counts the most recent reflections', () => {
+    const old = Array.from({ length: 10 }, (_, i) => makeReflection(5, 20 + i));
+    const latest = Array.from({ length: 10 }, (_, i) => makeReflection(1, 1 + i));
+
+    expect(suggestDifficultyWeight(calc, [...old, ...latest], { clock })?.suggestedWeight).toBe(5);
+  });
+});
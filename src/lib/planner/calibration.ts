@@ -0,0 +1,44 @@
+import { addDays, isAfter, parseISO } from 'date-fns';
+import type { Subject } from '@/hooks/useSubjects';
+import type { DifficultyCalibration, PlannerOptions, StudyReflection } from './types';
+import {
+  CALIBRATION_HISTORY_DAYS,
+  CALIBRATION_REFLECTIONS,
+  MIN_REFLECTIONS_FOR_CALIBRATION
+} from './constants';
+import { systemClock } from './clock';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Difficulty weight suggested by a subject's recent reflections, or null when
+ * there are too few of them or they agree with the current weight.
+ *
+ * Understanding mirrors difficulty on the same 1–5 scale: a subject rated 2
+ * on average points to difficulty 4.
+ */
+export const suggestDifficultyWeight = (
+  subject: Subject,
+  reflections: StudyReflection[],
+  { clock = systemClock }: PlannerOptions = {}
+): DifficultyCalibration | null => {
+  const historyStart = addDays(clock(), -CALIBRATION_HISTORY_DAYS);
+  const recent = reflections
+    .filter(r => r.subject_id === subject.id && isAfter(parseISO(r.created_at), historyStart))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, CALIBRATION_REFLECTIONS);
+
+  if (recent.length < MIN_REFLECTIONS_FOR_CALIBRATION) return null;
+
+  const averageUnderstanding = recent.reduce((total, r) => total + r.understanding, 0) / recent.length;
+  const suggestedWeight = Math.min(5, Math.max(1, Math.round(6 - averageUnderstanding)));
+  if (suggestedWeight === subject.difficulty_weight) return null;
+
+  return {
+    subjectId: subject.id,
+    currentWeight: subject.difficulty_weight,
+    suggestedWeight,
+    averageUnderstanding: round(averageUnderstanding),
+    reflectionCount: recent.length
+  };
+};
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { getUncarriedBlocks, placeCarryOver } from './carryover';
+import { generateCarryOverSuggestions, generateSuggestions } from './suggestions';
+import { getPlannableFreeSlots } from './horizon';
+import { fixedClock } from './clock';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { makeEvent, makePriority, makeSubject, TEST_NOW } from './testUtils';
+import type { MissedBlock } from './types';
+
+const clock = fixedClock(TEST_NOW);
+
+// Weekly Monday/Wednesday 19:00-20:00 slot: one 50-minute block per occurrence
+const weeklySlot = makeEvent({
+  id: 'weekly',
+  start_datetime: new Date(2025, 1, 24, 19, 0).toISOString(),
+  end_datetime: new Date(2025, 1, 24, 20, 0).toISOString(),
+  is_recurring: true,
+  recurrence_pattern: 'weekly',
+  recurrence_days: [1, 3]
+});
+
+const slots = (extra: ReturnType<typeof makeEvent>[] = []) =>
+  getPlannableFreeSlots([weeklySlot, ...extra], TEST_NOW, new Date(2025, 2, 20));
+
+const missed = (count: number, subjectId = 'hist'): MissedBlock[] =>
+  Array.from({ length: count }, (_, index) => ({
+    sessionId: `missed-${index + 1}`,
+    subjectId,
+    startTime: new Date(2025, 2, 5 + index, 19, 0).toISOString(),
+    minutes: 50
+  }));
+
+const carriedIds = (placement: ReturnType<typeof placeCarryOver>) =>
+  placement.carriedSuggestions.map(s => [
+    format(new Date(s.freeSlot.start_datetime), 'dd HH:mm'),
+    s.blocks.filter(b => b.carriedFromSessionId).map(b => b.carriedFromSessionId)
+  ]);
+
+describe('placeCarryOver', () => {
+  const priorities = [makePriority(10, { id: 'calc' }), makePriority(6, { id: 'hist' })];
+
+  it('makes up missed blocks, oldest first, in the earliest open slots', () => {
+    const placement = placeCarryOver(slots(), missed(2), priorities);
+
+    expect(carriedIds(placement)).toEqual([
+      ['10 19:00', ['missed-1']],
+      ['12 19:00', ['missed-2']]
+    ]);
+    expect(placement.remainingSlots.map(s => format(new Date(s.start_datetime), 'dd'))).toEqual(['17', '19']);
+    expect(placement.unplaced).toEqual([]);
+  });
+
+  it('caps the made-up time per week and moves the rest to later weeks', () => {
+    const longTuesday = makeEvent({
+      id: 'tuesday',
+      start_datetime: new Date(2025, 2, 11, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 11, 17, 30).toISOString()
+    });
+
+    const placement = placeCarryOver(slots([longTuesday]), missed(5), priorities);
+
+    expect(carriedIds(placement)).toEqual([
+      ['10 19:00', ['missed-1']],
+      ['11 14:00', ['missed-2', 'missed-3']],
+      ['17 19:00', ['missed-4']],
+      ['19 19:00', ['missed-5']]
+    ]);
+    // Cap reached: Wednesday stays open for the regular distribution
+    expect(placement.remainingSlots.map(s => format(new Date(s.start_datetime), 'dd'))).toEqual(['12']);
+  });
+
+  it('counts make-ups saved earlier in the same Monday-to-Sunday week', () => {
+    // 120 minutes already made up on Sunday the 16th, the last day of the week of the 10th
+    const carriedTimes = [{ start: new Date(2025, 2, 16, 10, 0), end: new Date(2025, 2, 16, 12, 0) }];
+
+    const placement = placeCarryOver(slots(), missed(2), priorities, DEFAULT_PLANNER_CONFIG, carriedTimes);
+
+    expect(carriedIds(placement)).toEqual([
+      ['17 19:00', ['missed-1']],
+      ['19 19:00', ['missed-2']]
+    ]);
+  });
+
+  it('reports what does not fit and drops subjects without a priority', () => {
+    const placement = placeCarryOver(slots(), [...missed(5), ...missed(1, 'finished')], priorities);
+
+    expect(placement.unplaced.map(m => m.sessionId)).toEqual(['missed-5']);
+  });
+});
+
+describe('generateSuggestions with missed blocks', () => {
+  it('gives carried slots to the missed subject before the priority distribution', () => {
+    const subjects = [makeSubject({ id: 'calc', difficulty_weight: 5 }), makeSubject({ id: 'hist', name: 'História' })];
+
+    const [first, second] = generateSuggestions(subjects, [weeklySlot], [], [], {
+      clock,
+      missedBlocks: missed(1)
+    });
+
+    expect(first.assignedSubject?.id).toBe('hist');
+    expect(first.blocks[0].trace?.reason).toBe('carry_over');
+    expect(first.blocks[0].carriedFromSessionId).toBe('missed-1');
+    expect(second.assignedSubject?.id).toBe('calc');
+  });
+});
+
+describe('generateCarryOverSuggestions', () => {
+  it('fills only the open slots with the carried blocks', () => {
+    const subjects = [makeSubject({ id: 'calc', difficulty_weight: 5 }), makeSubject({ id: 'hist', name: 'História' })];
+    // Three blocks on Tuesday; Monday's occurrence already holds a planned session
+    const tuesdaySlot = makeEvent({
+      id: 'tuesday',
+      start_datetime: new Date(2025, 2, 11, 18, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 11, 21, 0).toISOString()
+    });
+    const planned = [{ start: new Date(2025, 2, 10, 19, 0), end: new Date(2025, 2, 10, 19, 50) }];
+
+    const suggestions = generateCarryOverSuggestions(subjects, [weeklySlot, tuesdaySlot], [], [], planned, {
+      clock,
+      missedBlocks: missed(1)
+    });
+
+    expect(suggestions.map(s => [
+      s.freeSlot.id,
+      s.blocks.map(b => `${format(b.startTime, 'HH:mm')} ${b.subject.id} ${b.carriedFromSessionId}`)
+    ])).toEqual([['tuesday', ['18:00 hist missed-1']]]);
+  });
+});
+
+describe('getUncarriedBlocks', () => {
+  it('carries nothing twice over two visits', () => {
+    const subjects = [makeSubject({ id: 'hist', name: 'História' })];
+    const carriedIds = (suggestions: ReturnType<typeof generateCarryOverSuggestions>) =>
+      suggestions.flatMap(s => s.blocks).flatMap(b => b.carriedFromSessionId ? [b.carriedFromSessionId] : []);
+
+    const firstVisit = generateCarryOverSuggestions(subjects, [weeklySlot], [], [], [], {
+      clock,
+      missedBlocks: getUncarriedBlocks(missed(1), [])
+    });
+    const carriedSessions = firstVisit.flatMap(s => s.blocks).filter(b => b.carriedFromSessionId).map(b => ({
+      carried_from_session_id: b.carriedFromSessionId,
+      start: b.startTime,
+      end: b.endTime
+    }));
+
+    // The make-up of missed-1 is still upcoming, so it is still listed as missed
+    const secondVisit = generateCarryOverSuggestions(subjects, [weeklySlot], [], [], carriedSessions, {
+      clock,
+      missedBlocks: getUncarriedBlocks(missed(2), carriedSessions)
+    });
+
+    expect(carriedIds(firstVisit)).toEqual(['missed-1']);
+    expect(carriedIds(secondVisit)).toEqual(['missed-2']);
+  });
+});
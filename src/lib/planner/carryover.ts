@@ -0,0 +1,107 @@
+import { parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { StudySession } from '@/hooks/useStudySessions';
+import type { MissedBlock, PlannerConfig, StudySuggestion, SubjectPriority } from './types';
+import { DEFAULT_PLANNER_CONFIG, MAX_CARRY_OVER_MINUTES_PER_WEEK } from './constants';
+import { generateStudyBlocksForSubject } from './blocks';
+import { buildDecisionTrace, withTrace } from './trace';
+import { getDeviceTimeZone, getWeekStart, getZonedDay } from '@/lib/timezone';
+
+export interface CarryOverPlacement {
+  carriedSuggestions: StudySuggestion[];
+  // Slots left for the regular distribution
+  remainingSlots: CalendarEvent[];
+  // Missed blocks that did not fit under the weekly cap or the horizon
+  unplaced: MissedBlock[];
+}
+
+const blockMinutes = (block: { startTime: Date; endTime: Date }) =>
+  (block.endTime.getTime() - block.startTime.getTime()) / 60000;
+
+/**
+ * Carry missed or skipped blocks forward into the earliest open slots.
+ *
+ * Missed blocks are made up oldest first: each slot goes to the subject with
+ * the oldest pending block, and each of its study blocks makes up one missed
+ * block. No more than MAX_CARRY_OVER_MINUTES_PER_WEEK of made-up study lands in
+ * a calendar week (Monday to Sunday in the user's zone), counting the persisted
+ * make-up sessions in `carriedTimes`; the rest waits for later weeks and, past
+ * the horizon, is reported as unplaced. Blocks of subjects without a priority
+ * are dropped.
+ */
+export const placeCarryOver = (
+  slots: CalendarEvent[],
+  missedBlocks: MissedBlock[],
+  priorities: SubjectPriority[],
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG,
+  carriedTimes: { start: Date; end: Date }[] = [],
+  timeZone: string = getDeviceTimeZone()
+): CarryOverPlacement => {
+  const prioritiesById = new Map(priorities.map(p => [p.subject.id, p]));
+  const pending = missedBlocks
+    .filter(block => prioritiesById.has(block.subjectId))
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+  const weekOf = (date: Date) => getWeekStart(getZonedDay(date, timeZone));
+  const minutesByWeek = new Map<string, number>();
+  for (const { start, end } of carriedTimes) {
+    minutesByWeek.set(weekOf(start), (minutesByWeek.get(weekOf(start)) || 0) + blockMinutes({ startTime: start, endTime: end }));
+  }
+  const carriedSuggestions: StudySuggestion[] = [];
+  const remainingSlots: CalendarEvent[] = [];
+
+  for (const slot of slots) {
+    const week = weekOf(parseISO(slot.start_datetime));
+    const usedMinutes = minutesByWeek.get(week) || 0;
+    const priority = pending.length > 0 ? prioritiesById.get(pending[0].subjectId)! : undefined;
+    const blocks = priority ? generateStudyBlocksForSubject(slot, priority, config) : [];
+    const firstStudyBlock = blocks.find(block => !block.isBreak);
+
+    if (!priority || !firstStudyBlock || usedMinutes + blockMinutes(firstStudyBlock) > MAX_CARRY_OVER_MINUTES_PER_WEEK) {
+      remainingSlots.push(slot);
+      continue;
+    }
+
+    // Each study block makes up one pending block of the subject, within the weekly cap
+    let minutes = usedMinutes;
+    const carriedBlocks = blocks.map(block => {
+      const missedIndex = pending.findIndex(m => m.subjectId === priority.subject.id);
+      if (block.isBreak || missedIndex === -1 || minutes + blockMinutes(block) > MAX_CARRY_OVER_MINUTES_PER_WEEK) {
+        return block;
+      }
+
+      minutes += blockMinutes(block);
+      const [missed] = pending.splice(missedIndex, 1);
+      return { ...block, carriedFromSessionId: missed.sessionId };
+    });
+    minutesByWeek.set(week, minutes);
+
+    const trace = buildDecisionTrace({ reason: 'carry_over', chosen: priority, priorities, config });
+    carriedSuggestions.push({
+      freeSlot: slot,
+      blocks: withTrace(carriedBlocks, trace),
+      assignedSubject: priority.subject
+    });
+  }
+
+  return { carriedSuggestions, remainingSlots, unplaced: pending };
+};
+
+/**
+ * Missed blocks that have no carried session at all, whatever its status. The
+ * visit check only adds sessions, so a block whose make-up is still upcoming
+ * must not be carried again; a full regeneration replaces those make-ups instead.
+ */
+export const getUncarriedBlocks = (
+  missedBlocks: MissedBlock[],
+  sessions: Pick<StudySession, 'carried_from_session_id'>[]
+): MissedBlock[] =>
+  missedBlocks.filter(block => !sessions.some(s => s.carried_from_session_id === block.sessionId));
+
+// Times of the persisted make-up sessions, which count against the weekly cap
+export const getCarriedTimes = (
+  sessions: Pick<StudySession, 'carried_from_session_id' | 'is_break' | 'start_datetime' | 'end_datetime'>[]
+): { start: Date; end: Date }[] =>
+  sessions
+    .filter(s => s.carried_from_session_id && !s.is_break)
+    .map(s => ({ start: parseISO(s.start_datetime), end: parseISO(s.end_datetime) }));
@@ -0,0 +1,6 @@
+import type { Clock } from './types';
+
+export const systemClock: Clock = () => new Date();
+
+// Clock frozen at a given instant (tests, simulations)
+export const fixedClock = (date: Date): Clock => () => new Date(date);
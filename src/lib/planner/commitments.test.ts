@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { planDeadlineCommitments, reserveDeadlineSlots } from './commitments';
+import { generateSuggestions } from './suggestions';
+import { fixedClock } from './clock';
+import { makeEvent, makePriority, makeSubject, TEST_NOW } from './testUtils';
+import { DEFAULT_EASE_FACTOR } from './constants';
+import type { ReviewItem } from './types';
+
+const clock = fixedClock(TEST_NOW);
+
+// Weekly Monday/Wednesday 19:00-20:00 slot: one 50-minute block per occurrence
+const weeklySlot = makeEvent({
+  id: 'weekly',
+  start_datetime: new Date(2025, 1, 24, 19, 0).toISOString(),
+  end_datetime: new Date(2025, 1, 24, 20, 0).toISOString(),
+  is_recurring: true,
+  recurrence_pattern: 'weekly',
+  recurrence_days: [1, 3]
+});
+
+const makeDeadline = (id: string, subjectId: string, date: Date, effortHours?: number) => makeEvent({
+  id,
+  title: id,
+  event_type: 'deadline',
+  subject_id: subjectId,
+  start_datetime: date.toISOString(),
+  end_datetime: undefined,
+  estimated_effort_hours: effortHours
+});
+
+const slotDays = (slotIds: string[]) => slotIds.map(id => id.replace('weekly-', ''));
+
+describe('reserveDeadlineSlots', () => {
+  const priorities = [makePriority(10, { id: 'exam' }), makePriority(8, { id: 'paper' })];
+
+  it('reserves the latest slots before the deadline until the effort is covered', () => {
+    const deadline = makeDeadline('prova', 'exam', new Date(2025, 2, 21, 9, 0), 2);
+
+    const { commitments, reservations } = reserveDeadlineSlots(priorities, [weeklySlot], [deadline], { clock });
+
+    expect(slotDays(commitments[0].slotIds)).toEqual(['20250319', '20250317', '20250312']);
+    expect(commitments[0].reservedMinutes).toBe(150);
+    expect(commitments[0].shortfallMinutes).toBe(0);
+    expect(reservations.has('weekly-20250310')).toBe(false);
+  });
+
+  it('reports the effort that does not fit before the deadline', () => {
+    const deadline = makeDeadline('prova', 'exam', new Date(2025, 2, 21, 9, 0), 10);
+
+    const [commitment] = reserveDeadlineSlots(priorities, [weeklySlot], [deadline], { clock }).commitments;
+
+    expect(commitment.reservedMinutes).toBe(4 * 50);
+    expect(commitment.shortfallMinutes).toBe(600 - 200);
+  });
+
+  it('plans later deadlines first so earlier ones keep their slots', () => {
+    const early = makeDeadline('early', 'paper', new Date(2025, 2, 13, 9, 0), 50 / 60);
+    const late = makeDeadline('late', 'exam', new Date(2025, 2, 21, 9, 0), 2.5);
+
+    const { commitments } = reserveDeadlineSlots(priorities, [weeklySlot], [late, early], { clock });
+
+    expect(commitments.map(c => c.deadline.id)).toEqual(['early', 'late']);
+    expect(slotDays(commitments[0].slotIds)).toEqual(['20250310']);
+    expect(slotDays(commitments[1].slotIds)).toEqual(['20250319', '20250317', '20250312']);
+    expect(commitments.every(c => c.shortfallMinutes === 0)).toBe(true);
+  });
+
+  it('ignores deadlines without effort, without a planned subject or already past', () => {
+    const deadlines = [
+      makeDeadline('no-effort', 'exam', new Date(2025, 2, 21, 9, 0)),
+      makeDeadline('unknown', 'finished-subject', new Date(2025, 2, 21, 9, 0), 2),
+      makeDeadline('past', 'exam', new Date(2025, 2, 7, 9, 0), 2)
+    ];
+
+    expect(reserveDeadlineSlots(priorities, [weeklySlot], deadlines, { clock }).commitments).toEqual([]);
+  });
+});
+
+describe('planDeadlineCommitments', () => {
+  it('reserves only the time the review blocks leave in a slot', () => {
+    const priorities = [makePriority(10, { id: 'exam' })];
+    const deadline = makeDeadline('prova', 'exam', new Date(2025, 2, 21, 9, 0), 100 / 60);
+    const review: ReviewItem = {
+      id: 'review-1',
+      user_id: 'user-1',
+      subject_id: 'exam',
+      topic: 'Limites',
+      ease_factor: DEFAULT_EASE_FACTOR,
+      interval_days: 0,
+      repetitions: 0,
+      next_due_at: new Date(2025, 2, 17, 9, 0).toISOString(),
+      created_at: TEST_NOW.toISOString(),
+      updated_at: TEST_NOW.toISOString()
+    };
+
+    const withoutReview = planDeadlineCommitments(priorities, [weeklySlot], [deadline], { clock }).commitments[0];
+    const withReview = planDeadlineCommitments(priorities, [weeklySlot], [deadline], { clock, reviewItems: [review] }).commitments[0];
+
+    expect(slotDays(withoutReview.slotIds)).toEqual(['20250319', '20250317']);
+    expect(slotDays(withReview.slotIds)).toEqual(['20250319', '20250317', '20250312']);
+  });
+});
+
+describe('generateSuggestions with deadline effort', () => {
+  it('assigns reserved slots to the deadline subject and shares the rest', () => {
+    const subjects = [
+      makeSubject({ id: 'exam', difficulty_weight: 1, dedication_weight: 1 }),
+      makeSubject({ id: 'other', difficulty_weight: 5, dedication_weight: 5 })
+    ];
+    const deadline = makeDeadline('prova', 'exam', new Date(2025, 2, 21, 9, 0), 100 / 60);
+
+    const suggestions = generateSuggestions(subjects, [weeklySlot], [deadline], [], { clock });
+    const reserved = suggestions.filter(s => s.deadline?.id === 'prova');
+
+    expect(reserved.map(s => format(new Date(s.freeSlot.start_datetime), 'dd/MM'))).toEqual(['17/03', '19/03']);
+    expect(reserved.every(s => s.assignedSubject?.id === 'exam')).toBe(true);
+    expect(suggestions).toHaveLength(5);
+  });
+});
@@ -0,0 +1,103 @@
+import { isAfter, parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { DeadlineCommitment, PlannerOptions, SubjectPriority } from './types';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { systemClock } from './clock';
+import { getSlotStudyMinutes } from './blocks';
+import { getPlannableFreeSlots, getPlanningHorizonEnd } from './horizon';
+import { placeReviewBlocks } from './reviews';
+
+export interface DeadlinePlan {
+  // Sorted by deadline, earliest first
+  commitments: DeadlineCommitment[];
+  // Reserved slot id -> commitment it belongs to
+  reservations: Map<string, DeadlineCommitment>;
+}
+
+/**
+ * Backward planning: reserve whole free slots for deadlines that have an
+ * estimated effort.
+ *
+ * Deadlines are handled latest first, each taking the latest unreserved slots
+ * that end before it, so earlier deadlines keep the slots only they can use and
+ * the time closest to "now" stays free for regular prioritised study. Recurring
+ * slots are expanded up to each deadline, which means reservations can lie past
+ * the planning horizon; they materialise once the horizon reaches them.
+ * `reviewedSlots` are slots already shortened by review blocks; they stand in
+ * for the matching slots, so only the time left after the reviews is reserved.
+ *
+ * Only subjects present in `priorities` (active and weighted) get commitments.
+ */
+export const reserveDeadlineSlots = (
+  priorities: SubjectPriority[],
+  freeSlots: CalendarEvent[],
+  deadlines: CalendarEvent[],
+  options: PlannerOptions = {},
+  reviewedSlots: CalendarEvent[] = []
+): DeadlinePlan => {
+  const { clock = systemClock, config = DEFAULT_PLANNER_CONFIG, timeZone } = options;
+  const now = clock();
+  const prioritiesById = new Map(priorities.map(p => [p.subject.id, p]));
+
+  const effortDeadlines = deadlines
+    .filter(d => d.subject_id && prioritiesById.has(d.subject_id))
+    .filter(d => Number(d.estimated_effort_hours) > 0)
+    .filter(d => isAfter(parseISO(d.start_datetime), now))
+    .sort((a, b) => new Date(b.start_datetime).getTime() - new Date(a.start_datetime).getTime());
+
+  const reservations = new Map<string, DeadlineCommitment>();
+  if (effortDeadlines.length === 0) return { commitments: [], reservations };
+
+  const latestDeadline = parseISO(effortDeadlines[0].start_datetime);
+  const reviewedById = new Map(reviewedSlots.map(slot => [slot.id, slot]));
+  const candidateSlots = getPlannableFreeSlots(freeSlots, now, latestDeadline, timeZone)
+    .map(slot => reviewedById.get(slot.id) ?? slot);
+
+  const commitments = effortDeadlines.map(deadline => {
+    const deadlineStart = parseISO(deadline.start_datetime);
+    const requiredMinutes = Math.round(Number(deadline.estimated_effort_hours) * 60);
+    const commitment: DeadlineCommitment = {
+      deadline,
+      priority: prioritiesById.get(deadline.subject_id!)!,
+      requiredMinutes,
+      reservedMinutes: 0,
+      shortfallMinutes: 0,
+      slotIds: []
+    };
+
+    const slotsBeforeDeadline = candidateSlots
+      .filter(slot => !reservations.has(slot.id))
+      .filter(slot => slot.end_datetime && !isAfter(parseISO(slot.end_datetime), deadlineStart))
+      .reverse();
+
+    for (const slot of slotsBeforeDeadline) {
+      if (commitment.reservedMinutes >= requiredMinutes) break;
+
+      const minutes = getSlotStudyMinutes(slot, config);
+      if (minutes === 0) continue;
+
+      reservations.set(slot.id, commitment);
+      commitment.slotIds.push(slot.id);
+      commitment.reservedMinutes += minutes;
+    }
+
+    commitment.shortfallMinutes = Math.max(0, requiredMinutes - commitment.reservedMinutes);
+    return commitment;
+  });
+
+  return { commitments: commitments.reverse(), reservations };
+};
+
+// Deadline reservations of a plan, after the review blocks took their time
+export const planDeadlineCommitments = (
+  priorities: SubjectPriority[],
+  freeSlots: CalendarEvent[],
+  deadlines: CalendarEvent[],
+  options: PlannerOptions = {}
+): DeadlinePlan => {
+  const { clock = systemClock, config = DEFAULT_PLANNER_CONFIG, periodEnd, reviewItems = [], timeZone } = options;
+  const now = clock();
+  const plannableSlots = getPlannableFreeSlots(freeSlots, now, getPlanningHorizonEnd(now, periodEnd, timeZone), timeZone);
+  const { remainingSlots } = placeReviewBlocks(plannableSlots, reviewItems, priorities, config, timeZone);
+  return reserveDeadlineSlots(priorities, freeSlots, deadlines, options, remainingSlots);
+};
@@ -0,0 +1,133 @@
+import type { DeadlineKind } from '@/hooks/useCalendarEvents';
+import type { Chronotype, ExamPrepIntensity, PlannerConfig } from './types';
+
+export const STUDY_BLOCK_MINUTES = 50;
+export const BREAK_MINUTES = 10;
+export const DELAY_BONUS = 2.0;
+
+// Delay log: window analysed, bonus growth per repeated delay (capped at a
+// multiple of the base bonus), delays after which shorter blocks are suggested,
+// and delays at the same weekday and hour that mark the time as unreliable
+export const DELAY_HISTORY_DAYS = 28;
+export const DELAY_ESCALATION_STEP = 0.5;
+export const MAX_DELAY_ESCALATION = 2;
+export const SPLIT_SUGGESTION_DELAYS = 3;
+export const UNRELIABLE_TIME_DELAYS = 3;
+
+// Priority formula: weight coefficients and urgency curve
+export const DIFFICULTY_COEFFICIENT = 1;
+export const DEDICATION_COEFFICIENT = 1;
+export const URGENCY_HORIZON_DAYS = 7;
+// Urgency on the last day before a deadline, and once it has passed
+export const PEAK_URGENCY = 1.5;
+export const OVERDUE_URGENCY = 2.0;
+
+// Per deadline kind: multiplier on the urgency factor, and the lead time in days
+// over which urgency ramps up (URGENCY_HORIZON_DAYS leaves the curve unchanged).
+// Deadlines without a kind behave like a prova.
+export const DEADLINE_KIND_URGENCY: Record<DeadlineKind, { weight: number; leadDays: number }> = {
+  prova: { weight: 1.0, leadDays: 7 },
+  trabalho: { weight: 0.8, leadDays: 5 },
+  seminario: { weight: 0.7, leadDays: 4 },
+  apresentacao: { weight: 0.7, leadDays: 3 },
+  lista: { weight: 0.5, leadDays: 2 }
+};
+
+// Remaining time below which no further study block is created in a slot
+export const MIN_BLOCK_MINUTES = 20;
+
+// Thresholds for subject repetition in study slots
+export const REPEAT_ONCE_THRESHOLD = 12;
+export const REPEAT_TRIPLE_THRESHOLD = 15;
+
+// Interleaving mode: default limit of same-subject blocks in a row
+export const MAX_CONSECUTIVE_BLOCKS = 2;
+
+// Energy levels (1-5) per hour of the day, from 00:00 to 23:00
+export const MIN_ENERGY_LEVEL = 1;
+export const MAX_ENERGY_LEVEL = 5;
+export const ENERGY_CURVES: Record<Exclude<Chronotype, 'custom'>, number[]> = {
+  neutral: Array(24).fill(3),
+  //        0  1  2  3  4  5  6  7  8  9 10 11 12 13 14 15 16 17 18 19 20 21 22 23
+  morning: [1, 1, 1, 1, 1, 2, 4, 5, 5, 5, 5, 4, 3, 3, 4, 4, 3, 3, 3, 2, 2, 2, 1, 1],
+  evening: [3, 2, 1, 1, 1, 1, 1, 1, 2, 2, 3, 3, 3, 3, 3, 4, 4, 4, 5, 5, 5, 5, 4, 4]
+};
+
+export const DEFAULT_PLANNER_CONFIG: PlannerConfig = {
+  studyBlockMinutes: STUDY_BLOCK_MINUTES,
+  breakMinutes: BREAK_MINUTES,
+  difficultyCoefficient: DIFFICULTY_COEFFICIENT,
+  dedicationCoefficient: DEDICATION_COEFFICIENT,
+  urgencyCurve: 'step',
+  urgencyHorizonDays: URGENCY_HORIZON_DAYS,
+  delayBonus: DELAY_BONUS,
+  repeatOnceThreshold: REPEAT_ONCE_THRESHOLD,
+  repeatTripleThreshold: REPEAT_TRIPLE_THRESHOLD,
+  interleaveSubjects: false,
+  maxConsecutiveBlocks: MAX_CONSECUTIVE_BLOCKS,
+  energyCurve: ENERGY_CURVES.neutral,
+  maxDailyStudyMinutes: null,
+  maxSubjectBlocksPerDay: null,
+  restDays: []
+};
+
+// Spaced repetition (SM-2)
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+// Length of a "Revisão" block and how many of them open a single slot
+export const REVIEW_BLOCK_MINUTES = 15;
+export const MAX_REVIEWS_PER_SLOT = 2;
+// Score bonus per due review, capped so reviews never outweigh deadlines
+export const REVIEW_BONUS = 1.0;
+export const MAX_REVIEW_BONUS = 3.0;
+
+// Actual study time: window compared with the plan, the actual/planned ratio
+// below which a subject counts as under-studied, the planned time needed before
+// the ratio is trusted, and the bonus of a subject with nothing studied (it
+// shrinks linearly to zero at UNDER_STUDY_RATIO)
+export const STUDY_TIME_HISTORY_DAYS = 14;
+export const UNDER_STUDY_RATIO = 0.8;
+export const MIN_PLANNED_MINUTES_FOR_ADJUSTMENT = 100;
+export const UNDER_STUDY_BONUS = 2.0;
+
+// Weekly goals: bonus of a subject with nothing studied towards its minimum
+// this week; it shrinks linearly to zero as the minimum is met
+export const GOAL_BONUS = 1.5;
+
+// Difficulty recalibration: reflections of the last CALIBRATION_HISTORY_DAYS
+// count, the most recent CALIBRATION_REFLECTIONS of them, and a suggestion
+// needs at least MIN_REFLECTIONS_FOR_CALIBRATION
+export const CALIBRATION_HISTORY_DAYS = 30;
+export const CALIBRATION_REFLECTIONS = 10;
+export const MIN_REFLECTIONS_FOR_CALIBRATION = 3;
+
+// Missed or skipped blocks are carried forward only if they happened in the
+// last MISSED_LOOKBACK_DAYS, and at most MAX_CARRY_OVER_MINUTES_PER_WEEK of
+// them land in any one week, so a backlog cannot swamp the plan
+export const MISSED_LOOKBACK_DAYS = 7;
+export const MAX_CARRY_OVER_MINUTES_PER_WEEK = 150;
+
+// How far ahead recurring free slots are expanded into concrete occurrences
+export const PLANNING_HORIZON_DAYS = 14;
+
+// Workload forecast: weeks ahead, baseline weekly minutes per point of D + B,
+// and the days before a deadline over which its estimated effort is spread
+export const FORECAST_WEEKS = 6;
+export const BASELINE_MINUTES_PER_WEIGHT = 15;
+export const DEADLINE_PREP_DAYS = 7;
+
+// Saved plan versions listed in the history; older ones stay stored
+export const PLAN_VERSION_HISTORY_LIMIT = 20;
+// Score differences below this are rounding, not a priority change
+export const SCORE_CHANGE_EPSILON = 0.01;
+
+// Exam preparation: study blocks per day by intensity, and the days left
+// before the exam at which the load rises to high and to peak
+export const EXAM_PREP_DAILY_BLOCKS: Record<ExamPrepIntensity, number> = {
+  light: 1,
+  moderate: 2,
+  high: 3,
+  peak: 4
+};
+export const EXAM_PREP_HIGH_DAYS = 7;
+export const EXAM_PREP_PEAK_DAYS = 3;
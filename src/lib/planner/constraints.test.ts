@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { generateStudyPlan } from './suggestions';
+import { fixedClock } from './clock';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { makeEvent, makeSubject, TEST_NOW } from './testUtils';
+import type { PlannerConfig, StudySuggestion } from './types';
+import { formatInTimeZone, zonedDateTimeToUtc } from '@/lib/timezone';
+
+const clock = fixedClock(TEST_NOW);
+
+const slot = (id: string, day: number, startHour: number, endHour: number) => makeEvent({
+  id,
+  start_datetime: new Date(2025, 2, day, startHour, 0).toISOString(),
+  end_datetime: new Date(2025, 2, day, endHour, 0).toISOString()
+});
+
+// Two weekday evening slots of four 50-minute blocks each
+const weekdaySlots = [slot('mon', 10, 18, 22), slot('tue', 11, 18, 22)];
+
+const heavy = makeSubject({ id: 'heavy', name: 'Cálculo', difficulty_weight: 5, dedication_weight: 5 });
+const light = makeSubject({ id: 'light', name: 'História', difficulty_weight: 2, dedication_weight: 2 });
+
+const plan = (config: Partial<PlannerConfig>, subjects = [heavy, light], slots = weekdaySlots) =>
+  generateStudyPlan(subjects, slots, [], [], { clock, config: { ...DEFAULT_PLANNER_CONFIG, ...config } });
+
+const describeBlocks = (suggestions: StudySuggestion[]) =>
+  suggestions.flatMap(s => s.blocks.filter(b => !b.isBreak)).map(b =>
+    `${format(b.startTime, 'EEE HH:mm')} ${b.subject.id}`
+  );
+
+describe('generateStudyPlan constraints', () => {
+  it('leaves rest days empty and reports the blocked subject', () => {
+    const { suggestions, violations } = plan({ restDays: [0] }, [heavy], [...weekdaySlots, slot('sun', 16, 14, 16)]);
+
+    expect(suggestions.map(s => s.freeSlot.id)).toEqual(['mon', 'tue']);
+    expect(violations).toEqual([
+      expect.objectContaining({ kind: 'rest_day', dates: ['2025-03-16'], blockedMinutes: 100 })
+    ]);
+  });
+
+  it('stops at the daily study cap without refilling the slot', () => {
+    const { suggestions, violations } = plan({ maxDailyStudyMinutes: 120 });
+
+    expect(describeBlocks(suggestions)).toEqual([
+      'Mon 18:00 heavy',
+      'Mon 19:00 heavy',
+      'Tue 18:00 light',
+      'Tue 19:00 light'
+    ]);
+    expect(violations.map(v => [v.kind, v.subject.id, v.dates])).toEqual([
+      ['daily_cap', 'heavy', ['2025-03-10']],
+      ['daily_cap', 'light', ['2025-03-11']]
+    ]);
+  });
+
+  it('hands time past a subject\'s latest hour to the next subject by priority', () => {
+    const lateHeavy = { ...heavy, latest_study_time: '20:00:00' };
+    const { suggestions, violations } = plan({}, [lateHeavy, light]);
+    const monday = suggestions.find(s => s.freeSlot.id === 'mon')!;
+
+    expect(describeBlocks([monday])).toEqual([
+      'Mon 18:00 heavy',
+      'Mon 19:00 heavy',
+      'Mon 20:00 light',
+      'Mon 21:00 light'
+    ]);
+    expect(monday.blocks.find(b => b.subject.id === 'light' && !b.isBreak)?.trace?.reason).toBe('constraint');
+    expect(violations).toEqual([
+      expect.objectContaining({ kind: 'subject_latest_time', dates: ['2025-03-10'], blockedMinutes: 100 })
+    ]);
+  });
+
+  it('caps the blocks of one subject per day', () => {
+    const { suggestions, violations } = plan({ maxSubjectBlocksPerDay: 2 }, [heavy]);
+
+    expect(describeBlocks(suggestions)).toEqual([
+      'Mon 18:00 heavy',
+      'Mon 19:00 heavy',
+      'Tue 18:00 heavy',
+      'Tue 19:00 heavy'
+    ]);
+    expect(violations.map(v => [v.kind, v.dates])).toEqual([
+      ['subject_daily_cap', ['2025-03-10', '2025-03-11']]
+    ]);
+  });
+
+  it('reads rest days and latest hours in the given time zone', () => {
+    const timeZone = 'Asia/Tokyo';
+    const tokyoSlot = (id: string, day: string, start: string, end: string) => makeEvent({
+      id,
+      start_datetime: zonedDateTimeToUtc(day, start, timeZone).toISOString(),
+      end_datetime: zonedDateTimeToUtc(day, end, timeZone).toISOString()
+    });
+    // Sunday morning in Tokyo is still Saturday in UTC
+    const slots = [tokyoSlot('tue', '2025-03-11', '18:00', '22:00'), tokyoSlot('sun', '2025-03-16', '08:00', '10:00')];
+    const lateHeavy = { ...heavy, latest_study_time: '20:00:00' };
+
+    const { suggestions, violations } = generateStudyPlan([lateHeavy, light], slots, [], [], {
+      clock,
+      config: { ...DEFAULT_PLANNER_CONFIG, restDays: [0] },
+      timeZone
+    });
+
+    expect(suggestions.flatMap(s => s.blocks.filter(b => !b.isBreak)).map(b =>
+      `${formatInTimeZone(b.startTime, timeZone, 'EEE HH:mm')} ${b.subject.id}`
+    )).toEqual([
+      'Tue 18:00 heavy',
+      'Tue 19:00 heavy',
+      'Tue 20:00 light',
+      'Tue 21:00 light'
+    ]);
+    expect(violations.map(v => [v.kind, v.dates])).toEqual([
+      ['subject_latest_time', ['2025-03-11']],
+      ['rest_day', ['2025-03-16']]
+    ]);
+  });
+});
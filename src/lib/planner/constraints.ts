@@ -0,0 +1,190 @@
+import { addMinutes } from 'date-fns';
+import type {
+  ConstraintKind,
+  ConstraintViolation,
+  PlannerConfig,
+  StudyBlock,
+  StudySuggestion,
+  SubjectPriority
+} from './types';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { generateStudyBlocksForSubject } from './blocks';
+import { buildDecisionTrace, withTrace } from './trace';
+import { getCalendarWeekday, getDeviceTimeZone, getWallTime, getZonedDay } from '@/lib/timezone';
+
+// Study already planned on one day
+interface DayUsage {
+  minutes: number;
+  // Regular (non-review) study blocks per subject
+  subjectBlocks: Map<string, number>;
+}
+
+// Constraints another subject cannot get around, so the freed time stays empty
+const DAY_WIDE_CONSTRAINTS: ConstraintKind[] = ['rest_day', 'daily_cap'];
+
+const blockMinutes = (block: StudyBlock) =>
+  (block.endTime.getTime() - block.startTime.getTime()) / 60000;
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Constraint a study block would break on top of the usage so far, if any.
+// Days, weekdays and times of day are those of the user's zone
+export const findBrokenConstraint = (
+  block: StudyBlock,
+  usage: Map<string, DayUsage>,
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG,
+  timeZone: string = getDeviceTimeZone()
+): ConstraintKind | null => {
+  const dayKey = getZonedDay(block.startTime, timeZone);
+  if (config.restDays.includes(getCalendarWeekday(dayKey))) return 'rest_day';
+
+  const latest = block.subject.latest_study_time;
+  if (latest) {
+    const { hour, minute } = getWallTime(block.startTime, timeZone);
+    if (hour * 60 + minute + blockMinutes(block) > minutesOfDay(latest)) return 'subject_latest_time';
+  }
+
+  const day = usage.get(dayKey);
+  const subjectBlocks = day?.subjectBlocks.get(block.subject.id) || 0;
+  if (!block.reviewItemId && config.maxSubjectBlocksPerDay !== null && subjectBlocks >= config.maxSubjectBlocksPerDay) {
+    return 'subject_daily_cap';
+  }
+
+  if (config.maxDailyStudyMinutes !== null && (day?.minutes || 0) + blockMinutes(block) > config.maxDailyStudyMinutes) {
+    return 'daily_cap';
+  }
+
+  return null;
+};
+
+const recordUsage = (block: StudyBlock, usage: Map<string, DayUsage>, timeZone: string) => {
+  const key = getZonedDay(block.startTime, timeZone);
+  const day = usage.get(key) || { minutes: 0, subjectBlocks: new Map<string, number>() };
+  day.minutes += blockMinutes(block);
+  if (!block.reviewItemId) {
+    day.subjectBlocks.set(block.subject.id, (day.subjectBlocks.get(block.subject.id) || 0) + 1);
+  }
+  usage.set(key, day);
+};
+
+interface DroppedBlock {
+  block: StudyBlock;
+  kind: ConstraintKind;
+}
+
+// Keep the study blocks that fit, in order, and the breaks between two kept blocks
+const fitBlocks = (blocks: StudyBlock[], usage: Map<string, DayUsage>, config: PlannerConfig, timeZone: string) => {
+  const keptIndexes = new Set<number>();
+  const dropped: DroppedBlock[] = [];
+
+  blocks.forEach((block, index) => {
+    if (block.isBreak) return;
+    const kind = findBrokenConstraint(block, usage, config, timeZone);
+    if (kind) {
+      dropped.push({ block, kind });
+    } else {
+      recordUsage(block, usage, timeZone);
+      keptIndexes.add(index);
+    }
+  });
+
+  const kept = blocks.filter((block, index) =>
+    keptIndexes.has(index) ||
+    (block.isBreak && keptIndexes.has(index - 1) && keptIndexes.has(index + 1))
+  );
+  return { kept, dropped };
+};
+
+// Give the rest of a slot, after the last kept block and a break, to the first
+// subject by priority that fits there
+const refillSlot = (
+  suggestion: StudySuggestion,
+  lastKept: StudyBlock | undefined,
+  dropped: DroppedBlock[],
+  priorities: SubjectPriority[],
+  usage: Map<string, DayUsage>,
+  config: PlannerConfig,
+  timeZone: string
+): StudyBlock[] => {
+  const { freeSlot } = suggestion;
+  const blockedSubjects = new Set(dropped.map(d => d.block.subject.id));
+  const slot = lastKept
+    ? { ...freeSlot, start_datetime: addMinutes(lastKept.endTime, config.breakMinutes).toISOString() }
+    : freeSlot;
+
+  for (const candidate of priorities) {
+    if (blockedSubjects.has(candidate.subject.id)) continue;
+
+    const { kept } = fitBlocks(generateStudyBlocksForSubject(slot, candidate, config), usage, config, timeZone);
+    if (kept.length === 0) continue;
+
+    const trace = buildDecisionTrace({ reason: 'constraint', chosen: candidate, priorities, config });
+    const refill = withTrace(kept, trace).map(block => ({ ...block, id: `${block.id}-refill` }));
+    if (!lastKept) return refill;
+
+    const breakBlock: StudyBlock = {
+      id: `${freeSlot.id}-break-refill`,
+      subject: candidate.subject,
+      startTime: lastKept.endTime,
+      endTime: addMinutes(lastKept.endTime, config.breakMinutes),
+      isBreak: true,
+      freeSlotId: freeSlot.id
+    };
+    return [breakBlock, ...refill];
+  }
+
+  return [];
+};
+
+/**
+ * Enforce the hard constraints on a plan, slot by slot in time order.
+ *
+ * Study blocks that would break a constraint are dropped. When a subject's own
+ * constraint (its latest time or its daily block cap) frees the end of a slot,
+ * the highest-priority subject that still fits takes that time; rest days and
+ * the daily cap leave it empty. Every dropped block is reported against its
+ * subject and constraint.
+ */
+export const applyPlannerConstraints = (
+  suggestions: StudySuggestion[],
+  priorities: SubjectPriority[],
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG,
+  timeZone: string = getDeviceTimeZone()
+): { suggestions: StudySuggestion[]; violations: ConstraintViolation[] } => {
+  const usage = new Map<string, DayUsage>();
+  const violations = new Map<string, ConstraintViolation>();
+
+  const report = ({ block, kind }: DroppedBlock) => {
+    const key = `${kind}:${block.subject.id}`;
+    const violation = violations.get(key) || { kind, subject: block.subject, dates: [], blockedMinutes: 0 };
+    const date = getZonedDay(block.startTime, timeZone);
+    if (!violation.dates.includes(date)) violation.dates.push(date);
+    violation.blockedMinutes += blockMinutes(block);
+    violations.set(key, violation);
+  };
+
+  const constrained = suggestions.map(suggestion => {
+    const { kept, dropped } = fitBlocks(suggestion.blocks, usage, config, timeZone);
+    dropped.forEach(report);
+    if (dropped.length === 0) return suggestion;
+
+    const lastKept = kept[kept.length - 1];
+    const canRefill =
+      !dropped.some(d => DAY_WIDE_CONSTRAINTS.includes(d.kind)) &&
+      (!lastKept || lastKept.endTime <= dropped[0].block.startTime);
+    const refill = canRefill ? refillSlot(suggestion, lastKept, dropped, priorities, usage, config, timeZone) : [];
+
+    const originalKept = kept.some(block => !block.isBreak && !block.reviewItemId);
+    return {
+      ...suggestion,
+      blocks: [...kept, ...refill],
+      assignedSubject: originalKept ? suggestion.assignedSubject : (refill[0]?.subject ?? kept[0]?.subject),
+      deadline: originalKept ? suggestion.deadline : undefined
+    };
+  });
+
+  return { suggestions: constrained, violations: [...violations.values()] };
+};
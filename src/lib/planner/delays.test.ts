@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, addHours } from 'date-fns';
+import { analyzeDelayHistory, findUnreliableTime, findUnreliableTimes, getDelayBonus } from './delays';
+import { calculateSubjectPriorities } from './priorities';
+import { fixedClock } from './clock';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { makeEvent, makeSubject, TEST_NOW } from './testUtils';
+import type { StudyDelay } from './types';
+
+const clock = fixedClock(TEST_NOW);
+
+let nextId = 0;
+const makeDelay = (subjectId: string, delayedAt: Date, scheduledFor?: Date): StudyDelay => ({
+  id: `delay-${++nextId}`,
+  user_id: 'user-1',
+  subject_id: subjectId,
+  delayed_at: delayedAt.toISOString(),
+  expires_at: addHours(delayedAt, 24).toISOString(),
+  scheduled_for: scheduledFor?.toISOString() ?? null,
+  created_at: delayedAt.toISOString()
+});
+
+// Given up on the Monday 19:00 block of the last n weeks
+const mondayEvenings = (subjectId: string, weeks: number) =>
+  Array.from({ length: weeks }, (_, index) => {
+    const scheduledFor = new Date(2025, 2, 3 - 7 * index, 19, 0);
+    return makeDelay(subjectId, addHours(scheduledFor, 1), scheduledFor);
+  });
+
+describe('getDelayBonus', () => {
+  it.each([
+    [0, 0],
+    [1, 2],
+    [2, 3],
+    [3, 4],
+    [6, 4]
+  ])('escalates for %i recent delay(s) up to twice the base bonus', (delays, expected) => {
+    expect(getDelayBonus(delays, DEFAULT_PLANNER_CONFIG)).toBe(expected);
+  });
+});
+
+describe('calculateSubjectPriorities with a delay log', () => {
+  it('escalates the bonus of an active delay with the recent history', () => {
+    const subject = makeSubject({ id: 'calc' });
+    const delays = [
+      makeDelay('calc', addDays(TEST_NOW, -40)),
+      makeDelay('calc', addDays(TEST_NOW, -10)),
+      makeDelay('calc', addHours(TEST_NOW, -2))
+    ];
+
+    const [priority] = calculateSubjectPriorities([subject], [], delays, { clock });
+
+    expect(priority.recentDelays).toBe(2);
+    expect(priority.delayBonus).toBe(3);
+  });
+
+  it('gives no bonus once every delay has expired', () => {
+    const [priority] = calculateSubjectPriorities(
+      [makeSubject({ id: 'calc' })],
+      [],
+      [makeDelay('calc', addDays(TEST_NOW, -3)), makeDelay('calc', addDays(TEST_NOW, -2))],
+      { clock }
+    );
+
+    expect(priority.recentDelays).toBe(2);
+    expect(priority.delayBonus).toBe(0);
+  });
+});
+
+describe('analyzeDelayHistory', () => {
+  it('counts recent delays per weekday and suggests shorter blocks after repeats', () => {
+    const patterns = analyzeDelayHistory(
+      [...mondayEvenings('calc', 3), makeDelay('hist', addDays(TEST_NOW, -2)), makeDelay('hist', addDays(TEST_NOW, -60))],
+      { clock }
+    );
+
+    expect(patterns.map(p => [p.subjectId, p.delayCount, p.suggestedBlockMinutes])).toEqual([
+      ['calc', 3, 25],
+      ['hist', 1, null]
+    ]);
+    expect(patterns[0].byWeekday).toEqual([0, 3, 0, 0, 0, 0, 0]);
+    expect(patterns[0].escalatedBonus).toBe(4);
+  });
+});
+
+describe('findUnreliableTimes', () => {
+  it('flags weekday hours with repeated given-up blocks', () => {
+    const times = findUnreliableTimes(
+      [...mondayEvenings('calc', 2), ...mondayEvenings('hist', 1), makeDelay('calc', addDays(TEST_NOW, -1))],
+      { clock }
+    );
+
+    expect(times).toEqual([{ weekday: 1, hour: 19, delayCount: 3 }]);
+
+    const eveningSlot = makeEvent({
+      start_datetime: new Date(2025, 2, 17, 18, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 17, 20, 0).toISOString()
+    });
+    const afternoonSlot = makeEvent({
+      start_datetime: new Date(2025, 2, 17, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 17, 16, 0).toISOString()
+    });
+    expect(findUnreliableTime(eveningSlot, times)).toEqual(times[0]);
+    expect(findUnreliableTime(afternoonSlot, times)).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import { addDays, getDay, isAfter, parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { PlannerConfig, PlannerOptions, StudyDelay, SubjectDelayPattern, UnreliableTime } from './types';
+import {
+  DEFAULT_PLANNER_CONFIG,
+  DELAY_ESCALATION_STEP,
+  DELAY_HISTORY_DAYS,
+  MAX_DELAY_ESCALATION,
+  MIN_BLOCK_MINUTES,
+  SPLIT_SUGGESTION_DELAYS,
+  UNRELIABLE_TIME_DELAYS
+} from './constants';
+import { systemClock } from './clock';
+
+// Delays logged within the last DELAY_HISTORY_DAYS
+export const getRecentDelays = (delays: StudyDelay[], now: Date): StudyDelay[] => {
+  const historyStart = addDays(now, -DELAY_HISTORY_DAYS);
+  return delays.filter(delay => isAfter(parseISO(delay.delayed_at), historyStart));
+};
+
+// Bonus for an active delay: each earlier recent delay of the subject adds a
+// step, up to MAX_DELAY_ESCALATION times the configured bonus
+export const getDelayBonus = (recentDelays: number, config: PlannerConfig = DEFAULT_PLANNER_CONFIG): number => {
+  if (recentDelays <= 0) return 0;
+  const escalation = Math.min(1 + DELAY_ESCALATION_STEP * (recentDelays - 1), MAX_DELAY_ESCALATION);
+  return config.delayBonus * escalation;
+};
+
+// Half-length blocks, rounded to 5 minutes; null when they would not be shorter
+export const getSplitBlockMinutes = (config: PlannerConfig = DEFAULT_PLANNER_CONFIG): number | null => {
+  const minutes = Math.max(MIN_BLOCK_MINUTES, Math.round(config.studyBlockMinutes / 2 / 5) * 5);
+  return minutes < config.studyBlockMinutes ? minutes : null;
+};
+
+// When the given-up block was planned; older log entries only know the click time
+const delayedTime = (delay: StudyDelay) => parseISO(delay.scheduled_for ?? delay.delayed_at);
+
+// Per-subject delay history, most delayed subject first
+export const analyzeDelayHistory = (
+  delays: StudyDelay[],
+  { clock = systemClock, config = DEFAULT_PLANNER_CONFIG }: PlannerOptions = {}
+): SubjectDelayPattern[] => {
+  const bySubject = new Map<string, StudyDelay[]>();
+  for (const delay of getRecentDelays(delays, clock())) {
+    bySubject.set(delay.subject_id, [...(bySubject.get(delay.subject_id) || []), delay]);
+  }
+
+  return [...bySubject.entries()]
+    .map(([subjectId, subjectDelays]) => {
+      const byWeekday = Array(7).fill(0);
+      subjectDelays.forEach(delay => byWeekday[getDay(delayedTime(delay))]++);
+
+      return {
+        subjectId,
+        delayCount: subjectDelays.length,
+        byWeekday,
+        escalatedBonus: getDelayBonus(subjectDelays.length + 1, config),
+        suggestedBlockMinutes: subjectDelays.length >= SPLIT_SUGGESTION_DELAYS ? getSplitBlockMinutes(config) : null
+      };
+    })
+    .sort((a, b) => b.delayCount - a.delayCount);
+};
+
+// Weekdays and hours with at least UNRELIABLE_TIME_DELAYS recent given-up blocks
+export const findUnreliableTimes = (
+  delays: StudyDelay[],
+  { clock = systemClock }: PlannerOptions = {}
+): UnreliableTime[] => {
+  const counts = new Map<string, UnreliableTime>();
+
+  for (const delay of getRecentDelays(delays, clock())) {
+    if (!delay.scheduled_for) continue;
+    const time = parseISO(delay.scheduled_for);
+    const key = `${getDay(time)}-${time.getHours()}`;
+    const entry = counts.get(key) || { weekday: getDay(time), hour: time.getHours(), delayCount: 0 };
+    entry.delayCount++;
+    counts.set(key, entry);
+  }
+
+  return [...counts.values()]
+    .filter(entry => entry.delayCount >= UNRELIABLE_TIME_DELAYS)
+    .sort((a, b) => a.weekday - b.weekday || a.hour - b.hour);
+};
+
+// Most skipped unreliable time a slot covers, if any
+export const findUnreliableTime = (slot: CalendarEvent, times: UnreliableTime[]): UnreliableTime | undefined => {
+  const start = parseISO(slot.start_datetime);
+  const end = slot.end_datetime ? parseISO(slot.end_datetime) : start;
+  const lastHour = end.getMinutes() > 0 || end.getHours() === start.getHours() ? end.getHours() : end.getHours() - 1;
+
+  return times
+    .filter(time => time.weekday === getDay(start) && time.hour >= start.getHours() && time.hour <= lastHour)
+    .sort((a, b) => b.delayCount - a.delayCount)[0];
+};
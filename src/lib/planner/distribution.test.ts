@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { distributeSubjectsToSlots, getExtraSlots } from './distribution';
+import { makePriority } from './testUtils';
+
+const countById = (allocation: ReturnType<typeof distributeSubjectsToSlots>) =>
+  allocation.reduce<Record<string, number>>((counts, p) => {
+    counts[p.subject.id] = (counts[p.subject.id] || 0) + 1;
+    return counts;
+  }, {});
+
+describe('getExtraSlots', () => {
+  it.each([
+    [11.9, 0],
+    [12, 1],
+    [14.9, 1],
+    [15, 3],
+    [27, 3]
+  ])('gives a score of %d %i extra slot(s)', (score, expected) => {
+    expect(getExtraSlots(score)).toBe(expected);
+  });
+});
+
+describe('distributeSubjectsToSlots', () => {
+  it('returns nothing without priorities or slots', () => {
+    expect(distributeSubjectsToSlots([], 3)).toEqual([]);
+    expect(distributeSubjectsToSlots([makePriority(10)], 0)).toEqual([]);
+  });
+
+  it('gives every subject one slot plus the 12/15 threshold extras', () => {
+    const priorities = [
+      makePriority(16, { id: 'triple' }),
+      makePriority(13, { id: 'once' }),
+      makePriority(8, { id: 'base' })
+    ];
+
+    const allocation = distributeSubjectsToSlots(priorities, 7);
+
+    expect(countById(allocation)).toEqual({ triple: 4, once: 2, base: 1 });
+  });
+
+  it('keeps only the top scores when there are fewer slots than allocations', () => {
+    const priorities = [
+      makePriority(16, { id: 'triple' }),
+      makePriority(13, { id: 'once' }),
+      makePriority(8, { id: 'base' })
+    ];
+
+    const allocation = distributeSubjectsToSlots(priorities, 5);
+
+    expect(countById(allocation)).toEqual({ triple: 4, once: 1 });
+  });
+
+  it('cycles through priorities when there are more slots than allocations', () => {
+    const priorities = [
+      makePriority(10, { id: 'a' }),
+      makePriority(9, { id: 'b' })
+    ];
+
+    const allocation = distributeSubjectsToSlots(priorities, 5);
+
+    expect(allocation.map(p => p.subject.id)).toEqual(['a', 'b', 'a', 'b', 'a']);
+  });
+});
@@ -0,0 +1,57 @@
+import type { PlannerConfig, SubjectPriority } from './types';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+
+// Calculate how many extra slots a subject should get based on score
+export const getExtraSlots = (score: number, config: PlannerConfig = DEFAULT_PLANNER_CONFIG): number => {
+  if (score >= config.repeatTripleThreshold) return 3;
+  if (score >= config.repeatOnceThreshold) return 1;
+  return 0;
+};
+
+/**
+ * Distribute subjects across free study slots following these rules:
+ * 1. All subjects should appear at least once if there are enough slots
+ * 2. If slots < subjects: show top priority subjects
+ * 3. If slots > subjects: distribute all, then give extra to highest priority
+ * 4. Subject with score >= repeatOnceThreshold (12): repeats once extra
+ * 5. Subject with score >= repeatTripleThreshold (15): repeats 3 times extra
+ */
+export const distributeSubjectsToSlots = (
+  priorities: SubjectPriority[],
+  numSlots: number,
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG
+): SubjectPriority[] => {
+  if (priorities.length === 0 || numSlots === 0) return [];
+
+  // Build initial allocation with extras for high-score subjects
+  let allocation: SubjectPriority[] = [];
+
+  for (const priority of priorities) {
+    // Base slot (everyone gets at least 1)
+    allocation.push(priority);
+
+    // Extra slots based on score thresholds
+    const extras = getExtraSlots(priority.score, config);
+    for (let i = 0; i < extras; i++) {
+      allocation.push(priority);
+    }
+  }
+
+  // If we have more slots than allocated, cycle through priorities
+  if (numSlots > allocation.length) {
+    let idx = 0;
+    while (allocation.length < numSlots) {
+      allocation.push(priorities[idx % priorities.length]);
+      idx++;
+    }
+  }
+
+  // If we have fewer slots than allocated, take top priorities
+  if (numSlots < allocation.length) {
+    // Sort by score to prioritize high-scoring subjects
+    allocation.sort((a, b) => b.score - a.score);
+    allocation = allocation.slice(0, numSlots);
+  }
+
+  return allocation;
+};
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { getEnergyCurve, getSlotEnergy, matchSubjectsToEnergy } from './energy';
+import { placeReviewBlocks } from './reviews';
+import { DEFAULT_PLANNER_CONFIG, ENERGY_CURVES } from './constants';
+import { makeEvent, makePriority } from './testUtils';
+import type { SubjectPriority } from './types';
+import { zonedDateTimeToUtc } from '@/lib/timezone';
+
+const slotAt = (id: string, day: number, startHour: number, endHour: number) => makeEvent({
+  id,
+  start_datetime: new Date(2025, 2, day, startHour, 0).toISOString(),
+  end_datetime: new Date(2025, 2, day, endHour, 0).toISOString()
+});
+
+const withDifficulty = (id: string, difficulty: number): SubjectPriority => ({
+  ...makePriority(12, { id, difficulty_weight: difficulty }),
+  difficultyWeight: difficulty
+});
+const hard = withDifficulty('hard', 5);
+const light = withDifficulty('light', 1);
+
+describe('getEnergyCurve', () => {
+  it('uses the preset of a chronotype and falls back to neutral for an incomplete custom curve', () => {
+    expect(getEnergyCurve('morning')).toBe(ENERGY_CURVES.morning);
+    expect(getEnergyCurve('custom', [5, 4])).toBe(ENERGY_CURVES.neutral);
+    expect(getEnergyCurve('custom', Array(24).fill(2))).toEqual(Array(24).fill(2));
+  });
+});
+
+describe('getSlotEnergy', () => {
+  it('averages the curve over the minutes of the slot', () => {
+    const curve = Array.from({ length: 24 }, (_, hour) => (hour === 9 ? 5 : 1));
+    const slot = makeEvent({
+      start_datetime: new Date(2025, 2, 10, 8, 30).toISOString(),
+      end_datetime: new Date(2025, 2, 10, 10, 0).toISOString()
+    });
+
+    // 30 minutes at level 1, 60 minutes at level 5
+    expect(getSlotEnergy(slot, curve)).toBeCloseTo((30 + 300) / 90);
+  });
+
+  it('reads the hours of the given time zone', () => {
+    const curve = Array.from({ length: 24 }, (_, hour) => (hour === 9 ? 5 : 1));
+    const timeZone = 'Asia/Kolkata';
+    const slot = makeEvent({
+      start_datetime: zonedDateTimeToUtc('2025-03-10', '08:30', timeZone).toISOString(),
+      end_datetime: zonedDateTimeToUtc('2025-03-10', '10:00', timeZone).toISOString()
+    });
+
+    // Half-hour offset: the hours still break on the zone's wall clock
+    expect(getSlotEnergy(slot, curve, timeZone)).toBeCloseTo((30 + 300) / 90);
+  });
+});
+
+describe('matchSubjectsToEnergy', () => {
+  const slots = [slotAt('mon-morning', 10, 8, 10), slotAt('mon-night', 10, 21, 23), slotAt('tue-night', 11, 21, 23)];
+  const ids = (allocation: SubjectPriority[]) => allocation.map(p => p.subject.id);
+
+  it('moves difficult subjects to the high-energy slots of the same day', () => {
+    const allocation = [light, hard, light];
+
+    expect(ids(matchSubjectsToEnergy(allocation, slots, ENERGY_CURVES.morning))).toEqual(['hard', 'light', 'light']);
+    expect(ids(matchSubjectsToEnergy([hard, light, hard], slots, ENERGY_CURVES.evening)))
+      .toEqual(['light', 'hard', 'hard']);
+  });
+
+  it('never moves a subject to another day', () => {
+    const allocation = [light, light, hard];
+
+    expect(ids(matchSubjectsToEnergy(allocation, slots, ENERGY_CURVES.morning))).toEqual(['light', 'light', 'hard']);
+  });
+
+  it('keeps the allocation as it is with a flat curve', () => {
+    const allocation = [light, hard, light];
+
+    expect(matchSubjectsToEnergy(allocation, slots, ENERGY_CURVES.neutral)).toBe(allocation);
+  });
+});
+
+describe('placeReviewBlocks with an energy curve', () => {
+  it('puts reviews in the lowest-energy slot of their day', () => {
+    const slots = [slotAt('mon-morning', 10, 8, 10), slotAt('mon-night', 10, 21, 23)];
+    const item = {
+      id: 'review-1',
+      user_id: 'user-1',
+      subject_id: 'hard',
+      topic: 'Limites',
+      ease_factor: 2.5,
+      interval_days: 1,
+      repetitions: 1,
+      next_due_at: new Date(2025, 2, 10, 0, 0).toISOString(),
+      created_at: '2025-03-01T00:00:00.000Z',
+      updated_at: '2025-03-01T00:00:00.000Z'
+    };
+    const config = { ...DEFAULT_PLANNER_CONFIG, energyCurve: ENERGY_CURVES.morning };
+
+    const { reviewBlocks } = placeReviewBlocks(slots, [item], [hard], config);
+
+    expect([...reviewBlocks.keys()]).toEqual(['mon-night']);
+    expect(format(reviewBlocks.get('mon-night')![0].startTime, 'HH:mm')).toBe('21:00');
+  });
+});
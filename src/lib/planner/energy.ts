@@ -0,0 +1,80 @@
+import { addMinutes, isBefore, min, parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { Chronotype, SubjectPriority } from './types';
+import { ENERGY_CURVES } from './constants';
+import { getDeviceTimeZone, getWallTime, getZonedDay } from '@/lib/timezone';
+
+// Energy curve of a chronotype, falling back to neutral when a custom curve is missing
+export const getEnergyCurve = (chronotype: Chronotype, customCurve?: number[] | null): number[] => {
+  if (chronotype !== 'custom') return ENERGY_CURVES[chronotype];
+  return customCurve && customCurve.length === 24 ? customCurve : ENERGY_CURVES.neutral;
+};
+
+export const isFlatCurve = (curve: number[]): boolean => curve.every(level => level === curve[0]);
+
+// Average energy over a slot, weighted by the minutes spent in each hour of
+// the day in the user's zone
+export const getSlotEnergy = (
+  slot: CalendarEvent,
+  curve: number[],
+  timeZone: string = getDeviceTimeZone()
+): number => {
+  const start = parseISO(slot.start_datetime);
+  const startHour = getWallTime(start, timeZone).hour;
+  if (!slot.end_datetime) return curve[startHour];
+
+  const end = parseISO(slot.end_datetime);
+  let total = 0;
+  let minutes = 0;
+
+  for (let hourStart = start; isBefore(hourStart, end);) {
+    const { hour, minute } = getWallTime(hourStart, timeZone);
+    const hourEnd = min([addMinutes(hourStart, 60 - minute), end]);
+    const span = (hourEnd.getTime() - hourStart.getTime()) / 60000;
+    total += curve[hour] * span;
+    minutes += span;
+    hourStart = hourEnd;
+  }
+
+  return minutes > 0 ? total / minutes : curve[startHour];
+};
+
+/**
+ * Reorder an allocation (one subject per slot, as produced by
+ * `distributeSubjectsToSlots`) so that, within each day, the most difficult
+ * subjects get the highest-energy slots. Subjects never move to another day,
+ * so urgency and the number of slots per subject are unchanged; ties keep the
+ * original order, which makes a flat curve a no-op.
+ */
+export const matchSubjectsToEnergy = (
+  allocation: SubjectPriority[],
+  slots: CalendarEvent[],
+  curve: number[],
+  timeZone: string = getDeviceTimeZone()
+): SubjectPriority[] => {
+  if (isFlatCurve(curve)) return allocation;
+
+  const result = [...allocation];
+  const slotIndicesByDay = new Map<string, number[]>();
+
+  slots.forEach((slot, index) => {
+    if (!allocation[index]) return;
+    const day = getZonedDay(parseISO(slot.start_datetime), timeZone);
+    slotIndicesByDay.set(day, [...(slotIndicesByDay.get(day) || []), index]);
+  });
+
+  for (const indices of slotIndicesByDay.values()) {
+    const byEnergy = [...indices].sort(
+      (a, b) => getSlotEnergy(slots[b], curve, timeZone) - getSlotEnergy(slots[a], curve, timeZone)
+    );
+    const byDifficulty = indices
+      .map(index => allocation[index])
+      .sort((a, b) => b.difficultyWeight - a.difficultyWeight);
+
+    byEnergy.forEach((slotIndex, rank) => {
+      result[slotIndex] = byDifficulty[rank];
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { buildExamPrepPlan, getExamPrepIntensity } from './examPrep';
+import { fixedClock } from './clock';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { makeEvent, makeSubject, TEST_NOW } from './testUtils';
+
+const clock = fixedClock(TEST_NOW);
+
+const calc = makeSubject({ id: 'calc', name: 'Cálculo' });
+const topics = ['Limites', 'Derivadas', 'Integrais'];
+
+// Daily 14:00-18:00 slot: room for four 50-minute blocks
+const dailySlot = makeEvent({
+  id: 'daily',
+  start_datetime: new Date(2025, 2, 3, 14, 0).toISOString(),
+  end_datetime: new Date(2025, 2, 3, 18, 0).toISOString(),
+  is_recurring: true,
+  recurrence_pattern: 'daily'
+});
+
+// Thursday, 20 March 2025
+const exam = makeEvent({
+  id: 'prova',
+  title: 'P1 de Cálculo',
+  event_type: 'deadline',
+  deadline_kind: 'prova',
+  subject_id: 'calc',
+  start_datetime: new Date(2025, 2, 20, 9, 0).toISOString(),
+  end_datetime: undefined
+});
+
+const studyCount = (blocks: { isBreak: boolean }[]) => blocks.filter(b => !b.isBreak).length;
+
+describe('getExamPrepIntensity', () => {
+  it('rises as the exam nears and is light on the day before', () => {
+    expect([10, 8, 7, 4, 3, 2, 1].map(getExamPrepIntensity))
+      .toEqual(['moderate', 'moderate', 'high', 'high', 'peak', 'peak', 'light']);
+  });
+});
+
+describe('buildExamPrepPlan', () => {
+  it('schedules every day until the exam with escalating intensity', () => {
+    const plan = buildExamPrepPlan(exam, calc, topics, [dailySlot], { clock });
+
+    expect(plan.days.map(d => d.date)).toEqual([
+      '2025-03-10', '2025-03-11', '2025-03-12', '2025-03-13', '2025-03-14',
+      '2025-03-15', '2025-03-16', '2025-03-17', '2025-03-18', '2025-03-19'
+    ]);
+    expect(plan.days.map(d => studyCount(d.blocks))).toEqual([2, 2, 2, 3, 3, 3, 3, 4, 4, 1]);
+    expect(plan.days.every(d => d.blocks.every(b => b.subject.id === 'calc'))).toBe(true);
+    expect(plan.suggestions.every(s => s.deadline?.id === 'prova')).toBe(true);
+  });
+
+  it('covers the syllabus in order before revisiting topics', () => {
+    const plan = buildExamPrepPlan(exam, calc, topics, [dailySlot], { clock });
+
+    expect(plan.days[0].topics).toEqual(['Limites', 'Derivadas']);
+    expect(plan.days[1].topics).toEqual(['Integrais', 'Limites']);
+    expect(plan.uncoveredTopics).toEqual([]);
+  });
+
+  it('ends with a light general review and never a break', () => {
+    const plan = buildExamPrepPlan(exam, calc, topics, [dailySlot], { clock });
+    const lightDay = plan.days[plan.days.length - 1];
+
+    expect(lightDay.intensity).toBe('light');
+    expect(lightDay.blocks).toHaveLength(1);
+    expect(lightDay.blocks[0].prepTopic).toBeUndefined();
+    expect(lightDay.topics).toEqual(topics);
+    expect(plan.days.every(d => d.blocks.length === 0 || !d.blocks[d.blocks.length - 1].isBreak)).toBe(true);
+  });
+
+  it('keeps rest days empty and reports topics left without a block', () => {
+    const lateSlot = makeEvent({
+      id: 'late',
+      start_datetime: new Date(2025, 2, 19, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 19, 15, 0).toISOString()
+    });
+    const restDays = buildExamPrepPlan(exam, calc, topics, [dailySlot], {
+      clock,
+      config: { ...DEFAULT_PLANNER_CONFIG, restDays: [0] }
+    });
+    const lateOnly = buildExamPrepPlan(exam, calc, topics, [lateSlot], { clock });
+
+    const sunday = restDays.days.find(d => d.date === '2025-03-16')!;
+    expect(sunday.targetBlocks).toBe(0);
+    expect(sunday.blocks).toEqual([]);
+    expect(lateOnly.suggestions.map(s => s.freeSlot.id)).toEqual(['late']);
+    expect(lateOnly.uncoveredTopics).toEqual(topics);
+  });
+
+  it('plans nothing once the exam has started', () => {
+    const plan = buildExamPrepPlan(exam, calc, topics, [dailySlot], {
+      clock: fixedClock(new Date(2025, 2, 20, 10, 0))
+    });
+
+    expect(plan.days).toEqual([]);
+    expect(plan.suggestions).toEqual([]);
+  });
+});
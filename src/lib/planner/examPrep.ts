@@ -0,0 +1,142 @@
+import { isAfter, parseISO } from 'date-fns';
+import type { Subject } from '@/hooks/useSubjects';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import { addCalendarDays, getCalendarWeekday, getDeviceTimeZone, getZonedDay } from '@/lib/timezone';
+import type {
+  BlockFrame,
+  ExamPrepDay,
+  ExamPrepIntensity,
+  ExamPrepPlan,
+  PlannerOptions,
+  StudyBlock,
+  StudySuggestion
+} from './types';
+import {
+  DEFAULT_PLANNER_CONFIG,
+  EXAM_PREP_DAILY_BLOCKS,
+  EXAM_PREP_HIGH_DAYS,
+  EXAM_PREP_PEAK_DAYS
+} from './constants';
+import { systemClock } from './clock';
+import { generateBlockLayout } from './blocks';
+import { getPlannableFreeSlots } from './horizon';
+
+// Load of a day by the number of days left until the exam (1 = the day before)
+export const getExamPrepIntensity = (daysLeft: number): ExamPrepIntensity => {
+  if (daysLeft <= 1) return 'light';
+  if (daysLeft <= EXAM_PREP_PEAK_DAYS) return 'peak';
+  if (daysLeft <= EXAM_PREP_HIGH_DAYS) return 'high';
+  return 'moderate';
+};
+
+// The first `count` study frames of a slot, with the breaks between them
+const takeStudyFrames = (frames: BlockFrame[], count: number): BlockFrame[] => {
+  const taken: BlockFrame[] = [];
+  let studyCount = 0;
+
+  for (const frame of frames) {
+    if (studyCount === count) break;
+    if (frame.isBreak) {
+      taken.push(frame);
+      continue;
+    }
+    taken.push(frame);
+    studyCount++;
+  }
+
+  // Never end on a break
+  while (taken.length > 0 && taken[taken.length - 1].isBreak) taken.pop();
+  return taken;
+};
+
+/**
+ * Day-by-day revision schedule for a prova, from today until the day before it.
+ *
+ * Each day gets more study blocks as the exam nears (see EXAM_PREP_DAILY_BLOCKS)
+ * and the day before is a light general review. Blocks fill the day's free
+ * slots in time order; rest days stay empty. Topics are handed out in syllabus
+ * order so every topic is covered once before any is revisited.
+ */
+export const buildExamPrepPlan = (
+  deadline: CalendarEvent,
+  subject: Subject,
+  topics: string[],
+  freeSlots: CalendarEvent[],
+  options: PlannerOptions = {}
+): ExamPrepPlan => {
+  const { clock = systemClock, config = DEFAULT_PLANNER_CONFIG, timeZone = getDeviceTimeZone() } = options;
+  const now = clock();
+  const examStart = parseISO(deadline.start_datetime);
+  const examDay = getZonedDay(examStart, timeZone);
+
+  const dates: string[] = [];
+  for (let date = getZonedDay(now, timeZone); date < examDay; date = addCalendarDays(date, 1)) {
+    dates.push(date);
+  }
+
+  const days: ExamPrepDay[] = dates.map((date, index) => {
+    const intensity = getExamPrepIntensity(dates.length - index);
+    const isRestDay = config.restDays.includes(getCalendarWeekday(date));
+    return {
+      date,
+      intensity,
+      targetBlocks: isRestDay ? 0 : EXAM_PREP_DAILY_BLOCKS[intensity],
+      blocks: [],
+      topics: []
+    };
+  });
+
+  const slots = isAfter(examStart, now)
+    ? getPlannableFreeSlots(freeSlots, now, examStart, timeZone)
+      .filter(slot => slot.end_datetime && !isAfter(parseISO(slot.end_datetime), examStart))
+    : [];
+
+  const suggestions: StudySuggestion[] = [];
+  const covered = new Set<string>();
+  let nextTopic = 0;
+
+  for (const day of days) {
+    let studyBlocks = 0;
+
+    for (const slot of slots.filter(s => getZonedDay(parseISO(s.start_datetime), timeZone) === day.date)) {
+      if (studyBlocks >= day.targetBlocks) break;
+
+      const frames = takeStudyFrames(generateBlockLayout(slot, config), day.targetBlocks - studyBlocks);
+      if (frames.length === 0) continue;
+
+      const blocks: StudyBlock[] = frames.map((frame, index) => {
+        let prepTopic: string | undefined;
+        if (!frame.isBreak && day.intensity !== 'light' && topics.length > 0) {
+          prepTopic = topics[nextTopic % topics.length];
+          nextTopic++;
+          covered.add(prepTopic);
+          if (!day.topics.includes(prepTopic)) day.topics.push(prepTopic);
+        }
+
+        return {
+          id: `${slot.id}-prep-${index}`,
+          subject,
+          startTime: frame.startTime,
+          endTime: frame.endTime,
+          isBreak: frame.isBreak,
+          freeSlotId: slot.id,
+          prepTopic
+        };
+      });
+
+      studyBlocks += blocks.filter(block => !block.isBreak).length;
+      day.blocks.push(...blocks);
+      suggestions.push({ freeSlot: slot, blocks, assignedSubject: subject, deadline });
+    }
+
+    if (day.intensity === 'light' && day.blocks.length > 0) day.topics = [...topics];
+  }
+
+  return {
+    deadline,
+    subject,
+    days,
+    suggestions,
+    uncoveredTopics: topics.filter(topic => !covered.has(topic))
+  };
+};
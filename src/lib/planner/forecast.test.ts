@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { forecastWeeklyWorkload } from './forecast';
+import { fixedClock } from './clock';
+import { makeEvent, makePriority, TEST_NOW } from './testUtils';
+
+// Weeks start on Sunday
+const clock = fixedClock(TEST_NOW);
+
+// Weekly Monday/Wednesday 19:00-20:00 slot: 100 study minutes per week
+const weeklySlot = makeEvent({
+  id: 'weekly',
+  start_datetime: new Date(2025, 1, 24, 19, 0).toISOString(),
+  end_datetime: new Date(2025, 1, 24, 20, 0).toISOString(),
+  is_recurring: true,
+  recurrence_pattern: 'weekly',
+  recurrence_days: [1, 3]
+});
+
+const weekLabel = (date: Date) => format(date, 'dd/MM');
+
+describe('forecastWeeklyWorkload', () => {
+  // D + B = 6: 90 baseline minutes per full week
+  const priorities = [makePriority(10)];
+
+  it('compares the weight baseline, prorated in the current week, with the free study time', () => {
+    const weeks = forecastWeeklyWorkload(priorities, [weeklySlot], [], { clock }, 3);
+
+    expect(weeks.map(w => [weekLabel(w.weekStart), weekLabel(w.weekEnd)])).toEqual([
+      ['09/03', '15/03'],
+      ['16/03', '22/03'],
+      ['23/03', '29/03']
+    ]);
+    expect(weeks.map(w => [w.availableMinutes, w.requiredMinutes])).toEqual([[100, 73], [100, 90], [100, 90]]);
+    expect(weeks.every(w => w.overloadMinutes === 0)).toBe(true);
+  });
+
+  it('counts due reviews in their week and overdue ones in the current week', () => {
+    const reviewItem = (id: string, dueAt: Date) => ({
+      id,
+      user_id: 'user-1',
+      subject_id: 'subject-1',
+      topic: id,
+      ease_factor: 2.5,
+      interval_days: 1,
+      repetitions: 1,
+      next_due_at: dueAt.toISOString(),
+      created_at: TEST_NOW.toISOString(),
+      updated_at: TEST_NOW.toISOString()
+    });
+
+    const weeks = forecastWeeklyWorkload(priorities, [weeklySlot], [], {
+      clock,
+      reviewItems: [reviewItem('overdue', new Date(2025, 2, 5)), reviewItem('next', new Date(2025, 2, 18))]
+    }, 3);
+
+    expect(weeks.map(w => w.subjects[0].reviewMinutes)).toEqual([15, 15, 0]);
+  });
+
+  it('spreads deadline effort over the days before it and front-loads overloaded weeks', () => {
+    const paper = makeEvent({
+      id: 'trabalho',
+      event_type: 'deadline',
+      subject_id: 'subject-1',
+      start_datetime: new Date(2025, 2, 28, 9, 0).toISOString(),
+      end_datetime: undefined,
+      estimated_effort_hours: 3
+    });
+    // One-off Thursday afternoon: 200 extra study minutes this week
+    const thursday = makeEvent({
+      id: 'thursday',
+      start_datetime: new Date(2025, 2, 13, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 13, 18, 0).toISOString()
+    });
+
+    const weeks = forecastWeeklyWorkload(priorities, [weeklySlot, thursday], [paper], { clock }, 3);
+
+    expect(weeks.map(w => w.subjects[0].deadlineMinutes)).toEqual([0, 42, 138]);
+    expect(weeks[2].deadlines.map(d => d.id)).toEqual(['trabalho']);
+    expect(weeks.map(w => w.overloadMinutes)).toEqual([0, 32, 128]);
+    expect(weeks[2].frontLoad.map(f => [weekLabel(f.weekStart), f.minutes])).toEqual([['09/03', 128]]);
+    expect(weeks[1].frontLoad.map(f => [weekLabel(f.weekStart), f.minutes])).toEqual([['09/03', 32]]);
+    expect(weeks.map(w => w.unresolvedMinutes)).toEqual([0, 0, 0]);
+  });
+
+  it('leaves the overflow unresolved when no earlier week has spare time', () => {
+    const exam = makeEvent({
+      id: 'prova',
+      event_type: 'deadline',
+      subject_id: 'subject-1',
+      start_datetime: new Date(2025, 2, 14, 9, 0).toISOString(),
+      end_datetime: undefined,
+      estimated_effort_hours: 4
+    });
+
+    const [current] = forecastWeeklyWorkload(priorities, [weeklySlot], [exam], { clock }, 1);
+
+    expect(current.requiredMinutes).toBe(73 + 240);
+    expect(current.unresolvedMinutes).toBe(current.overloadMinutes);
+    expect(current.frontLoad).toEqual([]);
+  });
+});
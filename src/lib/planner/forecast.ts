@@ -0,0 +1,130 @@
+import { addDays, addWeeks, isAfter, isBefore, max, min, parseISO, startOfWeek } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { PlannerOptions, SubjectPriority, SubjectWorkload, WeekForecast } from './types';
+import {
+  BASELINE_MINUTES_PER_WEIGHT,
+  DEADLINE_PREP_DAYS,
+  DEFAULT_PLANNER_CONFIG,
+  FORECAST_WEEKS,
+  REVIEW_BLOCK_MINUTES
+} from './constants';
+import { systemClock } from './clock';
+import { getSlotStudyMinutes } from './blocks';
+import { getPlannableFreeSlots } from './horizon';
+
+const minutesBetween = (start: Date, end: Date) => Math.max(0, (end.getTime() - start.getTime()) / 60000);
+
+// Share of a deadline's effort that falls in [from, to), assuming it is spread
+// evenly over the DEADLINE_PREP_DAYS before the deadline (or from now, if later)
+const deadlineEffortInRange = (deadline: CalendarEvent, now: Date, from: Date, to: Date): number => {
+  const deadlineStart = parseISO(deadline.start_datetime);
+  const prepStart = max([now, addDays(deadlineStart, -DEADLINE_PREP_DAYS)]);
+  const prepMinutes = minutesBetween(prepStart, deadlineStart);
+  if (prepMinutes === 0) return 0;
+
+  const overlap = minutesBetween(max([prepStart, from]), min([deadlineStart, to]));
+  return (Number(deadline.estimated_effort_hours) * 60 * overlap) / prepMinutes;
+};
+
+/**
+ * Compare, week by week, the study time the plan needs with the free study
+ * time available, so over-committed weeks show up before they arrive.
+ *
+ * A subject needs its weight baseline every week, the part of each deadline
+ * effort whose preparation window overlaps the week and one review block per
+ * topic falling due. Only AI-assigned free slots count as available, as in the
+ * planner. The overflow of an overloaded week is handed, latest week first, to
+ * the closest earlier weeks with spare time: those are the weeks to front-load.
+ */
+export const forecastWeeklyWorkload = (
+  priorities: SubjectPriority[],
+  freeSlots: CalendarEvent[],
+  deadlines: CalendarEvent[],
+  options: PlannerOptions = {},
+  weeks: number = FORECAST_WEEKS
+): WeekForecast[] => {
+  const { clock = systemClock, config = DEFAULT_PLANNER_CONFIG, reviewItems = [], timeZone } = options;
+  const now = clock();
+  const firstWeekStart = startOfWeek(now, { weekStartsOn: 0 });
+  const forecastEnd = addWeeks(firstWeekStart, weeks);
+
+  const slots = getPlannableFreeSlots(freeSlots, now, forecastEnd, timeZone);
+  const futureDeadlines = deadlines
+    .filter(d => d.subject_id)
+    .filter(d => isAfter(parseISO(d.start_datetime), now));
+
+  const forecasts: WeekForecast[] = Array.from({ length: weeks }, (_, index) => {
+    const weekStart = addWeeks(firstWeekStart, index);
+    const nextWeekStart = addWeeks(weekStart, 1);
+    // Only what is left of the current week still needs planning
+    const from = index === 0 ? now : weekStart;
+    const weekFraction = minutesBetween(from, nextWeekStart) / minutesBetween(weekStart, nextWeekStart);
+    const inWeek = (date: Date) => !isBefore(date, from) && isBefore(date, nextWeekStart);
+
+    const availableMinutes = slots
+      .filter(slot => inWeek(parseISO(slot.start_datetime)))
+      .reduce((total, slot) => total + getSlotStudyMinutes(slot, config), 0);
+
+    const subjects: SubjectWorkload[] = priorities
+      .map(priority => {
+        const subjectId = priority.subject.id;
+        const baselineMinutes = Math.round(
+          (priority.difficultyWeight + priority.dedicationWeight) * BASELINE_MINUTES_PER_WEIGHT * weekFraction
+        );
+        const deadlineMinutes = Math.round(
+          futureDeadlines
+            .filter(d => d.subject_id === subjectId && Number(d.estimated_effort_hours) > 0)
+            .reduce((total, d) => total + deadlineEffortInRange(d, now, from, nextWeekStart), 0)
+        );
+        // Overdue reviews belong to the current week
+        const reviewMinutes = reviewItems
+          .filter(item => item.subject_id === subjectId)
+          .filter(item => {
+            const dueAt = parseISO(item.next_due_at);
+            return isBefore(dueAt, nextWeekStart) && (index === 0 || !isBefore(dueAt, weekStart));
+          }).length * REVIEW_BLOCK_MINUTES;
+
+        return {
+          priority,
+          baselineMinutes,
+          deadlineMinutes,
+          reviewMinutes,
+          totalMinutes: baselineMinutes + deadlineMinutes + reviewMinutes
+        };
+      })
+      .filter(workload => workload.totalMinutes > 0);
+
+    const requiredMinutes = subjects.reduce((total, workload) => total + workload.totalMinutes, 0);
+    const overloadMinutes = Math.max(0, requiredMinutes - availableMinutes);
+
+    return {
+      weekStart,
+      weekEnd: addDays(nextWeekStart, -1),
+      availableMinutes,
+      requiredMinutes,
+      subjects,
+      deadlines: futureDeadlines.filter(d => inWeek(parseISO(d.start_datetime))),
+      overloadMinutes,
+      frontLoad: [],
+      unresolvedMinutes: overloadMinutes
+    };
+  });
+
+  // Spare time of each week, consumed as overflow is moved into it
+  const spareMinutes = forecasts.map(week => Math.max(0, week.availableMinutes - week.requiredMinutes));
+
+  for (let index = forecasts.length - 1; index > 0; index--) {
+    const week = forecasts[index];
+
+    for (let earlier = index - 1; earlier >= 0 && week.unresolvedMinutes > 0; earlier--) {
+      const minutes = Math.min(spareMinutes[earlier], week.unresolvedMinutes);
+      if (minutes === 0) continue;
+
+      spareMinutes[earlier] -= minutes;
+      week.unresolvedMinutes -= minutes;
+      week.frontLoad.push({ weekStart: forecasts[earlier].weekStart, minutes });
+    }
+  }
+
+  return forecasts;
+};
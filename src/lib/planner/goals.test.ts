@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { addMinutes } from 'date-fns';
+import { analyzeWeeklyGoals, getGoalBonus } from './goals';
+import { calculateSubjectPriorities } from './priorities';
+import { fixedClock } from './clock';
+import { makeSubject } from './testUtils';
+import type { StudySessionLog } from './types';
+
+const TZ = 'America/Sao_Paulo';
+// Wednesday, 12 March 2025, 09:00 in São Paulo
+const NOW = new Date(Date.UTC(2025, 2, 12, 12, 0));
+const clock = fixedClock(NOW);
+
+let nextId = 0;
+const makeLog = (subjectId: string, startedAt: Date, actualMinutes: number, overrides: Partial<StudySessionLog> = {}): StudySessionLog => ({
+  id: `log-${++nextId}`,
+  user_id: 'user-1',
+  subject_id: subjectId,
+  status: 'completed',
+  started_at: startedAt.toISOString(),
+  resumed_at: null,
+  ended_at: addMinutes(startedAt, actualMinutes).toISOString(),
+  actual_minutes: actualMinutes,
+  planned_minutes: 50,
+  created_at: startedAt.toISOString(),
+  updated_at: startedAt.toISOString(),
+  ...overrides
+});
+
+describe('getGoalBonus', () => {
+  it('shrinks from the full bonus to zero as the minimum is met', () => {
+    expect(getGoalBonus(120, 0)).toBe(1.5);
+    expect(getGoalBonus(120, 60)).toBe(0.75);
+    expect(getGoalBonus(120, 120)).toBe(0);
+    expect(getGoalBonus(0, 0)).toBe(0);
+  });
+});
+
+describe('analyzeWeeklyGoals', () => {
+  it('counts the logs of the current week in the user zone', () => {
+    const logs = [
+      // Monday 10 March, 08:00 in São Paulo
+      makeLog('calc', new Date(Date.UTC(2025, 2, 10, 11, 0)), 60),
+      // Sunday 9 March, 23:00 in São Paulo, though already Monday in UTC
+      makeLog('calc', new Date(Date.UTC(2025, 2, 10, 2, 0)), 90),
+      makeLog('hist', new Date(Date.UTC(2025, 2, 11, 20, 0)), 30),
+      makeLog('fis', addMinutes(NOW, -20), 0, {
+        status: 'started',
+        resumed_at: addMinutes(NOW, -20).toISOString(),
+        ended_at: null
+      })
+    ];
+
+    const progress = analyzeWeeklyGoals(
+      { weeklyMinutes: 600, subjectMinutes: { calc: 120, hist: 30, bio: 0 } },
+      logs,
+      { clock, timeZone: TZ }
+    );
+
+    expect(progress).toEqual({
+      week: '2025-03-10',
+      targetMinutes: 600,
+      minutes: 110,
+      subjects: [
+        { subjectId: 'calc', targetMinutes: 120, minutes: 60, bonus: 0.75 },
+        { subjectId: 'hist', targetMinutes: 30, minutes: 30, bonus: 0 }
+      ]
+    });
+  });
+
+  it('moves a subject short of its minimum up the priorities', () => {
+    const calc = makeSubject({ id: 'calc', difficulty_weight: 3, dedication_weight: 3 });
+    const hist = makeSubject({ id: 'hist', difficulty_weight: 3, dedication_weight: 3 });
+    const { subjects: goalProgress } = analyzeWeeklyGoals(
+      { weeklyMinutes: null, subjectMinutes: { calc: 60, hist: 60 } },
+      [makeLog('hist', addMinutes(NOW, -120), 60)],
+      { clock, timeZone: TZ }
+    );
+
+    const priorities = calculateSubjectPriorities([hist, calc], [], [], { clock, goalProgress });
+
+    expect(priorities.map(p => [p.subject.id, p.goalBonus, p.score])).toEqual([
+      ['calc', 1.5, 7.5],
+      ['hist', 0, 6]
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { parseISO } from 'date-fns';
+import type { PlannerOptions, StudyGoals, StudySessionLog, WeeklyGoalProgress } from './types';
+import { GOAL_BONUS } from './constants';
+import { systemClock } from './clock';
+import { getLoggedMinutes } from './studyTime';
+import { getDeviceTimeZone, getWeekStart, getZonedDay } from '@/lib/timezone';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Bonus for a subject's weekly minimum: full with nothing studied, zero once met
+export const getGoalBonus = (targetMinutes: number, minutes: number): number => {
+  if (targetMinutes <= 0 || minutes >= targetMinutes) return 0;
+  return round(GOAL_BONUS * (targetMinutes - minutes) / targetMinutes);
+};
+
+/**
+ * Logged minutes of the current week (Monday to Sunday in the user's zone)
+ * against the weekly goals. Per-subject progress feeds the planner through
+ * `goalProgress`, a soft push towards the minimums rather than a constraint.
+ */
+export const analyzeWeeklyGoals = (
+  goals: StudyGoals,
+  logs: StudySessionLog[],
+  { clock = systemClock, timeZone = getDeviceTimeZone() }: PlannerOptions = {}
+): WeeklyGoalProgress => {
+  const now = clock();
+  const week = getWeekStart(getZonedDay(now, timeZone));
+  const minutesBySubject = new Map<string, number>();
+
+  logs
+    .filter(log => getWeekStart(getZonedDay(parseISO(log.started_at), timeZone)) === week)
+    .forEach(log => {
+      minutesBySubject.set(log.subject_id, (minutesBySubject.get(log.subject_id) ?? 0) + getLoggedMinutes(log, now));
+    });
+
+  const total = [...minutesBySubject.values()].reduce((sum, minutes) => sum + minutes, 0);
+
+  return {
+    week,
+    targetMinutes: goals.weeklyMinutes,
+    minutes: Math.round(total),
+    subjects: Object.entries(goals.subjectMinutes)
+      .filter(([, targetMinutes]) => targetMinutes > 0)
+      .map(([subjectId, targetMinutes]) => {
+        const minutes = minutesBySubject.get(subjectId) ?? 0;
+        return {
+          subjectId,
+          targetMinutes,
+          minutes: Math.round(minutes),
+          bonus: getGoalBonus(targetMinutes, minutes)
+        };
+      })
+  };
+};
@@ -0,0 +1,52 @@
+import { isAfter, isBefore, parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import { expandEventsInRange } from '@/lib/recurrence';
+import { addCalendarDays, getDeviceTimeZone, getZonedDay, zonedDateTimeToUtc } from '@/lib/timezone';
+import { PLANNING_HORIZON_DAYS } from './constants';
+
+// Last instant of a calendar day ('yyyy-MM-dd') in the zone
+const endOfZonedDay = (day: string, timeZone: string) =>
+  new Date(zonedDateTimeToUtc(addCalendarDays(day, 1), '00:00', timeZone).getTime() - 1);
+
+// End of the planning horizon: PLANNING_HORIZON_DAYS ahead, capped at the end of the
+// academic period; days end at midnight in the user's time zone
+export const getPlanningHorizonEnd = (
+  now: Date,
+  periodEnd?: string | null,
+  timeZone: string = getDeviceTimeZone()
+): Date => {
+  const horizonEnd = endOfZonedDay(addCalendarDays(getZonedDay(now, timeZone), PLANNING_HORIZON_DAYS), timeZone);
+  if (!periodEnd) return horizonEnd;
+
+  const periodEndDate = endOfZonedDay(periodEnd.slice(0, 10), timeZone);
+  return isBefore(periodEndDate, horizonEnd) ? periodEndDate : horizonEnd;
+};
+
+// Future AI-assigned free slots, with recurring slots expanded over the planning horizon
+// in the user's time zone
+export const getPlannableFreeSlots = (
+  freeSlots: CalendarEvent[],
+  now: Date,
+  horizonEnd: Date,
+  timeZone?: string
+): CalendarEvent[] => {
+  // Only AI-assigned slots (excluding slots with manual subject assignment)
+  const aiFreeSlots = freeSlots.filter(slot => !slot.subject_id);
+
+  // One-off slots are kept as they are; recurring slots are expanded into
+  // one occurrence per day within the planning horizon
+  const oneOffSlots = aiFreeSlots
+    .filter(slot => !slot.is_recurring)
+    .filter(slot => isAfter(parseISO(slot.start_datetime), now));
+
+  const recurringOccurrences = expandEventsInRange(
+    aiFreeSlots.filter(slot => slot.is_recurring),
+    now,
+    horizonEnd,
+    timeZone
+  );
+
+  return [...oneOffSlots, ...recurringOccurrences]
+    .filter(slot => isAfter(parseISO(slot.start_datetime), now))
+    .sort((a, b) => new Date(a.start_datetime).getTime() - new Date(b.start_datetime).getTime());
+};
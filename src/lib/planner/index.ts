@@ -0,0 +1,31 @@
+/**
+ * Study planner
+ *
+ * Framework-free prioritisation and scheduling algorithm. Every function that
+ * depends on the current time takes an optional `Clock`, so results can be
+ * reproduced in tests, simulations or edge functions.
+ */
+
+export * from './types';
+export * from './constants';
+export * from './clock';
+export * from './delays';
+export * from './studyTime';
+export * from './priorities';
+export * from './distribution';
+export * from './energy';
+export * from './horizon';
+export * from './blocks';
+export * from './interleave';
+export * from './commitments';
+export * from './carryover';
+export * from './forecast';
+export * from './reviews';
+export * from './trace';
+export * from './constraints';
+export * from './suggestions';
+export * from './scenario';
+export * from './versions';
+export * from './examPrep';
+export * from './calibration';
+export * from './goals';
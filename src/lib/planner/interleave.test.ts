@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { addMinutes } from 'date-fns';
+import { interleaveSubjectsInSlots } from './interleave';
+import { distributeSubjectsToSlots } from './distribution';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { makeEvent, makePriority } from './testUtils';
+
+const SLOT_START = new Date(2025, 2, 10, 14, 0);
+const config = { ...DEFAULT_PLANNER_CONFIG, interleaveSubjects: true };
+
+const slotOfMinutes = (id: string, minutes: number) => makeEvent({
+  id,
+  start_datetime: SLOT_START.toISOString(),
+  end_datetime: addMinutes(SLOT_START, minutes).toISOString()
+});
+
+const studySubjects = (suggestion: ReturnType<typeof interleaveSubjectsInSlots>[number]) =>
+  suggestion.blocks.filter(b => !b.isBreak).map(b => b.subject.id);
+
+describe('interleaveSubjectsInSlots', () => {
+  const priorities = [
+    makePriority(16, { id: 'triple' }),
+    makePriority(13, { id: 'once' }),
+    makePriority(8, { id: 'base' })
+  ];
+
+  it('mixes subjects inside a long slot without exceeding the consecutive limit', () => {
+    // 7 × 50 min blocks + 6 × 10 min breaks
+    const [suggestion] = interleaveSubjectsInSlots([slotOfMinutes('long', 410)], priorities, config);
+
+    expect(studySubjects(suggestion)).toEqual(['triple', 'triple', 'once', 'triple', 'triple', 'once', 'base']);
+    expect(suggestion.assignedSubject?.id).toBe('triple');
+  });
+
+  it('keeps the block counts of the priority distribution', () => {
+    const slots = [slotOfMinutes('a', 230), slotOfMinutes('b', 110), slotOfMinutes('c', 50)];
+    const suggestions = interleaveSubjectsInSlots(slots, priorities, config);
+
+    const counts = suggestions.flatMap(studySubjects).reduce<Record<string, number>>((acc, id) => {
+      acc[id] = (acc[id] || 0) + 1;
+      return acc;
+    }, {});
+    const expected = distributeSubjectsToSlots(priorities, 7, config).reduce<Record<string, number>>((acc, p) => {
+      acc[p.subject.id] = (acc[p.subject.id] || 0) + 1;
+      return acc;
+    }, {});
+
+    expect(counts).toEqual(expected);
+  });
+
+  it('gives breaks the subject of the preceding block', () => {
+    const [suggestion] = interleaveSubjectsInSlots(
+      [slotOfMinutes('long', 410)],
+      priorities,
+      { ...config, maxConsecutiveBlocks: 1 }
+    );
+
+    suggestion.blocks.forEach((block, index) => {
+      if (block.isBreak) {
+        expect(block.subject.id).toBe(suggestion.blocks[index - 1].subject.id);
+      } else if (index > 1) {
+        expect(block.subject.id).not.toBe(suggestion.blocks[index - 2].subject.id);
+      }
+    });
+  });
+
+  it('keeps a single subject when no other one is available', () => {
+    const [suggestion] = interleaveSubjectsInSlots([slotOfMinutes('long', 230)], [makePriority(10, { id: 'only' })], config);
+
+    expect(studySubjects(suggestion)).toEqual(['only', 'only', 'only', 'only']);
+  });
+
+  it('moves difficult subjects to the high-energy blocks within the consecutive limit', () => {
+    // Energy peaks from 18:00: the last three of the seven blocks
+    const energyCurve = Array.from({ length: 24 }, (_, hour) => (hour >= 18 ? 5 : 1));
+    const byDifficulty = [
+      { ...makePriority(16, { id: 'triple' }), difficultyWeight: 1 },
+      { ...makePriority(13, { id: 'once' }), difficultyWeight: 5 },
+      { ...makePriority(8, { id: 'base' }), difficultyWeight: 3 }
+    ];
+    const [suggestion] = interleaveSubjectsInSlots(
+      [slotOfMinutes('long', 410)],
+      byDifficulty,
+      { ...config, energyCurve }
+    );
+
+    // 'once' takes 18:00 and 19:00; the third light block in a row goes to the closest subject, 'base'
+    expect(studySubjects(suggestion)).toEqual(['triple', 'triple', 'base', 'triple', 'once', 'once', 'triple']);
+  });
+});
@@ -0,0 +1,166 @@
+import { parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { BlockFrame, PlannerConfig, StudySuggestion, SubjectPriority } from './types';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { distributeSubjectsToSlots } from './distribution';
+import { generateBlockLayout, toStudyBlock } from './blocks';
+import { matchSubjectsToEnergy } from './energy';
+import { buildDecisionTrace, getAllocationReason } from './trace';
+import { getDeviceTimeZone, getZonedDay } from '@/lib/timezone';
+
+// Pick the subject for the next study block inside a slot
+const pickNextSubject = (
+  priorities: SubjectPriority[],
+  remaining: Map<string, number>,
+  lastSubjectId: string | undefined,
+  runLength: number,
+  maxConsecutiveBlocks: number
+): SubjectPriority => {
+  const isAllowed = (p: SubjectPriority) =>
+    !(p.subject.id === lastSubjectId && runLength >= maxConsecutiveBlocks);
+  const remainingOf = (p: SubjectPriority) => remaining.get(p.subject.id) || 0;
+
+  // Subjects with blocks left in the distribution, most remaining first
+  // (priorities are sorted by score, so ties keep the priority order)
+  const withQuota = priorities.filter(p => remainingOf(p) > 0 && isAllowed(p));
+  if (withQuota.length > 0) {
+    return withQuota.reduce((best, p) => remainingOf(p) > remainingOf(best) ? p : best);
+  }
+
+  // Distribution exhausted or blocked by the consecutive limit: next best allowed subject.
+  // With a single subject the limit cannot be honoured, so it keeps the block.
+  return priorities.find(isAllowed) ?? priorities[0];
+};
+
+// Follow the energy matching of whole slots inside the interleaved order: each
+// study block aims for the subject `matchSubjectsToEnergy` gives it, but keeps
+// the consecutive limit and the number of blocks per subject on each day
+const arrangeByEnergy = (
+  layouts: { slot: CalendarEvent; frames: BlockFrame[] }[],
+  interleaved: SubjectPriority[][],
+  priorities: SubjectPriority[],
+  config: PlannerConfig,
+  timeZone: string
+): SubjectPriority[][] => {
+  const studyFrames = layouts.flatMap(({ slot, frames }) =>
+    frames.filter(frame => !frame.isBreak).map((frame, index) => ({
+      ...slot,
+      id: `${slot.id}-${index}`,
+      start_datetime: frame.startTime.toISOString(),
+      end_datetime: frame.endTime.toISOString()
+    }))
+  );
+  const allocation = interleaved.flat();
+  const targets = matchSubjectsToEnergy(allocation, studyFrames, config.energyCurve, timeZone);
+  if (targets === allocation) return interleaved;
+
+  // Blocks left per subject on each day
+  const dayOf = (frame: CalendarEvent) => getZonedDay(parseISO(frame.start_datetime), timeZone);
+  const left = new Map<string, Map<string, number>>();
+  studyFrames.forEach((frame, index) => {
+    const day = left.get(dayOf(frame)) || new Map<string, number>();
+    const subjectId = allocation[index].subject.id;
+    day.set(subjectId, (day.get(subjectId) || 0) + 1);
+    left.set(dayOf(frame), day);
+  });
+
+  let position = 0;
+  return interleaved.map(slotSubjects => {
+    let lastSubjectId: string | undefined;
+    let runLength = 0;
+
+    return slotSubjects.map(() => {
+      const target = targets[position];
+      const dayLeft = left.get(dayOf(studyFrames[position]))!;
+      position++;
+
+      const candidates = priorities.filter(p => (dayLeft.get(p.subject.id) || 0) > 0);
+      const allowed = candidates.filter(p =>
+        !(p.subject.id === lastSubjectId && runLength >= config.maxConsecutiveBlocks)
+      );
+      const distance = (p: SubjectPriority) => Math.abs(p.difficultyWeight - target.difficultyWeight);
+      // The target when allowed, else the allowed subject closest to its difficulty.
+      // With a single subject left the limit cannot be honoured.
+      const chosen = allowed.find(p => p.subject.id === target.subject.id)
+        ?? (allowed.length > 0 ? allowed.reduce((best, p) => distance(p) < distance(best) ? p : best) : candidates[0]);
+
+      runLength = chosen.subject.id === lastSubjectId ? runLength + 1 : 1;
+      lastSubjectId = chosen.subject.id;
+      dayLeft.set(chosen.subject.id, dayLeft.get(chosen.subject.id)! - 1);
+      return chosen;
+    });
+  });
+};
+
+/**
+ * Interleaving mode: assign subjects to every study block individually.
+ *
+ * The number of blocks per subject follows the same priority distribution used
+ * for whole slots (including the repeat thresholds), but a long slot can now mix
+ * subjects. Inside a slot a subject never gets more than `maxConsecutiveBlocks`
+ * study blocks in a row. As with whole slots, difficult subjects then move to
+ * the high-energy blocks of each day, as far as that limit allows. Breaks keep
+ * the subject of the block before them.
+ */
+export const interleaveSubjectsInSlots = (
+  slots: CalendarEvent[],
+  priorities: SubjectPriority[],
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG,
+  timeZone: string = getDeviceTimeZone()
+): StudySuggestion[] => {
+  if (priorities.length === 0) return [];
+
+  const layouts = slots.map(slot => ({ slot, frames: generateBlockLayout(slot, config) }));
+  const totalStudyBlocks = layouts.reduce(
+    (total, { frames }) => total + frames.filter(f => !f.isBreak).length,
+    0
+  );
+
+  const remaining = new Map<string, number>();
+  for (const priority of distributeSubjectsToSlots(priorities, totalStudyBlocks, config)) {
+    remaining.set(priority.subject.id, (remaining.get(priority.subject.id) || 0) + 1);
+  }
+
+  const interleaved = layouts.map(({ frames }) => {
+    let lastSubjectId: string | undefined;
+    let runLength = 0;
+
+    return frames.filter(frame => !frame.isBreak).map(() => {
+      const next = pickNextSubject(priorities, remaining, lastSubjectId, runLength, config.maxConsecutiveBlocks);
+      runLength = next.subject.id === lastSubjectId ? runLength + 1 : 1;
+      lastSubjectId = next.subject.id;
+      remaining.set(next.subject.id, (remaining.get(next.subject.id) || 0) - 1);
+      return next;
+    });
+  });
+  const arranged = arrangeByEnergy(layouts, interleaved, priorities, config, timeZone);
+
+  const picked = new Map<string, number>();
+
+  return layouts.map(({ slot, frames }, slotIndex) => {
+    let current: SubjectPriority = priorities[0];
+    let studyIndex = 0;
+
+    const blocks = frames.map((frame, index) => {
+      if (!frame.isBreak) {
+        current = arranged[slotIndex][studyIndex++];
+        picked.set(current.subject.id, (picked.get(current.subject.id) || 0) + 1);
+
+        const trace = buildDecisionTrace({
+          reason: getAllocationReason(current, picked.get(current.subject.id)!, config),
+          chosen: current,
+          priorities,
+          config
+        });
+        return { ...toStudyBlock(slot, frame, index, current), trace };
+      }
+      return toStudyBlock(slot, frame, index, current);
+    });
+
+    return {
+      freeSlot: slot,
+      blocks,
+      assignedSubject: blocks.find(b => !b.isBreak)?.subject
+    };
+  }).filter(s => s.blocks.length > 0);
+};
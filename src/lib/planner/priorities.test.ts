@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, addHours } from 'date-fns';
+import { calculateSubjectPriorities, calculateUrgencyFactor } from './priorities';
+import { fixedClock } from './clock';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { makeEvent, makeSubject, TEST_NOW } from './testUtils';
+import type { StudyDelay } from './types';
+
+const clock = fixedClock(TEST_NOW);
+
+const makeDelay = (subjectId: string, expiresAt: Date): StudyDelay => ({
+  id: `delay-${subjectId}`,
+  user_id: 'user-1',
+  subject_id: subjectId,
+  delayed_at: TEST_NOW.toISOString(),
+  expires_at: expiresAt.toISOString(),
+  created_at: TEST_NOW.toISOString()
+});
+
+describe('calculateUrgencyFactor', () => {
+  it.each([
+    [-1, 2.0],
+    [0, 1.5],
+    [1, 1.5],
+    [2, 1.2],
+    [3, 1.0],
+    [4, 0.5],
+    [7, 0.5],
+    [8, 0.0]
+  ])('returns the step value for %i day(s) until the deadline', (days, expected) => {
+    expect(calculateUrgencyFactor(days)).toBe(expected);
+  });
+
+  it.each([
+    [-1, 2.0],
+    [0, 1.5],
+    [1, 1.5],
+    [4, 0.75],
+    [7, 0]
+  ])('decays linearly to zero at the horizon (%i day(s) → %s)', (days, expected) => {
+    expect(calculateUrgencyFactor(days, { ...DEFAULT_PLANNER_CONFIG, urgencyCurve: 'linear' })).toBe(expected);
+  });
+
+  it.each([
+    [1, 1.5],
+    [4, 0.41],
+    [7, 0.11],
+    [8, 0]
+  ])('decays exponentially until the horizon (%i day(s) → %s)', (days, expected) => {
+    expect(calculateUrgencyFactor(days, { ...DEFAULT_PLANNER_CONFIG, urgencyCurve: 'exponential' })).toBe(expected);
+  });
+
+  it('stretches the curve with a longer horizon', () => {
+    const config = { ...DEFAULT_PLANNER_CONFIG, urgencyCurve: 'linear' as const, urgencyHorizonDays: 13 };
+    expect(calculateUrgencyFactor(7, config)).toBe(0.75);
+  });
+
+  it.each([
+    ['prova', 4, 0.5],
+    ['lista', 1, 0.75],
+    ['lista', 2, 0.25],
+    ['lista', 3, 0],
+    ['trabalho', -1, 1.6]
+  ] as const)('weights and compresses the curve for a %s due in %i day(s)', (kind, days, expected) => {
+    expect(calculateUrgencyFactor(days, DEFAULT_PLANNER_CONFIG, kind)).toBe(expected);
+  });
+});
+
+describe('calculateSubjectPriorities', () => {
+  it('scores P = (D + B) × (1 + U) without deadlines or delays', () => {
+    const [priority] = calculateSubjectPriorities(
+      [makeSubject({ difficulty_weight: 4, dedication_weight: 3 })],
+      [],
+      [],
+      { clock }
+    );
+
+    expect(priority.urgencyFactor).toBe(0);
+    expect(priority.delayBonus).toBe(0);
+    expect(priority.score).toBe(7);
+  });
+
+  it('weights D and B with the configured coefficients', () => {
+    const [priority] = calculateSubjectPriorities(
+      [makeSubject({ difficulty_weight: 4, dedication_weight: 3 })],
+      [],
+      [],
+      { clock, config: { ...DEFAULT_PLANNER_CONFIG, difficultyCoefficient: 2, dedicationCoefficient: 0.5 } }
+    );
+
+    expect(priority.score).toBe(2 * 4 + 0.5 * 3);
+  });
+
+  it('applies the urgency of the nearest future deadline', () => {
+    const subject = makeSubject({ difficulty_weight: 4, dedication_weight: 3 });
+    const deadlines = [
+      makeEvent({ id: 'past', event_type: 'deadline', subject_id: subject.id, start_datetime: addDays(TEST_NOW, -1).toISOString() }),
+      makeEvent({ id: 'far', event_type: 'deadline', subject_id: subject.id, start_datetime: addDays(TEST_NOW, 6).toISOString() }),
+      makeEvent({ id: 'near', event_type: 'deadline', subject_id: subject.id, start_datetime: addHours(TEST_NOW, 30).toISOString() })
+    ];
+
+    const [priority] = calculateSubjectPriorities([subject], deadlines, [], { clock });
+
+    expect(priority.nearestDeadline?.id).toBe('near');
+    expect(priority.urgencyFactor).toBe(1.5);
+    expect(priority.score).toBe(7 * 2.5);
+  });
+
+  it('takes the urgency from the deadline kind that weighs most', () => {
+    const subject = makeSubject({ difficulty_weight: 4, dedication_weight: 3 });
+    const deadlines = [
+      makeEvent({ id: 'lista', event_type: 'deadline', deadline_kind: 'lista', subject_id: subject.id, start_datetime: addHours(TEST_NOW, 30).toISOString() }),
+      makeEvent({ id: 'prova', event_type: 'deadline', deadline_kind: 'prova', subject_id: subject.id, start_datetime: addDays(TEST_NOW, 3).toISOString() })
+    ];
+
+    const [priority] = calculateSubjectPriorities([subject], deadlines, [], { clock });
+
+    expect(priority.nearestDeadline?.id).toBe('lista');
+    expect(priority.urgentDeadline?.id).toBe('prova');
+    expect(priority.urgencyFactor).toBe(1.0);
+  });
+
+  it('adds the delay bonus only while the delay is active', () => {
+    const active = makeSubject({ id: 'active' });
+    const expired = makeSubject({ id: 'expired' });
+    const delays = [
+      makeDelay('active', addHours(TEST_NOW, 12)),
+      makeDelay('expired', addHours(TEST_NOW, -1))
+    ];
+
+    const priorities = calculateSubjectPriorities([active, expired], [], delays, { clock });
+    const byId = Object.fromEntries(priorities.map(p => [p.subject.id, p]));
+
+    expect(byId.active.delayBonus).toBe(2);
+    expect(byId.active.score).toBe(8);
+    expect(byId.expired.delayBonus).toBe(0);
+    expect(byId.expired.score).toBe(6);
+  });
+
+  it('adds a capped bonus for due spaced-repetition reviews', () => {
+    const subject = makeSubject({ id: 'reviewed' });
+    const reviewItem = (id: string, dueAt: Date) => ({
+      id,
+      user_id: 'user-1',
+      subject_id: 'reviewed',
+      topic: id,
+      ease_factor: 2.5,
+      interval_days: 1,
+      repetitions: 1,
+      next_due_at: dueAt.toISOString(),
+      created_at: TEST_NOW.toISOString(),
+      updated_at: TEST_NOW.toISOString()
+    });
+
+    const [oneDue] = calculateSubjectPriorities([subject], [], [], {
+      clock,
+      reviewItems: [reviewItem('due', addHours(TEST_NOW, -2)), reviewItem('later', addDays(TEST_NOW, 3))]
+    });
+    const [manyDue] = calculateSubjectPriorities([subject], [], [], {
+      clock,
+      reviewItems: ['a', 'b', 'c', 'd', 'e'].map(id => reviewItem(id, TEST_NOW))
+    });
+
+    expect(oneDue.dueReviews).toBe(1);
+    expect(oneDue.score).toBe(7);
+    expect(manyDue.dueReviews).toBe(5);
+    expect(manyDue.reviewBonus).toBe(3);
+    expect(manyDue.score).toBe(9);
+  });
+
+  it('skips finished subjects and subjects without weights, sorting by score', () => {
+    const priorities = calculateSubjectPriorities(
+      [
+        makeSubject({ id: 'low', difficulty_weight: 1, dedication_weight: 1 }),
+        makeSubject({ id: 'high', difficulty_weight: 5, dedication_weight: 5 }),
+        makeSubject({ id: 'done', status: 'finalizada' }),
+        makeSubject({ id: 'unweighted', difficulty_weight: undefined })
+      ],
+      [],
+      [],
+      { clock }
+    );
+
+    expect(priorities.map(p => p.subject.id)).toEqual(['high', 'low']);
+  });
+});
@@ -0,0 +1,145 @@
+import { differenceInDays, isAfter, parseISO } from 'date-fns';
+import type { Subject } from '@/hooks/useSubjects';
+import type { CalendarEvent, DeadlineKind } from '@/hooks/useCalendarEvents';
+import type { PlannerConfig, PlannerOptions, StudyDelay, SubjectPriority } from './types';
+import {
+  DEADLINE_KIND_URGENCY,
+  DEFAULT_PLANNER_CONFIG,
+  MAX_REVIEW_BONUS,
+  OVERDUE_URGENCY,
+  PEAK_URGENCY,
+  REVIEW_BONUS,
+  URGENCY_HORIZON_DAYS
+} from './constants';
+import { systemClock } from './clock';
+import { getDelayBonus, getRecentDelays } from './delays';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Urgency on the configured curve for a number of days until the deadline
+const curveUrgency = (daysUntilDeadline: number, config: PlannerConfig): number => {
+  const { urgencyCurve, urgencyHorizonDays } = config;
+
+  if (urgencyCurve === 'linear') {
+    // Peak up to the last day, then down to zero at the horizon
+    if (daysUntilDeadline <= 1) return PEAK_URGENCY;
+    if (daysUntilDeadline >= urgencyHorizonDays) return 0;
+    return round(PEAK_URGENCY * (urgencyHorizonDays - daysUntilDeadline) / (urgencyHorizonDays - 1));
+  }
+
+  if (urgencyCurve === 'exponential') {
+    // Falls to ~5% of the peak at the horizon, then stops
+    if (daysUntilDeadline > urgencyHorizonDays) return 0;
+    return round(PEAK_URGENCY * Math.exp(-3 * Math.max(0, daysUntilDeadline - 1) / urgencyHorizonDays));
+  }
+
+  // Step: higher urgency for the last days before the deadline
+  if (daysUntilDeadline <= 1) return PEAK_URGENCY; // Last day - very high
+  if (daysUntilDeadline <= 2) return 1.2; // Penultimate day - high
+  if (daysUntilDeadline < 4) return 1.0;
+  if (daysUntilDeadline <= 7) return 0.5;
+  return 0.0;
+};
+
+// Calculate urgency factor based on deadline proximity, following the configured
+// curve. The deadline kind scales the result and stretches or compresses the days
+// before the last one to its lead time.
+export const calculateUrgencyFactor = (
+  daysUntilDeadline: number,
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG,
+  kind?: DeadlineKind
+): number => {
+  const { weight, leadDays } = DEADLINE_KIND_URGENCY[kind ?? 'prova'];
+  if (daysUntilDeadline < 0) return round(OVERDUE_URGENCY * weight); // Past deadline - highest urgency
+
+  const days = daysUntilDeadline <= 1
+    ? daysUntilDeadline
+    : 1 + (daysUntilDeadline - 1) * URGENCY_HORIZON_DAYS / leadDays;
+  return round(weight * curveUrgency(days, config));
+};
+
+// Calculate priority score for each subject. `delays` is the delay log: only
+// active entries grant the bonus, but recent expired ones make it escalate.
+// Subjects studied well below plan lately get the bonus from `studyTime`, and
+// subjects short of their weekly minimum the one from `goalProgress`
+export const calculateSubjectPriorities = (
+  subjects: Subject[],
+  deadlines: CalendarEvent[],
+  delays: StudyDelay[],
+  { clock = systemClock, config = DEFAULT_PLANNER_CONFIG, reviewItems = [], studyTime = [], goalProgress = [] }: PlannerOptions = {}
+): SubjectPriority[] => {
+  const now = clock();
+  const recentDelays = getRecentDelays(delays, now);
+
+  // Filter only active (non-finished) subjects with weights
+  return subjects
+    .filter(subject =>
+      subject.difficulty_weight &&
+      subject.dedication_weight &&
+      subject.status !== 'finalizada'
+    )
+    .map(subject => {
+      const D = subject.difficulty_weight || 3;
+      const B = subject.dedication_weight || 3;
+
+      // Future deadlines of this subject, nearest first
+      const subjectDeadlines = deadlines
+        .filter(d => d.subject_id === subject.id)
+        .filter(d => isAfter(parseISO(d.start_datetime), now))
+        .sort((a, b) =>
+          new Date(a.start_datetime).getTime() - new Date(b.start_datetime).getTime()
+        );
+
+      const nearestDeadline = subjectDeadlines[0];
+
+      // The most urgent deadline sets U; a near lista can weigh less than a later prova
+      let urgencyFactor = 0;
+      let urgentDeadline: CalendarEvent | undefined;
+      for (const deadline of subjectDeadlines) {
+        const daysUntil = differenceInDays(parseISO(deadline.start_datetime), now);
+        const urgency = calculateUrgencyFactor(daysUntil, config, deadline.deadline_kind);
+        if (urgency > urgencyFactor) {
+          urgencyFactor = urgency;
+          urgentDeadline = deadline;
+        }
+      }
+
+      // Delay bonus while a delay is active, escalating with the subject's recent delays
+      const hasDelay = delays.some(
+        delay => delay.subject_id === subject.id &&
+                 isAfter(parseISO(delay.expires_at), now)
+      );
+      const subjectDelays = recentDelays.filter(delay => delay.subject_id === subject.id).length;
+      const delayBonus = hasDelay ? getDelayBonus(Math.max(subjectDelays, 1), config) : 0;
+
+      // Topics whose spaced-repetition review is due
+      const dueReviews = reviewItems.filter(
+        item => item.subject_id === subject.id && !isAfter(parseISO(item.next_due_at), now)
+      ).length;
+      const reviewBonus = Math.min(dueReviews * REVIEW_BONUS, MAX_REVIEW_BONUS);
+
+      const studyTimeBonus = studyTime.find(entry => entry.subjectId === subject.id)?.bonus ?? 0;
+      const goalBonus = goalProgress.find(entry => entry.subjectId === subject.id)?.bonus ?? 0;
+
+      // P = (cD × D + cB × B) × (1 + U) + DelayBonus + ReviewBonus + StudyTimeBonus + GoalBonus
+      const baseScore = (config.difficultyCoefficient * D + config.dedicationCoefficient * B) * (1 + urgencyFactor);
+      const score = baseScore + delayBonus + reviewBonus + studyTimeBonus + goalBonus;
+
+      return {
+        subject,
+        difficultyWeight: D,
+        dedicationWeight: B,
+        urgencyFactor,
+        delayBonus,
+        reviewBonus,
+        studyTimeBonus,
+        goalBonus,
+        dueReviews,
+        recentDelays: subjectDelays,
+        score,
+        nearestDeadline,
+        urgentDeadline
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
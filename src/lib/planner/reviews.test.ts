@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, format } from 'date-fns';
+import { placeReviewBlocks, scheduleReview } from './reviews';
+import { generateSuggestions } from './suggestions';
+import { fixedClock } from './clock';
+import { DEFAULT_EASE_FACTOR } from './constants';
+import { makeEvent, makePriority, makeSubject, TEST_NOW } from './testUtils';
+import type { ReviewItem } from './types';
+
+
+const makeReviewItem = (overrides: Partial<ReviewItem> = {}): ReviewItem => ({
+  id: 'review-1',
+  user_id: 'user-1',
+  subject_id: 'subject-1',
+  topic: 'Limites',
+  ease_factor: DEFAULT_EASE_FACTOR,
+  interval_days: 0,
+  repetitions: 0,
+  next_due_at: TEST_NOW.toISOString(),
+  created_at: TEST_NOW.toISOString(),
+  updated_at: TEST_NOW.toISOString(),
+  ...overrides
+});
+
+const slotOn = (id: string, day: number) => makeEvent({
+  id,
+  start_datetime: new Date(2025, 2, day, 14, 0).toISOString(),
+  end_datetime: new Date(2025, 2, day, 16, 0).toISOString()
+});
+
+describe('scheduleReview', () => {
+  it('grows the interval 1 → 6 → interval × ease factor on good recalls', () => {
+    const first = scheduleReview(makeReviewItem(), 4, TEST_NOW);
+    const second = scheduleReview(first, 4, TEST_NOW);
+    const third = scheduleReview(second, 5, TEST_NOW);
+
+    expect([first.interval_days, second.interval_days, third.interval_days]).toEqual([1, 6, 16]);
+    expect(third.repetitions).toBe(3);
+    expect(third.next_due_at).toBe(addDays(TEST_NOW, 16).toISOString());
+  });
+
+  it('restarts the sequence and lowers the ease factor on a failed recall', () => {
+    const item = makeReviewItem({ repetitions: 4, interval_days: 20 });
+    const schedule = scheduleReview(item, 1, TEST_NOW);
+
+    expect(schedule.repetitions).toBe(0);
+    expect(schedule.interval_days).toBe(1);
+    expect(schedule.ease_factor).toBe(1.96);
+  });
+
+  it('never lets the ease factor drop below 1.3', () => {
+    expect(scheduleReview(makeReviewItem({ ease_factor: 1.3 }), 0, TEST_NOW).ease_factor).toBe(1.3);
+  });
+});
+
+describe('placeReviewBlocks', () => {
+  const priorities = [makePriority(10)];
+
+  it('opens the first slot on or after the due day with short review blocks', () => {
+    const items = [
+      makeReviewItem({ id: 'due' }),
+      makeReviewItem({ id: 'wednesday', next_due_at: new Date(2025, 2, 12, 7, 0).toISOString() })
+    ];
+
+    const { reviewBlocks, remainingSlots } = placeReviewBlocks(
+      [slotOn('mon', 10), slotOn('wed', 12)],
+      items,
+      priorities
+    );
+
+    expect(reviewBlocks.get('mon')?.map(b => b.reviewItemId)).toEqual(['due']);
+    expect(reviewBlocks.get('wed')?.map(b => b.reviewItemId)).toEqual(['wednesday']);
+    expect(format(new Date(remainingSlots[0].start_datetime), 'HH:mm')).toBe('14:15');
+  });
+
+  it('moves reviews to the next slot once a slot is full', () => {
+    const items = ['a', 'b', 'c'].map(id => makeReviewItem({ id }));
+
+    const { reviewBlocks } = placeReviewBlocks([slotOn('mon', 10), slotOn('tue', 11)], items, priorities);
+
+    expect(reviewBlocks.get('mon')).toHaveLength(2);
+    expect(reviewBlocks.get('tue')?.map(b => b.reviewItemId)).toEqual(['c']);
+  });
+
+  it('skips items of subjects without a priority', () => {
+    const { reviewBlocks } = placeReviewBlocks(
+      [slotOn('mon', 10)],
+      [makeReviewItem({ subject_id: 'finished' })],
+      priorities
+    );
+
+    expect(reviewBlocks.size).toBe(0);
+  });
+});
+
+describe('generateSuggestions with reviews', () => {
+  it('puts review blocks before the regular blocks of a slot', () => {
+    const [suggestion] = generateSuggestions(
+      [makeSubject()],
+      [slotOn('mon', 10)],
+      [],
+      [],
+      { clock: fixedClock(TEST_NOW), reviewItems: [makeReviewItem()] }
+    );
+
+    expect(suggestion.blocks.map(b => `${b.reviewTopic ?? (b.isBreak ? 'break' : 'study')} ${format(b.startTime, 'HH:mm')}`)).toEqual([
+      'Limites 14:00',
+      'study 14:15',
+      'break 15:05',
+      'study 15:15'
+    ]);
+    expect(format(new Date(suggestion.freeSlot.start_datetime), 'HH:mm')).toBe('14:00');
+  });
+});
@@ -0,0 +1,131 @@
+import { addDays, addMinutes, isAfter, parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { PlannerConfig, ReviewItem, ReviewQuality, StudyBlock, SubjectPriority } from './types';
+import {
+  DEFAULT_PLANNER_CONFIG,
+  MAX_REVIEWS_PER_SLOT,
+  MIN_EASE_FACTOR,
+  REVIEW_BLOCK_MINUTES
+} from './constants';
+import { buildDecisionTrace } from './trace';
+import { getSlotEnergy } from './energy';
+import { getDeviceTimeZone, getZonedDay } from '@/lib/timezone';
+
+export type ReviewSchedule = Pick<
+  ReviewItem,
+  'ease_factor' | 'interval_days' | 'repetitions' | 'next_due_at' | 'last_reviewed_at'
+>;
+
+/**
+ * SM-2: schedule the next review of a topic from the recall quality of the
+ * current one. A failed recall (quality < 3) restarts the sequence at one day;
+ * otherwise the interval goes 1 → 6 days → previous interval × ease factor.
+ */
+export const scheduleReview = (
+  item: Pick<ReviewItem, 'ease_factor' | 'interval_days' | 'repetitions'>,
+  quality: ReviewQuality,
+  now: Date
+): ReviewSchedule => {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    Number(item.ease_factor) + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = item.repetitions + 1;
+    if (repetitions === 1) intervalDays = 1;
+    else if (repetitions === 2) intervalDays = 6;
+    else intervalDays = Math.round(item.interval_days * easeFactor);
+  }
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    next_due_at: addDays(now, intervalDays).toISOString(),
+    last_reviewed_at: now.toISOString()
+  };
+};
+
+export interface ReviewPlacement {
+  // Review blocks opening each slot, by slot id
+  reviewBlocks: Map<string, StudyBlock[]>;
+  // The same slots, starting after their review blocks
+  remainingSlots: CalendarEvent[];
+}
+
+/**
+ * Place one short "Revisão" block per review item on the first day, on or
+ * after its due day (days of the user's zone), that has a slot with room,
+ * picking that day's lowest-energy slot. Reviews open the slot (at most MAX_REVIEWS_PER_SLOT per
+ * slot) and the regular blocks are laid out in the time that is left. Items of
+ * subjects without a priority (finished or unweighted) are not placed.
+ */
+export const placeReviewBlocks = (
+  slots: CalendarEvent[],
+  reviewItems: ReviewItem[],
+  priorities: SubjectPriority[],
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG,
+  timeZone: string = getDeviceTimeZone()
+): ReviewPlacement => {
+  const prioritiesById = new Map(priorities.map(p => [p.subject.id, p]));
+  const slotDay = (s: CalendarEvent) => getZonedDay(parseISO(s.start_datetime), timeZone);
+  const reviewBlocks = new Map<string, StudyBlock[]>();
+
+  const pending = reviewItems
+    .filter(item => prioritiesById.has(item.subject_id))
+    .sort((a, b) => new Date(a.next_due_at).getTime() - new Date(b.next_due_at).getTime());
+
+  for (const item of pending) {
+    const dueDay = getZonedDay(parseISO(item.next_due_at), timeZone);
+
+    const hasRoom = (s: CalendarEvent) => {
+      if (!s.end_datetime || slotDay(s) < dueDay) return false;
+
+      const placed = reviewBlocks.get(s.id) || [];
+      if (placed.length >= MAX_REVIEWS_PER_SLOT) return false;
+
+      const reviewEnd = addMinutes(parseISO(s.start_datetime), (placed.length + 1) * REVIEW_BLOCK_MINUTES);
+      return !isAfter(reviewEnd, parseISO(s.end_datetime));
+    };
+    const firstSlot = slots.find(hasRoom);
+    if (!firstSlot) continue;
+
+    // Reviews are light work: take the lowest-energy slot with room on that day
+    const slot = slots
+      .filter(s => hasRoom(s) && slotDay(s) === slotDay(firstSlot))
+      .reduce((best, s) =>
+        getSlotEnergy(s, config.energyCurve, timeZone) < getSlotEnergy(best, config.energyCurve, timeZone) ? s : best
+      );
+
+    const placed = reviewBlocks.get(slot.id) || [];
+    const startTime = addMinutes(parseISO(slot.start_datetime), placed.length * REVIEW_BLOCK_MINUTES);
+    const priority = prioritiesById.get(item.subject_id)!;
+
+    reviewBlocks.set(slot.id, [...placed, {
+      id: `${slot.id}-review-${placed.length}`,
+      subject: priority.subject,
+      startTime,
+      endTime: addMinutes(startTime, REVIEW_BLOCK_MINUTES),
+      isBreak: false,
+      freeSlotId: slot.id,
+      reviewItemId: item.id,
+      reviewTopic: item.topic,
+      trace: buildDecisionTrace({ reason: 'review', chosen: priority, priorities, config, reviewTopic: item.topic })
+    }]);
+  }
+
+  const remainingSlots = slots.map(slot => {
+    const placed = reviewBlocks.get(slot.id);
+    if (!placed) return slot;
+    return { ...slot, start_datetime: placed[placed.length - 1].endTime.toISOString() };
+  });
+
+  return { reviewBlocks, remainingSlots };
+};
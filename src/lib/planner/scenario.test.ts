@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { applyScenario, EMPTY_SCENARIO, summarizePlan } from './scenario';
+import { calculateSubjectPriorities } from './priorities';
+import { generateSuggestions } from './suggestions';
+import { fixedClock } from './clock';
+import { makeEvent, makeSubject, TEST_NOW } from './testUtils';
+import type { PlanScenario } from './types';
+
+const clock = fixedClock(TEST_NOW);
+
+// Weekly Monday/Wednesday 19:00-20:00 slot: five 50-minute blocks over the horizon
+const weeklySlot = makeEvent({
+  id: 'weekly',
+  start_datetime: new Date(2025, 1, 24, 19, 0).toISOString(),
+  end_datetime: new Date(2025, 1, 24, 20, 0).toISOString(),
+  is_recurring: true,
+  recurrence_pattern: 'weekly',
+  recurrence_days: [1, 3]
+});
+
+const subjects = [
+  makeSubject({ id: 'calc', name: 'Cálculo', difficulty_weight: 3, dedication_weight: 3 }),
+  makeSubject({ id: 'hist', name: 'História', difficulty_weight: 2, dedication_weight: 2 })
+];
+
+const simulate = (scenario: PlanScenario) => {
+  const applied = applyScenario(subjects, [], scenario);
+  const priorities = calculateSubjectPriorities(applied.subjects, applied.deadlines, [], { clock });
+  const suggestions = generateSuggestions(applied.subjects, [weeklySlot], applied.deadlines, [], { clock });
+  return Object.fromEntries(
+    summarizePlan(subjects, priorities, suggestions).map(s => [s.subjectId, [s.score, s.studyBlocks]])
+  );
+};
+
+describe('what-if scenarios', () => {
+  it('summarises the current plan without a scenario', () => {
+    expect(simulate(EMPTY_SCENARIO)).toEqual({ calc: [6, 3], hist: [4, 2] });
+  });
+
+  it('hands the slots of a subject marked as finished to the others', () => {
+    expect(simulate({ ...EMPTY_SCENARIO, finishedSubjectIds: ['hist'] })).toEqual({
+      calc: [6, 5],
+      hist: [undefined, 0]
+    });
+  });
+
+  it('re-ranks subjects with changed weights', () => {
+    const scenario = { ...EMPTY_SCENARIO, weights: { hist: { difficultyWeight: 5, dedicationWeight: 5 } } };
+
+    expect(simulate(scenario)).toEqual({ calc: [6, 2], hist: [10, 3] });
+  });
+
+  it('reserves time for a hypothetical deadline without touching the real data', () => {
+    const exam = makeEvent({
+      id: 'whatif-1',
+      event_type: 'deadline',
+      subject_id: 'hist',
+      start_datetime: new Date(2025, 2, 20, 9, 0).toISOString(),
+      end_datetime: undefined,
+      estimated_effort_hours: 3
+    });
+    const scenario = { ...EMPTY_SCENARIO, extraDeadlines: [exam] };
+
+    const applied = applyScenario(subjects, [], scenario);
+
+    expect(applied.deadlines).toEqual([exam]);
+    expect(subjects.map(s => s.status)).toEqual(['ativa', 'ativa']);
+    expect(simulate(scenario).hist[1]).toBe(4);
+  });
+});
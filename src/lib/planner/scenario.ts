@@ -0,0 +1,65 @@
+import type { Subject } from '@/hooks/useSubjects';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { PlanScenario, StudySuggestion, SubjectPlanSummary, SubjectPriority } from './types';
+
+export const EMPTY_SCENARIO: PlanScenario = {
+  weights: {},
+  finishedSubjectIds: [],
+  extraDeadlines: []
+};
+
+export const isEmptyScenario = (scenario: PlanScenario): boolean =>
+  Object.keys(scenario.weights).length === 0 &&
+  scenario.finishedSubjectIds.length === 0 &&
+  scenario.extraDeadlines.length === 0;
+
+// Subjects and deadlines as they would be under a scenario; inputs are not modified
+export const applyScenario = (
+  subjects: Subject[],
+  deadlines: CalendarEvent[],
+  scenario: PlanScenario
+): { subjects: Subject[]; deadlines: CalendarEvent[] } => ({
+  subjects: subjects.map(subject => {
+    const weights = scenario.weights[subject.id];
+    return {
+      ...subject,
+      ...(weights && {
+        difficulty_weight: weights.difficultyWeight,
+        dedication_weight: weights.dedicationWeight
+      }),
+      ...(scenario.finishedSubjectIds.includes(subject.id) && { status: 'finalizada' })
+    };
+  }),
+  deadlines: [...deadlines, ...scenario.extraDeadlines]
+});
+
+// Score and planned study time of every subject, for side-by-side comparisons
+export const summarizePlan = (
+  subjects: Subject[],
+  priorities: SubjectPriority[],
+  suggestions: StudySuggestion[]
+): SubjectPlanSummary[] => {
+  const summaries = new Map<string, SubjectPlanSummary>(
+    subjects.map(subject => [subject.id, {
+      subjectId: subject.id,
+      score: priorities.find(p => p.subject.id === subject.id)?.score,
+      studyBlocks: 0,
+      studyMinutes: 0,
+      reviewBlocks: 0
+    }])
+  );
+
+  for (const block of suggestions.flatMap(s => s.blocks)) {
+    const summary = summaries.get(block.subject.id);
+    if (!summary || block.isBreak) continue;
+
+    if (block.reviewItemId) {
+      summary.reviewBlocks += 1;
+    } else {
+      summary.studyBlocks += 1;
+    }
+    summary.studyMinutes += (block.endTime.getTime() - block.startTime.getTime()) / 60000;
+  }
+
+  return [...summaries.values()];
+};
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, addMinutes } from 'date-fns';
+import { analyzeStudyTime, getLoggedMinutes, getUnderStudyBonus } from './studyTime';
+import { calculateSubjectPriorities } from './priorities';
+import { fixedClock } from './clock';
+import { makeSubject, TEST_NOW } from './testUtils';
+import type { StudySession } from '@/hooks/useStudySessions';
+import type { StudySessionLog } from './types';
+
+const clock = fixedClock(TEST_NOW);
+
+let nextId = 0;
+const makeSession = (subjectId: string, start: Date, minutes = 50, overrides: Partial<StudySession> = {}): StudySession => ({
+  id: `session-${++nextId}`,
+  user_id: 'user-1',
+  subject_id: subjectId,
+  start_datetime: start.toISOString(),
+  end_datetime: addMinutes(start, minutes).toISOString(),
+  is_break: false,
+  status: 'completed',
+  created_at: start.toISOString(),
+  updated_at: start.toISOString(),
+  ...overrides
+});
+
+const makeLog = (subjectId: string, startedAt: Date, actualMinutes: number, overrides: Partial<StudySessionLog> = {}): StudySessionLog => ({
+  id: `log-${++nextId}`,
+  user_id: 'user-1',
+  subject_id: subjectId,
+  status: 'completed',
+  started_at: startedAt.toISOString(),
+  resumed_at: null,
+  ended_at: addMinutes(startedAt, actualMinutes).toISOString(),
+  actual_minutes: actualMinutes,
+  planned_minutes: 50,
+  created_at: startedAt.toISOString(),
+  updated_at: startedAt.toISOString(),
+  ...overrides
+});
+
+const yesterday = (hour: number) => new Date(2025, 2, 9, hour, 0);
+
+describe('getLoggedMinutes', () => {
+  it('adds the running stretch of a started log', () => {
+    const running = makeLog('calc', addMinutes(TEST_NOW, -40), 10, {
+      status: 'started',
+      resumed_at: addMinutes(TEST_NOW, -20).toISOString(),
+      ended_at: null
+    });
+    const paused = makeLog('calc', addMinutes(TEST_NOW, -40), 10, { status: 'paused', ended_at: null });
+
+    expect(getLoggedMinutes(running, TEST_NOW)).toBe(30);
+    expect(getLoggedMinutes(paused, TEST_NOW)).toBe(10);
+  });
+});
+
+describe('getUnderStudyBonus', () => {
+  it('shrinks from the full bonus to zero at the under-study ratio', () => {
+    expect(getUnderStudyBonus(200, 0)).toBe(2);
+    expect(getUnderStudyBonus(200, 80)).toBe(1);
+    expect(getUnderStudyBonus(200, 160)).toBe(0);
+    expect(getUnderStudyBonus(200, 300)).toBe(0);
+  });
+
+  it('waits for enough planned time before trusting the ratio', () => {
+    expect(getUnderStudyBonus(50, 0)).toBe(0);
+  });
+});
+
+describe('analyzeStudyTime', () => {
+  it('compares passed planned blocks with logged minutes per subject', () => {
+    const sessions = [
+      makeSession('calc', yesterday(14)),
+      makeSession('calc', yesterday(15), 50, { status: 'skipped' }),
+      makeSession('calc', yesterday(16), 50, { status: 'missed' }),
+      makeSession('calc', yesterday(16), 10, { is_break: true }),
+      makeSession('calc', addDays(TEST_NOW, -20)),
+      makeSession('calc', addDays(TEST_NOW, 1), 50, { status: 'planned' }),
+      makeSession('hist', yesterday(9), 100),
+      makeSession('fis', yesterday(19))
+    ];
+    const logs = [
+      makeLog('calc', yesterday(14), 30),
+      makeLog('hist', yesterday(9), 100),
+      makeLog('hist', addDays(TEST_NOW, -20), 120)
+    ];
+
+    expect(analyzeStudyTime(logs, sessions, { clock })).toEqual([
+      { subjectId: 'fis', plannedMinutes: 50, actualMinutes: 0, ratio: 0, bonus: 0 },
+      { subjectId: 'calc', plannedMinutes: 150, actualMinutes: 30, ratio: 0.2, bonus: 1.5 },
+      { subjectId: 'hist', plannedMinutes: 100, actualMinutes: 100, ratio: 1, bonus: 0 }
+    ]);
+  });
+
+  it('counts a missed block once when its make-up already ended', () => {
+    const missed = makeSession('calc', yesterday(10), 50, { status: 'missed' });
+    const makeUp = makeSession('calc', yesterday(18), 50, { carried_from_session_id: missed.id });
+
+    const [entry] = analyzeStudyTime([makeLog('calc', yesterday(18), 50)], [missed, makeUp], { clock });
+
+    expect(entry).toEqual({ subjectId: 'calc', plannedMinutes: 50, actualMinutes: 50, ratio: 1, bonus: 0 });
+  });
+
+  it('counts study outside the plan without a ratio', () => {
+    const [entry] = analyzeStudyTime([makeLog('calc', yesterday(20), 45)], [], { clock });
+
+    expect(entry).toEqual({ subjectId: 'calc', plannedMinutes: 0, actualMinutes: 45, ratio: null, bonus: 0 });
+  });
+
+  it('moves a consistently under-studied subject up the priorities', () => {
+    const calc = makeSubject({ id: 'calc', difficulty_weight: 3, dedication_weight: 3 });
+    const hist = makeSubject({ id: 'hist', difficulty_weight: 3, dedication_weight: 4 });
+    const studyTime = analyzeStudyTime(
+      [makeLog('hist', yesterday(9), 100)],
+      [makeSession('calc', yesterday(14), 100), makeSession('hist', yesterday(9), 100)],
+      { clock }
+    );
+
+    const priorities = calculateSubjectPriorities([calc, hist], [], [], { clock, studyTime });
+
+    expect(priorities.map(p => [p.subject.id, p.studyTimeBonus, p.score])).toEqual([
+      ['calc', 2, 8],
+      ['hist', 0, 7]
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { addDays, isAfter, parseISO } from 'date-fns';
+import type { StudySession } from '@/hooks/useStudySessions';
+import type { PlannerOptions, StudySessionLog, SubjectStudyTime } from './types';
+import {
+  MIN_PLANNED_MINUTES_FOR_ADJUSTMENT,
+  STUDY_TIME_HISTORY_DAYS,
+  UNDER_STUDY_BONUS,
+  UNDER_STUDY_RATIO
+} from './constants';
+import { systemClock } from './clock';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const minutesBetween = (start: Date, end: Date) => (end.getTime() - start.getTime()) / 60000;
+
+// Minutes studied in a log, the running stretch included
+export const getLoggedMinutes = (log: StudySessionLog, now: Date): number => {
+  const running = log.status === 'started' && log.resumed_at
+    ? Math.max(0, minutesBetween(parseISO(log.resumed_at), now))
+    : 0;
+  return Number(log.actual_minutes) + running;
+};
+
+// Bonus for an actual/planned ratio: full when nothing was studied, zero at UNDER_STUDY_RATIO
+export const getUnderStudyBonus = (plannedMinutes: number, actualMinutes: number): number => {
+  if (plannedMinutes < MIN_PLANNED_MINUTES_FOR_ADJUSTMENT) return 0;
+
+  const ratio = actualMinutes / plannedMinutes;
+  if (ratio >= UNDER_STUDY_RATIO) return 0;
+  return round(UNDER_STUDY_BONUS * (UNDER_STUDY_RATIO - ratio) / UNDER_STUDY_RATIO);
+};
+
+/**
+ * Planned versus actually studied minutes per subject over the last
+ * STUDY_TIME_HISTORY_DAYS, least studied (by ratio) first.
+ *
+ * Planned time is every study block that already ended, whatever its status,
+ * so skipped and missed blocks count as planned but not studied. A make-up
+ * session repeats the block it replaces, so only the original counts. Actual
+ * time comes from the session logs, including study outside the plan.
+ */
+export const analyzeStudyTime = (
+  logs: StudySessionLog[],
+  sessions: StudySession[],
+  { clock = systemClock }: PlannerOptions = {}
+): SubjectStudyTime[] => {
+  const now = clock();
+  const historyStart = addDays(now, -STUDY_TIME_HISTORY_DAYS);
+  const totals = new Map<string, { planned: number; actual: number }>();
+  const totalsOf = (subjectId: string) => {
+    const entry = totals.get(subjectId) || { planned: 0, actual: 0 };
+    totals.set(subjectId, entry);
+    return entry;
+  };
+
+  sessions
+    .filter(session => !session.is_break && !session.carried_from_session_id)
+    .filter(session => isAfter(parseISO(session.start_datetime), historyStart))
+    .filter(session => !isAfter(parseISO(session.end_datetime), now))
+    .forEach(session => {
+      totalsOf(session.subject_id).planned += minutesBetween(
+        parseISO(session.start_datetime),
+        parseISO(session.end_datetime)
+      );
+    });
+
+  logs
+    .filter(log => isAfter(parseISO(log.started_at), historyStart))
+    .forEach(log => {
+      totalsOf(log.subject_id).actual += getLoggedMinutes(log, now);
+    });
+
+  return [...totals.entries()]
+    .map(([subjectId, { planned, actual }]) => ({
+      subjectId,
+      plannedMinutes: Math.round(planned),
+      actualMinutes: Math.round(actual),
+      ratio: planned > 0 ? round(actual / planned) : null,
+      bonus: getUnderStudyBonus(planned, actual)
+    }))
+    .sort((a, b) => (a.ratio ?? Infinity) - (b.ratio ?? Infinity));
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { format } from 'date-fns';
+import { generateSuggestions } from './suggestions';
+import { getPlanningHorizonEnd } from './horizon';
+import { fixedClock } from './clock';
+import { makeEvent, makeSubject, TEST_NOW } from './testUtils';
+
+const clock = fixedClock(TEST_NOW);
+
+// Weekly Monday/Wednesday slot created two weeks before TEST_NOW
+const weeklySlot = makeEvent({
+  id: 'weekly',
+  start_datetime: new Date(2025, 1, 24, 19, 0).toISOString(),
+  end_datetime: new Date(2025, 1, 24, 20, 0).toISOString(),
+  is_recurring: true,
+  recurrence_pattern: 'weekly',
+  recurrence_days: [1, 3]
+});
+
+describe('getPlanningHorizonEnd', () => {
+  it('caps the horizon at the end of the academic period', () => {
+    expect(format(getPlanningHorizonEnd(TEST_NOW), 'yyyy-MM-dd')).toBe('2025-03-24');
+    expect(format(getPlanningHorizonEnd(TEST_NOW, '2025-03-15'), 'yyyy-MM-dd HH:mm')).toBe('2025-03-15 23:59');
+  });
+
+  it('ends the horizon at midnight in the given time zone', () => {
+    // 21:00 on 10 March in Tokyo
+    const now = new Date('2025-03-10T12:00:00Z');
+
+    expect(getPlanningHorizonEnd(now, null, 'Asia/Tokyo').toISOString()).toBe('2025-03-24T14:59:59.999Z');
+    expect(getPlanningHorizonEnd(now, '2025-03-15', 'Asia/Tokyo').toISOString()).toBe('2025-03-15T14:59:59.999Z');
+  });
+});
+
+describe('generateSuggestions', () => {
+  it('expands recurring free slots into one suggestion per occurrence', () => {
+    const suggestions = generateSuggestions([makeSubject()], [weeklySlot], [], [], { clock });
+
+    expect(suggestions.map(s => format(new Date(s.freeSlot.start_datetime), 'EEE dd/MM HH:mm'))).toEqual([
+      'Mon 10/03 19:00',
+      'Wed 12/03 19:00',
+      'Mon 17/03 19:00',
+      'Wed 19/03 19:00',
+      'Mon 24/03 19:00'
+    ]);
+    expect(suggestions.every(s => s.freeSlot.recurrence_parent_id === 'weekly')).toBe(true);
+  });
+
+  it('stops at the recurrence end date and the academic period end', () => {
+    const endingSlot = { ...weeklySlot, recurrence_end_date: '2025-03-17' };
+
+    expect(generateSuggestions([makeSubject()], [endingSlot], [], [], { clock })).toHaveLength(3);
+    expect(generateSuggestions([makeSubject()], [weeklySlot], [], [], { clock, periodEnd: '2025-03-12' })).toHaveLength(2);
+  });
+
+  it('skips past and manually assigned slots', () => {
+    const past = makeEvent({
+      id: 'past',
+      start_datetime: new Date(2025, 2, 9, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 9, 16, 0).toISOString()
+    });
+    const manual = makeEvent({ id: 'manual', subject_id: 'subject-1' });
+
+    expect(generateSuggestions([makeSubject()], [past, manual], [], [], { clock })).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import { areIntervalsOverlapping, parseISO } from 'date-fns';
+import type { Subject } from '@/hooks/useSubjects';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type {
+  PlannerConfig,
+  PlannerOptions,
+  StudyBlock,
+  StudyDelay,
+  StudyPlan,
+  StudySuggestion,
+  SubjectPriority
+} from './types';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { systemClock } from './clock';
+import { getPlanningHorizonEnd, getPlannableFreeSlots } from './horizon';
+import { calculateSubjectPriorities } from './priorities';
+import { distributeSubjectsToSlots } from './distribution';
+import { matchSubjectsToEnergy } from './energy';
+import { generateStudyBlocksForSubject } from './blocks';
+import { interleaveSubjectsInSlots } from './interleave';
+import { reserveDeadlineSlots } from './commitments';
+import { placeReviewBlocks } from './reviews';
+import { placeCarryOver } from './carryover';
+import { applyPlannerConstraints } from './constraints';
+import { buildDecisionTrace, getAllocationReason, withTrace } from './trace';
+
+// Generate all study suggestions with smart distribution
+export const generateSuggestions = (
+  subjects: Subject[],
+  freeSlots: CalendarEvent[],
+  deadlines: CalendarEvent[],
+  activeDelays: StudyDelay[],
+  options: PlannerOptions = {}
+): StudySuggestion[] => generateStudyPlan(subjects, freeSlots, deadlines, activeDelays, options).suggestions;
+
+// Study suggestions together with the study the hard constraints kept off the plan
+export const generateStudyPlan = (
+  subjects: Subject[],
+  freeSlots: CalendarEvent[],
+  deadlines: CalendarEvent[],
+  activeDelays: StudyDelay[],
+  options: PlannerOptions = {}
+): StudyPlan => {
+  const {
+    clock = systemClock,
+    config = DEFAULT_PLANNER_CONFIG,
+    periodEnd,
+    reviewItems = [],
+    missedBlocks = [],
+    carriedTimes = [],
+    studyTime = [],
+    goalProgress = [],
+    timeZone
+  } = options;
+  const now = clock();
+  const horizonEnd = getPlanningHorizonEnd(now, periodEnd, timeZone);
+  const futureFreeSlots = getPlannableFreeSlots(freeSlots, now, horizonEnd, timeZone);
+
+  if (futureFreeSlots.length === 0 || subjects.length === 0) return { suggestions: [], violations: [] };
+
+  const priorities = calculateSubjectPriorities(subjects, deadlines, activeDelays, { clock, config, reviewItems, studyTime, goalProgress });
+
+  if (priorities.length === 0) return { suggestions: [], violations: [] };
+
+  // Due and upcoming reviews open their slots; regular blocks use the rest
+  const { reviewBlocks, remainingSlots } = placeReviewBlocks(futureFreeSlots, reviewItems, priorities, config, timeZone);
+
+  // Slots reserved for deadlines with an estimated effort go to that subject;
+  // the remaining slots are shared by priority
+  const { reservations } = reserveDeadlineSlots(priorities, freeSlots, deadlines, { clock, config, timeZone }, remainingSlots);
+  const reservedSuggestions: StudySuggestion[] = remainingSlots
+    .filter(slot => reservations.has(slot.id))
+    .map(slot => {
+      const commitment = reservations.get(slot.id)!;
+      const trace = buildDecisionTrace({
+        reason: 'deadline_effort',
+        chosen: commitment.priority,
+        priorities,
+        config,
+        deadline: commitment.deadline
+      });
+      return {
+        freeSlot: slot,
+        blocks: withTrace(generateStudyBlocksForSubject(slot, commitment.priority, config), trace),
+        assignedSubject: commitment.priority.subject,
+        deadline: commitment.deadline
+      };
+    });
+  // Missed or skipped blocks take the earliest open slots, within a weekly cap
+  const { carriedSuggestions, remainingSlots: openSlots } = placeCarryOver(
+    remainingSlots.filter(slot => !reservations.has(slot.id)),
+    missedBlocks,
+    priorities,
+    config,
+    carriedTimes,
+    timeZone
+  );
+
+  const suggestionsBySlot = new Map(
+    [...reservedSuggestions, ...carriedSuggestions, ...distributeOpenSlots(openSlots, priorities, config, timeZone)]
+      .map(s => [s.freeSlot.id, s])
+  );
+
+  // Report every suggestion against its full slot, review blocks first
+  const merged = futureFreeSlots.map(slot => {
+    const reviews = reviewBlocks.get(slot.id) || [];
+    const suggestion = suggestionsBySlot.get(slot.id);
+    return {
+      ...suggestion,
+      freeSlot: slot,
+      blocks: [...reviews, ...(suggestion?.blocks || [])],
+      assignedSubject: suggestion?.assignedSubject ?? reviews[0]?.subject
+    };
+  });
+
+  // Hard constraints have the last word over every placement above
+  const { suggestions, violations } = applyPlannerConstraints(merged, priorities, config, timeZone);
+  return { suggestions: suggestions.filter(s => s.blocks.length > 0), violations };
+};
+
+/**
+ * Carry missed blocks into the free slots the persisted plan leaves empty,
+ * leaving the rest of the plan as it is: slots overlapping any of `planned`
+ * (the times of persisted sessions) are skipped and only the carried blocks,
+ * with the breaks between them, are returned. Rest days and latest hours still
+ * apply; the daily caps only see the carried blocks.
+ */
+export const generateCarryOverSuggestions = (
+  subjects: Subject[],
+  freeSlots: CalendarEvent[],
+  deadlines: CalendarEvent[],
+  activeDelays: StudyDelay[],
+  planned: { start: Date; end: Date }[],
+  options: PlannerOptions = {}
+): StudySuggestion[] => {
+  const {
+    clock = systemClock,
+    config = DEFAULT_PLANNER_CONFIG,
+    periodEnd,
+    reviewItems = [],
+    missedBlocks = [],
+    carriedTimes = [],
+    studyTime = [],
+    goalProgress = [],
+    timeZone
+  } = options;
+  if (missedBlocks.length === 0) return [];
+
+  const now = clock();
+  const openSlots = getPlannableFreeSlots(freeSlots, now, getPlanningHorizonEnd(now, periodEnd, timeZone), timeZone)
+    .filter(slot => slot.end_datetime && !planned.some(interval => areIntervalsOverlapping(
+      { start: parseISO(slot.start_datetime), end: parseISO(slot.end_datetime!) },
+      interval
+    )));
+  const priorities = calculateSubjectPriorities(subjects, deadlines, activeDelays, { clock, config, reviewItems, studyTime, goalProgress });
+
+  const { carriedSuggestions } = placeCarryOver(openSlots, missedBlocks, priorities, config, carriedTimes, timeZone);
+  const { suggestions } = applyPlannerConstraints(carriedSuggestions, priorities, config, timeZone);
+
+  const isCarried = (block?: StudyBlock) => Boolean(block?.carriedFromSessionId);
+  return suggestions
+    .map(suggestion => ({
+      ...suggestion,
+      blocks: suggestion.blocks.filter((block, index, blocks) =>
+        isCarried(block) || (block.isBreak && isCarried(blocks[index - 1]) && isCarried(blocks[index + 1]))
+      )
+    }))
+    .filter(suggestion => suggestion.blocks.length > 0);
+};
+
+const distributeOpenSlots = (
+  slots: CalendarEvent[],
+  priorities: SubjectPriority[],
+  config: PlannerConfig,
+  timeZone?: string
+): StudySuggestion[] => {
+  // Interleaving mode: subjects are assigned block by block
+  if (config.interleaveSubjects) {
+    return interleaveSubjectsInSlots(slots, priorities, config, timeZone);
+  }
+
+  // Distribute subjects across slots, then move difficult subjects to the
+  // high-energy slots of each day
+  const distribution = matchSubjectsToEnergy(
+    distributeSubjectsToSlots(priorities, slots.length, config),
+    slots,
+    config.energyCurve,
+    timeZone
+  );
+
+  // Generate suggestions for each slot
+  const occurrences = new Map<string, number>();
+  return slots.map((slot, index) => {
+    const assignedPriority = distribution[index];
+    if (!assignedPriority) return { freeSlot: slot, blocks: [] };
+
+    const occurrence = (occurrences.get(assignedPriority.subject.id) || 0) + 1;
+    occurrences.set(assignedPriority.subject.id, occurrence);
+
+    const trace = buildDecisionTrace({
+      reason: getAllocationReason(assignedPriority, occurrence, config),
+      chosen: assignedPriority,
+      priorities,
+      config
+    });
+    return {
+      freeSlot: slot,
+      blocks: withTrace(generateStudyBlocksForSubject(slot, assignedPriority, config), trace),
+      assignedSubject: assignedPriority.subject
+    };
+  });
+};
@@ -0,0 +1,47 @@
+import type { Subject } from '@/hooks/useSubjects';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { SubjectPriority } from './types';
+
+// Shared fixtures for the planner test suites
+
+// Monday, 10 March 2025, 08:00 local time: "now" in the planner suites
+export const TEST_NOW = new Date(2025, 2, 10, 8, 0);
+
+export const makeSubject = (overrides: Partial<Subject> = {}): Subject => ({
+  id: 'subject-1',
+  user_id: 'user-1',
+  name: 'Cálculo I',
+  status: 'ativa',
+  difficulty_weight: 3,
+  dedication_weight: 3,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+export const makeEvent = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  id: 'event-1',
+  user_id: 'user-1',
+  title: 'Evento',
+  event_type: 'free_study',
+  start_datetime: new Date(2025, 2, 10, 14, 0).toISOString(),
+  end_datetime: new Date(2025, 2, 10, 16, 0).toISOString(),
+  is_recurring: false,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+export const makePriority = (score: number, overrides: Partial<Subject> = {}): SubjectPriority => ({
+  subject: makeSubject(overrides),
+  difficultyWeight: 3,
+  dedicationWeight: 3,
+  urgencyFactor: 0,
+  delayBonus: 0,
+  reviewBonus: 0,
+  studyTimeBonus: 0,
+  goalBonus: 0,
+  dueReviews: 0,
+  recentDelays: 0,
+  score
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { addDays } from 'date-fns';
+import { buildDecisionTrace, getAllocationReason } from './trace';
+import { generateSuggestions } from './suggestions';
+import { fixedClock } from './clock';
+import { makeEvent, makePriority, makeSubject, TEST_NOW } from './testUtils';
+
+
+describe('getAllocationReason', () => {
+  it.each([
+    [16, 1, 'priority'],
+    [16, 4, 'threshold_extra'],
+    [16, 5, 'rotation'],
+    [13, 2, 'threshold_extra'],
+    [13, 3, 'rotation'],
+    [8, 2, 'rotation']
+  ])('classifies slot %#', (score, occurrence, expected) => {
+    expect(getAllocationReason(makePriority(score), occurrence)).toBe(expected);
+  });
+});
+
+describe('buildDecisionTrace', () => {
+  it('records ranked candidates with their score components', () => {
+    const deadline = makeEvent({ id: 'exam', title: 'P1', event_type: 'deadline' });
+    const chosen = { ...makePriority(13, { id: 'a', name: 'Álgebra' }), urgencyFactor: 1, nearestDeadline: deadline, urgentDeadline: deadline, delayBonus: 2 };
+    const other = makePriority(8, { id: 'b', name: 'Física' });
+
+    const trace = buildDecisionTrace({ reason: 'threshold_extra', chosen, priorities: [chosen, other] });
+
+    expect(trace.candidates.map(c => [c.subjectName, c.score, c.extraSlots])).toEqual([
+      ['Álgebra', 13, 1],
+      ['Física', 8, 0]
+    ]);
+    expect(trace.deadline?.title).toBe('P1');
+    expect(trace.delayed).toBe(true);
+    expect(JSON.parse(JSON.stringify(trace))).toEqual(trace);
+  });
+
+  it('only credits the nearest deadline when it raised urgency', () => {
+    const chosen = { ...makePriority(6), nearestDeadline: makeEvent({ id: 'far' }) };
+
+    expect(buildDecisionTrace({ reason: 'priority', chosen, priorities: [chosen] }).deadline).toBeUndefined();
+  });
+});
+
+describe('generateSuggestions decision traces', () => {
+  it('attaches a trace to every study block and none to breaks', () => {
+    const slots = [0, 1, 2].map(day => makeEvent({
+      id: `slot-${day}`,
+      start_datetime: addDays(new Date(2025, 2, 10, 14, 0), day).toISOString(),
+      end_datetime: addDays(new Date(2025, 2, 10, 16, 0), day).toISOString()
+    }));
+    const subjects = [
+      makeSubject({ id: 'high', difficulty_weight: 5, dedication_weight: 5 }),
+      makeSubject({ id: 'low', difficulty_weight: 1, dedication_weight: 1 })
+    ];
+
+    const suggestions = generateSuggestions(subjects, slots, [], [], { clock: fixedClock(TEST_NOW) });
+    const blocks = suggestions.flatMap(s => s.blocks);
+
+    expect(blocks.filter(b => b.isBreak).every(b => !b.trace)).toBe(true);
+    expect(suggestions.map(s => s.blocks[0].trace?.reason)).toEqual(['priority', 'priority', 'rotation']);
+  });
+});
@@ -0,0 +1,79 @@
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type {
+  CandidateTrace,
+  DecisionReason,
+  DecisionTrace,
+  PlannerConfig,
+  StudyBlock,
+  SubjectPriority
+} from './types';
+import { DEFAULT_PLANNER_CONFIG } from './constants';
+import { getExtraSlots } from './distribution';
+
+const toCandidateTrace = (priority: SubjectPriority, config: PlannerConfig): CandidateTrace => ({
+  subjectId: priority.subject.id,
+  subjectName: priority.subject.name,
+  score: priority.score,
+  difficultyWeight: priority.difficultyWeight,
+  dedicationWeight: priority.dedicationWeight,
+  urgencyFactor: priority.urgencyFactor,
+  delayBonus: priority.delayBonus,
+  reviewBonus: priority.reviewBonus,
+  studyTimeBonus: priority.studyTimeBonus,
+  goalBonus: priority.goalBonus,
+  extraSlots: getExtraSlots(priority.score, config)
+});
+
+// Classify the n-th (1-based) slot or block a subject receives in a distribution
+export const getAllocationReason = (
+  priority: SubjectPriority,
+  occurrence: number,
+  config: PlannerConfig = DEFAULT_PLANNER_CONFIG
+): DecisionReason => {
+  if (occurrence <= 1) return 'priority';
+  if (occurrence <= 1 + getExtraSlots(priority.score, config)) return 'threshold_extra';
+  return 'rotation';
+};
+
+interface TraceInput {
+  reason: DecisionReason;
+  chosen: SubjectPriority;
+  priorities: SubjectPriority[];
+  config?: PlannerConfig;
+  // Deadline a slot was reserved for; defaults to the deadline behind the urgency factor
+  deadline?: CalendarEvent;
+  reviewTopic?: string;
+}
+
+export const buildDecisionTrace = ({
+  reason,
+  chosen,
+  priorities,
+  config = DEFAULT_PLANNER_CONFIG,
+  deadline,
+  reviewTopic
+}: TraceInput): DecisionTrace => {
+  const influencingDeadline = deadline ?? chosen.urgentDeadline;
+
+  return {
+    reason,
+    chosenSubjectId: chosen.subject.id,
+    candidates: priorities.map(p => toCandidateTrace(p, config)),
+    interleaved: config.interleaveSubjects,
+    repeatOnceThreshold: config.repeatOnceThreshold,
+    repeatTripleThreshold: config.repeatTripleThreshold,
+    difficultyCoefficient: config.difficultyCoefficient,
+    dedicationCoefficient: config.dedicationCoefficient,
+    deadline: influencingDeadline && {
+      id: influencingDeadline.id,
+      title: influencingDeadline.title,
+      start_datetime: influencingDeadline.start_datetime
+    },
+    delayed: chosen.delayBonus > 0,
+    reviewTopic
+  };
+};
+
+// Attach a trace to the study blocks of a slot; breaks carry none
+export const withTrace = (blocks: StudyBlock[], trace: DecisionTrace): StudyBlock[] =>
+  blocks.map(block => block.isBreak ? block : { ...block, trace });
@@ -0,0 +1,472 @@
+import type { Subject } from '@/hooks/useSubjects';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import type { StudySessionStatus } from '@/hooks/useStudySessions';
+
+// Returns the current time; injected so planner results are reproducible
+export type Clock = () => Date;
+
+// User-tunable planner parameters (see study_preferences)
+export interface PlannerConfig {
+  studyBlockMinutes: number;
+  breakMinutes: number;
+  // P = (difficultyCoefficient × D + dedicationCoefficient × B) × (1 + U) + bonuses
+  difficultyCoefficient: number;
+  dedicationCoefficient: number;
+  urgencyCurve: UrgencyCurve;
+  // Days before a deadline at which the linear and exponential curves reach zero
+  urgencyHorizonDays: number;
+  delayBonus: number;
+  repeatOnceThreshold: number;
+  repeatTripleThreshold: number;
+  // Assign subjects per block instead of per slot, so long slots mix subjects
+  interleaveSubjects: boolean;
+  // Interleaving mode: max study blocks in a row of the same subject inside a slot
+  maxConsecutiveBlocks: number;
+  // Energy level (1-5) for each hour of the day; a flat curve means no preference
+  energyCurve: number[];
+  // Hard constraints; null means no limit
+  maxDailyStudyMinutes: number | null;
+  maxSubjectBlocksPerDay: number | null;
+  // Weekdays (0 = Sunday) without any study
+  restDays: number[];
+}
+
+// How urgency grows as a deadline approaches:
+// - step: fixed levels by days left (2.0 / 1.5 / 1.2 / 1.0 / 0.5 / 0)
+// - linear: from 0 at the horizon up to the peak on the last day
+// - exponential: decays from the peak with the days left, cut off at the horizon
+export type UrgencyCurve = 'step' | 'linear' | 'exponential';
+
+// Energy profile over the day; 'custom' uses the user's own curve
+export type Chronotype = 'neutral' | 'morning' | 'evening' | 'custom';
+
+export interface PlannerOptions {
+  clock?: Clock;
+  config?: PlannerConfig;
+  // Last day of the academic period (yyyy-MM-dd); caps the planning horizon
+  periodEnd?: string | null;
+  // Spaced-repetition items; due ones raise priority and become review blocks
+  reviewItems?: ReviewItem[];
+  // Recently missed or skipped blocks to carry forward
+  missedBlocks?: MissedBlock[];
+  // Persisted make-up sessions; they count against the weekly carry-over cap
+  carriedTimes?: { start: Date; end: Date }[];
+  // Planned versus actual study time per subject; under-studied subjects get a bonus
+  studyTime?: SubjectStudyTime[];
+  // This week's progress on the per-subject goals; subjects short of theirs get a bonus
+  goalProgress?: SubjectGoalProgress[];
+  // IANA zone in which recurring free slots are expanded; defaults to the device's
+  timeZone?: string;
+}
+
+// A persisted study block that passed without being done
+export interface MissedBlock {
+  sessionId: string;
+  subjectId: string;
+  startTime: string;
+  minutes: number;
+}
+
+// One "Não consegui" in the delay log; active until expires_at
+export interface StudyDelay {
+  id: string;
+  user_id: string;
+  subject_id: string;
+  delayed_at: string;
+  expires_at: string;
+  // Study block that was given up, when known
+  study_session_id?: string | null;
+  scheduled_for?: string | null;
+  created_at: string;
+}
+
+// Delay history of one subject over the last DELAY_HISTORY_DAYS
+export interface SubjectDelayPattern {
+  subjectId: string;
+  delayCount: number;
+  // Delays per weekday of the given-up block, Sunday first
+  byWeekday: number[];
+  // Bonus the next active delay earns
+  escalatedBonus: number;
+  // Shorter block length to try, once the subject keeps being delayed
+  suggestedBlockMinutes: number | null;
+}
+
+// Weekday and hour at which study blocks keep being given up
+export interface UnreliableTime {
+  weekday: number;
+  hour: number;
+  delayCount: number;
+}
+
+export type StudyLogStatus = 'started' | 'paused' | 'completed';
+
+// One timed study session (see study_session_logs)
+export interface StudySessionLog {
+  id: string;
+  user_id: string;
+  subject_id: string;
+  // Planned block that was studied, when the session came from the plan
+  study_session_id?: string | null;
+  status: StudyLogStatus;
+  started_at: string;
+  // Start of the running stretch; null while paused or once completed
+  resumed_at?: string | null;
+  ended_at?: string | null;
+  // Minutes of the stretches that already ended
+  actual_minutes: number;
+  planned_minutes: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Planned blocks of a subject that already passed, and the time actually
+// studied, over the last STUDY_TIME_HISTORY_DAYS
+export interface SubjectStudyTime {
+  subjectId: string;
+  plannedMinutes: number;
+  actualMinutes: number;
+  // actual / planned; null when nothing was planned
+  ratio: number | null;
+  // Priority bonus of a subject studied below UNDER_STUDY_RATIO
+  bonus: number;
+}
+
+// Weekly study goals in minutes; per-subject ones are minimums (see study_goals)
+export interface StudyGoals {
+  weeklyMinutes: number | null;
+  subjectMinutes: Record<string, number>;
+}
+
+// Time studied this week towards a subject's minimum
+export interface SubjectGoalProgress {
+  subjectId: string;
+  targetMinutes: number;
+  minutes: number;
+  // Priority bonus while the subject is short of its minimum
+  bonus: number;
+}
+
+export interface WeeklyGoalProgress {
+  // Monday of the week
+  week: string;
+  targetMinutes: number | null;
+  minutes: number;
+  subjects: SubjectGoalProgress[];
+}
+
+// Self-assessment after a study block (see study_reflections)
+export interface StudyReflection {
+  id: string;
+  user_id: string;
+  subject_id: string;
+  study_session_id?: string | null;
+  // 1 (lost) to 5 (mastered)
+  understanding: number;
+  topics: string[];
+  note?: string | null;
+  created_at: string;
+}
+
+// Difficulty weight the recent reflections of a subject point to
+export interface DifficultyCalibration {
+  subjectId: string;
+  currentWeight?: number;
+  suggestedWeight: number;
+  averageUnderstanding: number;
+  reflectionCount: number;
+}
+
+export interface ReviewItem {
+  id: string;
+  user_id: string;
+  subject_id: string;
+  topic: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  next_due_at: string;
+  last_reviewed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Self-assessed recall, 0 (blackout) to 5 (perfect), as in SM-2
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface SubjectPriority {
+  subject: Subject;
+  difficultyWeight: number;
+  dedicationWeight: number;
+  urgencyFactor: number;
+  delayBonus: number;
+  reviewBonus: number;
+  // Bonus for studying less than planned lately
+  studyTimeBonus: number;
+  // Bonus for falling short of the weekly minimum
+  goalBonus: number;
+  dueReviews: number;
+  // Delays of the subject over the last DELAY_HISTORY_DAYS
+  recentDelays: number;
+  score: number;
+  nearestDeadline?: CalendarEvent;
+  // Deadline whose kind-weighted urgency is highest; it sets urgencyFactor
+  urgentDeadline?: CalendarEvent;
+}
+
+export interface StudyBlock {
+  id: string;
+  subject: Subject;
+  startTime: Date;
+  endTime: Date;
+  isBreak: boolean;
+  freeSlotId?: string;
+  // Set when the block comes from a persisted study session
+  sessionId?: string;
+  status?: StudySessionStatus;
+  // Set on short "Revisão" blocks
+  reviewItemId?: string;
+  reviewTopic?: string;
+  // Set on blocks that make up for a missed or skipped session
+  carriedFromSessionId?: string;
+  // Why the planner picked this subject (study blocks only)
+  trace?: DecisionTrace;
+  // Set on blocks of an exam preparation; the topic is absent on general reviews
+  examPrepPlanId?: string;
+  prepTopic?: string;
+}
+
+// Why a block got its subject:
+// - priority: the subject's guaranteed slot in the distribution
+// - threshold_extra: an extra slot from the 12/15 repeat thresholds
+// - rotation: leftover slots handed out in priority order
+// - deadline_effort: slot reserved for a deadline's estimated effort
+// - review: spaced-repetition review of a topic
+// - carry_over: slot making up for missed or skipped blocks of the subject
+// - constraint: the slot's first choice broke a constraint; next allowed subject
+export type DecisionReason =
+  | 'priority'
+  | 'threshold_extra'
+  | 'rotation'
+  | 'deadline_effort'
+  | 'review'
+  | 'carry_over'
+  | 'constraint';
+
+// Score components of one candidate subject at decision time
+export interface CandidateTrace {
+  subjectId: string;
+  subjectName: string;
+  score: number;
+  difficultyWeight: number;
+  dedicationWeight: number;
+  urgencyFactor: number;
+  delayBonus: number;
+  reviewBonus: number;
+  // Absent on traces recorded before actual study time was tracked
+  studyTimeBonus?: number;
+  // Absent on traces recorded before weekly goals existed
+  goalBonus?: number;
+  extraSlots: number;
+}
+
+// JSON-serialisable record of a planner decision, stored with the study session
+export interface DecisionTrace {
+  reason: DecisionReason;
+  chosenSubjectId: string;
+  // Candidates ranked by score, best first
+  candidates: CandidateTrace[];
+  interleaved: boolean;
+  repeatOnceThreshold: number;
+  repeatTripleThreshold: number;
+  // Weight coefficients of the formula; absent on traces recorded before they existed
+  difficultyCoefficient?: number;
+  dedicationCoefficient?: number;
+  // Deadline that raised urgency or reserved the slot
+  deadline?: { id: string; title: string; start_datetime: string };
+  delayed: boolean;
+  reviewTopic?: string;
+}
+
+// Time layout of a slot before subjects are assigned
+export interface BlockFrame {
+  startTime: Date;
+  endTime: Date;
+  isBreak: boolean;
+}
+
+export interface StudySuggestion {
+  freeSlot: CalendarEvent;
+  blocks: StudyBlock[];
+  assignedSubject?: Subject; // Subject assigned to this slot
+  deadline?: CalendarEvent; // Set when the slot is reserved for a deadline's effort
+}
+
+// Hard limits the plan must respect:
+// - rest_day: weekday without study
+// - daily_cap: total study time per day
+// - subject_daily_cap: study blocks of one subject per day
+// - subject_latest_time: the subject's "not after" time of day
+export type ConstraintKind = 'rest_day' | 'daily_cap' | 'subject_daily_cap' | 'subject_latest_time';
+
+// Study of one subject that a constraint kept off the plan
+export interface ConstraintViolation {
+  kind: ConstraintKind;
+  subject: Subject;
+  // Days (yyyy-MM-dd) with blocked study, in order
+  dates: string[];
+  blockedMinutes: number;
+}
+
+export interface StudyPlan {
+  suggestions: StudySuggestion[];
+  violations: ConstraintViolation[];
+}
+
+// Study time reserved before a deadline with an estimated effort
+export interface DeadlineCommitment {
+  deadline: CalendarEvent;
+  priority: SubjectPriority;
+  requiredMinutes: number;
+  reservedMinutes: number;
+  // Effort that does not fit in the free time left before the deadline
+  shortfallMinutes: number;
+  // Reserved slots, latest first; may extend past the planning horizon
+  slotIds: string[];
+}
+
+// Study time one subject needs in a forecast week
+export interface SubjectWorkload {
+  priority: SubjectPriority;
+  // Regular study from the difficulty and dedication weights
+  baselineMinutes: number;
+  // Share of deadline efforts whose preparation window overlaps the week
+  deadlineMinutes: number;
+  // Reviews falling due in the week
+  reviewMinutes: number;
+  totalMinutes: number;
+}
+
+// Overflow of an overloaded week that an earlier week has room for
+export interface FrontLoadSuggestion {
+  weekStart: Date;
+  minutes: number;
+}
+
+export interface WeekForecast {
+  weekStart: Date;
+  weekEnd: Date;
+  availableMinutes: number;
+  requiredMinutes: number;
+  // Sorted by priority score, highest first
+  subjects: SubjectWorkload[];
+  // Deadlines falling in the week
+  deadlines: CalendarEvent[];
+  overloadMinutes: number;
+  // Earlier weeks to start on the overflow, latest first
+  frontLoad: FrontLoadSuggestion[];
+  // Overflow no earlier week has room for
+  unresolvedMinutes: number;
+}
+
+// Hypothetical changes for the what-if simulator; never persisted
+export interface PlanScenario {
+  // New weights by subject id
+  weights: Record<string, { difficultyWeight: number; dedicationWeight: number }>;
+  // Subjects treated as 'finalizada'
+  finishedSubjectIds: string[];
+  extraDeadlines: CalendarEvent[];
+}
+
+// What a plan gives one subject
+export interface SubjectPlanSummary {
+  subjectId: string;
+  // Undefined when the subject is out of the plan (finished or unweighted)
+  score?: number;
+  studyBlocks: number;
+  studyMinutes: number;
+  reviewBlocks: number;
+}
+
+// Why a plan version was saved:
+// - regenerate: the user regenerated the plan
+// - missed_blocks: missed blocks were carried forward automatically
+// - restore: an earlier version was restored
+export type PlanVersionTrigger = 'regenerate' | 'missed_blocks' | 'restore';
+
+// JSON-serialisable block of a saved plan version
+export interface PlanSnapshotBlock {
+  subjectId: string;
+  subjectName: string;
+  startTime: string;
+  endTime: string;
+  isBreak: boolean;
+  // Free slot (occurrence) the block was planned in
+  slotId: string;
+  reviewItemId?: string;
+  reviewTopic?: string;
+  carriedFromSessionId?: string;
+  trace?: DecisionTrace;
+}
+
+// Future part of the plan as generated at created_at (see study_plan_versions)
+export interface PlanVersion {
+  id: string;
+  user_id: string;
+  trigger: PlanVersionTrigger;
+  restored_from_version_id?: string | null;
+  blocks: PlanSnapshotBlock[];
+  created_at: string;
+}
+
+export type PlanChangeKind = 'added' | 'removed' | 'subject_changed';
+
+// Why a study block changed between two versions:
+// - slot_added / slot_removed: the free slot gained or lost all its study
+// - subject_removed: the earlier subject left the plan (finished, deleted or unweighted)
+// - deadline: a deadline the earlier block did not have now drives the slot
+// - priority_change: subject scores moved and reordered the plan
+// - rescheduled: same scores, blocks reshuffled (carry-over, reviews, constraints, block length)
+export type PlanChangeReason =
+  | 'slot_added'
+  | 'slot_removed'
+  | 'subject_removed'
+  | 'deadline'
+  | 'priority_change'
+  | 'rescheduled';
+
+export interface PlanChange {
+  kind: PlanChangeKind;
+  reason: PlanChangeReason;
+  // Block in the earlier version; absent on added blocks
+  before?: PlanSnapshotBlock;
+  // Block in the later version; absent on removed blocks
+  after?: PlanSnapshotBlock;
+}
+
+// Study load of an exam preparation day, rising towards the exam:
+// - light: the day before the exam, a short general review
+// - moderate / high / peak: regular days, more blocks as the exam nears
+export type ExamPrepIntensity = 'light' | 'moderate' | 'high' | 'peak';
+
+export interface ExamPrepDay {
+  // Calendar day (yyyy-MM-dd) in the plan's time zone
+  date: string;
+  intensity: ExamPrepIntensity;
+  targetBlocks: number;
+  // Study blocks and the breaks between them, in time order
+  blocks: StudyBlock[];
+  // Syllabus topics studied on the day
+  topics: string[];
+}
+
+// Day-by-day revision schedule for a prova, from today until its date
+export interface ExamPrepPlan {
+  deadline: CalendarEvent;
+  subject: Subject;
+  days: ExamPrepDay[];
+  // Blocks grouped by free slot, ready to be saved as study sessions
+  suggestions: StudySuggestion[];
+  // Topics no block before the light day could cover
+  uncoveredTopics: string[];
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { diffPlanVersions, extendSnapshot, restorePlanVersion, snapshotPlan } from './versions';
+import { generateSuggestions } from './suggestions';
+import { buildDecisionTrace } from './trace';
+import { fixedClock } from './clock';
+import { makeEvent, makePriority, makeSubject, TEST_NOW } from './testUtils';
+import type { PlanSnapshotBlock } from './types';
+
+const clock = fixedClock(TEST_NOW);
+
+const block = (subjectId: string, day: number, hour: number, overrides: Partial<PlanSnapshotBlock> = {}): PlanSnapshotBlock => ({
+  subjectId,
+  subjectName: subjectId,
+  startTime: new Date(2025, 2, day, hour, 0).toISOString(),
+  endTime: new Date(2025, 2, day, hour, 50).toISOString(),
+  isBreak: false,
+  slotId: `slot-${day}`,
+  ...overrides
+});
+
+const traceWithScores = (chosen: string, scores: Record<string, number>) => {
+  const priorities = Object.entries(scores).map(([id, score]) => makePriority(score, { id, name: id }));
+  return buildDecisionTrace({
+    reason: 'priority',
+    chosen: priorities.find(p => p.subject.id === chosen)!,
+    priorities
+  });
+};
+
+const describeChanges = (previous: PlanSnapshotBlock[], next: PlanSnapshotBlock[]) =>
+  diffPlanVersions(previous, next, TEST_NOW).map(change =>
+    `${change.kind} ${change.before?.subjectId ?? '-'}→${change.after?.subjectId ?? '-'} ${change.reason}`
+  );
+
+describe('diffPlanVersions', () => {
+  it('reports added and removed slots and ignores study that already passed', () => {
+    const previous = [block('calc', 7, 14), block('calc', 11, 14), block('hist', 12, 14)];
+    const next = [block('calc', 11, 14), block('hist', 13, 14)];
+
+    expect(describeChanges(previous, next)).toEqual([
+      'removed hist→- slot_removed',
+      'added -→hist slot_added'
+    ]);
+  });
+
+  it('explains a subject change by scores, deadlines or a subject leaving the plan', () => {
+    const previous = [
+      block('calc', 11, 14, { trace: traceWithScores('calc', { calc: 12, hist: 8 }) }),
+      block('calc', 11, 15, { trace: traceWithScores('calc', { calc: 12, hist: 8 }) }),
+      block('fis', 12, 14),
+      block('calc', 13, 14, { trace: traceWithScores('calc', { calc: 12, hist: 8 }) })
+    ];
+    const deadlineTrace = {
+      ...traceWithScores('hist', { calc: 12, hist: 8 }),
+      deadline: { id: 'exam', title: 'Prova de História', start_datetime: new Date(2025, 2, 14).toISOString() }
+    };
+    const next = [
+      block('hist', 11, 14, { trace: traceWithScores('hist', { calc: 6, hist: 8 }) }),
+      block('calc', 11, 15, { trace: traceWithScores('calc', { calc: 6, hist: 8 }) }),
+      block('calc', 12, 14),
+      block('hist', 13, 14, { trace: { ...deadlineTrace } })
+    ];
+
+    expect(describeChanges(previous, next)).toEqual([
+      'subject_changed calc→hist priority_change',
+      'subject_changed fis→calc subject_removed',
+      'subject_changed calc→hist deadline'
+    ]);
+  });
+
+  it('treats blocks moved inside a kept slot as rescheduled', () => {
+    const previous = [block('calc', 11, 14), block('calc', 11, 15)];
+    const next = [block('calc', 11, 14), block('calc', 11, 16)];
+
+    expect(describeChanges(previous, next)).toEqual([
+      'removed calc→- rescheduled',
+      'added -→calc rescheduled'
+    ]);
+  });
+});
+
+describe('snapshotPlan and restorePlanVersion', () => {
+  const calc = makeSubject({ id: 'calc', name: 'Cálculo', difficulty_weight: 5, dedication_weight: 4 });
+  const hist = makeSubject({ id: 'hist', name: 'História', difficulty_weight: 2, dedication_weight: 2 });
+  const slots = [
+    makeEvent({
+      id: 'mon',
+      start_datetime: new Date(2025, 2, 10, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 10, 16, 0).toISOString()
+    }),
+    makeEvent({
+      id: 'tue',
+      start_datetime: new Date(2025, 2, 11, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 11, 16, 0).toISOString()
+    })
+  ];
+
+  const layout = (suggestions: ReturnType<typeof generateSuggestions>) =>
+    suggestions.flatMap(s => s.blocks).map(b => [b.subject.id, b.startTime.toISOString(), b.isBreak]);
+
+  it('round-trips a generated plan', () => {
+    const suggestions = generateSuggestions([calc, hist], slots, [], [], { clock });
+    const snapshot = snapshotPlan(suggestions, TEST_NOW);
+
+    expect(snapshot.every(b => b.subjectName === (b.subjectId === 'calc' ? 'Cálculo' : 'História'))).toBe(true);
+
+    const restored = restorePlanVersion(snapshot, { subjects: [calc, hist], freeSlots: slots }, { clock });
+    expect(layout(restored)).toEqual(layout(suggestions));
+    expect(restored.flatMap(s => s.blocks).filter(b => !b.isBreak).every(b => b.trace)).toBe(true);
+  });
+
+  it('drops past blocks and blocks whose subject or slot is gone', () => {
+    const snapshot = snapshotPlan(generateSuggestions([calc, hist], slots, [], [], { clock }), TEST_NOW);
+    const restored = restorePlanVersion(
+      snapshot,
+      { subjects: [calc], freeSlots: [slots[0]] },
+      { clock: fixedClock(new Date(2025, 2, 10, 14, 30)) }
+    );
+
+    expect(restored.map(s => s.freeSlot.id)).toEqual(['mon']);
+    expect(restored[0].blocks.every(b => b.subject.id === 'calc' && b.startTime > new Date(2025, 2, 10, 14, 30))).toBe(true);
+  });
+
+  it('restores blocks planned in occurrences of recurring slots', () => {
+    const weekly = makeEvent({
+      id: 'weekly',
+      start_datetime: new Date(2025, 2, 3, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 3, 16, 0).toISOString(),
+      is_recurring: true,
+      recurrence_pattern: 'weekly',
+      recurrence_days: [1, 3]
+    });
+    const suggestions = generateSuggestions([calc, hist], [weekly], [], [], { clock });
+    const restored = restorePlanVersion(snapshotPlan(suggestions, TEST_NOW), { subjects: [calc, hist], freeSlots: [weekly] }, { clock });
+
+    expect(restored.map(s => s.freeSlot.id)).toEqual(suggestions.map(s => s.freeSlot.id));
+    expect(layout(restored)).toEqual(layout(suggestions));
+  });
+});
+
+describe('extendSnapshot', () => {
+  it('adds the new blocks to the still-future part of a snapshot', () => {
+    const hist = makeSubject({ id: 'hist', name: 'História' });
+    const slot = makeEvent({
+      id: 'wed',
+      start_datetime: new Date(2025, 2, 12, 14, 0).toISOString(),
+      end_datetime: new Date(2025, 2, 12, 15, 0).toISOString()
+    });
+    const previous = [block('calc', 9, 14), block('calc', 11, 14), block('calc', 13, 14)];
+
+    const extended = extendSnapshot(previous, generateSuggestions([hist], [slot], [], [], { clock }), TEST_NOW);
+
+    expect(extended.map(b => [b.subjectId, b.slotId])).toEqual([
+      ['calc', 'slot-11'],
+      ['hist', 'wed'],
+      ['calc', 'slot-13']
+    ]);
+  });
+});
@@ -0,0 +1,185 @@
+import { isAfter, parseISO, startOfDay } from 'date-fns';
+import type { Subject } from '@/hooks/useSubjects';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import { expandEventsInRange } from '@/lib/recurrence';
+import type {
+  DecisionTrace,
+  PlanChange,
+  PlanChangeReason,
+  PlanSnapshotBlock,
+  PlannerOptions,
+  ReviewItem,
+  StudyBlock,
+  StudySuggestion
+} from './types';
+import { SCORE_CHANGE_EPSILON } from './constants';
+import { systemClock } from './clock';
+
+// Future blocks of generated suggestions, in the form saved with a plan version
+export const snapshotPlan = (suggestions: StudySuggestion[], now: Date): PlanSnapshotBlock[] =>
+  suggestions
+    .flatMap(suggestion => suggestion.blocks.map(block => ({ block, slotId: suggestion.freeSlot.id })))
+    .filter(({ block }) => isAfter(block.startTime, now))
+    .map(({ block, slotId }) => ({
+      subjectId: block.subject.id,
+      subjectName: block.subject.name,
+      startTime: block.startTime.toISOString(),
+      endTime: block.endTime.toISOString(),
+      isBreak: block.isBreak,
+      slotId,
+      reviewItemId: block.reviewItemId,
+      reviewTopic: block.reviewTopic,
+      carriedFromSessionId: block.carriedFromSessionId,
+      trace: block.trace
+    }))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+// A saved snapshot with the blocks of new suggestions added, future blocks only
+export const extendSnapshot = (
+  previous: PlanSnapshotBlock[],
+  suggestions: StudySuggestion[],
+  now: Date
+): PlanSnapshotBlock[] =>
+  [...previous.filter(block => isAfter(parseISO(block.startTime), now)), ...snapshotPlan(suggestions, now)]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+const scoreOf = (trace: DecisionTrace | undefined, subjectId: string) =>
+  trace?.candidates.find(c => c.subjectId === subjectId)?.score;
+
+// Whether the score of either subject differs between the two decisions
+const scoresMoved = (before: PlanSnapshotBlock, after: PlanSnapshotBlock) => {
+  if (!before.trace || !after.trace) return false;
+
+  return [before.subjectId, after.subjectId].some(subjectId => {
+    const previous = scoreOf(before.trace, subjectId);
+    const next = scoreOf(after.trace, subjectId);
+    return previous !== undefined && next !== undefined && Math.abs(next - previous) > SCORE_CHANGE_EPSILON;
+  });
+};
+
+// Why `after` replaced `before`, the earlier block at that time or in that slot
+const explainAssignment = (
+  before: PlanSnapshotBlock,
+  after: PlanSnapshotBlock,
+  nextSubjectIds: Set<string>
+): PlanChangeReason => {
+  if (!nextSubjectIds.has(before.subjectId)) return 'subject_removed';
+  if (after.trace?.deadline && after.trace.deadline.id !== before.trace?.deadline?.id) return 'deadline';
+  if (scoresMoved(before, after)) return 'priority_change';
+  return 'rescheduled';
+};
+
+/**
+ * Study blocks that were added, removed or handed to another subject between
+ * two plan versions, with the reason for each change, in time order.
+ *
+ * Blocks are matched by start time. Only blocks starting after `since` (usually
+ * when the later version was saved) are compared, so study that simply passed
+ * is not reported as removed. Breaks are ignored.
+ */
+export const diffPlanVersions = (
+  previous: PlanSnapshotBlock[],
+  next: PlanSnapshotBlock[],
+  since: Date
+): PlanChange[] => {
+  const studyBlocks = (blocks: PlanSnapshotBlock[]) =>
+    blocks.filter(block => !block.isBreak && isAfter(parseISO(block.startTime), since));
+  const before = studyBlocks(previous);
+  const after = studyBlocks(next);
+
+  const beforeByStart = new Map(before.map(block => [block.startTime, block]));
+  const afterByStart = new Map(after.map(block => [block.startTime, block]));
+  const nextSubjectIds = new Set(after.map(block => block.subjectId));
+  const firstInSlot = (blocks: PlanSnapshotBlock[], slotId: string) => blocks.find(block => block.slotId === slotId);
+
+  const changes: PlanChange[] = [];
+
+  for (const block of after) {
+    const earlier = beforeByStart.get(block.startTime);
+    if (earlier) {
+      if (earlier.subjectId !== block.subjectId) {
+        changes.push({
+          kind: 'subject_changed',
+          reason: explainAssignment(earlier, block, nextSubjectIds),
+          before: earlier,
+          after: block
+        });
+      }
+      continue;
+    }
+
+    const slotBefore = firstInSlot(before, block.slotId);
+    changes.push({
+      kind: 'added',
+      reason: slotBefore ? explainAssignment(slotBefore, block, nextSubjectIds) : 'slot_added',
+      after: block
+    });
+  }
+
+  for (const block of before) {
+    if (afterByStart.has(block.startTime)) continue;
+
+    const reason: PlanChangeReason = !firstInSlot(after, block.slotId)
+      ? 'slot_removed'
+      : nextSubjectIds.has(block.subjectId) ? 'rescheduled' : 'subject_removed';
+    changes.push({ kind: 'removed', reason, before: block });
+  }
+
+  const changeTime = (change: PlanChange) => (change.after ?? change.before)!.startTime;
+  return changes.sort((a, b) => changeTime(a).localeCompare(changeTime(b)));
+};
+
+interface RestoreInput {
+  subjects: Subject[];
+  // Free study slots as stored; recurring ones are expanded over the version's span
+  freeSlots: CalendarEvent[];
+  reviewItems?: ReviewItem[];
+}
+
+/**
+ * Suggestions that bring back a saved plan version for its still-future part.
+ * Blocks whose subject or free slot no longer exists are dropped, and review
+ * blocks whose item was deleted become regular study blocks.
+ */
+export const restorePlanVersion = (
+  blocks: PlanSnapshotBlock[],
+  { subjects, freeSlots, reviewItems = [] }: RestoreInput,
+  { clock = systemClock, timeZone }: PlannerOptions = {}
+): StudySuggestion[] => {
+  const now = clock();
+  const lastEnd = blocks.reduce((latest, block) => {
+    const end = parseISO(block.endTime);
+    return isAfter(end, latest) ? end : latest;
+  }, now);
+  const bySlot = new Map<string, StudyBlock[]>();
+
+  blocks.forEach((snapshot, index) => {
+    const subject = subjects.find(s => s.id === snapshot.subjectId);
+    const startTime = parseISO(snapshot.startTime);
+    if (!subject || !isAfter(startTime, now)) return;
+
+    const reviewItem = reviewItems.find(item => item.id === snapshot.reviewItemId);
+    const block: StudyBlock = {
+      id: `${snapshot.slotId}-restored-${index}`,
+      subject,
+      startTime,
+      endTime: parseISO(snapshot.endTime),
+      isBreak: snapshot.isBreak,
+      freeSlotId: snapshot.slotId,
+      reviewItemId: reviewItem?.id,
+      reviewTopic: reviewItem?.topic,
+      carriedFromSessionId: snapshot.carriedFromSessionId,
+      trace: snapshot.trace
+    };
+    bySlot.set(snapshot.slotId, [...(bySlot.get(snapshot.slotId) || []), block]);
+  });
+
+  // Slots under way still hold future blocks, so expand from the start of today
+  return expandEventsInRange(freeSlots, startOfDay(now), lastEnd, timeZone).flatMap(freeSlot => {
+    const slotBlocks = bySlot.get(freeSlot.id);
+    if (!slotBlocks) return [];
+
+    const firstStudy = slotBlocks.find(block => !block.isBreak);
+    return [{ freeSlot, blocks: slotBlocks, assignedSubject: firstStudy?.subject }];
+  });
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { expandEventOccurrences, expandEventsInRange, getEventsOnDay } from './recurrence';
+import { makeEvent } from './planner/testUtils';
+
+const starts = (events: ReturnType<typeof expandEventsInRange>) => events.map(e => e.start_datetime);
+
+describe('expandEventOccurrences', () => {
+  it('keeps the wall-clock time of a weekly event across a DST change', () => {
+    // Mondays at 14:00 in New York; clocks went forward on 9 March 2025
+    const weekly = makeEvent({
+      id: 'weekly',
+      start_datetime: '2025-03-03T19:00:00.000Z',
+      end_datetime: '2025-03-03T21:00:00.000Z',
+      is_recurring: true,
+      recurrence_pattern: 'weekly',
+      recurrence_days: [1]
+    });
+
+    const occurrences = expandEventOccurrences(
+      weekly,
+      new Date('2025-03-01T00:00:00Z'),
+      new Date('2025-03-18T00:00:00Z'),
+      'America/New_York'
+    );
+
+    expect(starts(occurrences)).toEqual([
+      '2025-03-03T19:00:00.000Z',
+      '2025-03-10T18:00:00.000Z',
+      '2025-03-17T18:00:00.000Z'
+    ]);
+    expect(occurrences[1].end_datetime).toBe('2025-03-10T20:00:00.000Z');
+    expect(occurrences.map(e => e.id)).toEqual(['weekly-20250303', 'weekly-20250310', 'weekly-20250317']);
+  });
+
+  it('takes weekdays and the end date in the event zone', () => {
+    // Mondays and Wednesdays at 22:00 in São Paulo, already Tuesday and Thursday in UTC
+    const evening = makeEvent({
+      id: 'evening',
+      start_datetime: '2025-03-11T01:00:00.000Z',
+      end_datetime: '2025-03-11T02:00:00.000Z',
+      is_recurring: true,
+      recurrence_pattern: 'weekly',
+      recurrence_days: [1, 3],
+      recurrence_end_date: '2025-03-17'
+    });
+
+    const occurrences = expandEventOccurrences(
+      evening,
+      new Date('2025-03-10T00:00:00Z'),
+      new Date('2025-03-31T00:00:00Z'),
+      'America/Sao_Paulo'
+    );
+
+    expect(starts(occurrences)).toEqual([
+      '2025-03-11T01:00:00.000Z',
+      '2025-03-13T01:00:00.000Z',
+      '2025-03-18T01:00:00.000Z'
+    ]);
+  });
+
+  it('leaves one-off events untouched', () => {
+    const single = makeEvent({ start_datetime: '2025-03-10T17:00:00.000Z' });
+
+    expect(expandEventsInRange([single], new Date('2025-03-01T00:00:00Z'), new Date('2025-03-31T00:00:00Z'), 'UTC'))
+      .toEqual([single]);
+  });
+});
+
+describe('getEventsOnDay', () => {
+  // Every day at 07:00 in Tokyo (22:00 UTC the day before), until 12 March
+  const daily = makeEvent({
+    id: 'daily',
+    start_datetime: '2025-03-09T22:00:00.000Z',
+    end_datetime: '2025-03-09T23:00:00.000Z',
+    is_recurring: true,
+    recurrence_pattern: 'daily',
+    recurrence_end_date: '2025-03-12'
+  });
+
+  it('shows daily events on each day of the zone up to their end date', () => {
+    const days = ['2025-03-09', '2025-03-10', '2025-03-11', '2025-03-12', '2025-03-13'];
+
+    expect(days.map(day => getEventsOnDay([daily], day, 'Asia/Tokyo').map(e => e.id))).toEqual([
+      [],
+      ['daily-20250310'],
+      ['daily-20250311'],
+      ['daily-20250312'],
+      []
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+import { differenceInMinutes, isAfter, isBefore, parseISO } from 'date-fns';
+import type { CalendarEvent } from '@/hooks/useCalendarEvents';
+import {
+  addCalendarDays,
+  getCalendarWeekday,
+  getDeviceTimeZone,
+  getWallTime,
+  getZonedDay,
+  zonedDateTimeToUtc
+} from '@/lib/timezone';
+
+/**
+ * Expand a (possibly recurring) calendar event into the concrete occurrences
+ * that fall inside [rangeStart, rangeEnd].
+ *
+ * - Non-recurring events are returned as-is when they start inside the range.
+ * - Weekly events repeat on `recurrence_days` (or the weekday of the first
+ *   occurrence when no days were picked); daily events repeat every day.
+ * - Occurrences never start before the original `start_datetime` nor after
+ *   `recurrence_end_date` (inclusive).
+ *
+ * Days, weekdays and the time of day are taken in `timeZone`, so every
+ * occurrence keeps the first one's wall-clock time across DST changes.
+ * Each generated occurrence keeps the original duration and gets a stable id
+ * (`<event id>-<yyyyMMdd>`) plus `recurrence_parent_id` pointing at the source event.
+ */
+export const expandEventOccurrences = (
+  event: CalendarEvent,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string = getDeviceTimeZone()
+): CalendarEvent[] => {
+  const eventStart = parseISO(event.start_datetime);
+
+  if (!event.is_recurring) {
+    if (isBefore(eventStart, rangeStart) || isAfter(eventStart, rangeEnd)) return [];
+    return [event];
+  }
+
+  const durationMinutes = event.end_datetime
+    ? differenceInMinutes(parseISO(event.end_datetime), eventStart)
+    : null;
+
+  const firstDay = getZonedDay(eventStart, timeZone);
+  const { hour, minute } = getWallTime(eventStart, timeZone);
+  const timeOfDay = `${hour}:${minute}`;
+
+  const weekdays = event.recurrence_days && event.recurrence_days.length > 0
+    ? event.recurrence_days
+    : [getCalendarWeekday(firstDay)];
+
+  const isDaily = event.recurrence_pattern === 'daily';
+
+  const rangeEndDay = getZonedDay(rangeEnd, timeZone);
+  const lastDay = event.recurrence_end_date && event.recurrence_end_date < rangeEndDay
+    ? event.recurrence_end_date
+    : rangeEndDay;
+  const rangeStartDay = getZonedDay(rangeStart, timeZone);
+  let day = rangeStartDay > firstDay ? rangeStartDay : firstDay;
+
+  const occurrences: CalendarEvent[] = [];
+
+  while (day <= lastDay) {
+    if (isDaily || day === firstDay || weekdays.includes(getCalendarWeekday(day))) {
+      const occurrenceStart = zonedDateTimeToUtc(day, timeOfDay, timeZone);
+
+      if (!isBefore(occurrenceStart, rangeStart) && !isAfter(occurrenceStart, rangeEnd)) {
+        const occurrenceEnd = durationMinutes !== null
+          ? new Date(occurrenceStart.getTime() + durationMinutes * 60000)
+          : null;
+
+        occurrences.push({
+          ...event,
+          id: `${event.id}-${day.replace(/-/g, '')}`,
+          start_datetime: occurrenceStart.toISOString(),
+          end_datetime: occurrenceEnd ? occurrenceEnd.toISOString() : undefined,
+          recurrence_parent_id: event.id
+        });
+      }
+    }
+
+    day = addCalendarDays(day, 1);
+  }
+
+  return occurrences;
+};
+
+// Expand a list of events into concrete occurrences, sorted by start time
+export const expandEventsInRange = (
+  events: CalendarEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZone: string = getDeviceTimeZone()
+): CalendarEvent[] => {
+  return events
+    .flatMap(event => expandEventOccurrences(event, rangeStart, rangeEnd, timeZone))
+    .sort((a, b) => new Date(a.start_datetime).getTime() - new Date(b.start_datetime).getTime());
+};
+
+// Occurrences on one calendar day ('yyyy-MM-dd') of the zone, as the calendar views show them
+export const getEventsOnDay = (
+  events: CalendarEvent[],
+  day: string,
+  timeZone: string = getDeviceTimeZone()
+): CalendarEvent[] => {
+  const dayStart = zonedDateTimeToUtc(day, '00:00', timeZone);
+  const nextDayStart = zonedDateTimeToUtc(addCalendarDays(day, 1), '00:00', timeZone);
+  return expandEventsInRange(events, dayStart, new Date(nextDayStart.getTime() - 1), timeZone);
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { getFreezeCandidate, getFreezesLeft, getStreakSummary, getStudyDays } from './streaks';
+import type { StudySessionLog } from './planner';
+
+const TODAY = '2025-03-14';
+
+const makeLog = (startedAt: string, status: StudySessionLog['status'] = 'completed'): StudySessionLog => ({
+  id: startedAt,
+  user_id: 'user-1',
+  subject_id: 'calc',
+  status,
+  started_at: startedAt,
+  actual_minutes: 50,
+  planned_minutes: 50,
+  created_at: startedAt,
+  updated_at: startedAt
+});
+
+const days = (...list: string[]) => new Set(list);
+
+describe('getStudyDays', () => {
+  it('takes the zoned day of completed logs only', () => {
+    const logs = [
+      makeLog('2025-03-13T01:30:00Z'),
+      makeLog('2025-03-13T15:00:00Z'),
+      makeLog('2025-03-14T12:00:00Z', 'paused')
+    ];
+
+    expect([...getStudyDays(logs, 'America/Sao_Paulo')]).toEqual(['2025-03-12', '2025-03-13']);
+  });
+});
+
+describe('getStreakSummary', () => {
+  it('keeps a streak up to yesterday current while today is open', () => {
+    const summary = getStreakSummary(days('2025-03-11', '2025-03-12', '2025-03-13'), [], TODAY);
+
+    expect(summary).toEqual({ current: 3, longest: 3, todayDone: false, todayFrozen: false });
+  });
+
+  it('bridges frozen days without counting them', () => {
+    const studyDays = days('2025-03-01', '2025-03-02', '2025-03-10', '2025-03-12', '2025-03-13', TODAY);
+
+    expect(getStreakSummary(studyDays, ['2025-03-11'], TODAY).current).toBe(4);
+    expect(getStreakSummary(studyDays, [], TODAY)).toEqual({ current: 3, longest: 3, todayDone: true, todayFrozen: false });
+  });
+
+  it('breaks on a missed day before yesterday', () => {
+    const summary = getStreakSummary(days('2025-03-01', '2025-03-02', '2025-03-03', '2025-03-12'), [], TODAY);
+
+    expect(summary.current).toBe(0);
+    expect(summary.longest).toBe(3);
+  });
+});
+
+describe('getFreezeCandidate', () => {
+  it('offers yesterday when it broke a streak, then today', () => {
+    const studyDays = days('2025-03-12');
+
+    expect(getFreezeCandidate(studyDays, [], TODAY)).toBe('2025-03-13');
+    expect(getFreezeCandidate(studyDays, ['2025-03-13'], TODAY)).toBe(TODAY);
+    expect(getFreezeCandidate(days(TODAY), [], TODAY)).toBeNull();
+  });
+
+  it('respects the monthly allowance', () => {
+    const freezes = ['2025-03-02', '2025-03-05'];
+
+    expect(getFreezesLeft(freezes, TODAY)).toBe(0);
+    expect(getFreezesLeft(freezes, '2025-04-01')).toBe(2);
+    expect(getFreezeCandidate(days('2025-03-12'), freezes, TODAY)).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { parseISO } from 'date-fns';
+import type { StudySessionLog } from '@/lib/planner';
+import { addCalendarDays, getZonedDay } from '@/lib/timezone';
+
+// Freeze days each calendar month allows
+export const STREAK_FREEZES_PER_MONTH = 2;
+
+export interface StreakSummary {
+  // Consecutive days with a completed block up to today (or yesterday)
+  current: number;
+  longest: number;
+  todayDone: boolean;
+  todayFrozen: boolean;
+}
+
+// Days ('yyyy-MM-dd' in the user's zone) with at least one completed block
+export const getStudyDays = (logs: StudySessionLog[], timeZone: string): Set<string> =>
+  new Set(logs
+    .filter(log => log.status === 'completed')
+    .map(log => getZonedDay(parseISO(log.started_at), timeZone)));
+
+/**
+ * Current and longest streak of study days. A frozen day neither counts nor
+ * breaks the streak, and today only breaks it once it is over, so a streak
+ * built up to yesterday is still current.
+ */
+export const getStreakSummary = (
+  studyDays: Set<string>,
+  freezeDays: string[],
+  today: string
+): StreakSummary => {
+  const frozen = new Set(freezeDays);
+
+  let current = 0;
+  for (let day = today; ; day = addCalendarDays(day, -1)) {
+    if (studyDays.has(day)) current++;
+    else if (!frozen.has(day) && day !== today) break;
+  }
+
+  let longest = 0;
+  let run = 0;
+  const first = [...studyDays].sort()[0];
+  for (let day = first; first && day <= today; day = addCalendarDays(day, 1)) {
+    if (studyDays.has(day)) run++;
+    else if (!frozen.has(day) && day !== today) run = 0;
+    longest = Math.max(longest, run);
+  }
+
+  return {
+    current,
+    longest,
+    todayDone: studyDays.has(today),
+    todayFrozen: frozen.has(today)
+  };
+};
+
+// Freezes left in the month of a day
+export const getFreezesLeft = (freezeDays: string[], day: string): number =>
+  Math.max(0, STREAK_FREEZES_PER_MONTH - freezeDays.filter(d => d.slice(0, 7) === day.slice(0, 7)).length);
+
+/**
+ * Day a freeze would help now, if the month still allows one: yesterday when
+ * it was missed after a study day (the streak is broken until it is frozen),
+ * otherwise today while nothing was studied yet.
+ */
+export const getFreezeCandidate = (
+  studyDays: Set<string>,
+  freezeDays: string[],
+  today: string
+): string | null => {
+  const frozen = new Set(freezeDays);
+  const canFreeze = (day: string) => !studyDays.has(day) && !frozen.has(day) && getFreezesLeft(freezeDays, day) > 0;
+
+  const yesterday = addCalendarDays(today, -1);
+  let before = addCalendarDays(yesterday, -1);
+  while (frozen.has(before)) before = addCalendarDays(before, -1);
+
+  if (studyDays.has(before) && canFreeze(yesterday)) return yesterday;
+  if (canFreeze(today)) return today;
+  return null;
+};
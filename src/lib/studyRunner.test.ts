@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { addMinutes, addSeconds } from 'date-fns';
+import {
+  ActiveStudySession,
+  endedRecently,
+  getDueBreak,
+  getDueStudyBlock,
+  getRemainingSeconds,
+  getTimerEnd,
+  pauseActiveSession,
+  pruneHandledBlocks,
+  resumeActiveSession
+} from './studyRunner';
+import { makeSubject } from './planner/testUtils';
+import type { StudyBlock } from './planner';
+
+const NOW = new Date(2025, 2, 10, 14, 10);
+const subject = makeSubject({ id: 'calc', name: 'Cálculo' });
+
+const makeBlock = (id: string, start: Date, minutes: number, overrides: Partial<StudyBlock> = {}): StudyBlock => ({
+  id,
+  subject,
+  startTime: start,
+  endTime: addMinutes(start, minutes),
+  isBreak: false,
+  status: 'planned',
+  ...overrides
+});
+
+const makeActive = (overrides: Partial<ActiveStudySession> = {}): ActiveStudySession => ({
+  subjectId: 'calc',
+  subjectName: 'Cálculo',
+  durationMinutes: 50,
+  status: 'running',
+  elapsedSeconds: 0,
+  resumedAt: NOW.toISOString(),
+  log: null,
+  ...overrides
+});
+
+describe('study session timer', () => {
+  it('counts down only while running', () => {
+    let active = makeActive();
+
+    expect(getRemainingSeconds(active, addMinutes(NOW, 10))).toBe(40 * 60);
+
+    active = pauseActiveSession(active, addMinutes(NOW, 10));
+    expect(getRemainingSeconds(active, addMinutes(NOW, 30))).toBe(40 * 60);
+
+    active = resumeActiveSession(active, addMinutes(NOW, 30));
+    expect(getRemainingSeconds(active, addSeconds(addMinutes(NOW, 30), 90))).toBe(40 * 60 - 90);
+  });
+
+  it('ends a timer that ran out while the app was closed at its zero', () => {
+    const active = makeActive({ elapsedSeconds: 10 * 60 });
+
+    expect(getTimerEnd(active, addMinutes(NOW, 20))).toEqual(addMinutes(NOW, 20));
+    expect(getTimerEnd(active, addMinutes(NOW, 180))).toEqual(addMinutes(NOW, 40));
+    expect(getRemainingSeconds(active, addMinutes(NOW, 180))).toBe(0);
+  });
+
+  it('treats only a timer that just ran out as a recent end', () => {
+    const active = makeActive({ elapsedSeconds: 10 * 60 });
+
+    const justNow = addSeconds(addMinutes(NOW, 40), 5);
+    expect(endedRecently(getTimerEnd(active, justNow), justNow)).toBe(true);
+    expect(endedRecently(getTimerEnd(active, addMinutes(NOW, 180)), addMinutes(NOW, 180))).toBe(false);
+  });
+});
+
+describe('block watching', () => {
+  const blocks = [
+    makeBlock('done', addMinutes(NOW, -130), 50, { status: 'completed' }),
+    makeBlock('study', addMinutes(NOW, -10), 50),
+    makeBlock('break', addMinutes(NOW, 40), 10, { isBreak: true }),
+    makeBlock('next', addMinutes(NOW, 50), 50)
+  ];
+
+  it('reminds of the planned block running now until it is answered', () => {
+    expect(getDueStudyBlock(blocks, {}, NOW)?.id).toBe('study');
+    expect(getDueStudyBlock(blocks, { study: null }, NOW)).toBeUndefined();
+    expect(getDueStudyBlock(blocks, {}, addMinutes(NOW, 60))?.id).toBe('next');
+  });
+
+  it('reminds again once a snooze ends', () => {
+    const handled = { study: addMinutes(NOW, 10).toISOString() };
+
+    expect(getDueStudyBlock(blocks, handled, addMinutes(NOW, 5))).toBeUndefined();
+    expect(getDueStudyBlock(blocks, handled, addMinutes(NOW, 10))?.id).toBe('study');
+  });
+
+  it('announces each break once as it starts', () => {
+    expect(getDueBreak(blocks, {}, NOW)).toBeUndefined();
+    expect(getDueBreak(blocks, {}, addMinutes(NOW, 41))?.id).toBe('break');
+    expect(getDueBreak(blocks, { break: null }, addMinutes(NOW, 41))).toBeUndefined();
+  });
+
+  it('forgets answers for blocks no longer in the day', () => {
+    expect(pruneHandledBlocks({ study: null, yesterday: null }, blocks)).toEqual({ study: null });
+  });
+});
@@ -0,0 +1,101 @@
+import { differenceInMinutes, differenceInSeconds, isAfter, isBefore, parseISO } from 'date-fns';
+import type { StudyBlock, StudySessionLog } from '@/lib/planner';
+
+// Study session being timed, stored as plain JSON so it survives a reload
+export interface ActiveStudySession {
+  blockId?: string;
+  sessionId?: string;
+  subjectId: string;
+  subjectName: string;
+  durationMinutes: number;
+  status: 'running' | 'paused';
+  // Seconds of the stretches that already ended
+  elapsedSeconds: number;
+  // Start of the running stretch; null while paused
+  resumedAt: string | null;
+  log: StudySessionLog | null;
+}
+
+export interface StudyRunnerState {
+  active: ActiveStudySession | null;
+  // Blocks whose reminder was answered: null for good, or the ISO time a snooze ends
+  handledBlocks: Record<string, string | null>;
+}
+
+export const EMPTY_RUNNER_STATE: StudyRunnerState = { active: null, handledBlocks: {} };
+
+export const getElapsedSeconds = (active: ActiveStudySession, now: Date): number => {
+  const running = active.status === 'running' && active.resumedAt
+    ? Math.max(0, Math.floor((now.getTime() - parseISO(active.resumedAt).getTime()) / 1000))
+    : 0;
+  return active.elapsedSeconds + running;
+};
+
+export const getRemainingSeconds = (active: ActiveStudySession, now: Date): number =>
+  Math.max(0, active.durationMinutes * 60 - getElapsedSeconds(active, now));
+
+// When the countdown reached zero, or now if it is still running; a timer that
+// ran out while the app was closed ends at its zero, not at the next visit
+export const getTimerEnd = (active: ActiveStudySession, now: Date): Date => {
+  const overrunSeconds = getElapsedSeconds(active, now) - active.durationMinutes * 60;
+  return overrunSeconds > 0 ? new Date(now.getTime() - overrunSeconds * 1000) : now;
+};
+
+// A break is only worth announcing right after the session ends, not when a
+// timer that ran out while the app was closed is completed on the next visit
+const RECENT_END_SECONDS = 60;
+
+export const endedRecently = (endedAt: Date, now: Date): boolean =>
+  differenceInSeconds(now, endedAt) <= RECENT_END_SECONDS;
+
+export const pauseActiveSession = (active: ActiveStudySession, now: Date): ActiveStudySession => ({
+  ...active,
+  status: 'paused',
+  elapsedSeconds: getElapsedSeconds(active, now),
+  resumedAt: null
+});
+
+export const resumeActiveSession = (active: ActiveStudySession, now: Date): ActiveStudySession => ({
+  ...active,
+  status: 'running',
+  resumedAt: now.toISOString()
+});
+
+const isHandled = (block: StudyBlock, handledBlocks: StudyRunnerState['handledBlocks'], now: Date) => {
+  if (!(block.id in handledBlocks)) return false;
+  const snoozedUntil = handledBlocks[block.id];
+  return snoozedUntil === null || isBefore(now, parseISO(snoozedUntil));
+};
+
+const isInProgress = (block: StudyBlock, now: Date) =>
+  !isAfter(block.startTime, now) && isAfter(block.endTime, now);
+
+// Planned study block running now whose reminder was not answered yet
+export const getDueStudyBlock = (
+  blocks: StudyBlock[],
+  handledBlocks: StudyRunnerState['handledBlocks'],
+  now: Date
+): StudyBlock | undefined =>
+  blocks.find(block =>
+    !block.isBreak &&
+    (!block.status || block.status === 'planned') &&
+    isInProgress(block, now) &&
+    !isHandled(block, handledBlocks, now)
+  );
+
+// Break running now that was not announced yet
+export const getDueBreak = (
+  blocks: StudyBlock[],
+  handledBlocks: StudyRunnerState['handledBlocks'],
+  now: Date
+): StudyBlock | undefined =>
+  blocks.find(block => block.isBreak && isInProgress(block, now) && !isHandled(block, handledBlocks, now));
+
+export const getBlockMinutes = (block: StudyBlock) => differenceInMinutes(block.endTime, block.startTime);
+
+// Forget answered blocks that are no longer part of the day
+export const pruneHandledBlocks = (
+  handledBlocks: StudyRunnerState['handledBlocks'],
+  blocks: StudyBlock[]
+): StudyRunnerState['handledBlocks'] =>
+  Object.fromEntries(Object.entries(handledBlocks).filter(([id]) => blocks.some(block => block.id === id)));
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addCalendarDays,
+  formatTimeZoneOffset,
+  fromZonedTime,
+  getCalendarWeekday,
+  getTimeZoneOffset,
+  getZonedDay,
+  resolveTimeZone,
+  toZonedTime,
+  zonedDateTimeToUtc
+} from './timezone';
+
+const SAO_PAULO = 'America/Sao_Paulo';
+const NEW_YORK = 'America/New_York';
+
+const utc = (day: string, time: string, timeZone: string) => zonedDateTimeToUtc(day, time, timeZone).toISOString();
+
+describe('zonedDateTimeToUtc', () => {
+  it('uses the fixed -03:00 offset São Paulo has had since 2019', () => {
+    expect(utc('2025-03-10', '14:00', SAO_PAULO)).toBe('2025-03-10T17:00:00.000Z');
+    expect(utc('2025-07-01', '23:30:00', SAO_PAULO)).toBe('2025-07-02T02:30:00.000Z');
+    expect(getTimeZoneOffset(new Date('2025-03-10T17:00:00Z'), SAO_PAULO)).toBe(-180);
+  });
+
+  it('follows New York across the start and end of DST', () => {
+    expect(utc('2025-03-08', '14:00', NEW_YORK)).toBe('2025-03-08T19:00:00.000Z');
+    expect(utc('2025-03-10', '14:00', NEW_YORK)).toBe('2025-03-10T18:00:00.000Z');
+    expect(utc('2025-11-03', '14:00', NEW_YORK)).toBe('2025-11-03T19:00:00.000Z');
+  });
+
+  it('moves wall times skipped by clocks going forward past the gap', () => {
+    expect(utc('2025-03-09', '02:30', NEW_YORK)).toBe('2025-03-09T07:30:00.000Z');
+    // São Paulo's last DST started at midnight on 4 November 2018
+    expect(utc('2018-11-04', '00:30', SAO_PAULO)).toBe('2018-11-04T03:30:00.000Z');
+  });
+
+  it('resolves wall times repeated by clocks going back to the first one', () => {
+    expect(utc('2025-11-02', '01:30', NEW_YORK)).toBe('2025-11-02T05:30:00.000Z');
+    // São Paulo's last DST ended at midnight on 17 February 2019
+    expect(utc('2019-02-16', '23:30', SAO_PAULO)).toBe('2019-02-17T01:30:00.000Z');
+  });
+});
+
+describe('zoned dates', () => {
+  it('round-trips through toZonedTime and fromZonedTime', () => {
+    const instant = new Date('2025-03-10T18:45:00Z');
+    const zoned = toZonedTime(instant, NEW_YORK);
+
+    expect([zoned.getDate(), zoned.getHours(), zoned.getMinutes()]).toEqual([10, 14, 45]);
+    expect(fromZonedTime(zoned, NEW_YORK).toISOString()).toBe(instant.toISOString());
+  });
+
+  it('takes the calendar day in the zone', () => {
+    const lateEvening = new Date('2025-03-11T01:30:00Z');
+
+    expect(getZonedDay(lateEvening, SAO_PAULO)).toBe('2025-03-10');
+    expect(getZonedDay(lateEvening, 'UTC')).toBe('2025-03-11');
+  });
+
+  it('adds calendar days without drifting over DST changes', () => {
+    expect(addCalendarDays('2025-03-08', 2)).toBe('2025-03-10');
+    expect(addCalendarDays('2025-02-28', 1)).toBe('2025-03-01');
+    expect(getCalendarWeekday('2025-03-10')).toBe(1);
+  });
+});
+
+describe('resolveTimeZone and formatTimeZoneOffset', () => {
+  it('falls back to the device zone for missing or unknown zones', () => {
+    expect(resolveTimeZone(SAO_PAULO)).toBe(SAO_PAULO);
+    expect(resolveTimeZone('Mars/Olympus_Mons')).toBe(resolveTimeZone(null));
+  });
+
+  it('labels the offset in effect at a date', () => {
+    expect(formatTimeZoneOffset(SAO_PAULO, new Date('2025-03-10T12:00:00Z'))).toBe('UTC−03:00');
+    expect(formatTimeZoneOffset(NEW_YORK, new Date('2025-07-01T12:00:00Z'))).toBe('UTC−04:00');
+    expect(formatTimeZoneOffset('Asia/Tokyo')).toBe('UTC+09:00');
+  });
+});
@@ -0,0 +1,179 @@
+import { format } from 'date-fns';
+
+/**
+ * Time zone helpers built on Intl, so no time zone database ships with the app.
+ *
+ * Event datetimes are stored as UTC instants; class schedules, recurring events
+ * and free-time groups are wall-clock times in the user's zone (profiles.timezone).
+ * Calendar views render "zoned" dates: Date objects whose local fields show the
+ * wall time in that zone, so date-fns can keep formatting and comparing them.
+ */
+
+export const DEFAULT_TIME_ZONE = 'America/Sao_Paulo';
+
+// Zones offered in the profile; the device zone and the saved one are added when missing
+export const COMMON_TIME_ZONES = [
+  'America/Noronha',
+  'America/Sao_Paulo',
+  'America/Bahia',
+  'America/Fortaleza',
+  'America/Manaus',
+  'America/Cuiaba',
+  'America/Porto_Velho',
+  'America/Rio_Branco',
+  'America/Argentina/Buenos_Aires',
+  'America/Santiago',
+  'America/Bogota',
+  'America/Mexico_City',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'America/Toronto',
+  'Europe/Lisbon',
+  'Europe/London',
+  'Europe/Madrid',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'UTC'
+];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Wall-clock fields of an instant in some zone; month is 1-based
+export interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getDeviceTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+
+// The user's saved zone, or the device zone when none (or an unknown one) is saved
+export const resolveTimeZone = (timeZone?: string | null): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : getDeviceTimeZone();
+
+export const getWallTime = (date: Date, timeZone: string): WallTime => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone).formatToParts(date).map(part => [part.type, Number(part.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+};
+
+const wallTimeAsUtc = (wall: WallTime) =>
+  Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+
+// Minutes the zone is ahead of UTC at an instant (-180 for São Paulo)
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallTimeAsUtc(getWallTime(date, timeZone)) - wholeSeconds) / MINUTE_MS);
+};
+
+/**
+ * The instant at which the zone's clocks show a wall time.
+ *
+ * Around DST changes the offset on each side of the change is tried: a wall
+ * time that happens twice (clocks going back) resolves to the first one, and a
+ * wall time that is skipped (clocks going forward) moves forward by the gap.
+ */
+export const wallTimeToUtc = (wall: WallTime, timeZone: string): Date => {
+  const asUtc = wallTimeAsUtc(wall);
+  const candidates = [asUtc - DAY_MS, asUtc + DAY_MS]
+    .map(probe => getTimeZoneOffset(new Date(probe), timeZone))
+    .map(offset => new Date(asUtc - offset * MINUTE_MS));
+
+  return candidates.find(candidate => wallTimeAsUtc(getWallTime(candidate, timeZone)) === asUtc) ?? candidates[0];
+};
+
+// The instant of a calendar day ('yyyy-MM-dd') at a time of day ('HH:mm' or 'HH:mm:ss') in a zone
+export const zonedDateTimeToUtc = (day: string, time: string, timeZone: string): Date => {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hour, minute, second] = time.split(':').map(Number);
+  return wallTimeToUtc({ year, month, day: date, hour, minute, second: second || 0 }, timeZone);
+};
+
+// Zoned date for rendering: its local fields show the instant's wall time in the zone
+export const toZonedTime = (date: Date, timeZone: string): Date => {
+  const wall = getWallTime(date, timeZone);
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second, date.getMilliseconds());
+};
+
+// Inverse of toZonedTime: the instant whose wall time in the zone is the date's local fields
+export const fromZonedTime = (date: Date, timeZone: string): Date =>
+  new Date(wallTimeToUtc({
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: date.getSeconds()
+  }, timeZone).getTime() + date.getMilliseconds());
+
+export const formatInTimeZone = (
+  date: Date,
+  timeZone: string,
+  pattern: string,
+  options?: Parameters<typeof format>[2]
+): string => format(toZonedTime(date, timeZone), pattern, options);
+
+// Calendar day ('yyyy-MM-dd') of an instant in a zone
+export const getZonedDay = (date: Date, timeZone: string): string => formatInTimeZone(date, timeZone, 'yyyy-MM-dd');
+
+// Calendar-day arithmetic on 'yyyy-MM-dd' strings, free of any zone's DST
+export const addCalendarDays = (day: string, amount: number): string =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + amount * DAY_MS).toISOString().slice(0, 10);
+
+export const getCalendarWeekday = (day: string): number => new Date(`${day}T00:00:00Z`).getUTCDay();
+
+// Monday of the week a day belongs to
+export const getWeekStart = (day: string): string => addCalendarDays(day, -((getCalendarWeekday(day) + 6) % 7));
+
+// "UTC−03:00" style label of the zone's current offset
+export const formatTimeZoneOffset = (timeZone: string, at: Date = new Date()): string => {
+  const offset = getTimeZoneOffset(at, timeZone);
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `UTC${offset < 0 ? '−' : '+'}${hours}:${minutes}`;
+};
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { isValidTimeZone } from '@/lib/timezone';
 
 // Password validation: min 8 chars, at least 1 uppercase, 1 number
 export const passwordSchema = z
@@ -45,8 +46,88 @@ export const profileSchema = z.object({
   enrollment_number: z.string().trim().max(50).optional(),
   period_start: z.string().optional().nullable(),
   period_end: z.string().optional().nullable(),
+  timezone: z.string().max(64).optional().nullable()
+    .refine(timeZone => !timeZone || isValidTimeZone(timeZone), 'Fuso horário inválido'),
 });
 
+// Study preferences schema
+export const studyPreferencesSchema = z.object({
+  study_block_minutes: z.number().int().min(10, 'Mínimo de 10 minutos').max(180, 'Máximo de 180 minutos'),
+  break_minutes: z.number().int().min(0, 'Valor inválido').max(60, 'Máximo de 60 minutos'),
+  difficulty_coefficient: z.number().min(0, 'Valor inválido').max(5, 'Máximo de 5'),
+  dedication_coefficient: z.number().min(0, 'Valor inválido').max(5, 'Máximo de 5'),
+  urgency_curve: z.enum(['step', 'linear', 'exponential']),
+  urgency_horizon_days: z.number().int().min(2, 'Mínimo de 2 dias').max(60, 'Máximo de 60 dias'),
+  delay_bonus: z.number().min(0, 'Valor inválido').max(10, 'Máximo de 10'),
+  repeat_once_threshold: z.number().positive('Valor inválido'),
+  repeat_triple_threshold: z.number().positive('Valor inválido'),
+  interleave_subjects: z.boolean(),
+  max_consecutive_blocks: z.number().int().min(1, 'Mínimo de 1 bloco').max(10, 'Máximo de 10 blocos'),
+  chronotype: z.enum(['neutral', 'morning', 'evening', 'custom']),
+  energy_curve: z.array(z.number().int().min(1).max(5)).length(24, 'Informe a energia das 24 horas').nullable(),
+  max_daily_study_hours: z.number().positive('Valor inválido').max(16, 'Máximo de 16 horas').nullable(),
+  max_subject_blocks_per_day: z.number().int().min(1, 'Mínimo de 1 bloco').max(12, 'Máximo de 12 blocos').nullable(),
+  rest_days: z.array(z.number().int().min(0).max(6)).max(6, 'Deixe pelo menos um dia para estudar'),
+}).refine(data => data.repeat_triple_threshold > data.repeat_once_threshold, {
+  message: 'Deve ser maior que o limite de repetição simples',
+  path: ['repeat_triple_threshold'],
+}).refine(data => data.difficulty_coefficient + data.dedication_coefficient > 0, {
+  message: 'Pelo menos um coeficiente deve ser maior que zero',
+  path: ['difficulty_coefficient'],
+});
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Horário inválido');
+
+export const availabilitySchema = z.object({
+  availability_start: timeSchema,
+  availability_end: timeSchema,
+  excluded_time_ranges: z.array(
+    z.object({ start: timeSchema, end: timeSchema }).refine(range => range.end > range.start, {
+      message: 'O fim deve ser depois do início',
+      path: ['end'],
+    })
+  ),
+  min_free_slot_minutes: z.number().int().min(20, 'Mínimo de 20 minutos').max(480, 'Máximo de 480 minutos'),
+  free_slot_buffer_minutes: z.number().int().min(0, 'Valor inválido').max(120, 'Máximo de 120 minutos'),
+}).refine(data => data.availability_end > data.availability_start, {
+  message: 'O fim deve ser depois do início',
+  path: ['availability_end'],
+});
+
+export const examPrepSchema = z.object({
+  topics: z.array(
+    z.string().trim().min(1).max(200, 'Cada tópico deve ter no máximo 200 caracteres')
+  ).max(50, 'Máximo de 50 tópicos'),
+});
+
+export const reflectionSchema = z.object({
+  understanding: z.number().int().min(1, 'Avalie seu entendimento').max(5),
+  topics: z.array(
+    z.string().trim().min(1).max(100, 'Cada tópico deve ter no máximo 100 caracteres')
+  ).max(20, 'Máximo de 20 tópicos'),
+  note: z.string().trim().max(1000, 'A nota deve ter no máximo 1000 caracteres').optional(),
+});
+
+export const studyGoalsSchema = z.object({
+  weekly_hours: z.number()
+    .positive('A meta semanal deve ser maior que zero')
+    .max(168, 'Uma semana tem no máximo 168 horas')
+    .nullable(),
+  subject_hours: z.record(
+    z.string(),
+    z.number().min(0, 'As horas mínimas não podem ser negativas').max(168, 'Uma semana tem no máximo 168 horas')
+  ),
+}).refine(
+  data => data.weekly_hours === null ||
+    Object.values(data.subject_hours).reduce((total, hours) => total + hours, 0) <= data.weekly_hours,
+  { message: 'Os mínimos por matéria somam mais que a meta semanal', path: ['subject_hours'] }
+);
+
 export type RegisterFormData = z.infer<typeof registerSchema>;
 export type LoginFormData = z.infer<typeof loginSchema>;
 export type ProfileFormData = z.infer<typeof profileSchema>;
+export type StudyPreferencesFormData = z.infer<typeof studyPreferencesSchema>;
+export type AvailabilityFormData = z.infer<typeof availabilitySchema>;
+export type ExamPrepFormData = z.infer<typeof examPrepSchema>;
+export type ReflectionFormData = z.infer<typeof reflectionSchema>;
+export type StudyGoalsFormData = z.infer<typeof studyGoalsSchema>;
@@ -0,0 +1,116 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useSubjects } from '@/hooks/useSubjects';
+import { useCalendarEvents } from '@/hooks/useCalendarEvents';
+import { useStudyPreferences } from '@/hooks/useStudyPreferences';
+import { useStudyAnalytics } from '@/hooks/useStudyAnalytics';
+import MainLayout from '@/components/layout/MainLayout';
+import { AnalyticsRangeFilter } from '@/components/analytics/AnalyticsRangeFilter';
+import { SubjectHoursChart } from '@/components/analytics/SubjectHoursChart';
+import { AdherenceChart } from '@/components/analytics/AdherenceChart';
+import { StudyHeatmap } from '@/components/analytics/StudyHeatmap';
+import { DeadlineRecordCard } from '@/components/analytics/DeadlineRecordCard';
+import { PriorityTrendChart } from '@/components/analytics/PriorityTrendChart';
+import { Loader2 } from 'lucide-react';
+import {
+  AnalyticsPreset,
+  AnalyticsRange,
+  getDeadlineRecord,
+  getPresetRange,
+  getPriorityTrend,
+  getTimeOfDayHeatmap,
+  getWeeklyAdherence,
+  getWeeklySubjectHours
+} from '@/lib/analytics';
+import { getZonedDay } from '@/lib/timezone';
+
+const Analises = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { profile, timeZone } = useProfile();
+  const { subjects, loading: subjectsLoading } = useSubjects();
+  const { loading: eventsLoading, getDeadlines } = useCalendarEvents();
+  const { plannerConfig } = useStudyPreferences();
+  const navigate = useNavigate();
+
+  const today = getZonedDay(new Date(), timeZone);
+  const [preset, setPreset] = useState<AnalyticsPreset>('4w');
+  const [range, setRange] = useState<AnalyticsRange>(() => getPresetRange('4w', today));
+  const prepDays = plannerConfig.urgencyHorizonDays;
+  const { sessions, logs, loading: historyLoading } = useStudyAnalytics(range, prepDays);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  // Presets follow the profile's zone and period once it loads
+  useEffect(() => {
+    if (preset !== 'custom') setRange(getPresetRange(preset, today, profile?.period_start));
+  }, [preset, today, profile?.period_start]);
+
+  const deadlines = getDeadlines();
+  const options = useMemo(() => ({ timeZone }), [timeZone]);
+  const subjectHours = useMemo(() => getWeeklySubjectHours(logs, range, options), [logs, range, options]);
+  const adherence = useMemo(() => getWeeklyAdherence(sessions, logs, range, options), [sessions, logs, range, options]);
+  const heatmap = useMemo(() => getTimeOfDayHeatmap(logs, range, options), [logs, range, options]);
+  const priorityTrend = useMemo(() => getPriorityTrend(sessions, range, options), [sessions, range, options]);
+  const deadlineRecord = getDeadlineRecord(deadlines, sessions, logs, range, prepDays, options);
+
+  if (authLoading || subjectsLoading || eventsLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-accent" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 animate-fade-in">
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Análises</h1>
+            <p className="text-muted-foreground mt-1">
+              Como o seu estudo real se compara ao plano
+            </p>
+          </div>
+          <AnalyticsRangeFilter
+            preset={preset}
+            range={range}
+            hasSemester={!!profile?.period_start}
+            onPresetChange={setPreset}
+            onCustomRange={(custom) => {
+              setPreset('custom');
+              setRange(custom);
+            }}
+          />
+        </div>
+
+        {historyLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-accent" />
+          </div>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-2">
+            <SubjectHoursChart weeks={subjectHours} subjects={subjects} />
+            <AdherenceChart weeks={adherence} />
+            <StudyHeatmap grid={heatmap} />
+            <DeadlineRecordCard records={deadlineRecord} subjects={subjects} prepDays={prepDays} timeZone={timeZone} />
+            <div className="lg:col-span-2">
+              <PriorityTrendChart weeks={priorityTrend} subjects={subjects} />
+            </div>
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Analises;
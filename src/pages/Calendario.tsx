@@ -1,10 +1,16 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useProfile } from '@/hooks/useProfile';
 import { useSubjects } from '@/hooks/useSubjects';
 import { useCalendarEvents, CalendarEvent, CreateEventData } from '@/hooks/useCalendarEvents';
 import { useStudySuggestions, StudyBlock } from '@/hooks/useStudySuggestions';
+import { useStudySessions } from '@/hooks/useStudySessions';
+import { useStudySessionLogs } from '@/hooks/useStudySessionLogs';
+import { useStudySessionRunner } from '@/hooks/useStudySessionRunner';
+import { useReviewItems, ReviewQuality } from '@/hooks/useReviewItems';
+import { usePlanVersions, PlanVersion } from '@/hooks/usePlanVersions';
+import { useExamPrepPlans, ExamPrepPlan, ExamPrepRecord } from '@/hooks/useExamPrepPlans';
 import MainLayout from '@/components/layout/MainLayout';
 import { CalendarHeader, CalendarView } from '@/components/calendar/CalendarHeader';
 import { DayView } from '@/components/calendar/DayView';
@@ -13,15 +19,54 @@ import { MonthView } from '@/components/calendar/MonthView';
 import { YearView } from '@/components/calendar/YearView';
 import { CalendarLegend } from '@/components/calendar/CalendarLegend';
 import { EventFormDialog } from '@/components/calendar/EventFormDialog';
+import { FreeTimeDetectionDialog } from '@/components/calendar/FreeTimeDetectionDialog';
+import { PlanVersionsDialog } from '@/components/calendar/PlanVersionsDialog';
+import { ExamPrepDialog } from '@/components/calendar/ExamPrepDialog';
+import { CompleteStudyDialog } from '@/components/study/CompleteStudyDialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
-import { Loader2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, Sparkles } from 'lucide-react';
+import { toast } from 'sonner';
+import { differenceInMinutes, isAfter, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FreeTimeGroup, toFreeStudyEvent } from '@/lib/availability';
+import { getCarriedTimes, getUncarriedBlocks, restorePlanVersion } from '@/lib/planner';
+import { formatInTimeZone, toZonedTime } from '@/lib/timezone';
 
 const Calendario = () => {
   const { user, loading: authLoading } = useAuth();
-  const { profile } = useProfile();
+  const { profile, loading: profileLoading, timeZone } = useProfile();
   const { subjects, loading: subjectsLoading } = useSubjects();
-  const { events, loading: eventsLoading, createEvent, updateEvent, deleteEvent, getDeadlines, getFreeStudySlots } = useCalendarEvents();
-  const { delays, fetchDelays, generateSuggestions, markAsDelayed } = useStudySuggestions();
+  const { events, loading: eventsLoading, createEvent, createEvents, updateEvent, deleteEvent, getDeadlines, getFreeStudySlots } = useCalendarEvents();
+  const {
+    delays,
+    settingsLoading,
+    fetchDelays,
+    fetchStudyTime,
+    generateSuggestions,
+    generateCarryOverSuggestions,
+    getDeadlineCommitments,
+    markAsDelayed
+  } = useStudySuggestions();
+  const {
+    sessions,
+    loading: sessionsLoading,
+    regenerating,
+    regeneratePlan,
+    addCarriedBlocks,
+    updateSessionStatus,
+    markMissedSessions,
+    getMissedBlocks,
+    getStudyBlocks,
+    saveExamPrepSessions,
+    removeExamPrepSessions,
+    refetch: refetchSessions
+  } = useStudySessions();
+  const { reviewItems, loading: reviewsLoading, recordReview } = useReviewItems();
+  const { logCompletedSession, hasCompletedLog } = useStudySessionLogs();
+  const { active: runningSession, complete: completeRunningSession, reflect } = useStudySessionRunner();
+  const { versions, loading: versionsLoading, saveVersion, saveExtendedVersion, getVersionChanges } = usePlanVersions();
+  const { getActivePlan, createPlan, cancelPlan } = useExamPrepPlans();
   const navigate = useNavigate();
 
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -30,6 +75,16 @@ const Calendario = () => {
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
   const [eventToDelete, setEventToDelete] = useState<CalendarEvent | null>(null);
   const [defaultDate, setDefaultDate] = useState<Date | undefined>();
+  const [blockToComplete, setBlockToComplete] = useState<StudyBlock | null>(null);
+  const [showFreeTimeDialog, setShowFreeTimeDialog] = useState(false);
+  const [showPlanHistory, setShowPlanHistory] = useState(false);
+  const [examPrepDeadline, setExamPrepDeadline] = useState<CalendarEvent | null>(null);
+  const missedCheckDone = useRef(false);
+
+  // The views show wall-clock dates in the profile's zone
+  useEffect(() => {
+    setCurrentDate(toZonedTime(new Date(), timeZone));
+  }, [timeZone]);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -37,25 +92,66 @@ const Calendario = () => {
     }
   }, [user, authLoading, navigate]);
 
-  // Fetch delays when user is authenticated
+  // Fetch delays and actual study time when user is authenticated
   useEffect(() => {
     if (user) {
       fetchDelays();
+      fetchStudyTime();
     }
-  }, [user, fetchDelays]);
-
-  // Generate study suggestions
-  const studySuggestions = generateSuggestions(
-    subjects,
-    getFreeStudySlots(),
-    getDeadlines(),
-    delays
-  );
+  }, [user, fetchDelays, fetchStudyTime]);
+
+  // Once per visit, mark blocks that passed unstarted as missed and carry them
+  // into the free slots the plan leaves open; the rest of the plan stays as it is
+  useEffect(() => {
+    const loading = subjectsLoading || eventsLoading || sessionsLoading || profileLoading ||
+      reviewsLoading || versionsLoading || settingsLoading;
+    if (!user || loading || missedCheckDone.current) return;
+    missedCheckDone.current = true;
+
+    const carryOverMissedBlocks = async () => {
+      const updatedSessions = await markMissedSessions();
+      if (!updatedSessions) return;
+
+      const missedBlocks = getUncarriedBlocks(getMissedBlocks(updatedSessions), updatedSessions);
+      if (missedBlocks.length === 0) return;
+
+      const carried = await generateCarryOverSuggestions(
+        subjects,
+        getFreeStudySlots(),
+        getDeadlines(),
+        updatedSessions.map(s => ({ start: parseISO(s.start_datetime), end: parseISO(s.end_datetime) })),
+        profile?.period_end,
+        reviewItems,
+        missedBlocks,
+        getCarriedTimes(updatedSessions)
+      );
+      if (!carried) return;
+      const saved = await addCarriedBlocks(carried);
+      if (!saved) return;
+      if (saved.length > 0) await saveExtendedVersion(saved, 'missed_blocks');
 
-  // Flatten study blocks for calendar display
-  const studyBlocks: StudyBlock[] = studySuggestions.flatMap(s => s.blocks);
+      const carriedCount = saved
+        .flatMap(s => s.blocks)
+        .filter(b => b.carriedFromSessionId).length;
+      const leftOver = missedBlocks.length - carriedCount;
+      toast.info(`${carriedCount} bloco(s) reagendado(s)`, {
+        description: leftOver > 0
+          ? `${leftOver} bloco(s) perdido(s) não couberam nos horários livres ou no limite semanal de reposição`
+          : undefined
+      });
+    };
 
-  if (authLoading || subjectsLoading || eventsLoading) {
+    carryOverMissedBlocks();
+  }, [
+    user, subjectsLoading, eventsLoading, sessionsLoading, profileLoading, reviewsLoading, versionsLoading,
+    settingsLoading, markMissedSessions, getMissedBlocks, generateCarryOverSuggestions, subjects,
+    getFreeStudySlots, getDeadlines, profile?.period_end, reviewItems, addCarriedBlocks, saveExtendedVersion
+  ]);
+
+  // Persisted study plan for calendar display
+  const studyBlocks: StudyBlock[] = getStudyBlocks(subjects, reviewItems);
+
+  if (authLoading || subjectsLoading || eventsLoading || sessionsLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="w-8 h-8 animate-spin text-accent" />
@@ -73,8 +169,9 @@ const Calendario = () => {
     setShowEventDialog(true);
   };
 
+  // Occurrences of recurring events edit the stored event
   const handleEventClick = (event: CalendarEvent) => {
-    setSelectedEvent(event);
+    setSelectedEvent(events.find(e => e.id === event.recurrence_parent_id) ?? event);
     setShowEventDialog(true);
   };
 
@@ -92,6 +189,86 @@ const Calendario = () => {
     }
   };
 
+  // Regenerate the future, unstarted part of the persisted plan
+  const handleRegeneratePlan = async () => {
+    const studySuggestions = generateSuggestions(
+      subjects,
+      getFreeStudySlots(),
+      getDeadlines(),
+      delays,
+      profile?.period_end,
+      reviewItems,
+      getMissedBlocks(),
+      // Future planned make-ups are replaced, so only the others count against the cap
+      getCarriedTimes(sessions.filter(s => !(s.status === 'planned' && isAfter(parseISO(s.start_datetime), new Date()))))
+    );
+    const saved = await regeneratePlan(studySuggestions);
+    if (saved) await saveVersion(saved, 'regenerate');
+
+    const shortfalls = getDeadlineCommitments(subjects, getFreeStudySlots(), getDeadlines(), delays, profile?.period_end, reviewItems)
+      .filter(c => c.shortfallMinutes > 0);
+    if (saved && shortfalls.length > 0) {
+      toast.warning(
+        `Tempo livre insuficiente para ${shortfalls.length} prazo(s): ${shortfalls.map(c => c.deadline.title).join(', ')}`
+      );
+    }
+  };
+
+  // Bring back the future part of a saved plan; the restore is saved as a new version
+  const handleRestoreVersion = async (version: PlanVersion): Promise<boolean> => {
+    const studySuggestions = restorePlanVersion(version.blocks, {
+      subjects,
+      freeSlots: getFreeStudySlots(),
+      reviewItems
+    }, { timeZone });
+    if (studySuggestions.length === 0) {
+      toast.warning('Nenhum bloco desta versão pode mais ser restaurado');
+      return false;
+    }
+
+    const saved = await regeneratePlan(studySuggestions, { notify: false });
+    if (!saved) return false;
+
+    await saveVersion(saved, 'restore', version.id);
+    toast.success(
+      `Versão de ${formatInTimeZone(parseISO(version.created_at), timeZone, "dd/MM 'às' HH:mm", { locale: ptBR })} restaurada`
+    );
+    return true;
+  };
+
+  const handleDelayStudy = async (subjectId: string, sessionId?: string): Promise<boolean> => {
+    const scheduledFor = studyBlocks.find(b => b.sessionId === sessionId)?.startTime;
+    const success = await markAsDelayed(subjectId, scheduledFor, sessionId);
+    if (success && sessionId) {
+      await updateSessionStatus(sessionId, 'skipped');
+    }
+    return success;
+  };
+
+  // Complete a block, log the time studied unless the timer already did, and,
+  // when a topic is given, schedule its next review; then ask for a reflection
+  const handleCompleteStudy = async (topic: string, quality: ReviewQuality, actualMinutes: number) => {
+    if (!blockToComplete?.sessionId) return;
+
+    const { sessionId, subject, startTime, endTime } = blockToComplete;
+    const timed = runningSession?.sessionId === sessionId;
+    if (timed) {
+      await completeRunningSession();
+      await refetchSessions();
+    } else if (!(await updateSessionStatus(sessionId, 'completed'))) {
+      return;
+    }
+
+    if (!timed && !hasCompletedLog(sessionId)) {
+      await logCompletedSession(subject.id, differenceInMinutes(endTime, startTime), actualMinutes, sessionId);
+      await fetchStudyTime();
+    }
+    if (topic.trim()) {
+      await recordReview(subject.id, topic, quality);
+    }
+    reflect({ subjectId: subject.id, subjectName: subject.name, sessionId, topics: topic.trim() ? [topic.trim()] : [] });
+  };
+
   const handleMonthClick = (date: Date) => {
     setCurrentDate(date);
     setView('month');
@@ -106,6 +283,46 @@ const Calendario = () => {
     }
   };
 
+  // Turn each accepted free-time group into a weekly free study event
+  const handleAcceptFreeTime = async (groups: FreeTimeGroup[]): Promise<boolean> => {
+    const now = new Date();
+    return await createEvents(groups.map(group => toFreeStudyEvent(group, now, timeZone)));
+  };
+
+  const handleOpenExamPrep = (event: CalendarEvent) => {
+    setShowEventDialog(false);
+    setSelectedEvent(null);
+    setExamPrepDeadline(event);
+  };
+
+  // Save a preparation and its blocks together; the plan row is cancelled if the blocks fail
+  const handleCreateExamPrep = async (plan: ExamPrepPlan, topics: string[]): Promise<boolean> => {
+    const record = await createPlan(plan.deadline.id, plan.subject.id, topics);
+    if (!record) return false;
+
+    const success = await saveExamPrepSessions(record.id, plan.suggestions);
+    if (!success) {
+      await cancelPlan(record.id);
+      return false;
+    }
+
+    const studyCount = plan.suggestions.flatMap(s => s.blocks).filter(b => !b.isBreak).length;
+    toast.success(`Modo preparação ativado: ${studyCount} bloco(s) até a prova`);
+    return true;
+  };
+
+  // Cancel a preparation as a unit: its future blocks go with it
+  const handleCancelExamPrep = async (record: ExamPrepRecord): Promise<boolean> => {
+    const removed = await removeExamPrepSessions(record.id);
+    if (!removed) return false;
+
+    const success = await cancelPlan(record.id);
+    if (success) {
+      toast.success('Preparação cancelada');
+    }
+    return success;
+  };
+
   const handleDeleteEventFromDialog = async (eventId: string): Promise<boolean> => {
     const success = await deleteEvent(eventId);
     if (success) {
@@ -133,10 +350,25 @@ const Calendario = () => {
           onDateChange={setCurrentDate}
           onViewChange={setView}
           onAddEvent={handleAddEvent}
+          onDetectFreeTime={() => setShowFreeTimeDialog(true)}
+          onRegeneratePlan={handleRegeneratePlan}
+          regenerating={regenerating}
+          onShowPlanHistory={() => setShowPlanHistory(true)}
+          timeZone={timeZone}
         />
 
         <CalendarLegend />
 
+        {studyBlocks.length === 0 && getFreeStudySlots().length > 0 && (
+          <Alert>
+            <Sparkles className="h-4 w-4" />
+            <AlertTitle>Nenhum plano de estudos salvo</AlertTitle>
+            <AlertDescription>
+              Clique em "Regenerar plano" para distribuir suas matérias nos horários livres.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="overflow-x-auto">
           {view === 'day' && (
             <DayView
@@ -145,7 +377,9 @@ const Calendario = () => {
               subjects={subjects}
               studyBlocks={studyBlocks}
               onEventClick={handleEventClick}
-              onDelayStudy={markAsDelayed}
+              onDelayStudy={handleDelayStudy}
+              onCompleteStudy={setBlockToComplete}
+              timeZone={timeZone}
             />
           )}
           {view === 'week' && (
@@ -156,7 +390,9 @@ const Calendario = () => {
               studyBlocks={studyBlocks}
               onEventClick={handleEventClick}
               onDayClick={handleDayClick}
-              onDelayStudy={markAsDelayed}
+              onDelayStudy={handleDelayStudy}
+              onCompleteStudy={setBlockToComplete}
+              timeZone={timeZone}
             />
           )}
           {view === 'month' && (
@@ -167,6 +403,7 @@ const Calendario = () => {
               studyBlocks={studyBlocks}
               onEventClick={handleEventClick}
               onDayClick={handleDayClick}
+              timeZone={timeZone}
             />
           )}
           {view === 'year' && (
@@ -191,7 +428,48 @@ const Calendario = () => {
         subjects={subjects}
         onSubmit={handleSubmitEvent}
         onDelete={handleDeleteEventFromDialog}
+        onExamPrep={handleOpenExamPrep}
         defaultDate={defaultDate}
+        timeZone={timeZone}
+      />
+
+      <FreeTimeDetectionDialog
+        open={showFreeTimeDialog}
+        onOpenChange={setShowFreeTimeDialog}
+        subjects={subjects}
+        events={events}
+        onAccept={handleAcceptFreeTime}
+        timeZone={timeZone}
+      />
+
+      <PlanVersionsDialog
+        open={showPlanHistory}
+        onOpenChange={setShowPlanHistory}
+        versions={versions}
+        getVersionChanges={getVersionChanges}
+        onRestore={handleRestoreVersion}
+        timeZone={timeZone}
+      />
+
+      <ExamPrepDialog
+        open={!!examPrepDeadline}
+        onOpenChange={(open) => !open && setExamPrepDeadline(null)}
+        deadline={examPrepDeadline}
+        subjects={subjects}
+        freeSlots={getFreeStudySlots()}
+        reviewItems={reviewItems}
+        activePlan={examPrepDeadline ? getActivePlan(examPrepDeadline.id) : undefined}
+        onCreate={handleCreateExamPrep}
+        onCancel={handleCancelExamPrep}
+        timeZone={timeZone}
+      />
+
+      <CompleteStudyDialog
+        open={!!blockToComplete}
+        onOpenChange={(open) => !open && setBlockToComplete(null)}
+        block={blockToComplete}
+        reviewItems={reviewItems}
+        onConfirm={handleCompleteStudy}
       />
 
       {selectedEvent && (
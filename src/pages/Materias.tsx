@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useSubjects, Subject, CreateSubjectData } from '@/hooks/useSubjects';
 import { useProfile } from '@/hooks/useProfile';
+import { useStudyReflections } from '@/hooks/useStudyReflections';
 import MainLayout from '@/components/layout/MainLayout';
 import { Card, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -37,6 +38,7 @@ const Materias = () => {
     importFromExtraction,
     subjectsWithoutWeights 
   } = useSubjects();
+  const { getCalibration } = useStudyReflections();
   const navigate = useNavigate();
 
   const [showUpload, setShowUpload] = useState(false);
@@ -164,6 +166,7 @@ const Materias = () => {
           onEdit={handleEdit}
           onDelete={(id) => setDeleteConfirm(id)}
           onUpdateWeights={updateWeights}
+          getCalibration={getCalibration}
         />
 
         {subjects.length > 0 && (
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+import { useSubjects } from '@/hooks/useSubjects';
+import { useStudyGoals } from '@/hooks/useStudyGoals';
+import MainLayout from '@/components/layout/MainLayout';
+import { WeeklyGoalsCard } from '@/components/goals/WeeklyGoalsCard';
+import { StreakCard } from '@/components/goals/StreakCard';
+import { AchievementsCard } from '@/components/goals/AchievementsCard';
+import { GoalsDialog } from '@/components/goals/GoalsDialog';
+import { Loader2 } from 'lucide-react';
+import { getZonedDay } from '@/lib/timezone';
+
+const Metas = () => {
+  const { user, loading: authLoading } = useAuth();
+  const { timeZone } = useProfile();
+  const { subjects, loading: subjectsLoading } = useSubjects();
+  const {
+    goals,
+    weeklyProgress,
+    streak,
+    freezesLeft,
+    freezeCandidate,
+    achievements,
+    loading: goalsLoading,
+    saveGoals,
+    freezeDay
+  } = useStudyGoals();
+  const [editing, setEditing] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  if (authLoading || subjectsLoading || goalsLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-accent" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 animate-fade-in">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Metas</h1>
+          <p className="text-muted-foreground mt-1">
+            Metas da semana, sequência de estudo e conquistas
+          </p>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="lg:col-span-2">
+            <WeeklyGoalsCard progress={weeklyProgress} subjects={subjects} onEdit={() => setEditing(true)} />
+          </div>
+          <StreakCard
+            streak={streak}
+            freezesLeft={freezesLeft}
+            freezeCandidate={freezeCandidate}
+            today={getZonedDay(new Date(), timeZone)}
+            onFreeze={freezeDay}
+          />
+          <AchievementsCard achievements={achievements} />
+        </div>
+      </div>
+
+      <GoalsDialog
+        open={editing}
+        onOpenChange={setEditing}
+        goals={goals}
+        subjects={subjects}
+        onSave={saveGoals}
+      />
+    </MainLayout>
+  );
+};
+
+export default Metas;
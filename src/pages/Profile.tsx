@@ -7,11 +7,17 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { User, GraduationCap, Calendar, Save, Loader2, AlertCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { User, GraduationCap, Calendar, Save, Loader2, AlertCircle, Timer } from 'lucide-react';
+import { StudyPreferencesForm } from '@/components/study/StudyPreferencesForm';
 import { toast } from 'sonner';
 import { profileSchema } from '@/lib/validations';
+import { COMMON_TIME_ZONES, formatTimeZoneOffset, getDeviceTimeZone } from '@/lib/timezone';
 import { z } from 'zod';
 
+// Select value for "follow the device's zone" (stored as NULL)
+const DEVICE_TIME_ZONE = 'device';
+
 const Profile = () => {
   const { profile, loading, updateProfile } = useProfile();
   const { user } = useAuth();
@@ -29,6 +35,7 @@ const Profile = () => {
     enrollment_number: '',
     period_start: '',
     period_end: '',
+    timezone: DEVICE_TIME_ZONE,
   });
 
   useEffect(() => {
@@ -44,6 +51,7 @@ const Profile = () => {
         enrollment_number: profile.enrollment_number || '',
         period_start: profile.period_start || '',
         period_end: profile.period_end || '',
+        timezone: profile.timezone || DEVICE_TIME_ZONE,
       });
     }
   }, [profile, user]);
@@ -57,6 +65,15 @@ const Profile = () => {
     }
   };
 
+  const timeZoneOptions = [...new Set([...COMMON_TIME_ZONES, ...(profile?.timezone ? [profile.timezone] : [])])];
+
+  const handleTimeZoneChange = (timezone: string) => {
+    setFormData((prev) => ({ ...prev, timezone }));
+    if (errors.timezone) {
+      setErrors((prev) => ({ ...prev, timezone: '' }));
+    }
+  };
+
   const validateForm = (): boolean => {
     setErrors({});
     
@@ -66,6 +83,7 @@ const Profile = () => {
         semester: formData.semester ? parseInt(formData.semester) : null,
         period_start: formData.period_start || null,
         period_end: formData.period_end || null,
+        timezone: formData.timezone === DEVICE_TIME_ZONE ? null : formData.timezone,
       });
 
       // Additional validation: period_end must be after period_start
@@ -113,6 +131,7 @@ const Profile = () => {
       enrollment_number: formData.enrollment_number || null,
       period_start: formData.period_start || null,
       period_end: formData.period_end || null,
+      timezone: formData.timezone === DEVICE_TIME_ZONE ? null : formData.timezone,
     };
 
     const { error } = await updateProfile(updates);
@@ -165,7 +184,7 @@ const Profile = () => {
         </Card>
 
         <Tabs defaultValue="personal" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 h-12">
+          <TabsList className="grid w-full grid-cols-4 h-12">
             <TabsTrigger value="personal" className="flex items-center gap-2">
               <User className="w-4 h-4" />
               <span className="hidden sm:inline">Dados</span> Pessoais
@@ -178,6 +197,10 @@ const Profile = () => {
               <Calendar className="w-4 h-4" />
               Período
             </TabsTrigger>
+            <TabsTrigger value="study" className="flex items-center gap-2">
+              <Timer className="w-4 h-4" />
+              Estudo
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="personal" className="animate-fade-in">
@@ -242,6 +265,31 @@ const Profile = () => {
                       onChange={handleChange}
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="timezone">Fuso Horário</Label>
+                    <Select value={formData.timezone} onValueChange={handleTimeZoneChange}>
+                      <SelectTrigger id="timezone" className={errors.timezone ? 'border-destructive' : ''}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEVICE_TIME_ZONE}>
+                          Automático ({getDeviceTimeZone()}, {formatTimeZoneOffset(getDeviceTimeZone())})
+                        </SelectItem>
+                        {timeZoneOptions.map(timeZone => (
+                          <SelectItem key={timeZone} value={timeZone}>
+                            {timeZone.replace(/_/g, ' ')} ({formatTimeZoneOffset(timeZone)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {errors.timezone ? (
+                      <p className="text-xs text-destructive">{errors.timezone}</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Aulas, eventos recorrentes e o calendário seguem este fuso, inclusive no horário de verão
+                      </p>
+                    )}
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -374,6 +422,10 @@ const Profile = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="study" className="animate-fade-in">
+            <StudyPreferencesForm />
+          </TabsContent>
         </Tabs>
 
         <div className="flex justify-end mt-6">
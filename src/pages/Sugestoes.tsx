@@ -1,17 +1,22 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
 import { useSubjects } from '@/hooks/useSubjects';
 import { useCalendarEvents } from '@/hooks/useCalendarEvents';
 import MainLayout from '@/components/layout/MainLayout';
 import { StudySuggestionsPanel } from '@/components/study/StudySuggestionsPanel';
-import { Loader2 } from 'lucide-react';
+import { WhatIfSimulator } from '@/components/study/WhatIfSimulator';
+import { Button } from '@/components/ui/button';
+import { FlaskConical, Loader2 } from 'lucide-react';
 
 const Sugestoes = () => {
   const { user, loading: authLoading } = useAuth();
+  const { profile } = useProfile();
   const { subjects, loading: subjectsLoading } = useSubjects();
   const { events, loading: eventsLoading, getFreeStudySlots, getDeadlines } = useCalendarEvents();
   const navigate = useNavigate();
+  const [showSimulator, setShowSimulator] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -37,17 +42,36 @@ const Sugestoes = () => {
   return (
     <MainLayout>
       <div className="space-y-6 animate-fade-in">
-        <div>
-          <h1 className="text-2xl font-bold text-foreground">Sugestões de Estudo</h1>
-          <p className="text-muted-foreground mt-1">
-            Plano de estudos inteligente baseado em dificuldade, dedicação e urgência
-          </p>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Sugestões de Estudo</h1>
+            <p className="text-muted-foreground mt-1">
+              Plano de estudos inteligente baseado em dificuldade, dedicação e urgência
+            </p>
+          </div>
+          <Button
+            variant={showSimulator ? 'default' : 'outline'}
+            onClick={() => setShowSimulator(prev => !prev)}
+          >
+            <FlaskConical className="h-4 w-4 mr-1" />
+            {showSimulator ? 'Fechar simulação' : 'Simular cenário'}
+          </Button>
         </div>
 
+        {showSimulator && (
+          <WhatIfSimulator
+            subjects={subjects}
+            freeSlots={freeSlots}
+            deadlines={deadlines}
+            periodEnd={profile?.period_end}
+          />
+        )}
+
         <StudySuggestionsPanel
           subjects={subjects}
           freeSlots={freeSlots}
           deadlines={deadlines}
+          periodEnd={profile?.period_end}
           onNavigateToCalendar={() => navigate('/calendario')}
         />
       </div>
@@ -0,0 +1,46 @@
+-- Create study_sessions table to persist the generated study plan
+CREATE TABLE public.study_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  free_slot_id UUID REFERENCES public.calendar_events(id) ON DELETE SET NULL,
+  start_datetime TIMESTAMP WITH TIME ZONE NOT NULL,
+  end_datetime TIMESTAMP WITH TIME ZONE NOT NULL,
+  is_break BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'started', 'completed', 'skipped')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.study_sessions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own study sessions"
+  ON public.study_sessions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own study sessions"
+  ON public.study_sessions
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own study sessions"
+  ON public.study_sessions
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own study sessions"
+  ON public.study_sessions
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Index for performance
+CREATE INDEX idx_study_sessions_user_start ON public.study_sessions(user_id, start_datetime);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_study_sessions_updated_at
+BEFORE UPDATE ON public.study_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,37 @@
+-- Create study_preferences table for per-user planner parameters
+CREATE TABLE public.study_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  study_block_minutes INTEGER NOT NULL DEFAULT 50 CHECK (study_block_minutes >= 10 AND study_block_minutes <= 180),
+  break_minutes INTEGER NOT NULL DEFAULT 10 CHECK (break_minutes >= 0 AND break_minutes <= 60),
+  delay_bonus NUMERIC NOT NULL DEFAULT 2.0 CHECK (delay_bonus >= 0),
+  repeat_once_threshold NUMERIC NOT NULL DEFAULT 12 CHECK (repeat_once_threshold > 0),
+  repeat_triple_threshold NUMERIC NOT NULL DEFAULT 15 CHECK (repeat_triple_threshold > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.study_preferences ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own study preferences"
+  ON public.study_preferences
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own study preferences"
+  ON public.study_preferences
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own study preferences"
+  ON public.study_preferences
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_study_preferences_updated_at
+BEFORE UPDATE ON public.study_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,4 @@
+-- Interleaving mode: split long free slots across several subjects
+ALTER TABLE public.study_preferences
+  ADD COLUMN interleave_subjects BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN max_consecutive_blocks INTEGER NOT NULL DEFAULT 2 CHECK (max_consecutive_blocks >= 1 AND max_consecutive_blocks <= 10);
@@ -0,0 +1,3 @@
+-- Estimated study effort for deadlines, used for backward planning
+ALTER TABLE public.calendar_events
+  ADD COLUMN estimated_effort_hours NUMERIC CHECK (estimated_effort_hours IS NULL OR estimated_effort_hours > 0);
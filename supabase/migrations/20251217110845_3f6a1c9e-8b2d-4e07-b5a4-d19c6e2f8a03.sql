@@ -0,0 +1,52 @@
+-- Create review_items table for spaced-repetition (SM-2) reviews per subject topic
+CREATE TABLE public.review_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  topic TEXT NOT NULL CHECK (char_length(topic) BETWEEN 1 AND 100),
+  ease_factor NUMERIC NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+  interval_days INTEGER NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+  repetitions INTEGER NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+  next_due_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, subject_id, topic)
+);
+
+-- Enable RLS
+ALTER TABLE public.review_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own review items"
+  ON public.review_items
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own review items"
+  ON public.review_items
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own review items"
+  ON public.review_items
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own review items"
+  ON public.review_items
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Index for due-review lookups
+CREATE INDEX idx_review_items_user_due ON public.review_items(user_id, next_due_at);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_review_items_updated_at
+BEFORE UPDATE ON public.review_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link planned "Revisão" sessions to the item they review
+ALTER TABLE public.study_sessions
+  ADD COLUMN review_item_id UUID REFERENCES public.review_items(id) ON DELETE SET NULL;
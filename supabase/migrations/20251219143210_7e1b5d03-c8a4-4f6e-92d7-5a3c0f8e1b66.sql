@@ -0,0 +1,3 @@
+-- Planner decision trace (ranked candidates, score components, reason) per study session
+ALTER TABLE public.study_sessions
+  ADD COLUMN decision_trace JSONB;
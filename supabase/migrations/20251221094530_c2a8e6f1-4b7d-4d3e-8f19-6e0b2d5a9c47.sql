@@ -0,0 +1,8 @@
+-- Daily availability window and settings for automatic free-time detection
+ALTER TABLE public.study_preferences
+  ADD COLUMN availability_start TIME NOT NULL DEFAULT '08:00',
+  ADD COLUMN availability_end TIME NOT NULL DEFAULT '22:30',
+  ADD COLUMN excluded_time_ranges JSONB NOT NULL DEFAULT '[{"start": "12:00", "end": "13:00"}]'::jsonb,
+  ADD COLUMN min_free_slot_minutes INTEGER NOT NULL DEFAULT 60 CHECK (min_free_slot_minutes >= 20 AND min_free_slot_minutes <= 480),
+  ADD COLUMN free_slot_buffer_minutes INTEGER NOT NULL DEFAULT 15 CHECK (free_slot_buffer_minutes >= 0 AND free_slot_buffer_minutes <= 120),
+  ADD CONSTRAINT study_preferences_availability_window_check CHECK (availability_end > availability_start);
@@ -0,0 +1,4 @@
+-- Chronotype-aware scheduling: energy level (1-5) per hour of the day
+ALTER TABLE public.study_preferences
+  ADD COLUMN chronotype TEXT NOT NULL DEFAULT 'neutral' CHECK (chronotype IN ('neutral', 'morning', 'evening', 'custom')),
+  ADD COLUMN energy_curve JSONB CHECK (energy_curve IS NULL OR (jsonb_typeof(energy_curve) = 'array' AND jsonb_array_length(energy_curve) = 24));
@@ -0,0 +1,6 @@
+-- Editable priority formula: weight coefficients and urgency curve
+ALTER TABLE public.study_preferences
+  ADD COLUMN difficulty_coefficient NUMERIC NOT NULL DEFAULT 1 CHECK (difficulty_coefficient >= 0 AND difficulty_coefficient <= 5),
+  ADD COLUMN dedication_coefficient NUMERIC NOT NULL DEFAULT 1 CHECK (dedication_coefficient >= 0 AND dedication_coefficient <= 5),
+  ADD COLUMN urgency_curve TEXT NOT NULL DEFAULT 'step' CHECK (urgency_curve IN ('step', 'linear', 'exponential')),
+  ADD COLUMN urgency_horizon_days INTEGER NOT NULL DEFAULT 7 CHECK (urgency_horizon_days >= 2 AND urgency_horizon_days <= 60);
@@ -0,0 +1,10 @@
+-- Missed blocks: planned study sessions that ended without being started
+ALTER TABLE public.study_sessions
+  DROP CONSTRAINT study_sessions_status_check,
+  ADD CONSTRAINT study_sessions_status_check CHECK (status IN ('planned', 'started', 'completed', 'skipped', 'missed'));
+
+-- Sessions that make up for a missed or skipped one point back at it
+ALTER TABLE public.study_sessions
+  ADD COLUMN carried_from_session_id UUID REFERENCES public.study_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_study_sessions_carried_from ON public.study_sessions(carried_from_session_id);
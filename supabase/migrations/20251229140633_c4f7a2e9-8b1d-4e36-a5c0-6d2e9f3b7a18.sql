@@ -0,0 +1,4 @@
+-- Deadline kind (prova, trabalho, lista, ...) with its own urgency weight and lead time
+ALTER TABLE public.calendar_events
+  ADD COLUMN deadline_kind TEXT CHECK (deadline_kind IN ('prova', 'trabalho', 'lista', 'seminario', 'apresentacao')),
+  ADD CONSTRAINT calendar_events_deadline_kind_event_type_check CHECK (deadline_kind IS NULL OR event_type = 'deadline');
@@ -0,0 +1,9 @@
+-- Hard planner constraints: daily study cap, per-subject daily block cap and rest days
+ALTER TABLE public.study_preferences
+  ADD COLUMN max_daily_study_hours NUMERIC CHECK (max_daily_study_hours > 0 AND max_daily_study_hours <= 16),
+  ADD COLUMN max_subject_blocks_per_day INTEGER CHECK (max_subject_blocks_per_day >= 1 AND max_subject_blocks_per_day <= 12),
+  ADD COLUMN rest_days INTEGER[] NOT NULL DEFAULT '{}' CHECK (rest_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]);
+
+-- Latest time of day a study block of the subject may end
+ALTER TABLE public.subjects
+  ADD COLUMN latest_study_time TIME;
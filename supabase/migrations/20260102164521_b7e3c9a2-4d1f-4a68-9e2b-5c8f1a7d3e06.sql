@@ -0,0 +1,13 @@
+-- Keep study delays as a log: every "Não consegui" adds a row instead of
+-- extending or deleting the previous one
+ALTER TABLE public.study_delays
+  ADD COLUMN study_session_id UUID REFERENCES public.study_sessions(id) ON DELETE SET NULL,
+  ADD COLUMN scheduled_for TIMESTAMP WITH TIME ZONE;
+
+-- Clearing a delay ends it early instead of deleting it
+CREATE POLICY "Users can update their own delays"
+  ON public.study_delays
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_study_delays_user_delayed ON public.study_delays(user_id, delayed_at);
@@ -0,0 +1,31 @@
+-- Create study_plan_versions table: a snapshot of the future plan on every generation
+CREATE TABLE public.study_plan_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('regenerate', 'missed_blocks', 'restore')),
+  restored_from_version_id UUID REFERENCES public.study_plan_versions(id) ON DELETE SET NULL,
+  blocks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.study_plan_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own plan versions"
+  ON public.study_plan_versions
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own plan versions"
+  ON public.study_plan_versions
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own plan versions"
+  ON public.study_plan_versions
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Index for the version history, latest first
+CREATE INDEX idx_study_plan_versions_user_created ON public.study_plan_versions(user_id, created_at DESC);
@@ -0,0 +1,4 @@
+-- IANA time zone in which the user's classes, recurring events and calendar are
+-- shown (e.g. 'America/Sao_Paulo'); NULL follows the device's zone
+ALTER TABLE public.profiles
+  ADD COLUMN timezone TEXT CHECK (char_length(timezone) BETWEEN 1 AND 64);
@@ -0,0 +1,53 @@
+-- Create exam_prep_plans table: a revision schedule built for one prova until its date
+CREATE TABLE public.exam_prep_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  deadline_id UUID NOT NULL REFERENCES public.calendar_events(id) ON DELETE CASCADE,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  topics TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.exam_prep_plans ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own exam prep plans"
+  ON public.exam_prep_plans
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own exam prep plans"
+  ON public.exam_prep_plans
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exam prep plans"
+  ON public.exam_prep_plans
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exam prep plans"
+  ON public.exam_prep_plans
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- At most one active preparation per deadline
+CREATE UNIQUE INDEX idx_exam_prep_plans_active_deadline
+  ON public.exam_prep_plans(deadline_id)
+  WHERE status = 'active';
+
+-- Trigger for updated_at
+CREATE TRIGGER update_exam_prep_plans_updated_at
+BEFORE UPDATE ON public.exam_prep_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Study sessions of a preparation are kept by plan regeneration and cancelled with it
+ALTER TABLE public.study_sessions
+  ADD COLUMN exam_prep_plan_id UUID REFERENCES public.exam_prep_plans(id) ON DELETE CASCADE,
+  ADD COLUMN prep_topic TEXT CHECK (char_length(prep_topic) <= 200);
+
+CREATE INDEX idx_study_sessions_exam_prep_plan ON public.study_sessions(exam_prep_plan_id);
@@ -0,0 +1,50 @@
+-- Create study_session_logs table: actual study time of every timed session
+CREATE TABLE public.study_session_logs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  study_session_id UUID REFERENCES public.study_sessions(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'started' CHECK (status IN ('started', 'paused', 'completed')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Start of the running stretch; NULL while paused or once completed
+  resumed_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  -- Minutes of the stretches that already ended
+  actual_minutes NUMERIC(6,1) NOT NULL DEFAULT 0 CHECK (actual_minutes >= 0),
+  planned_minutes INTEGER NOT NULL CHECK (planned_minutes > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.study_session_logs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own study session logs"
+  ON public.study_session_logs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own study session logs"
+  ON public.study_session_logs
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own study session logs"
+  ON public.study_session_logs
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own study session logs"
+  ON public.study_session_logs
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Index for the study time history
+CREATE INDEX idx_study_session_logs_user_started ON public.study_session_logs(user_id, started_at);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_study_session_logs_updated_at
+BEFORE UPDATE ON public.study_session_logs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,34 @@
+-- Create study_reflections table: self-assessment after a study block
+CREATE TABLE public.study_reflections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  subject_id UUID NOT NULL REFERENCES public.subjects(id) ON DELETE CASCADE,
+  study_session_id UUID REFERENCES public.study_sessions(id) ON DELETE SET NULL,
+  -- Self-rated understanding, 1 (lost) to 5 (mastered)
+  understanding INTEGER NOT NULL CHECK (understanding BETWEEN 1 AND 5),
+  topics TEXT[] NOT NULL DEFAULT '{}',
+  note TEXT CHECK (char_length(note) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.study_reflections ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own study reflections"
+  ON public.study_reflections
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own study reflections"
+  ON public.study_reflections
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own study reflections"
+  ON public.study_reflections
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Index for the calibration history of a subject
+CREATE INDEX idx_study_reflections_user_subject ON public.study_reflections(user_id, subject_id, created_at);
@@ -0,0 +1,80 @@
+-- Create study_goals table: weekly study targets per user
+CREATE TABLE public.study_goals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  weekly_hours NUMERIC CHECK (weekly_hours > 0 AND weekly_hours <= 168),
+  -- Minimum weekly hours per subject: { "<subject id>": hours }
+  subject_hours JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Create streak_freezes table: days that keep a study streak alive without study
+CREATE TABLE public.streak_freezes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  day DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, day)
+);
+
+-- Create achievements table: milestones a user unlocked
+CREATE TABLE public.achievements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  achievement_key TEXT NOT NULL,
+  unlocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, achievement_key)
+);
+
+-- Enable RLS
+ALTER TABLE public.study_goals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.streak_freezes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.achievements ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view their own study goals"
+  ON public.study_goals
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own study goals"
+  ON public.study_goals
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own study goals"
+  ON public.study_goals
+  FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own streak freezes"
+  ON public.streak_freezes
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own streak freezes"
+  ON public.streak_freezes
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own streak freezes"
+  ON public.streak_freezes
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own achievements"
+  ON public.achievements
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own achievements"
+  ON public.achievements
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_study_goals_updated_at
+BEFORE UPDATE ON public.study_goals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -50,6 +50,10 @@ export default {
           DEFAULT: "hsl(var(--warning))",
           foreground: "hsl(var(--warning-foreground))",
         },
+        "exam-prep": {
+          DEFAULT: "hsl(var(--exam-prep))",
+          foreground: "hsl(var(--exam-prep-foreground))",
+        },
         popover: {
           DEFAULT: "hsl(var(--popover))",
           foreground: "hsl(var(--popover-foreground))",